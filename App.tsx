@@ -1,13 +1,34 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { generateRCMAnalysis, extractOperationalContext } from './services/geminiService';
-import { getAllStudies, saveStudyToDB, deleteStudyFromDB, getAllFolders, saveFolderToDB, deleteFolderFromDB } from './services/db';
-import { RCMItem, FileData, SavedStudy, Folder } from './types';
+import { getLibraryEntries, getAllStudies, saveStudyToDB, deleteStudyFromDB, getAllFolders, saveFolderToDB, deleteFolderFromDB, getStudyRevisions, saveRevisionToDB, deleteStudyRevisions } from './services/db';
+import { createRevision, hasChangedSince } from './services/revisions';
+import { DEFAULT_WORKFLOW, WorkflowTransition, applyTransition, enforceApprovalLocks, normalizeWorkflow, saveReviewerName, workflowStateLabel } from './services/workflow';
+import { getLLMSettings, saveLLMSettings, LLMSettings } from './services/llmProvider';
+import { applyDecisionLogic, evaluateDecision } from './services/decisionLogic';
+import { applyRuleValidation, normalizeValidationIssues } from './services/ruleValidator';
+import { migrateIntervals } from './services/intervals';
+import { normalizeTaxonomy } from './services/iso14224';
+import { normalizeComments } from './services/comments';
+import { seedEntriesForContext } from './services/library';
+import { acceptProposal, instantiateTemplate, proposeTemplateUpdate, rejectProposal } from './services/templates';
+import { DEFAULT_RISK_SCHEME, applyRiskScheme, normalizeRiskScheme, rescaleItems } from './services/riskScheme';
+import { applyResidualRisk } from './services/residualRisk';
+import { linkAssetHierarchy, syncAssetNames } from './services/assetHierarchy';
+import { linkWorksheet } from './services/worksheet';
+import { RCMItem, FileData, SavedStudy, Folder, DecisionAnswers, RiskScheme, AssetNode, StudyFunction, RevisionReason, StudyRevision, StudyWorkflow, TemplateLink } from './types';
 import { AnalysisResult } from './components/AnalysisResult';
 import { Sidebar } from './components/Sidebar';
 import { SODReference } from './components/SODReference';
 import { OperationalContextBuilder } from './components/OperationalContextBuilder';
 import { AICopilot } from './components/AICopilot';
 import { DecisionLogicModal } from './components/DecisionLogicModal';
+import { RiskSchemeModal } from './components/RiskSchemeModal';
+import { AssetRegisterModal } from './components/AssetRegisterModal';
+import { RevisionHistoryModal } from './components/RevisionHistoryModal';
+import { GlobalSearchModal } from './components/GlobalSearchModal';
+import { FleetTemplateModal } from './components/FleetTemplateModal';
+import { LegacyImportModal } from './components/LegacyImportModal';
+import { WorkflowModal } from './components/WorkflowModal';
 import { WelcomeModal } from './components/WelcomeModal';
 import { 
   Cpu, 
@@ -24,6 +45,11 @@ import {
   BookOpen,
   Sparkles,
   GitBranch,
+  GitFork,
+  Grid3x3,
+  Network,
+  History,
+  ClipboardCheck,
   Undo2,
   PlusCircle,
   FileSearch,
@@ -50,7 +76,14 @@ const App: React.FC = () => {
   const [results, setResults] = useState<RCMItem[] | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isMerging, setIsMerging] = useState(false);
+  const [useLibrarySeeds, setUseLibrarySeeds] = useState(true);
   const [selectedLanguage, setSelectedLanguage] = useState('English');
+  const [riskScheme, setRiskScheme] = useState<RiskScheme>(DEFAULT_RISK_SCHEME);
+  const [assetHierarchy, setAssetHierarchy] = useState<AssetNode[]>([]);
+  const [studyFunctions, setStudyFunctions] = useState<StudyFunction[]>([]);
+  const [workflow, setWorkflow] = useState<StudyWorkflow>(DEFAULT_WORKFLOW);
+  const [isGeneric, setIsGeneric] = useState(false);
+  const [templateLink, setTemplateLink] = useState<TemplateLink | undefined>(undefined);
 
   // Undo System State
   const [history, setHistory] = useState<RCMItem[][]>([]);
@@ -64,11 +97,21 @@ const App: React.FC = () => {
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [justSaved, setJustSaved] = useState(false);
   const [hasApiKey, setHasApiKey] = useState(false);
+  const [llmSettings, setLLMSettings] = useState<LLMSettings>(getLLMSettings());
   
   // Reference, Builder & Logic Modal State
   const [showSODReference, setShowSODReference] = useState(false);
+  const [showRiskScheme, setShowRiskScheme] = useState(false);
+  const [showAssetRegister, setShowAssetRegister] = useState(false);
+  const [showRevisions, setShowRevisions] = useState(false);
+  const [showWorkflow, setShowWorkflow] = useState(false);
+  const [showGlobalSearch, setShowGlobalSearch] = useState(false);
+  const [showWorksheetImport, setShowWorksheetImport] = useState(false);
+  const [showFleetTemplate, setShowFleetTemplate] = useState(false);
+  const [focusRequest, setFocusRequest] = useState<{ itemId: string; nonce: number } | null>(null);
   const [showContextBuilder, setShowContextBuilder] = useState(false);
   const [showDecisionLogic, setShowDecisionLogic] = useState(false);
+  const [decisionItemId, setDecisionItemId] = useState<string | null>(null);
   const [showWelcome, setShowWelcome] = useState(true);
 
   // Auto-save refs to avoid stale closures in interval
@@ -80,6 +123,12 @@ const App: React.FC = () => {
   const savedStudiesRef = useRef(savedStudies);
   const isFinishedRef = useRef(isFinished);
   const selectedLanguageRef = useRef(selectedLanguage);
+  const riskSchemeRef = useRef(riskScheme);
+  const assetHierarchyRef = useRef(assetHierarchy);
+  const studyFunctionsRef = useRef(studyFunctions);
+  const workflowRef = useRef(workflow);
+  const isGenericRef = useRef(isGeneric);
+  const templateLinkRef = useRef(templateLink);
 
   useEffect(() => {
     resultsRef.current = results;
@@ -90,7 +139,13 @@ const App: React.FC = () => {
     savedStudiesRef.current = savedStudies;
     isFinishedRef.current = isFinished;
     selectedLanguageRef.current = selectedLanguage;
-  }, [results, contextText, filesData, studyName, currentStudyId, savedStudies, isFinished, selectedLanguage]);
+    riskSchemeRef.current = riskScheme;
+    assetHierarchyRef.current = assetHierarchy;
+    studyFunctionsRef.current = studyFunctions;
+    workflowRef.current = workflow;
+    isGenericRef.current = isGeneric;
+    templateLinkRef.current = templateLink;
+  }, [results, contextText, filesData, studyName, currentStudyId, savedStudies, isFinished, selectedLanguage, riskScheme, assetHierarchy, studyFunctions, workflow, isGeneric, templateLink]);
 
   // Load studies on initialization
   useEffect(() => {
@@ -143,6 +198,11 @@ const App: React.FC = () => {
     return () => clearInterval(autoSaveInterval);
   }, []);
 
+  const handleLLMSettingsChange = (settings: LLMSettings) => {
+    saveLLMSettings(settings);
+    setLLMSettings(settings);
+  };
+
   const handleCloseWelcome = () => {
     setShowWelcome(false);
   };
@@ -209,6 +269,16 @@ const App: React.FC = () => {
     }
   };
 
+  // Every item set is linked to its worksheet records and asset node before it is stored;
+  // new functions, functional failures and components get records of their own
+  const linkRecords = (items: RCMItem[], nodes: AssetNode[] = assetHierarchy, functions: StudyFunction[] = studyFunctions): RCMItem[] => {
+    const worksheet = linkWorksheet(items, functions);
+    const assets = linkAssetHierarchy(worksheet.items, nodes);
+    setStudyFunctions(worksheet.functions);
+    setAssetHierarchy(assets.nodes);
+    return assets.items;
+  };
+
   const handleGenerate = async () => {
     if (!contextText && filesData.length === 0) {
       setError("Please provide operational context text or upload at least one technical file.");
@@ -217,6 +287,7 @@ const App: React.FC = () => {
 
     setIsLoading(true);
     setError(null);
+    if (results) await handleCheckpoint(isMerging ? 'Before merging AI insights' : 'Before regenerating analysis');
     
     if (!isMerging) {
       setResults(null);
@@ -224,12 +295,14 @@ const App: React.FC = () => {
     }
     
     try {
-      const data = await generateRCMAnalysis(contextText, filesData.length > 0 ? filesData : null, selectedLanguage, isMerging ? (results || []) : []);
+      const seeds = useLibrarySeeds ? seedEntriesForContext(await getLibraryEntries(), contextText) : [];
+      const data = await generateRCMAnalysis(contextText, filesData.length > 0 ? filesData : null, selectedLanguage, isMerging ? (results || []) : [], riskScheme, seeds);
       
       if (isMerging && results) {
-        setResults([...results.map(item => ({ ...item, isNew: false })), ...data]);
+        commitResults([...results.map(item => ({ ...item, isNew: false })), ...data], results);
       } else {
-        setResults(data);
+        // Approved items survive a regeneration; they are put back by the approval locks
+        commitResults(data, results);
       }
       
     } catch (err: any) {
@@ -243,8 +316,8 @@ const App: React.FC = () => {
     setFilesData([]);
   };
 
-  // Global Save Function
-  const handleSaveStudy = async (isAutoSave: boolean = false) => {
+  // Current workspace as a study record, read from refs so the auto-save interval sees fresh state
+  const buildStudy = (isAutoSave: boolean): SavedStudy | null => {
     const currentResults = resultsRef.current;
     const currentContext = contextTextRef.current;
     const currentFiles = filesDataRef.current;
@@ -253,8 +326,14 @@ const App: React.FC = () => {
     const currentFinished = isFinishedRef.current;
     const studies = savedStudiesRef.current;
     const currentLang = selectedLanguageRef.current;
+    const currentRiskScheme = riskSchemeRef.current;
+    const currentAssetHierarchy = assetHierarchyRef.current;
+    const currentFunctions = studyFunctionsRef.current;
+    const currentWorkflow = workflowRef.current;
+    const currentIsGeneric = isGenericRef.current;
+    const currentTemplateLink = templateLinkRef.current;
 
-    if (!currentResults && !currentContext && currentFiles.length === 0) return;
+    if (!currentResults && !currentContext && currentFiles.length === 0) return null;
 
     const nameToSave = currentName.trim() || "Untitled Analysis";
     const idToSave = currentId || `study-${Date.now()}`;
@@ -262,7 +341,7 @@ const App: React.FC = () => {
     const existingStudy = studies.find(s => s.id === idToSave);
     const timestampToUse = (isAutoSave && existingStudy) ? existingStudy.timestamp : Date.now();
 
-    const newStudy: SavedStudy = {
+    return {
       id: idToSave,
       name: nameToSave,
       timestamp: timestampToUse,
@@ -271,15 +350,55 @@ const App: React.FC = () => {
       language: currentLang,
       fileName: currentFiles.length > 0 ? `${currentFiles.length} files` : undefined,
       folderId: existingStudy?.folderId,
-      isFinished: currentFinished
+      isFinished: currentFinished,
+      riskScheme: currentRiskScheme,
+      assetHierarchy: currentAssetHierarchy,
+      functions: currentFunctions,
+      workflow: currentWorkflow,
+      isGeneric: currentIsGeneric || undefined,
+      template: currentTemplateLink
     };
+  };
+
+  // Keeps a named revision unless nothing has changed since the latest one
+  const recordRevision = async (study: SavedStudy, reason: RevisionReason, label?: string) => {
+    try {
+      const [latest] = await getStudyRevisions(study.id);
+      if (hasChangedSince(study, latest)) await saveRevisionToDB(createRevision(study, reason, label));
+    } catch (e) {
+      console.error("Revision failed", e);
+    }
+  };
+
+  // Snapshot taken before AI operations that rewrite many items; unsaved studies have no history yet
+  const handleCheckpoint = async (label: string) => {
+    const study = currentStudyIdRef.current ? buildStudy(true) : null;
+    if (study) await recordRevision(study, 'before-ai', label);
+  };
+
+  // A revision the analyst names, e.g. a review milestone; taken from the workspace as it stands
+  const handleSaveNamedRevision = async (name: string) => {
+    const study = currentStudyIdRef.current ? buildStudy(true) : null;
+    if (!study) return;
+    try {
+      await saveRevisionToDB(createRevision(study, 'named', name));
+    } catch (e) {
+      console.error("Revision failed", e);
+    }
+  };
+
+  // Global Save Function
+  const handleSaveStudy = async (isAutoSave: boolean = false) => {
+    const newStudy = buildStudy(isAutoSave);
+    if (!newStudy) return;
 
     try {
       await saveStudyToDB(newStudy);
+      if (!isAutoSave) await recordRevision(newStudy, 'manual-save');
       const freshStudies = await getAllStudies();
       setSavedStudies(freshStudies);
-      if (!currentId) {
-        setCurrentStudyId(idToSave);
+      if (!currentStudyIdRef.current) {
+        setCurrentStudyId(newStudy.id);
       }
       
       setJustSaved(true);
@@ -294,6 +413,7 @@ const App: React.FC = () => {
   const handleDeleteStudy = async (id: string) => {
     try {
       await deleteStudyFromDB(id);
+      await deleteStudyRevisions(id);
       const freshStudies = await getAllStudies();
       setSavedStudies(freshStudies);
       if (currentStudyId === id) {
@@ -313,7 +433,8 @@ const App: React.FC = () => {
       name: `${study.name} (Copy)`,
       timestamp: Date.now(),
       folderId: undefined,
-      isFinished: false
+      isFinished: false,
+      workflow: DEFAULT_WORKFLOW
     };
 
     try {
@@ -328,12 +449,17 @@ const App: React.FC = () => {
   };
 
   const handleLoadStudy = (study: SavedStudy) => {
-    setResults(study.items.map(item => ({ ...item, isNew: false })));
+    const scheme = normalizeRiskScheme(study.riskScheme);
+    setRiskScheme(scheme);
+    setResults(applyRuleValidation(applyDecisionLogic(applyResidualRisk(applyRiskScheme(normalizeComments(normalizeValidationIssues(normalizeTaxonomy(migrateIntervals(linkRecords(study.items.map(item => ({ ...item, isNew: false })), study.assetHierarchy || [], study.functions || []))))), scheme), scheme))));
     setHistory([]);
     setContextText(study.contextText);
     setCurrentStudyId(study.id);
     setStudyName(study.name);
     setIsFinished(!!study.isFinished);
+    setWorkflow(normalizeWorkflow(study.workflow));
+    setIsGeneric(!!study.isGeneric);
+    setTemplateLink(study.template);
     setSelectedLanguage(study.language || 'English');
     setFilesData([]);
     if (window.innerWidth < 768) {
@@ -341,6 +467,15 @@ const App: React.FC = () => {
     }
   };
 
+  // Opens a global search result: loads the study unless it is already open, then points the table at the item
+  const handleOpenSearchResult = (studyId: string, itemId?: string) => {
+    const study = savedStudies.find(s => s.id === studyId);
+    if (!study) return;
+    if (study.id !== currentStudyId) handleLoadStudy(study);
+    setFocusRequest(itemId ? { itemId, nonce: Date.now() } : null);
+    setShowGlobalSearch(false);
+  };
+
   const handleNewStudy = () => {
     setResults(null);
     setHistory([]);
@@ -349,25 +484,164 @@ const App: React.FC = () => {
     setCurrentStudyId(null);
     setStudyName("Untitled Analysis");
     setIsFinished(false);
+    setWorkflow(DEFAULT_WORKFLOW);
+    setIsGeneric(false);
+    setTemplateLink(undefined);
     setSelectedLanguage('English');
+    setRiskScheme(DEFAULT_RISK_SCHEME);
+    setAssetHierarchy([]);
+    setStudyFunctions([]);
     setError(null);
     if (window.innerWidth < 768) {
       setIsSidebarOpen(false);
     }
   };
 
-  const handleResultsUpdate = (newData: RCMItem[]) => {
+  // Every change to the open study's items goes through here, so approval locks hold whatever the source;
+  // loading, restoring and starting a study replace the workspace instead
+  const commitResults = (next: RCMItem[], previous: RCMItem[] | null = results, nodes: AssetNode[] = assetHierarchy, scheme: RiskScheme = riskScheme) => {
+    setResults(applyRuleValidation(applyDecisionLogic(applyResidualRisk(applyRiskScheme(linkRecords(enforceApprovalLocks(previous || [], next), nodes), scheme), scheme))));
+  };
+
+  const handleResultsUpdate = (newData: RCMItem[], nodes: AssetNode[] = assetHierarchy) => {
     if (results) {
       setHistory(prev => [...prev.slice(-29), results]);
     }
-    setResults(newData);
+    commitResults(newData, results, nodes);
+  };
+
+  // Sign-offs are persisted straight away; issuing marks the study finished and records a revision
+  const handleWorkflowTransition = async (transition: WorkflowTransition, name: string, comment: string) => {
+    saveReviewerName(name);
+    const next = applyTransition(workflowRef.current, transition, name, comment);
+    const finished = transition.to === 'issued' ? true : transition.from === 'issued' ? false : isFinishedRef.current;
+    setWorkflow(next);
+    setIsFinished(finished);
+    workflowRef.current = next;
+    isFinishedRef.current = finished;
+    if (currentStudyIdRef.current) {
+      await handleSaveStudy(true);
+      const study = buildStudy(true);
+      if (study && transition.to === 'issued') await recordRevision(study, 'finished', `Issued by ${name.trim()}`);
+    }
+  };
+
+  // Fleet templates: the open study is saved before instances are created from it or proposals are made
+  const handleSetGeneric = async (value: boolean) => {
+    setIsGeneric(value);
+    isGenericRef.current = value;
+    await handleSaveStudy(true);
+  };
+
+  const handleCreateInstance = async (name: string) => {
+    const template = buildStudy(true);
+    if (!template) return;
+    try {
+      await saveStudyToDB(template);
+      await saveStudyToDB({ ...instantiateTemplate(template, name), folderId: template.folderId });
+      setSavedStudies(await getAllStudies());
+    } catch (e) {
+      console.error("Instantiation failed", e);
+      setError("Failed to create the instance.");
+    }
+  };
+
+  const handleProposeTemplate = async (): Promise<number> => {
+    const template = buildStudy(true);
+    if (!template) return 0;
+    await saveStudyToDB(template);
+    const proposals = (await getAllStudies())
+      .map(study => proposeTemplateUpdate(study, template))
+      .filter((study): study is SavedStudy => !!study);
+    for (const study of proposals) await saveStudyToDB(study);
+    setSavedStudies(await getAllStudies());
+    return proposals.length;
+  };
+
+  const handleReviewProposal = async (instanceId: string, decision: 'accept' | 'reject') => {
+    const isOpen = instanceId === currentStudyIdRef.current;
+    const instance = isOpen ? buildStudy(true) : savedStudies.find(s => s.id === instanceId);
+    if (!instance) return;
+    const updated = decision === 'accept' ? acceptProposal(instance) : rejectProposal(instance);
+    try {
+      if (isOpen && decision === 'accept') await recordRevision(instance, 'before-template-update');
+      await saveStudyToDB(updated);
+      setSavedStudies(await getAllStudies());
+      if (isOpen) handleLoadStudy(updated);
+    } catch (e) {
+      console.error("Template review failed", e);
+      setError("Failed to apply the template review.");
+    }
+  };
+
+  const handleOpenFleetStudy = (studyId: string) => {
+    const study = savedStudies.find(s => s.id === studyId);
+    if (!study) return;
+    handleLoadStudy(study);
+    setShowFleetTemplate(false);
+  };
+
+  // Renames in the register flow back into item.component; removed nodes have already re-homed their items
+  const handleAssetRegisterApply = (nodes: AssetNode[], items: RCMItem[]) => {
+    if (results) {
+      handleResultsUpdate(syncAssetNames(items, nodes), nodes);
+    } else {
+      setAssetHierarchy(nodes);
+    }
+    setShowAssetRegister(false);
+  };
+
+  // A new scheme re-rates every item; scores are rescaled first when the scale ranges differ.
+  // Earlier undo states were scored on the old scales, so history starts over.
+  // Approved items are locked, so their scores cannot be rescaled: new scale ranges wait until they are reopened.
+  const handleRiskSchemeChange = (scheme: RiskScheme) => {
+    if (results) {
+      const rescaled = rescaleItems(results, riskScheme, scheme);
+      const approved = results.filter(item => item?.isApproved).length;
+      if (rescaled !== results && approved > 0) {
+        setError(`${approved} approved failure modes would be rescaled. Reopen them before changing the scale ranges.`);
+        setShowRiskScheme(false);
+        return;
+      }
+      setHistory([]);
+      commitResults(rescaled, results, assetHierarchy, scheme);
+    }
+    setRiskScheme(scheme);
+    setShowRiskScheme(false);
+  };
+
+  const handleShowDecisionPath = (item: RCMItem) => {
+    setDecisionItemId(item.id);
+    setShowDecisionLogic(true);
+  };
+
+  const handleDecisionAnswerChange = (itemId: string, answers: Partial<DecisionAnswers>) => {
+    if (!results) return;
+    handleResultsUpdate(results.map(item => item.id === itemId ? { ...item, decision: evaluateDecision(item, answers) } : item));
+  };
+
+  // The current state is kept as a revision first, so a restore can itself be undone
+  const handleRestoreRevision = async (revision: StudyRevision) => {
+    const current = buildStudy(true);
+    if (current) await recordRevision(current, 'before-restore', `Before restoring "${revision.label}"`);
+    const existing = savedStudies.find(s => s.id === revision.studyId);
+    const restored: SavedStudy = { ...revision.snapshot, id: revision.studyId, folderId: existing?.folderId, timestamp: Date.now() };
+    try {
+      await saveStudyToDB(restored);
+      setSavedStudies(await getAllStudies());
+      handleLoadStudy(restored);
+      setShowRevisions(false);
+    } catch (e) {
+      console.error("Restore failed", e);
+      setError("Failed to restore revision.");
+    }
   };
 
   const handleUndo = () => {
     if (history.length === 0) return;
     const lastState = history[history.length - 1];
     setHistory(prev => prev.slice(0, -1));
-    setResults(lastState);
+    commitResults(lastState);
   };
 
   // Folder Actions
@@ -435,27 +709,18 @@ const App: React.FC = () => {
     }
   };
 
-  const handleToggleStudyFinished = async (studyId: string) => {
+  // A study is finished by issuing it, and unfinished by reopening it, through the review workflow
+  const handleToggleStudyFinished = (studyId: string) => {
     const study = savedStudies.find(s => s.id === studyId);
     if (!study) return;
-    
-    const nextStatus = !study.isFinished;
-    
-    try {
-      await saveStudyToDB({ ...study, isFinished: nextStatus });
-      const freshStudies = await getAllStudies();
-      setSavedStudies(freshStudies);
-      
-      if (currentStudyId === studyId) {
-        setIsFinished(nextStatus);
-      }
-    } catch (e) {
-      console.error("Toggle finished failed", e);
-    }
+    if (study.id !== currentStudyId) handleLoadStudy(study);
+    setShowWorkflow(true);
   };
 
   // Export/Import Logic
-  const handleExportStudy = (study: SavedStudy) => {
+  const handleExportStudy = (saved: SavedStudy) => {
+    // The open study is exported from the workspace so unsaved comment threads go along
+    const study = (saved.id === currentStudyId && buildStudy(true)) || saved;
     const dataStr = JSON.stringify(study, null, 2);
     const blob = new Blob([dataStr], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
@@ -548,10 +813,62 @@ const App: React.FC = () => {
     reader.readAsText(file);
   };
 
+  // Rows from a legacy FMEA worksheet, already previewed; appended to the open study or saved as a new one
+  const handleImportWorksheet = async (items: RCMItem[], name: string | null) => {
+    setShowWorksheetImport(false);
+    if (name === null) {
+      handleResultsUpdate([...(results || []), ...items]);
+      return;
+    }
+
+    // A worksheet brings no context or files. The study keeps the scheme the rows were scored on and
+    // is saved with its worksheet records and asset register already built, as a saved study would be.
+    const worksheet = linkWorksheet(items, []);
+    const assets = linkAssetHierarchy(worksheet.items, []);
+    const study: SavedStudy = {
+      id: `study-imported-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`,
+      name,
+      timestamp: Date.now(),
+      items: assets.items,
+      contextText: '',
+      language: selectedLanguage,
+      riskScheme,
+      assetHierarchy: assets.nodes,
+      functions: worksheet.functions,
+      workflow: DEFAULT_WORKFLOW
+    };
+    try {
+      await saveStudyToDB(study);
+      await recordRevision(study, 'manual-save', 'Imported from worksheet');
+      setSavedStudies(await getAllStudies());
+      handleLoadStudy(study);
+    } catch (err) {
+      console.error("Worksheet import failed", err);
+      setError("Failed to save the imported worksheet.");
+    }
+  };
+
   return (
     <div className="flex h-screen bg-slate-50 overflow-hidden">
       <WelcomeModal isOpen={showWelcome} onClose={handleCloseWelcome} />
-      <SODReference isOpen={showSODReference} onClose={() => setShowSODReference(false)} onUndo={handleUndo} canUndo={history.length > 0} />
+      <SODReference isOpen={showSODReference} onClose={() => setShowSODReference(false)} onUndo={handleUndo} canUndo={history.length > 0} scheme={riskScheme} />
+      <RiskSchemeModal isOpen={showRiskScheme} onClose={() => setShowRiskScheme(false)} scheme={riskScheme} onApply={handleRiskSchemeChange} />
+      <AssetRegisterModal isOpen={showAssetRegister} onClose={() => setShowAssetRegister(false)} nodes={assetHierarchy} items={results || []} onApply={handleAssetRegisterApply} />
+      <RevisionHistoryModal isOpen={showRevisions} onClose={() => setShowRevisions(false)} studyId={currentStudyId} currentItems={results || []} onRestore={handleRestoreRevision} onSaveNamed={handleSaveNamedRevision} />
+      <GlobalSearchModal isOpen={showGlobalSearch} onClose={() => setShowGlobalSearch(false)} onOpenResult={handleOpenSearchResult} />
+      <LegacyImportModal isOpen={showWorksheetImport} onClose={() => setShowWorksheetImport(false)} riskScheme={riskScheme} canAppend={!!results} onImport={handleImportWorksheet} />
+      <FleetTemplateModal
+        isOpen={showFleetTemplate}
+        onClose={() => setShowFleetTemplate(false)}
+        study={showFleetTemplate && currentStudyId ? (() => { const study = buildStudy(true); return study && { ...study, isGeneric, template: templateLink }; })() : null}
+        studies={savedStudies}
+        onSetGeneric={handleSetGeneric}
+        onCreateInstance={handleCreateInstance}
+        onPropose={handleProposeTemplate}
+        onReview={handleReviewProposal}
+        onOpenStudy={handleOpenFleetStudy}
+      />
+      <WorkflowModal isOpen={showWorkflow} onClose={() => setShowWorkflow(false)} workflow={workflow} items={results || []} onTransition={handleWorkflowTransition} />
       <OperationalContextBuilder 
         isOpen={showContextBuilder} 
         onClose={() => setShowContextBuilder(false)} 
@@ -560,8 +877,15 @@ const App: React.FC = () => {
         canUndo={history.length > 0}
         language={selectedLanguage}
       />
-      <DecisionLogicModal isOpen={showDecisionLogic} onClose={() => setShowDecisionLogic(false)} onUndo={handleUndo} canUndo={history.length > 0} />
-      <AICopilot data={results} onUpdate={handleResultsUpdate} language={selectedLanguage} />
+      <DecisionLogicModal 
+        isOpen={showDecisionLogic} 
+        onClose={() => { setShowDecisionLogic(false); setDecisionItemId(null); }} 
+        onUndo={handleUndo} 
+        canUndo={history.length > 0} 
+        item={results?.find(item => item.id === decisionItemId) || null}
+        onAnswerChange={handleDecisionAnswerChange}
+      />
+      <AICopilot data={results} onUpdate={handleResultsUpdate} onCheckpoint={handleCheckpoint} language={selectedLanguage} riskScheme={riskScheme} />
 
       {isSidebarOpen && <div className="fixed inset-0 bg-black/50 z-40 md:hidden animate-fade-in" onClick={() => setIsSidebarOpen(false)} />}
 
@@ -581,10 +905,14 @@ const App: React.FC = () => {
           onExport={handleExportStudy}
           onExportFolder={handleExportFolder}
           onImport={handleImportStudy}
+          onOpenSearch={() => setShowGlobalSearch(true)}
+          onImportWorksheet={() => setShowWorksheetImport(true)}
           onToggleFinished={handleToggleStudyFinished}
           selectedLanguage={selectedLanguage}
           onLanguageChange={setSelectedLanguage}
           languages={LANGUAGES}
+          llmSettings={llmSettings}
+          onLLMSettingsChange={handleLLMSettingsChange}
         />
       </div>
 
@@ -600,6 +928,12 @@ const App: React.FC = () => {
               <div className="flex flex-col min-w-0">
                  <div className="flex items-center gap-2">
                    <input type="text" value={studyName} onChange={(e) => setStudyName(e.target.value)} placeholder="Untitled Analysis" className="text-lg font-black text-slate-800 bg-transparent border-b-2 border-transparent hover:border-slate-200 focus:border-indigo-500 focus:outline-none transition-all w-full sm:w-80 truncate" />
+                   {workflow.state !== 'draft' && (
+                     <div className="flex items-center gap-1.5 px-2 py-0.5 bg-indigo-50 text-indigo-600 border border-indigo-100 rounded-md">
+                        <ClipboardCheck size={12} />
+                        <span className="text-[9px] font-black uppercase tracking-widest">{workflowStateLabel(workflow.state)}</span>
+                     </div>
+                   )}
                    {isFinished && (
                      <div className="flex items-center gap-1.5 px-2 py-0.5 bg-emerald-50 text-emerald-600 border border-emerald-100 rounded-md animate-in zoom-in-95">
                         <CheckCircle2 size={12} fill="currentColor" className="fill-emerald-600/20" />
@@ -611,14 +945,25 @@ const App: React.FC = () => {
               </div>
             </div>
             <div className="flex items-center gap-3">
-              <button 
-                onClick={handleSelectApiKey}
-                className={`flex items-center gap-2 px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-colors ${!hasApiKey ? 'bg-amber-100 text-amber-700 hover:bg-amber-200 animate-pulse' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}
-              >
-                <Sparkles size={14} /> {!hasApiKey ? "Connect Paid Tier" : "Update API Key"}
-              </button>
+              {llmSettings.provider === 'gemini' ? (
+                <button 
+                  onClick={handleSelectApiKey}
+                  className={`flex items-center gap-2 px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-colors ${!hasApiKey ? 'bg-amber-100 text-amber-700 hover:bg-amber-200 animate-pulse' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}
+                >
+                  <Sparkles size={14} /> {!hasApiKey ? "Connect Paid Tier" : "Update API Key"}
+                </button>
+              ) : (
+                <span className="flex items-center gap-2 px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest bg-slate-100 text-slate-500">
+                  <Sparkles size={14} /> {llmSettings.provider === 'mock' ? "Offline Mock" : llmSettings.model}
+                </span>
+              )}
               <div className="hidden lg:flex items-center gap-2 pr-3 mr-1">
                 <button onClick={() => setShowSODReference(true)} className="flex items-center gap-2 px-3 py-2 text-slate-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-xl transition-all font-bold text-xs uppercase tracking-tight"><BookOpen size={16} />S/O/D Guide</button>
+                <button onClick={() => setShowRiskScheme(true)} className="flex items-center gap-2 px-3 py-2 text-slate-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-xl transition-all font-bold text-xs uppercase tracking-tight"><Grid3x3 size={16} />Risk Scheme</button>
+                <button onClick={() => setShowAssetRegister(true)} className="flex items-center gap-2 px-3 py-2 text-slate-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-xl transition-all font-bold text-xs uppercase tracking-tight"><Network size={16} />Assets</button>
+                <button onClick={() => setShowRevisions(true)} className="flex items-center gap-2 px-3 py-2 text-slate-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-xl transition-all font-bold text-xs uppercase tracking-tight"><History size={16} />History</button>
+                <button onClick={() => setShowWorkflow(true)} className="flex items-center gap-2 px-3 py-2 text-slate-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-xl transition-all font-bold text-xs uppercase tracking-tight"><ClipboardCheck size={16} />Review</button>
+                <button onClick={() => setShowFleetTemplate(true)} className="flex items-center gap-2 px-3 py-2 text-slate-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-xl transition-all font-bold text-xs uppercase tracking-tight"><GitFork size={16} />Fleet</button>
                 <button onClick={() => setShowDecisionLogic(true)} className="flex items-center gap-2 px-3 py-2 text-slate-500 hover:text-emerald-600 hover:bg-emerald-50 rounded-xl transition-all font-bold text-xs uppercase tracking-tight"><GitBranch size={16} />Logic Tree</button>
               </div>
               <div className="hidden sm:flex items-center text-[10px] font-black uppercase tracking-widest transition-opacity duration-300 mr-2">{justSaved ? (<span className="text-emerald-600 flex items-center gap-1.5 font-bold animate-pulse"><Check size={14} strokeWidth={3} /> Synced</span>) : (<span className="text-slate-300">{results ? 'Local draft' : ''}</span>)}</div>
@@ -714,10 +1059,10 @@ const App: React.FC = () => {
                   </div>
                 )}
                 {error && (<div className="mt-6 p-5 bg-red-50 border border-red-100 rounded-2xl text-red-600 text-[11px] font-black uppercase tracking-widest flex items-center gap-3 animate-in shake-in-from-right duration-500"><AlertTriangle size={18} />{error}</div>)}
-                <div className="mt-8 flex flex-col sm:flex-row justify-end items-center gap-4">{results && results.length > 0 && (<label className="flex items-center gap-3 px-4 py-2 bg-slate-50 border border-slate-200 rounded-xl cursor-pointer hover:bg-white transition-all"><input type="checkbox" checked={isMerging} onChange={(e) => setIsMerging(e.target.checked)} className="w-4 h-4 text-indigo-600 rounded border-slate-300 focus:ring-indigo-500" /><span className="text-xs font-bold text-slate-600 uppercase tracking-tight">Merge with existing items</span></label>)}<button onClick={handleGenerate} disabled={isLoading || isExtracting} className={`flex items-center gap-3 px-10 py-4 rounded-2xl text-[11px] font-black uppercase tracking-[0.2em] text-white shadow-2xl transition-all active:scale-95 ${isLoading ? 'bg-indigo-400 shadow-none' : 'bg-indigo-600 hover:bg-indigo-700 shadow-indigo-200 shadow-indigo-300 hover:shadow-indigo-300 hover:-translate-y-1'} ${(isLoading || isExtracting) ? 'opacity-50' : ''}`}>{isLoading ? <Loader2 size={20} className="animate-spin" /> : (isMerging ? <PlusCircle size={20} /> : <Zap size={20} className="fill-white" />)}{isLoading ? "Running Intelligence Engine..." : (isMerging ? "Append New Insights" : "Initiate RCM Analysis")}</button></div>
+                <div className="mt-8 flex flex-col sm:flex-row justify-end items-center gap-4">{results && results.length > 0 && (<label className="flex items-center gap-3 px-4 py-2 bg-slate-50 border border-slate-200 rounded-xl cursor-pointer hover:bg-white transition-all"><input type="checkbox" checked={isMerging} onChange={(e) => setIsMerging(e.target.checked)} className="w-4 h-4 text-indigo-600 rounded border-slate-300 focus:ring-indigo-500" /><span className="text-xs font-bold text-slate-600 uppercase tracking-tight">Merge with existing items</span></label>)}<label className="flex items-center gap-3 px-4 py-2 bg-slate-50 border border-slate-200 rounded-xl cursor-pointer hover:bg-white transition-all" title="Send matching failure mode library templates as examples"><input type="checkbox" checked={useLibrarySeeds} onChange={(e) => setUseLibrarySeeds(e.target.checked)} className="w-4 h-4 text-indigo-600 rounded border-slate-300 focus:ring-indigo-500" /><span className="text-xs font-bold text-slate-600 uppercase tracking-tight">Seed from library</span></label><button onClick={handleGenerate} disabled={isLoading || isExtracting} className={`flex items-center gap-3 px-10 py-4 rounded-2xl text-[11px] font-black uppercase tracking-[0.2em] text-white shadow-2xl transition-all active:scale-95 ${isLoading ? 'bg-indigo-400 shadow-none' : 'bg-indigo-600 hover:bg-indigo-700 shadow-indigo-200 shadow-indigo-300 hover:shadow-indigo-300 hover:-translate-y-1'} ${(isLoading || isExtracting) ? 'opacity-50' : ''}`}>{isLoading ? <Loader2 size={20} className="animate-spin" /> : (isMerging ? <PlusCircle size={20} /> : <Zap size={20} className="fill-white" />)}{isLoading ? "Running Intelligence Engine..." : (isMerging ? "Append New Insights" : "Initiate RCM Analysis")}</button></div>
               </div>
             </div>
-            {results && <AnalysisResult data={results} studyName={studyName} onUpdate={handleResultsUpdate} onUndo={handleUndo} canUndo={history.length > 0} language={selectedLanguage} />}
+            {results && <AnalysisResult data={results} studyName={studyName} onUpdate={handleResultsUpdate} onUndo={handleUndo} canUndo={history.length > 0} language={selectedLanguage} onShowDecisionPath={handleShowDecisionPath} riskScheme={riskScheme} assetHierarchy={assetHierarchy} onAssetHierarchyChange={setAssetHierarchy} studyFunctions={studyFunctions} onCheckpoint={handleCheckpoint} workflow={workflow} focusRequest={focusRequest} contextText={contextText} />}
           </div>
         </main>
       </div>
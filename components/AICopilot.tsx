@@ -1,7 +1,10 @@
 
-import { GoogleGenAI } from "@google/genai";
 import React, { useState, useRef, useEffect } from 'react';
-import { RCMItem, ConsequenceCategory } from '../types';
+import { RCMItem, ConsequenceCategory, RiskScheme } from '../types';
+import { generateText, textPart } from '../services/llmProvider';
+import { toInterval, formatInterval } from '../services/intervals';
+import { assessCriticality, clampScore, describeRiskScheme, scaleMax } from '../services/riskScheme';
+import { describeTaxonomy, normalizeTaxonomy } from '../services/iso14224';
 import { 
   X, Send, Sparkles, ChevronDown, 
   Plus, CheckCircle2, Search, 
@@ -12,7 +15,9 @@ import {
 interface AICopilotProps {
   data: RCMItem[] | null;
   onUpdate: (newData: RCMItem[]) => void;
+  onCheckpoint: (label: string) => Promise<void>;
   language: string;
+  riskScheme: RiskScheme;
 }
 
 interface ProposedAction {
@@ -63,7 +68,7 @@ const FormattedMessage: React.FC<{ text: string; role: 'user' | 'model'; isFacil
   );
 };
 
-export const AICopilot: React.FC<AICopilotProps> = ({ data, onUpdate, language }) => {
+export const AICopilot: React.FC<AICopilotProps> = ({ data, onUpdate, onCheckpoint, language, riskScheme }) => {
   const [isOpen, setIsOpen] = useState(false);
   const [input, setInput] = useState('');
   const [messages, setMessages] = useState<Message[]>([]);
@@ -101,6 +106,7 @@ export const AICopilot: React.FC<AICopilotProps> = ({ data, onUpdate, language }
             // Check if the structure is nested or flat
             const itemData = a.item || a.data || (a.component ? a : null);
             if (itemData && (itemData.component || itemData.failureMode)) {
+              if (itemData.interval !== undefined) itemData.interval = toInterval(itemData.interval);
               proposals.push({
                 id: `proposal-${Math.random().toString(36).substr(2, 9)}`,
                 type: (a.type as any) || 'ADD',
@@ -130,13 +136,21 @@ export const AICopilot: React.FC<AICopilotProps> = ({ data, onUpdate, language }
     - failureMode (string)
     - failureEffect (string)
     - consequenceCategory (string: 'Hidden - Safety/Env', 'Hidden - Operational', 'Evident - Safety/Env', 'Evident - Operational', 'Evident - Non-Operational')
-    - iso14224Code (string: 3-letter code like BRD, LOP, VIB)
-    - severity (number: 1-10)
-    - occurrence (number: 1-10)
-    - detection (number: 1-10)
+    - equipmentClass (string: ISO 14224 equipment class code like PU, EM, VA)
+    - iso14224Code (string: ISO 14224 failure mode code allowed for the equipment class)
+    - failureMechanism (string: ISO 14224 mechanism code like 2.4)
+    - failureCause (string: ISO 14224 cause code like 3.3)
+    - detectionMethod (string: ISO 14224 detection method code like 4)
+    - severity (number: 1-${scaleMax(riskScheme.severity)})
+    - occurrence (number: 1-${scaleMax(riskScheme.occurrence)})
+    - detection (number: 1-${scaleMax(riskScheme.detection)})
     - maintenanceTask (string)
     - interval (string)
     - taskType (string: 'Condition Monitoring', 'Time-Based', 'Run-to-Failure', 'Redesign', 'Failure Finding', 'Lubrication', 'Servicing', 'Restoration', 'Replacement', 'Training', 'Procedural Change')
+
+    ${describeRiskScheme(riskScheme)}
+
+    ${describeTaxonomy()}
   `;
 
   const handleFacilitatorAudit = async () => {
@@ -144,8 +158,6 @@ export const AICopilot: React.FC<AICopilotProps> = ({ data, onUpdate, language }
     setIsLoading(true);
 
     try {
-      // Fix: Initialize GoogleGenAI strictly using process.env.API_KEY
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
       const studySummary = data.slice(-30).map(i => ({
         comp: i.component,
         fail: i.failureMode,
@@ -172,18 +184,17 @@ export const AICopilot: React.FC<AICopilotProps> = ({ data, onUpdate, language }
         Technical descriptions and tasks in the JSON MUST be in ${language}.
       `;
 
-      const response = await ai.models.generateContent({
-        model: 'gemini-3-pro-preview',
-        contents: [{ role: 'user', parts: [{ text: prompt }] }],
-        config: {
-          thinkingConfig: { thinkingBudget: 32768 },
-          temperature: 0.4,
-          seed: 42,
-          systemInstruction: `You are MIRA, the Lead RCM Facilitator. You are technical, rigorous, and proactive. Your primary job during an audit is to provide actionable <ACTION> blocks for missing failure modes in ${language}.`
-        }
+      const responseText = await generateText({
+        task: 'copilotAudit',
+        tier: 'reasoning',
+        parts: [textPart(prompt)],
+        thinkingBudget: 32768,
+        temperature: 0.4,
+        seed: 42,
+        systemInstruction: `You are MIRA, the Lead RCM Facilitator. You are technical, rigorous, and proactive. Your primary job during an audit is to provide actionable <ACTION> blocks for missing failure modes in ${language}.`
       });
 
-      const { cleanText, proposals } = parseAIResponse(response.text || "");
+      const { cleanText, proposals } = parseAIResponse(responseText);
       setMessages(prev => [...prev, { 
         role: 'model', 
         text: cleanText || "Strategic audit complete. Recommendations generated below.", 
@@ -207,8 +218,6 @@ export const AICopilot: React.FC<AICopilotProps> = ({ data, onUpdate, language }
     setIsLoading(true);
 
     try {
-      // Fix: Initialize GoogleGenAI strictly using process.env.API_KEY
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
       const currentItems = (data || []).slice(-15).map(i => ({ c: i.component, fm: i.failureMode }));
       
       const prompt = `
@@ -226,18 +235,17 @@ export const AICopilot: React.FC<AICopilotProps> = ({ data, onUpdate, language }
         Ensure technical strings in JSON are in ${language}.
       `;
 
-      const response = await ai.models.generateContent({
-        model: 'gemini-3-pro-preview',
-        contents: [{ role: 'user', parts: [{ text: prompt }] }],
-        config: {
-          thinkingConfig: { thinkingBudget: 32768 },
-          temperature: 0.4,
-          seed: 42,
-          systemInstruction: `You are MIRA, the Lead RCM Facilitator. You synthesize SAE JA1011 strategies in ${language}. You always provide implementable technical additions using <ACTION> tags when helping the user build their study.`
-        }
+      const responseText = await generateText({
+        task: 'copilotChat',
+        tier: 'reasoning',
+        parts: [textPart(prompt)],
+        thinkingBudget: 32768,
+        temperature: 0.4,
+        seed: 42,
+        systemInstruction: `You are MIRA, the Lead RCM Facilitator. You synthesize SAE JA1011 strategies in ${language}. You always provide implementable technical additions using <ACTION> tags when helping the user build their study.`
       });
 
-      const { cleanText, proposals } = parseAIResponse(response.text || "");
+      const { cleanText, proposals } = parseAIResponse(responseText);
       setMessages(prev => [...prev, { 
         role: 'model', 
         text: cleanText || "Analysis complete. See technical recommendations below.", 
@@ -250,7 +258,10 @@ export const AICopilot: React.FC<AICopilotProps> = ({ data, onUpdate, language }
     }
   };
 
-  const applySingleAction = (proposalId: string, messageIndex: number) => {
+  const applySingleAction = async (proposalId: string, messageIndex: number) => {
+    const proposal = messages[messageIndex]?.proposals?.find(p => p.id === proposalId);
+    if (!proposal || proposal.applied) return;
+    await onCheckpoint(`Before copilot ${proposal.type.toLowerCase()}: ${proposal.item?.component || 'item'}`);
     setMessages(prevMessages => {
       const message = prevMessages[messageIndex];
       if (!message || !message.proposals) return prevMessages;
@@ -272,9 +283,9 @@ export const AICopilot: React.FC<AICopilotProps> = ({ data, onUpdate, language }
           return def;
         };
 
-        const s = getScore(item.severity, 5);
-        const o = getScore(item.occurrence, 3);
-        const d = getScore(item.detection, 4);
+        const s = clampScore(getScore(item.severity, 5), riskScheme.severity);
+        const o = clampScore(getScore(item.occurrence, 3), riskScheme.occurrence);
+        const d = clampScore(getScore(item.detection, 4), riskScheme.detection);
         const rpnValue = s * o * d;
 
         // Fix: Added componentType to fix RCMItem type error
@@ -287,32 +298,36 @@ export const AICopilot: React.FC<AICopilotProps> = ({ data, onUpdate, language }
           functionalFailure: item.functionalFailure || 'Loss of function.',
           failureMode: item.failureMode || 'Failure mechanism.',
           failureEffect: item.failureEffect || 'Local/System impact.',
-          criticality: (item.criticality as any) || (rpnValue >= 100 ? 'High' : rpnValue >= 40 ? 'Medium' : 'Low'),
+          criticality: assessCriticality({ severity: s, occurrence: o, rpn: rpnValue }, riskScheme),
           consequenceCategory: (item.consequenceCategory as ConsequenceCategory) || 'Evident - Operational',
           iso14224Code: item.iso14224Code || 'OTH',
+          equipmentClass: item.equipmentClass,
+          failureMechanism: item.failureMechanism,
+          failureCause: item.failureCause,
+          detectionMethod: item.detectionMethod,
           severity: s,
           occurrence: o,
           detection: d,
           rpn: rpnValue,
           maintenanceTask: item.maintenanceTask || 'Inspection/Task.',
-          interval: item.interval || 'Monthly',
+          interval: item.interval || toInterval('Monthly'),
           taskType: (item.taskType as any) || 'Condition Monitoring',
           isNew: true,
           isMiraGenerated: true,
           isApproved: false
         };
-        newData.push(newItem);
+        newData.push(...normalizeTaxonomy([newItem]));
       } 
       else if (proposal.type === 'UPDATE') {
         newData = newData.map(item => {
           const isMatch = proposal.item?.id ? item.id === proposal.item.id : (item.component === proposal.item?.component && item.failureMode === proposal.item?.failureMode);
           if (isMatch) {
             const updated = { ...item, ...proposal.item, isNew: false, isMiraGenerated: true };
-            updated.severity = Number(updated.severity) || item.severity;
-            updated.occurrence = Number(updated.occurrence) || item.occurrence;
-            updated.detection = Number(updated.detection) || item.detection;
+            updated.severity = clampScore(Number(updated.severity) || item.severity, riskScheme.severity);
+            updated.occurrence = clampScore(Number(updated.occurrence) || item.occurrence, riskScheme.occurrence);
+            updated.detection = clampScore(Number(updated.detection) || item.detection, riskScheme.detection);
             updated.rpn = updated.severity * updated.occurrence * updated.detection;
-            return updated as RCMItem;
+            return normalizeTaxonomy([updated as RCMItem])[0];
           }
           return item;
         });
@@ -445,7 +460,7 @@ export const AICopilot: React.FC<AICopilotProps> = ({ data, onUpdate, language }
                                 </div>
                                 <div className="pl-1 flex flex-col gap-1">
                                    <p className="text-[11px] font-black text-indigo-700 uppercase tracking-tight leading-tight">{p.item.maintenanceTask}</p>
-                                   <p className="text-[10px] text-slate-400 font-bold italic">{p.item.interval} • {p.item.taskType}</p>
+                                   <p className="text-[10px] text-slate-400 font-bold italic">{formatInterval(p.item.interval, language)} • {p.item.taskType}</p>
                                 </div>
                              </div>
 
@@ -455,7 +470,7 @@ export const AICopilot: React.FC<AICopilotProps> = ({ data, onUpdate, language }
                                    <span className="text-[9px] font-black uppercase tracking-widest text-slate-400">RPN Score: {rpnValue}</span>
                                 </div>
                                 <div className="flex gap-1">
-                                   <span className="px-1.5 py-0.5 bg-slate-100 text-slate-600 text-[8px] font-black rounded border border-slate-200 uppercase">{p.item.iso14224Code}</span>
+                                   <span className="px-1.5 py-0.5 bg-slate-100 text-slate-600 text-[8px] font-black rounded border border-slate-200 uppercase">{p.item.equipmentClass ? `${p.item.equipmentClass} · ` : ''}{p.item.iso14224Code}</span>
                                    <span className="px-1.5 py-0.5 bg-indigo-50 text-indigo-600 text-[8px] font-black rounded border border-indigo-100 uppercase">{p.item.functionType}</span>
                                 </div>
                              </div>
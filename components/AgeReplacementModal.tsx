@@ -0,0 +1,207 @@
+import React, { useState, useMemo } from 'react';
+import { X, Hourglass, CheckCircle2, AlertTriangle, ShieldCheck, TrendingUp } from 'lucide-react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, ResponsiveContainer, Tooltip as RechartsTooltip, ReferenceLine } from 'recharts';
+import { RCMItem, AgeReplacementInputs, AgeReplacementRecord, MaintenanceInterval, IntervalUnit } from '../types';
+import { optimizeReplacementAge, costCurve, etaFromMTBF, defaultAgeReplacementInputs } from '../services/ageReplacement';
+import { formatInterval, formatIntervalUnit, formatIntervalBasis, withBasis } from '../services/intervals';
+
+interface AgeReplacementModalProps {
+  item: RCMItem;
+  isOpen: boolean;
+  onClose: () => void;
+  onApply: (interval: MaintenanceInterval, record: AgeReplacementRecord) => void;
+  language: string;
+}
+
+const LIFE_UNITS: Exclude<IntervalUnit, 'cycles'>[] = ['hours', 'days', 'weeks', 'months', 'years'];
+
+export const AgeReplacementModal: React.FC<AgeReplacementModalProps> = ({ item, isOpen, onClose, onApply, language }) => {
+  const [inputs, setInputs] = useState<AgeReplacementInputs>(defaultAgeReplacementInputs(item));
+
+  const result = useMemo(() => optimizeReplacementAge(inputs), [inputs]);
+  const curve = useMemo(() => inputs.beta > 0 && inputs.eta > 0 ? costCurve(inputs).map(p => ({ age: Math.round(p.age * 10) / 10, cost: p.cost })) : [], [inputs]);
+
+  if (!isOpen) return null;
+
+  const update = (patch: Partial<AgeReplacementInputs>) => {
+    setInputs(prev => {
+      const next = { ...prev, ...patch };
+      // With an MTBF and a shape guess, the scale follows from the mean life
+      if (next.source === 'mtbf' && next.mtbf && next.beta > 0) next.eta = etaFromMTBF(next.mtbf, next.beta);
+      return next;
+    });
+  };
+
+  const handleUseWeibull = () => {
+    if (!item.weibull) return;
+    update({
+      source: 'weibull',
+      beta: item.weibull.fit.beta,
+      eta: item.weibull.fit.eta,
+      unit: item.weibull.lifeUnit,
+      basis: item.weibull.lifeUnit === 'hours' ? 'running hours' : 'calendar'
+    });
+  };
+
+  const proposedInterval: MaintenanceInterval | null = result?.optimumAge
+    ? withBasis({ value: Math.max(1, Math.round(result.optimumAge)), unit: inputs.unit, basis: 'calendar' }, inputs.basis)
+    : null;
+
+  const handleApply = () => {
+    if (!result || !proposedInterval) return;
+    onApply(proposedInterval, { inputs, result, calculatedAt: Date.now() });
+  };
+
+  const unitLabel = formatIntervalUnit(inputs.unit, language);
+
+  const numberField = (label: string, value: number | undefined, onChange: (v: number) => void, disabled = false) => (
+    <div>
+      <label className="text-[8px] font-black text-slate-400 uppercase tracking-widest block mb-1">{label}</label>
+      <input
+        type="number"
+        min="0"
+        step="any"
+        disabled={disabled}
+        value={value === undefined ? '' : Math.round(value * 1000) / 1000}
+        onChange={(e) => onChange(parseFloat(e.target.value) || 0)}
+        className="w-full bg-slate-50 border border-slate-200 rounded-lg px-2 py-1.5 text-xs font-black text-slate-700 outline-none focus:border-indigo-400 disabled:opacity-50"
+      />
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-slate-900/60 backdrop-blur-md p-4 animate-in fade-in duration-300">
+      <div className="bg-white rounded-[2.5rem] shadow-2xl w-full max-w-5xl max-h-[90vh] flex flex-col overflow-hidden border border-white/20">
+
+        {/* Header */}
+        <div className="bg-slate-900 px-8 py-6 flex justify-between items-center text-white shrink-0">
+          <div className="flex items-center gap-4">
+            <div className="p-3 bg-indigo-500/20 rounded-2xl border border-indigo-500/30">
+              <Hourglass size={24} className="text-indigo-400" />
+            </div>
+            <div>
+              <h3 className="font-black text-xl uppercase tracking-tighter">Optimal Age Replacement</h3>
+              <p className="text-[10px] text-slate-400 uppercase tracking-widest font-bold mt-1">{item.component} · {item.taskType}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="flex-1 flex overflow-hidden">
+          {/* Inputs */}
+          <div className="w-[22rem] border-r border-slate-100 bg-slate-50/50 p-6 flex flex-col gap-5 shrink-0 overflow-y-auto custom-scrollbar">
+            <div className="flex bg-white p-1 rounded-xl border border-slate-200">
+              <button
+                onClick={handleUseWeibull}
+                disabled={!item.weibull}
+                className={`flex-1 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-30 ${inputs.source === 'weibull' ? 'bg-slate-900 text-white' : 'text-slate-500'}`}
+                title={item.weibull ? 'Use the fitted Weibull parameters' : 'No Weibull analysis for this item'}
+              >
+                <TrendingUp size={12} className="inline mr-1 -mt-0.5" /> Weibull Fit
+              </button>
+              <button
+                onClick={() => update({ source: 'mtbf', mtbf: inputs.mtbf || Math.round(inputs.eta) })}
+                className={`flex-1 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${inputs.source === 'mtbf' ? 'bg-slate-900 text-white' : 'text-slate-500'}`}
+              >
+                MTBF + Shape
+              </button>
+            </div>
+
+            <div className="bg-white p-5 rounded-2xl border border-slate-200 shadow-sm grid grid-cols-2 gap-3">
+              {inputs.source === 'mtbf' && numberField(`MTBF (${unitLabel})`, inputs.mtbf, (v) => update({ mtbf: v }))}
+              {numberField('β (Shape)', inputs.beta, (v) => update({ beta: v }))}
+              {numberField(`η (${unitLabel})`, inputs.eta, (v) => update({ eta: v }), inputs.source === 'mtbf')}
+              <div>
+                <label className="text-[8px] font-black text-slate-400 uppercase tracking-widest block mb-1">Life Unit</label>
+                <select value={inputs.unit} onChange={(e) => update({ unit: e.target.value as AgeReplacementInputs['unit'] })} className="w-full bg-slate-50 border border-slate-200 rounded-lg px-2 py-1.5 text-[10px] font-bold text-slate-600 outline-none">
+                  {LIFE_UNITS.map(u => <option key={u} value={u}>{formatIntervalUnit(u, language)}</option>)}
+                </select>
+              </div>
+              <div className="col-span-2">
+                <label className="text-[8px] font-black text-slate-400 uppercase tracking-widest block mb-1">Basis</label>
+                <select value={inputs.basis} onChange={(e) => update({ basis: e.target.value as AgeReplacementInputs['basis'] })} className="w-full bg-slate-50 border border-slate-200 rounded-lg px-2 py-1.5 text-[10px] font-bold text-slate-600 outline-none">
+                  {(['calendar', 'running hours'] as const).map(b => <option key={b} value={b}>{formatIntervalBasis(b, language)}</option>)}
+                </select>
+              </div>
+              {numberField('Planned Replacement Cost', inputs.preventiveCost, (v) => update({ preventiveCost: v }))}
+              {numberField('Cost of Failure', inputs.failureCost, (v) => update({ failureCost: v }))}
+            </div>
+
+            {inputs.beta > 0 && inputs.beta <= 1 && (
+              <div className="flex gap-2 bg-red-50 p-4 rounded-2xl border border-red-100">
+                <AlertTriangle size={16} className="text-red-600 shrink-0" />
+                <p className="text-[10px] text-red-800 font-bold leading-relaxed">β ≤ 1: the failure rate does not increase with age. A time-based replacement will not reduce failures and is not worth doing; consider condition monitoring, failure finding or run-to-failure.</p>
+              </div>
+            )}
+          </div>
+
+          {/* Curve and result */}
+          <div className="flex-1 overflow-y-auto p-8 space-y-6 custom-scrollbar">
+            <div className="bg-white p-5 rounded-2xl border border-slate-200 shadow-sm">
+              <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-3">Cost per Unit Time vs. Replacement Age</span>
+              <div className="h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={curve} margin={{ top: 10, right: 20, bottom: 10, left: 10 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                    <XAxis dataKey="age" type="number" domain={['dataMin', 'dataMax']} tick={{ fontSize: 10 }} label={{ value: unitLabel, position: 'insideBottomRight', offset: -5, fontSize: 10 }} />
+                    <YAxis tick={{ fontSize: 10 }} tickFormatter={(v) => Number(v).toPrecision(2)} />
+                    <RechartsTooltip formatter={(v: number) => v.toPrecision(3)} labelFormatter={(l) => `${l} ${unitLabel}`} />
+                    <Line type="monotone" dataKey="cost" stroke="#4f46e5" strokeWidth={2} dot={false} />
+                    {result && <ReferenceLine y={result.runToFailureCostRate} stroke="#ef4444" strokeDasharray="4 2" label={{ value: 'Run to failure', fontSize: 9, fill: '#ef4444', position: 'insideTopRight' }} />}
+                    {result?.optimumAge && <ReferenceLine x={Math.round(result.optimumAge * 10) / 10} stroke="#10b981" strokeDasharray="4 2" label={{ value: 'Optimum', fontSize: 9, fill: '#10b981', position: 'top' }} />}
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+
+            {result && (
+              <div className="bg-slate-900 rounded-2xl p-6 text-white grid grid-cols-4 gap-4">
+                <div>
+                  <p className="text-[8px] text-slate-500 font-black uppercase mb-1">Optimum Age</p>
+                  <p className="text-lg font-black">{proposedInterval ? formatInterval(proposedInterval, language) : '—'}</p>
+                </div>
+                <div>
+                  <p className="text-[8px] text-slate-500 font-black uppercase mb-1">Cost Rate at Optimum</p>
+                  <p className="text-lg font-black">{result.costRateAtOptimum.toPrecision(3)}</p>
+                </div>
+                <div>
+                  <p className="text-[8px] text-slate-500 font-black uppercase mb-1">Run-to-Failure Rate</p>
+                  <p className="text-lg font-black">{result.runToFailureCostRate.toPrecision(3)}</p>
+                </div>
+                <div>
+                  <p className="text-[8px] text-slate-500 font-black uppercase mb-1">Saving</p>
+                  <p className={`text-lg font-black ${result.worthwhile ? 'text-emerald-400' : 'text-amber-400'}`}>{(result.savingsFraction * 100).toFixed(1)}%</p>
+                </div>
+                {!result.worthwhile && (
+                  <p className="col-span-4 text-[10px] text-amber-300 font-bold">
+                    {result.optimumAge ? 'The saving over run-to-failure is marginal; a time-based task is hard to justify on cost alone.' : 'No finite optimum: replacing on failure is cheapest with these inputs.'}
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="px-8 py-5 bg-white border-t border-slate-100 flex justify-between items-center shrink-0">
+          <div className="flex items-center gap-2 text-slate-400">
+            <ShieldCheck className="w-4 h-4" />
+            <span className="text-[10px] font-black uppercase tracking-widest">Current interval: {formatInterval(item.interval, language)}</span>
+          </div>
+          <div className="flex gap-3">
+            <button onClick={onClose} className="px-6 py-2.5 text-slate-500 font-black text-[10px] uppercase tracking-widest hover:bg-slate-50 rounded-lg transition-all">Cancel</button>
+            <button
+              onClick={handleApply}
+              disabled={!proposedInterval}
+              className="px-8 py-2.5 bg-indigo-600 text-white rounded-lg font-black text-[10px] uppercase tracking-[0.2em] shadow-xl shadow-indigo-100 hover:bg-indigo-700 disabled:opacity-40 transition-all flex items-center gap-2"
+            >
+              <CheckCircle2 size={16} /> Apply Replacement Age
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,9 +1,36 @@
 
-import React, { useState, useMemo } from 'react';
-import { RCMItem, InspectionSheet, InspectionStep, ConsequenceCategory, ComponentIntel } from '../types';
+import React, { useState, useMemo, useEffect } from 'react';
+import { RCMItem, LibraryEntry, InspectionSheet, InspectionStep, ConsequenceCategory, ComponentIntel, MaintenanceInterval, IntervalBasis, PFOptimizationRecord, RiskScheme, RiskLevel, ResidualRisk, AssetNode, StudyFunction, StudyWorkflow } from '../types';
 import { generateInspectionSheet, generateComponentIntel, validateRCMAnalysis } from '../services/geminiService';
+import { TASK_TYPES, awaitsAnswer, evaluateDecision, formatDecisionPath } from '../services/decisionLogic';
+import { AI_RULE_ID, aiIssue, worstSeverity } from '../services/ruleValidator';
+import { INTERVAL_BASES, unitsForBasis, withBasis, toInterval, formatInterval, formatIntervalUnit, formatIntervalBasis, compareIntervals, inspectionWorkloadHours } from '../services/intervals';
 import { IntervalOptimizerModal } from './IntervalOptimizerModal';
 import { CMMSBridgeModal } from './CMMSBridgeModal';
+import { WeibullModal } from './WeibullModal';
+import { AgeReplacementModal } from './AgeReplacementModal';
+import { AGE_REPLACEMENT_TASKS } from '../services/ageReplacement';
+import { FailureFindingModal } from './FailureFindingModal';
+import { FAILURE_FINDING_CATEGORIES } from '../services/failureFinding';
+import { matrixLevel, rpnLevel, scoreBand, scaleMax, rpnMax, rankingLevel, compareByRanking, itemActionPriority } from '../services/riskScheme';
+import { AP_RANK, formatActionPriority } from '../services/actionPriority';
+import { residualOf, estimateResidualRisk } from '../services/residualRisk';
+import { compareByWorksheet, propagateWorksheetEdit } from '../services/worksheet';
+import { flattenAssetTree, descendantIds, resolveAssetReference, formatAssetPath, assetLevelLabel, assignEquipmentClass, equipmentUnitOf } from '../services/assetHierarchy';
+import {
+  DETECTION_METHODS, EQUIPMENT_CLASSES, FAILURE_CAUSES, FAILURE_MECHANISMS, FAILURE_MODES, failureModesForClass, formatTaxonomy,
+  isValidFailureMode, taxonomyLabel
+} from '../services/iso14224';
+import { approveItem, reopenItem, getReviewerName, saveReviewerName, workflowStateLabel } from '../services/workflow';
+import { addComment, setThreadResolved, openThreadCount, hasOpenComments } from '../services/comments';
+import { ItemReviewPanel } from './ItemReviewPanel';
+import { XlsxCell, XlsxMerge, XLSX_MIME_TYPE, buildXlsx, cell } from '../services/xlsx';
+import { PDF_MIME_TYPE } from '../services/pdf';
+import { buildStrategyReport } from '../services/pdfReport';
+import { FailureModeLibraryModal } from './FailureModeLibraryModal';
+import { InspectionCardsModal } from './InspectionCardsModal';
+import { RouteBuilderModal } from './RouteBuilderModal';
+import { itemFromEntry } from '../services/library';
 import { 
   BarChart, Bar, XAxis, YAxis, CartesianGrid, ResponsiveContainer, Tooltip as RechartsTooltip, Cell 
 } from 'recharts';
@@ -12,16 +39,25 @@ import {
   Pencil, Trash2, Save, X, ClipboardList, Loader2,
   FileCheck, File, Printer, AlertOctagon, FilterX, User, ShieldAlert, Wrench, Search, ChevronRight, Sparkles, RefreshCw,
   ArrowUpDown, ArrowUp, ArrowDown, Filter, Plus, Tag, ShieldCheck, Zap, ListChecks, Info, MapPin, Eye, Undo2, Target, Palette, Image as ImageIcon, Box, Layers, UserPlus, Copy, LayoutList, Download, ShieldX, ChevronDown, FileOutput,
-  FileSpreadsheet, CheckCircle2, Check, Minus, Maximize2, Minimize2
+  FileSpreadsheet, CheckCircle2, Check, Minus, Maximize2, Minimize2, TrendingUp, Hourglass, SearchCheck, Network, Lock, MessageSquare, Library, Route
 } from 'lucide-react';
 
 interface AnalysisResultProps {
   data: RCMItem[];
   studyName: string;
-  onUpdate: (newData: RCMItem[]) => void;
+  onUpdate: (newData: RCMItem[], nodes?: AssetNode[]) => void;
   onUndo: () => void;
   canUndo: boolean;
   language: string;
+  onShowDecisionPath: (item: RCMItem) => void;
+  riskScheme: RiskScheme;
+  assetHierarchy: AssetNode[];
+  onAssetHierarchyChange: (nodes: AssetNode[]) => void;
+  studyFunctions: StudyFunction[];
+  onCheckpoint: (label: string) => Promise<void>;
+  workflow: StudyWorkflow;
+  focusRequest?: { itemId: string; nonce: number } | null;
+  contextText: string;
 }
 
 const CONSEQUENCE_LABELS: ConsequenceCategory[] = [
@@ -33,31 +69,34 @@ const CONSEQUENCE_LABELS: ConsequenceCategory[] = [
 ];
 
 const headerTranslations: Record<string, string[]> = {
-  English: ["Function", "Functional failure", "Component", "Type", "Component Description", "Failure mode", "ISO 14224 Code", "Proposed Task", "Frequency", "Step", "Action", "Responsibility", "Duration", "Acceptance Criteria"],
-  Spanish: ["Función", "Fallo funcional", "Componente", "Tipo", "Descripción del componente", "Modo de fallo", "Código ISO 14224", "Tarea propuesta", "Frecuencia", "Paso", "Acción", "Responsabilidad", "Duración", "Criterios de aceptación"],
-  French: ["Fonction", "Défaillance fonctionnelle", "Composant", "Type", "Description du composant", "Mode de défaillance", "Code ISO 14224", "Tâche proposée", "Fréquence", "Étape", "Action", "Responsabilité", "Durée", "Critères d'acceptation"],
-  German: ["Funktion", "Funktionsstörung", "Komponente", "Typ", "Komponentenbeschreibung", "Fehlermodus", "ISO 14224 Code", "Vorgeschlagene Aufgabe", "Intervall", "Schritt", "Action", "Verantwortung", "Dauer", "Abnahmekriterien"],
-  Polish: ["Funkcja", "Usterka funkcjonalna", "Komponent", "Typ", "Opis komponentu", "Tryb awarii", "Kod ISO 14224", "Proponowane zadanie", "Częstotliwość", "Krok", "Działanie", "Odpowiedzialność", "Czas trwania", "Kryteria akceptacji"]
+  English: ["Function", "Functional failure", "Component", "Functional Location", "Asset Tag", "Type", "Component Description", "Failure mode", "ISO 14224 Code", "Equipment Class", "Failure Mechanism", "Failure Cause", "Detection Method", "RPN", "Action Priority", "Proposed Task", "Frequency", "Step", "Action", "Responsibility", "Duration", "Acceptance Criteria"],
+  Spanish: ["Función", "Fallo funcional", "Componente", "Ubicación técnica", "Etiqueta de activo", "Tipo", "Descripción del componente", "Modo de fallo", "Código ISO 14224", "Clase de equipo", "Mecanismo de fallo", "Causa de fallo", "Método de detección", "NPR", "Prioridad de acción", "Tarea propuesta", "Frecuencia", "Paso", "Acción", "Responsabilidad", "Duración", "Criterios de aceptación"],
+  French: ["Fonction", "Défaillance fonctionnelle", "Composant", "Poste technique", "Repère d'équipement", "Type", "Description du composant", "Mode de défaillance", "Code ISO 14224", "Classe d'équipement", "Mécanisme de défaillance", "Cause de défaillance", "Méthode de détection", "IPR", "Priorité d'action", "Tâche proposée", "Fréquence", "Étape", "Action", "Responsabilité", "Durée", "Critères d'acceptation"],
+  German: ["Funktion", "Funktionsstörung", "Komponente", "Technischer Platz", "Equipment-Nr.", "Typ", "Komponentenbeschreibung", "Fehlermodus", "ISO 14224 Code", "Equipmentklasse", "Ausfallmechanismus", "Ausfallursache", "Erkennungsmethode", "RPZ", "Aufgabenpriorität", "Vorgeschlagene Aufgabe", "Intervall", "Schritt", "Action", "Verantwortung", "Dauer", "Abnahmekriterien"],
+  Polish: ["Funkcja", "Usterka funkcjonalna", "Komponent", "Lokalizacja funkcjonalna", "Numer zasobu", "Typ", "Opis komponentu", "Tryb awarii", "Kod ISO 14224", "Klasa urządzenia", "Mechanizm uszkodzenia", "Przyczyna uszkodzenia", "Metoda wykrycia", "RPN", "Priorytet działań", "Proponowane zadanie", "Częstotliwość", "Krok", "Działanie", "Odpowiedzialność", "Czas trwania", "Kryteria akceptacji"]
 };
 
-const getRPNColorStyle = (rpn: number) => {
-  if (rpn >= 120) return { bg: 'bg-red-100', text: 'text-red-900', bar: 'bg-red-500' };
-  if (rpn >= 75) return { bg: 'bg-orange-100', text: 'text-orange-900', bar: 'bg-orange-500' };
-  if (rpn >= 40) return { bg: 'bg-yellow-50', text: 'text-yellow-800', bar: 'bg-yellow-400' };
-  return { bg: 'bg-emerald-50', text: 'text-emerald-800', bar: 'bg-emerald-400' };
+const RISK_LEVEL_STYLES: Record<RiskLevel, { bg: string; text: string; bar: string; cell: string; dot: string; hex: string }> = {
+  High: { bg: 'bg-red-100', text: 'text-red-900', bar: 'bg-red-500', cell: 'bg-red-50 border-red-100', dot: 'bg-red-500', hex: '#ef4444' },
+  Medium: { bg: 'bg-orange-100', text: 'text-orange-900', bar: 'bg-orange-500', cell: 'bg-amber-50 border-amber-100', dot: 'bg-amber-500', hex: '#f59e0b' },
+  Low: { bg: 'bg-emerald-50', text: 'text-emerald-800', bar: 'bg-emerald-400', cell: 'bg-emerald-50 border-emerald-100', dot: 'bg-emerald-500', hex: '#10b981' }
 };
 
-const getScoreColor = (score: number) => {
-  if (score >= 8) return 'text-red-600 font-bold';
-  if (score >= 5) return 'text-amber-600 font-medium';
-  return 'text-slate-500';
+const SCORE_BAND_CLASSES: Record<RiskLevel, string> = {
+  High: 'text-red-600 font-bold',
+  Medium: 'text-amber-600 font-medium',
+  Low: 'text-slate-500'
 };
 
-export const AnalysisResult: React.FC<AnalysisResultProps> = ({ data, studyName, onUpdate, onUndo, canUndo, language }) => {
+export const AnalysisResult: React.FC<AnalysisResultProps> = ({ data, studyName, onUpdate, onUndo, canUndo, language, onShowDecisionPath, riskScheme, assetHierarchy, onAssetHierarchyChange, studyFunctions, onCheckpoint, workflow, focusRequest, contextText }) => {
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editForm, setEditForm] = useState<RCMItem | null>(null);
   const [matrixFilter, setMatrixFilter] = useState<{s: number, o: number} | null>(null);
+  const [matrixView, setMatrixView] = useState<'initial' | 'residual'>('initial');
   const [barFilter, setBarFilter] = useState<string | null>(null);
+  const [assetFilter, setAssetFilter] = useState<string>('');
+  const [openCommentsOnly, setOpenCommentsOnly] = useState(false);
+  const [groupByAsset, setGroupByAsset] = useState(false);
   const [selectedIntel, setSelectedIntel] = useState<RCMItem | null>(null);
   const [collapsedColumns, setCollapsedColumns] = useState<Set<string>>(new Set(['riskGroup']));
   
@@ -77,9 +116,17 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ data, studyName,
   const [generatingIntelIds, setGeneratingIntelIds] = useState<Set<string>>(new Set());
   const [progress, setProgress] = useState({ current: 0, total: 0 });
   const [viewSheet, setViewSheet] = useState<{item: RCMItem} | null>(null);
+  const [cardItems, setCardItems] = useState<RCMItem[] | null>(null);
+  const [showRouteBuilder, setShowRouteBuilder] = useState(false);
+  const [reviewItemId, setReviewItemId] = useState<string | null>(null);
+  const [focusedRowId, setFocusedRowId] = useState<string | null>(null);
   const [editingStepIdx, setEditingStepIdx] = useState<number | null>(null);
   const [optimizingItem, setOptimizingItem] = useState<RCMItem | null>(null);
+  const [weibullItem, setWeibullItem] = useState<RCMItem | null>(null);
+  const [ageReplacementItem, setAgeReplacementItem] = useState<RCMItem | null>(null);
+  const [failureFindingItem, setFailureFindingItem] = useState<RCMItem | null>(null);
   const [showCMMSBridge, setShowCMMSBridge] = useState(false);
+  const [showLibrary, setShowLibrary] = useState(false);
   const [isExtracting, setIsExtracting] = useState(false);
   const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
   
@@ -94,13 +141,17 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ data, studyName,
 
   const isCollapsed = (key: string) => collapsedColumns.has(key);
 
+  // Scores shown in the matrix: as analysed, or after the selected tasks are in place
+  const matrixScores = (item: RCMItem): Pick<RCMItem, 'severity' | 'occurrence' | 'detection'> =>
+    matrixView === 'residual' ? residualOf(item, riskScheme) : item;
+
   const processedData = useMemo(() => {
     let result = (data || []).filter(item => item !== null && item !== undefined);
 
     if (matrixFilter) {
       result = result.filter(item => 
-        (item.severity || 0) === matrixFilter.s && 
-        (item.occurrence || 0) === matrixFilter.o
+        (matrixScores(item).severity || 0) === matrixFilter.s && 
+        (matrixScores(item).occurrence || 0) === matrixFilter.o
       );
     }
 
@@ -108,6 +159,15 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ data, studyName,
       result = result.filter(item => item.id === barFilter);
     }
 
+    if (assetFilter) {
+      const ids = descendantIds(assetHierarchy, assetFilter);
+      result = result.filter(item => !!item.assetNodeId && ids.has(item.assetNodeId));
+    }
+
+    if (openCommentsOnly) {
+      result = result.filter(hasOpenComments);
+    }
+
     if (searchFilters.component) {
       result = result.filter(item => (item.component || '').toLowerCase().includes(searchFilters.component.toLowerCase()));
     }
@@ -130,16 +190,22 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ data, studyName,
       result = result.filter(item => (item.iso14224Code || '').toLowerCase().includes(searchFilters.iso14224Code.toLowerCase()));
     }
 
+    // Register order, so grouped rows follow the tree
+    const assetOrder = new Map(flattenAssetTree(assetHierarchy).map(({ node }, index) => [node.id, index]));
+
+    const worksheetOrder = compareByWorksheet(studyFunctions);
+
     result.sort((a, b) => {
       const multiplier = sortConfig.direction === 'asc' ? 1 : -1;
 
+      if (groupByAsset) {
+        const group = (assetOrder.get(a.assetNodeId || '') ?? Infinity) - (assetOrder.get(b.assetNodeId || '') ?? Infinity);
+        if (group !== 0 && !Number.isNaN(group)) return group;
+      }
+
       const secondarySort = (x: RCMItem, y: RCMItem) => {
-        const ft = (x.functionType || '').localeCompare(y.functionType || '');
-        if (ft !== 0) return ft;
-        const f = (x.function || '').localeCompare(y.function || '');
-        if (f !== 0) return f;
-        const ff = (x.functionalFailure || '').localeCompare(y.functionalFailure || '');
-        if (ff !== 0) return ff;
+        const worksheet = worksheetOrder(x, y);
+        if (worksheet !== 0) return worksheet;
         const comp = (x.component || '').localeCompare(y.component || '');
         if (comp !== 0) return comp;
         return (x.failureMode || '').localeCompare(y.failureMode || '');
@@ -152,6 +218,18 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ data, studyName,
         return (bVal - aVal) * multiplier;
       }
 
+      if (sortConfig.key === 'rpn') {
+        const cmp = compareByRanking(riskScheme)(a, b);
+        if (cmp === 0) return secondarySort(a, b);
+        return -cmp * multiplier;
+      }
+
+      if (sortConfig.key === 'interval') {
+        const cmp = compareIntervals(a.interval, b.interval);
+        if (cmp === 0) return secondarySort(a, b);
+        return cmp * multiplier;
+      }
+
       if (sortConfig.key === 'inspectionSheet') {
         const aHas = a.inspectionSheet ? 1 : 0;
         const bHas = b.inspectionSheet ? 1 : 0;
@@ -162,6 +240,13 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ data, studyName,
       const aVal = a[sortConfig.key as keyof RCMItem];
       const bVal = b[sortConfig.key as keyof RCMItem];
       
+      // Function columns follow the worksheet records rather than the alphabet
+      if (sortConfig.key === 'functionType' || sortConfig.key === 'function' || sortConfig.key === 'functionalFailure') {
+        const cmp = worksheetOrder(a, b);
+        if (cmp === 0) return secondarySort(a, b);
+        return cmp * multiplier;
+      }
+
       if (aVal === bVal) return secondarySort(a, b);
       if (aVal === undefined || aVal === null) return 1;
       if (bVal === undefined || bVal === null) return -1;
@@ -173,7 +258,7 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ data, studyName,
     });
 
     return result;
-  }, [data, matrixFilter, barFilter, sortConfig, searchFilters]);
+  }, [data, matrixFilter, matrixView, barFilter, assetFilter, openCommentsOnly, groupByAsset, assetHierarchy, studyFunctions, sortConfig, searchFilters, riskScheme]);
 
   const handleInternalUndo = () => {
     onUndo();
@@ -204,16 +289,45 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ data, studyName,
   };
 
   const handleDelete = (id: string) => {
+    if (data.find(item => item.id === id)?.isApproved) return;
     const newData = data.filter(item => item.id !== id);
     onUpdate(newData);
     if (viewSheet?.item.id === id) setViewSheet(null);
   };
 
+  // Sign-offs need a name; it is asked for once and remembered on this device
+  const requireReviewerName = (): string | null => {
+    const known = getReviewerName();
+    if (known) return known;
+    const entered = prompt("Your name for approval records:")?.trim();
+    if (!entered) return null;
+    saveReviewerName(entered);
+    return entered;
+  };
+
+  // Approving locks the item; reopening it again needs a recorded reason
   const handleToggleApproved = (id: string) => {
-    const newData = data.map(item => 
-      item.id === id ? { ...item, isApproved: !item.isApproved } : item
-    );
-    onUpdate(newData);
+    const item = data.find(i => i.id === id);
+    if (!item) return;
+    const name = requireReviewerName();
+    if (!name) return;
+    if (item.isApproved) {
+      const reason = prompt(`Reason for reopening "${item.failureMode}":`)?.trim();
+      if (!reason) return;
+      onUpdate(data.map(i => i.id === id ? reopenItem(i, name, reason) : i));
+    } else {
+      onUpdate(data.map(i => i.id === id ? approveItem(i, name) : i));
+    }
+  };
+
+  const handleAddReviewComment = (item: RCMItem, author: string, text: string, parentId?: string) => {
+    saveReviewerName(author);
+    onUpdate(data.map(i => i.id === item.id ? addComment(i, author, text, parentId) : i));
+  };
+
+  const handleResolveThread = (item: RCMItem, threadId: string, resolved: boolean, name: string) => {
+    saveReviewerName(name);
+    onUpdate(data.map(i => i.id === item.id ? setThreadResolved(i, threadId, resolved, name) : i));
   };
 
   const handleAddRow = () => {
@@ -235,7 +349,7 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ data, studyName,
       detection: 1,
       rpn: 1,
       maintenanceTask: 'Proposed task...',
-      interval: 'Monthly',
+      interval: toInterval('Monthly'),
       taskType: 'Time-Based',
       isNew: true
     };
@@ -245,7 +359,14 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ data, studyName,
     setEditForm(newItem);
   };
 
+  // Library templates come in as new rows, rescored onto this study's risk scheme
+  const handleInsertLibraryEntries = (entries: LibraryEntry[]) => {
+    onUpdate([...data, ...entries.map(entry => itemFromEntry(entry, riskScheme))]);
+    setShowLibrary(false);
+  };
+
   const handleEdit = (item: RCMItem) => {
+    if (item.isApproved) return;
     setEditingId(item.id);
     setEditForm({ ...item });
   };
@@ -270,8 +391,14 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ data, studyName,
        inspectionSheet: needsRegeneration ? undefined : editForm.inspectionSheet,
        isNew: false
     };
-    const newData = data.map(item => item.id === editingId ? updatedForm : item);
-    onUpdate(newData);
+    const newData = propagateWorksheetEdit(data, originalItem, updatedForm);
+    // The class lives on the equipment unit, so a change applies to every item under it
+    if (updatedForm.equipmentClass !== originalItem.equipmentClass && equipmentUnitOf(assetHierarchy, updatedForm.assetNodeId)) {
+      const assigned = assignEquipmentClass(assetHierarchy, newData, updatedForm.assetNodeId!, updatedForm.equipmentClass);
+      onUpdate(assigned.items, assigned.nodes);
+    } else {
+      onUpdate(newData);
+    }
     setEditingId(null);
     setEditForm(null);
     if (needsRegeneration) {
@@ -304,6 +431,7 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ data, studyName,
       return;
     }
     setGeneratingSheets(true);
+    await onCheckpoint('Before generating inspection sheets');
     setProgress({ current: 0, total: itemsToProcess.length });
     let currentData = [...data];
     const BATCH_SIZE = 3;
@@ -325,16 +453,20 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ data, studyName,
   const handleValidateLogic = async () => {
     if (data.length === 0) return;
     setIsValidating(true);
+    await onCheckpoint('Before AI logic review');
+    // Rule issues are refreshed on every table change; the review only replaces the AI issues
+    const withAiIssues = (aiResults: { id: string; issues: string[] }[]) => data.map(item => {
+      if (!item) return item;
+      const rules = (item.validationIssues || []).filter(i => i.ruleId !== AI_RULE_ID);
+      const ai = aiResults.find(r => r.id === item.id)?.issues || [];
+      return { ...item, validationIssues: [...rules, ...ai.map(aiIssue)] };
+    });
     try {
       const issues = await validateRCMAnalysis(data, language);
-      const newData = data.map(item => {
-        const match = issues.find(issue => issue.id === item.id);
-        return { ...item, validationIssues: match ? match.issues : [] };
-      });
-      onUpdate(newData);
+      onUpdate(withAiIssues(issues));
     } catch (e) {
       console.error(e);
-      alert("Logic validation engine failed. Please try again.");
+      alert("AI logic review failed; the rule-based checks in the table are unaffected. Please try again.");
     } finally {
       setIsValidating(false);
     }
@@ -384,9 +516,9 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ data, studyName,
     }
   };
 
-  const handleApplyOptimizedInterval = (newInterval: string) => {
+  const handleApplyOptimizedInterval = (newInterval: MaintenanceInterval, pfInterval?: MaintenanceInterval, pfOptimization?: PFOptimizationRecord) => {
     if (!optimizingItem) return;
-    const newData = data.map(d => d.id === optimizingItem.id ? { ...d, interval: newInterval } : d);
+    const newData = data.map(d => d.id === optimizingItem.id ? { ...d, interval: newInterval, pfInterval: pfInterval || d.pfInterval, pfOptimization: pfOptimization || d.pfOptimization } : d);
     onUpdate(newData);
     setOptimizingItem(null);
   };
@@ -445,109 +577,130 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ data, studyName,
     updateItemInMainData(updatedItem);
   };
 
-  const cleanStrForCSV = (val: any): string => {
-    if (val === null || val === undefined) return '';
-    const str = String(val);
-    const cleaned = str
-      .replace(/[\n\r\t]+/g, ' ')
-      .replace(/[\x00-\x1F\x7F]/g, '')
-      .trim();
-    return cleaned.replace(/"/g, '""');
-  };
-
   const handleExcelTechnicalExtract = (targetLang: string = 'English') => {
     setIsExtracting(true);
     const headers = headerTranslations[targetLang] || headerTranslations['English'];
-    const rows: string[] = [];
-    
-    let lastFunc = "";
-    let lastFF = "";
-    let lastComp = "";
-    let lastFM = "";
+    const allLabels: Record<string, { worksheet: string; steps: string; matrix: string; context: string; severity: string; occurrence: string; count: string }> = {
+      English: { worksheet: "Decision Worksheet", steps: "Inspection Steps", matrix: "Risk Matrix", context: "Operating Context", severity: "Severity", occurrence: "Occurrence", count: "Failure modes" },
+      Spanish: { worksheet: "Hoja de decisión", steps: "Pasos de inspección", matrix: "Matriz de riesgo", context: "Contexto operacional", severity: "Severidad", occurrence: "Ocurrencia", count: "Modos de fallo" },
+      French: { worksheet: "Feuille de décision", steps: "Étapes d'inspection", matrix: "Matrice des risques", context: "Contexte opérationnel", severity: "Gravité", occurrence: "Occurrence", count: "Modes de défaillance" },
+      German: { worksheet: "Entscheidungsblatt", steps: "Inspektionsschritte", matrix: "Risikomatrix", context: "Betriebskontext", severity: "Schwere", occurrence: "Auftreten", count: "Fehlermodi" },
+      Polish: { worksheet: "Arkusz decyzyjny", steps: "Kroki inspekcji", matrix: "Macierz ryzyka", context: "Kontekst operacyjny", severity: "Dotkliwość", occurrence: "Występowanie", count: "Tryby awarii" }
+    };
+    const labels = allLabels[targetLang] || allLabels['English'];
 
+    const worksheetOrder = compareByWorksheet(studyFunctions);
     const sortedForExport = [...processedData].sort((a, b) => {
-        const ft = (a.functionType || '').localeCompare(b.functionType || '');
-        if (ft !== 0) return ft;
-        const f = (a.function || '').localeCompare(b.function || '');
-        if (f !== 0) return f;
-        const ff = (a.functionalFailure || '').localeCompare(b.functionalFailure || '');
-        if (ff !== 0) return ff;
+        const worksheet = worksheetOrder(a, b);
+        if (worksheet !== 0) return worksheet;
         const comp = (a.component || '').localeCompare(b.component || '');
         if (comp !== 0) return comp;
         return (a.failureMode || '').localeCompare(b.failureMode || '');
     });
 
+    // Decision worksheet: one row per inspection step, with the grouping columns merged over
+    // each function, functional failure and component group, and each failure mode's own rows
+    const rows: XlsxCell[][] = [headers.map(h => cell(h, 'header'))];
+    const merges: XlsxMerge[] = [];
+    const groupColumns: { cols: number[]; key: (item: RCMItem) => string }[] = [
+      { cols: [0], key: item => item.functionId || item.function },
+      { cols: [1], key: item => `${item.functionId || item.function}|${item.functionalFailureId || item.functionalFailure}` },
+      { cols: [2, 3, 4, 5, 6], key: item => `${item.functionId || item.function}|${item.functionalFailureId || item.functionalFailure}|${item.component}` }
+    ];
+    const groupStarts = groupColumns.map(() => ({ key: '', row: 1 }));
+    const closeGroup = (index: number, endRow: number) => {
+      const start = groupStarts[index];
+      groupColumns[index].cols.forEach(col => merges.push({ row: start.row, col, rowSpan: endRow - start.row, colSpan: 1 }));
+    };
+
     sortedForExport.forEach(item => {
       const steps = item.inspectionSheet?.steps || [];
-      const responsibility = item.inspectionSheet?.responsibility || "";
-      const duration = item.inspectionSheet?.estimatedTime || "";
-
-      const showFunc = item.function !== lastFunc;
-      const showFF = showFunc || item.functionalFailure !== lastFF;
-      const showComp = showFF || item.component !== lastComp;
-      const showFM = showComp || item.failureMode !== lastFM;
-
-      lastFunc = item.function;
-      lastFF = item.functionalFailure;
-      lastComp = item.component;
-      lastFM = item.failureMode;
-
-      const metadataCols = [
-        showFunc ? item.function : "",
-        showFF ? item.functionalFailure : "",
-        showComp ? item.component : "",
-        showComp ? (item.componentType || "") : "",
-        showComp ? (item.componentIntel?.description || "") : "",
-        showFM ? item.failureMode : "",
-        showFM ? item.iso14224Code : ""
-      ];
-
-      if (steps.length > 0) {
-        steps.forEach((step, idx) => {
-          const taskInfo = idx === 0 ? [item.maintenanceTask, item.interval] : ["", ""];
-          const headerInfo = (idx === 0 && showFM) ? metadataCols : ["", "", "", "", "", "", ""];
-          
-          const rowData = [
-            ...headerInfo,
-            ...taskInfo,
-            step.step,
-            step.description,
-            idx === 0 ? responsibility : "",
-            idx === 0 ? duration : "",
-            step.criteria
-          ];
-          
-          rows.push(rowData.map(v => `"${cleanStrForCSV(v)}"`).join(","));
-        });
-      } else {
-        const rowData = [
-          showFM ? item.function : "",
-          showFF ? item.functionalFailure : "",
-          showComp ? item.component : "",
-          showComp ? (item.componentType || "") : "",
-          showComp ? (item.componentIntel?.description || "") : "",
-          showFM ? item.failureMode : "",
-          showFM ? item.iso14224Code : "",
-          item.maintenanceTask,
-          item.interval,
-          "", "", "", "", ""
-        ];
-        rows.push(rowData.map(v => `"${cleanStrForCSV(v)}"`).join(","));
+      const band = rpnLevel(item.rpn || 0, riskScheme);
+      const assetRef = resolveAssetReference(assetHierarchy, item.assetNodeId);
+      const firstRow = rows.length;
+      const span = Math.max(steps.length, 1);
+
+      groupColumns.forEach((group, index) => {
+        const key = group.key(item);
+        if (key === groupStarts[index].key) return;
+        if (groupStarts[index].key) closeGroup(index, firstRow);
+        groupStarts[index] = { key, row: firstRow };
+      });
+
+      for (let idx = 0; idx < span; idx++) {
+        const step = steps[idx];
+        const first = idx === 0;
+        rows.push([
+          cell(first ? item.function : ''),
+          cell(first ? item.functionalFailure : ''),
+          cell(first ? item.component : ''),
+          cell(first ? assetRef.functionalLocation : ''),
+          cell(first ? assetRef.assetTag : ''),
+          cell(first ? item.componentType : ''),
+          cell(first ? item.componentIntel?.description : ''),
+          ...[
+            item.failureMode, item.iso14224Code, item.equipmentClass, item.failureMechanism, item.failureCause, item.detectionMethod,
+            item.rpn, item.actionPriority, item.maintenanceTask, formatInterval(item.interval, targetLang)
+          ].map(value => cell(first ? value : '', band)),
+          cell(step?.step, band),
+          cell(step?.description, band),
+          cell(first ? item.inspectionSheet?.responsibility : '', band),
+          cell(first ? item.inspectionSheet?.estimatedTime : '', band),
+          cell(step?.criteria, band)
+        ]);
       }
+      if (span > 1) [7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 19, 20].forEach(col => merges.push({ row: firstRow, col, rowSpan: span, colSpan: 1 }));
     });
-
-    const csvContent = "\uFEFFsep=,\n" + [headers.map(h => `"${h}"`).join(","), ...rows].join("\n");
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+    groupColumns.forEach((_, index) => { if (groupStarts[index].key) closeGroup(index, rows.length); });
+
+    // Inspection steps on their own, for planners who only need the task cards
+    const stepColumns = [2, 7, 15, 17, 18, 19, 20, 21];
+    const stepRows: XlsxCell[][] = [stepColumns.map(i => cell(headers[i], 'header'))];
+    sortedForExport.forEach(item => (item.inspectionSheet?.steps || []).forEach(step => stepRows.push([
+      cell(item.component), cell(item.failureMode), cell(item.maintenanceTask), cell(step.step), cell(step.description),
+      cell(item.inspectionSheet?.responsibility), cell(item.inspectionSheet?.estimatedTime), cell(step.criteria)
+    ])));
+
+    // Counts per severity/occurrence cell, coloured by the study's matrix
+    const sevMax = scaleMax(riskScheme.severity);
+    const occMax = scaleMax(riskScheme.occurrence);
+    const matrixRows: XlsxCell[][] = [
+      [cell(`${labels.matrix} · ${labels.count}`, 'title')],
+      [cell(`${labels.severity} ↓ / ${labels.occurrence} →`, 'header'), ...Array.from({ length: occMax }, (_, o) => cell(o + 1, 'header'))],
+      ...Array.from({ length: sevMax }, (_, i) => {
+        const s = sevMax - i;
+        return [cell(s, 'label'), ...Array.from({ length: occMax }, (_, o) => {
+          const count = data.filter(item => item.severity === s && item.occurrence === o + 1).length;
+          return cell(count || '', matrixLevel(s, o + 1, riskScheme));
+        })];
+      })
+    ];
+
+    const contextRows: XlsxCell[][] = [
+      [cell(studyName || 'RCM Analysis', 'title')],
+      [cell(labels.context, 'header')],
+      ...(contextText || '').split(/\n\s*\n/).map(p => p.trim()).filter(Boolean).map(p => [cell(p)])
+    ];
+
+    const workbook = buildXlsx([
+      { name: labels.worksheet, rows, merges, freezeRows: 1, columnWidths: [28, 28, 22, 16, 14, 12, 30, 30, 10, 10, 10, 10, 10, 8, 10, 36, 14, 6, 40, 16, 10, 30] },
+      { name: labels.steps, rows: stepRows, freezeRows: 1, columnWidths: [22, 30, 36, 6, 40, 16, 10, 30] },
+      { name: labels.matrix, rows: matrixRows, merges: [{ row: 0, col: 0, rowSpan: 1, colSpan: occMax + 1 }], columnWidths: [22, ...Array(occMax).fill(8)] },
+      { name: labels.context, rows: contextRows, columnWidths: [120] }
+    ]);
+
+    const blob = new Blob([workbook], { type: XLSX_MIME_TYPE });
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.setAttribute('href', url);
     
     const fileNameBase = studyName ? studyName.trim().replace(/[^a-zA-Z0-9\u00C0-\u017F]/g, '_') : 'RCM_Decision_Sheet';
-    link.setAttribute('download', `${fileNameBase}_${targetLang}_Decision_Sheet.csv`);
+    link.setAttribute('download', `${fileNameBase}_${targetLang}_Decision_Sheet.xlsx`);
     
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
+    URL.revokeObjectURL(url);
     
     setTimeout(() => setIsExtracting(false), 1500);
   };
@@ -556,11 +709,11 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ data, studyName,
     setIsExtracting(true);
     
     const allLabels: Record<string, any> = {
-      English: { title: "RCM Strategy Report", func: "Function", ff: "Functional Failure", comp: "Component", strategy: "Maintenance Strategy", insp: "Inspection Protocol" },
-      Spanish: { title: "Informe de Estrategia RCM", func: "Función", ff: "Fallo Funcional", comp: "Componente", strategy: "Estrategia de Mantenimiento", insp: "Protocolo de Inspección" },
-      French: { title: "Rapport de Stratégie RCM", func: "Fonction", ff: "Défaillance Fonctionnelle", comp: "Composant", strategy: "Stratégie de Maintenance", insp: "Protocole d'Inspection" },
-      German: { title: "RCM-Strategiebericht", func: "Funktion", ff: "Funktionsstörung", comp: "Komponente", strategy: "Instandhaltungsstrategie", insp: "Inspektionsprotokoll" },
-      Polish: { title: "Raport Strategii RCM", func: "Funkcja", ff: "Usterka Funkcjonalna", comp: "Komponent", strategy: "Strategia Utrzymania", insp: "Protokół Inspekcji" }
+      English: { title: "RCM Strategy Report", func: "Function", ff: "Functional Failure", comp: "Component", floc: "Functional Location", tag: "Asset Tag", strategy: "Maintenance Strategy", insp: "Inspection Protocol", signoff: "Document Approval", status: "Status", approved: "Failure modes approved", name: "Name", role: "Role", action: "Action", date: "Date", comment: "Comment", signature: "Signature" },
+      Spanish: { title: "Informe de Estrategia RCM", func: "Función", ff: "Fallo Funcional", comp: "Componente", floc: "Ubicación técnica", tag: "Etiqueta de activo", strategy: "Estrategia de Mantenimiento", insp: "Protocolo de Inspección", signoff: "Aprobación del documento", status: "Estado", approved: "Modos de fallo aprobados", name: "Nombre", role: "Rol", action: "Acción", date: "Fecha", comment: "Comentario", signature: "Firma" },
+      French: { title: "Rapport de Stratégie RCM", func: "Fonction", ff: "Défaillance Fonctionnelle", comp: "Composant", floc: "Poste technique", tag: "Repère d'équipement", strategy: "Stratégie de Maintenance", insp: "Protocole d'Inspection", signoff: "Approbation du document", status: "Statut", approved: "Modes de défaillance approuvés", name: "Nom", role: "Rôle", action: "Action", date: "Date", comment: "Commentaire", signature: "Signature" },
+      German: { title: "RCM-Strategiebericht", func: "Funktion", ff: "Funktionsstörung", comp: "Komponente", floc: "Technischer Platz", tag: "Equipment-Nr.", strategy: "Instandhaltungsstrategie", insp: "Inspektionsprotokoll", signoff: "Dokumentfreigabe", status: "Status", approved: "Freigegebene Fehlermodi", name: "Name", role: "Rolle", action: "Aktion", date: "Datum", comment: "Kommentar", signature: "Unterschrift" },
+      Polish: { title: "Raport Strategii RCM", func: "Funkcja", ff: "Usterka Funkcjonalna", comp: "Komponent", floc: "Lokalizacja funkcjonalna", tag: "Numer zasobu", strategy: "Strategia Utrzymania", insp: "Protokół Inspekcji", signoff: "Zatwierdzenie dokumentu", status: "Status", approved: "Zatwierdzone tryby awarii", name: "Imię i nazwisko", role: "Rola", action: "Działanie", date: "Data", comment: "Komentarz", signature: "Podpis" }
     };
     const labels = allLabels[targetLang] || allLabels['English'];
 
@@ -588,27 +741,59 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ data, studyName,
         </div>
     `;
 
-    const grouped: Record<string, Record<string, RCMItem[]>> = {};
-    processedData.forEach(item => {
-      if (!grouped[item.function]) grouped[item.function] = {};
-      if (!grouped[item.function][item.functionalFailure]) grouped[item.function][item.functionalFailure] = [];
-      grouped[item.function][item.functionalFailure].push(item);
-    });
+    // Sign-off page: the study's sign-off record plus blank lines for wet signatures
+    const approvedCount = data.filter(item => item.isApproved).length;
+    htmlContent += `
+      <div style="page-break-after: always;">
+        <h1>${labels.signoff}</h1>
+        <p><strong>${labels.status}:</strong> ${workflowStateLabel(workflow.state)} | <strong>${labels.approved}:</strong> ${approvedCount} / ${data.length}</p>
+        <table>
+          <thead>
+            <tr><th>${labels.role}</th><th>${labels.name}</th><th>${labels.action}</th><th>${labels.date}</th><th>${labels.comment}</th><th style="width: 140px;">${labels.signature}</th></tr>
+          </thead>
+          <tbody>
+            ${workflow.signOffs.map(signOff => `
+              <tr>
+                <td>${signOff.role}</td>
+                <td>${signOff.name}</td>
+                <td>${workflowStateLabel(signOff.from)} → ${workflowStateLabel(signOff.to)}</td>
+                <td>${new Date(signOff.timestamp).toLocaleString(targetLang)}</td>
+                <td>${signOff.comment || ''}</td>
+                <td></td>
+              </tr>
+            `).join('')}
+            ${['Author', 'Reviewer', 'Approver'].filter(role => !workflow.signOffs.some(s => s.role === role)).map(role => `
+              <tr><td>${role}</td><td></td><td></td><td></td><td></td><td style="height: 40px;"></td></tr>
+            `).join('')}
+          </tbody>
+        </table>
+      </div>
+    `;
 
-    Object.entries(grouped).forEach(([funcName, failures]) => {
-      htmlContent += `<h1>${labels.func}: ${funcName}</h1>`;
+    // Chapters follow the worksheet records: one per function, one section per functional failure
+    const reportItems = [...processedData].sort(compareByWorksheet(studyFunctions));
+    studyFunctions.forEach(fn => {
+      const fnItems = reportItems.filter(item => item.functionId === fn.id);
+      if (fnItems.length === 0) return;
+      htmlContent += `<h1>${labels.func}: ${fn.description}</h1>`;
       
-      Object.entries(failures).forEach(([ffName, items]) => {
-        htmlContent += `<h2>${labels.ff}: ${ffName}</h2>`;
+      fn.functionalFailures.forEach(ff => {
+        const items = fnItems.filter(item => item.functionalFailureId === ff.id);
+        if (items.length === 0) return;
+        htmlContent += `<h2>${labels.ff}: ${ff.description}</h2>`;
         
         items.forEach(item => {
+          const assetRef = resolveAssetReference(assetHierarchy, item.assetNodeId);
           htmlContent += `
             <div style="margin-bottom: 30px; page-break-inside: avoid;">
               <h3>${labels.comp}: ${item.component} (${item.componentType})</h3>
               <div class="meta-box">
+                <p><strong>${labels.floc}:</strong> ${assetRef.functionalLocation || '—'} | <strong>${labels.tag}:</strong> ${assetRef.assetTag || '—'} | ${assetRef.path}</p>
                 <p><strong>Failure Mode:</strong> ${item.failureMode}</p>
                 <p><strong>Effect:</strong> ${item.failureEffect}</p>
-                <p><strong>Criticality:</strong> ${item.criticality} (RPN: ${item.rpn}) | <strong>ISO 14224:</strong> ${item.iso14224Code}</p>
+                ${item.approval ? `<p><strong>Approved:</strong> ${item.approval.approvedBy}, ${new Date(item.approval.approvedAt).toLocaleDateString(targetLang)}</p>` : ''}
+                <p><strong>Criticality:</strong> ${item.criticality} (RPN: ${item.rpn} | AP: ${item.actionPriority || ''}${item.residual ? ` | Residual RPN: ${item.residual.rpn}` : ''}) | <strong>ISO 14224:</strong> ${[item.equipmentClass, item.iso14224Code].filter(Boolean).join(' / ')}</p>
+                ${item.failureMechanism || item.failureCause || item.detectionMethod ? `<p><strong>Mechanism:</strong> ${formatTaxonomy(FAILURE_MECHANISMS, item.failureMechanism) || '-'} | <strong>Cause:</strong> ${formatTaxonomy(FAILURE_CAUSES, item.failureCause) || '-'} | <strong>Detection:</strong> ${formatTaxonomy(DETECTION_METHODS, item.detectionMethod) || '-'}</p>` : ''}
               </div>
               
               <h4>${labels.strategy}</h4>
@@ -619,7 +804,7 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ data, studyName,
                 <tbody>
                   <tr>
                     <td class="task-cell">${item.maintenanceTask}</td>
-                    <td>${item.interval}</td>
+                    <td>${formatInterval(item.interval, targetLang)}</td>
                     <td>${item.taskType}</td>
                   </tr>
                 </tbody>
@@ -668,6 +853,27 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ data, studyName,
     setTimeout(() => setIsExtracting(false), 1500);
   };
 
+  // Same report as the Word extract, laid out as a paginated PDF with vector charts
+  const handlePdfReport = (targetLang: string = 'English') => {
+    setIsExtracting(true);
+    const pdf = buildStrategyReport({
+      studyName, items: data, functions: studyFunctions, assetHierarchy, riskScheme, workflow, contextText: contextText || '', language: targetLang
+    });
+
+    const blob = new Blob([pdf], { type: PDF_MIME_TYPE });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.setAttribute('href', url);
+    const fileNameBase = studyName ? studyName.trim().replace(/[^a-zA-Z0-9\u00C0-\u017F]/g, '_') : 'RCM_Report';
+    link.setAttribute('download', `${fileNameBase}_${targetLang}_Report.pdf`);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+
+    setTimeout(() => setIsExtracting(false), 1500);
+  };
+
   const handleMatrixClick = (s: number, o: number) => {
     if (matrixFilter?.s === s && matrixFilter?.o === o) {
       setMatrixFilter(null);
@@ -687,19 +893,57 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ data, studyName,
   const clearAllFilters = () => {
     setMatrixFilter(null);
     setBarFilter(null);
+    setAssetFilter('');
+    setOpenCommentsOnly(false);
     setSearchFilters({ component: '', componentType: '', functionType: '', function: '', failureMode: '', consequenceCategory: '', iso14224Code: '' });
     setSortConfig({ key: 'functionType', direction: 'asc' });
   };
 
-  const topRisks = data
-    .sort((a, b) => (b.rpn || 0) - (a.rpn || 0))
+  // Jump from a global search result: clear filters so the row is rendered, then scroll to and flash it
+  useEffect(() => {
+    if (!focusRequest) return;
+    clearAllFilters();
+    setFocusedRowId(focusRequest.itemId);
+    const scroll = setTimeout(() => document.getElementById(`rcm-row-${focusRequest.itemId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' }), 150);
+    const clear = setTimeout(() => setFocusedRowId(null), 4000);
+    return () => {
+      clearTimeout(scroll);
+      clearTimeout(clear);
+    };
+  }, [focusRequest]);
+
+  const topRisks = [...data]
+    .sort(compareByRanking(riskScheme))
     .slice(0, 5)
     .map(item => ({
       id: item.id,
       name: (item.failureMode || '').length > 20 ? (item.failureMode || '').substring(0, 20) + '...' : (item.failureMode || ''),
-      rpn: item.rpn || 0
+      rpn: item.rpn || 0,
+      level: rankingLevel(item, riskScheme)
     }));
 
+  // Risk-reduction waterfall: total initial RPN, what each task type removes, total residual RPN
+  const riskWaterfall = (() => {
+    const initialTotal = data.reduce((sum, item) => sum + (item.rpn || 0), 0);
+    const reductions = new Map<string, number>();
+    data.forEach(item => {
+      const reduction = (item.rpn || 0) - residualOf(item, riskScheme).rpn;
+      if (reduction > 0) reductions.set(item.taskType, (reductions.get(item.taskType) || 0) + reduction);
+    });
+    const bars: { name: string; base: number; value: number; kind: 'initial' | 'reduction' | 'residual' }[] = [
+      { name: 'Initial', base: 0, value: initialTotal, kind: 'initial' }
+    ];
+    let running = initialTotal;
+    [...reductions.entries()].sort((a, b) => b[1] - a[1]).forEach(([taskType, reduction]) => {
+      running -= reduction;
+      bars.push({ name: taskType, base: running, value: reduction, kind: 'reduction' });
+    });
+    bars.push({ name: 'Residual', base: 0, value: running, kind: 'residual' });
+    return { bars, initialTotal, residualTotal: running };
+  })();
+
+  const WATERFALL_COLORS = { initial: '#ef4444', reduction: '#10b981', residual: '#4f46e5' };
+
   const renderSortIcon = (key: keyof RCMItem | 'rpn' | 'status_color' | 'inspectionSheet') => {
     if (sortConfig.key !== key) return <ArrowUpDown size={14} className="text-slate-300" />;
     return sortConfig.direction === 'asc' ? <ArrowUp size={14} className="text-indigo-600" /> : <ArrowDown size={14} className="text-indigo-600" />;
@@ -797,7 +1041,7 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ data, studyName,
                      <RefreshCw size={14} className="text-indigo-600" />
                      <span className="text-[9px] font-black uppercase tracking-widest">Frequency</span>
                   </div>
-                  <p className="text-xs font-black text-indigo-700 uppercase tracking-tight">{item.interval}</p>
+                  <p className="text-xs font-black text-indigo-700 uppercase tracking-tight">{formatInterval(item.interval, language)}</p>
                 </div>
               </div>
             </div>
@@ -956,6 +1200,13 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ data, studyName,
               </div>
             </div>
             <div className="flex gap-6">
+               <button 
+                 onClick={() => setCardItems([item])}
+                 disabled={!sheet.steps?.length}
+                 className="flex items-center gap-3 px-8 py-4 bg-slate-50 text-slate-600 rounded-[1.2rem] text-[10px] font-black uppercase tracking-[0.15em] hover:bg-slate-100 transition-all active:scale-95 shadow-inner disabled:opacity-50"
+               >
+                 <Printer size={16} /> Print Field Card
+               </button>
                <button 
                  onClick={() => handleGenerateSingleSheet(item)}
                  disabled={isRegenerating}
@@ -1062,15 +1313,22 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ data, studyName,
     );
   };
 
-  const isFiltered = !!matrixFilter || !!barFilter || !!searchFilters.component || !!searchFilters.componentType || !!searchFilters.functionType || !!searchFilters.function || !!searchFilters.failureMode || !!searchFilters.consequenceCategory || !!searchFilters.iso14224Code;
+  const severityMax = scaleMax(riskScheme.severity);
+  const occurrenceMax = scaleMax(riskScheme.occurrence);
+  const isApRanking = riskScheme.ranking === 'ap';
+  const openCommentItems = data.filter(hasOpenComments).length;
+  const isFiltered = !!matrixFilter || !!barFilter || !!assetFilter || openCommentsOnly || !!searchFilters.component || !!searchFilters.componentType || !!searchFilters.functionType || !!searchFilters.function || !!searchFilters.failureMode || !!searchFilters.consequenceCategory || !!searchFilters.iso14224Code;
 
   const stats = [
     { label: 'Total Failure Modes', value: data.length, icon: ListChecks, color: 'text-blue-600', bg: 'bg-blue-50' },
-    { label: 'Max RPN Score', value: Math.max(...data.map(i => i.rpn || 0), 0), icon: AlertOctagon, color: 'text-red-600', bg: 'bg-red-50' },
+    isApRanking
+      ? { label: 'High Action Priority', value: data.filter(i => itemActionPriority(i, riskScheme) === 'High').length, icon: AlertOctagon, color: 'text-red-600', bg: 'bg-red-50' }
+      : { label: 'Max RPN Score', value: Math.max(...data.map(i => i.rpn || 0), 0), icon: AlertOctagon, color: 'text-red-600', bg: 'bg-red-50' },
     { label: 'Condition Monitoring', value: data.filter(i => i.taskType === 'Condition Monitoring').length, icon: Zap, color: 'text-blue-600', bg: 'bg-blue-50' },
     { label: 'Human factor fixes', value: data.filter(i => i.taskType === 'Training' || i.taskType === 'Procedural Change').length, icon: UserPlus, color: 'text-purple-600', bg: 'bg-purple-50' },
     { label: 'Failure Finding', value: data.filter(i => i.taskType === 'Failure Finding').length, icon: Search, color: 'text-amber-600', bg: 'bg-amber-50' },
     { label: 'Run-to-Failure', value: data.filter(i => i.taskType === 'Run-to-Failure').length, icon: CheckCircle, color: 'text-emerald-600', bg: 'bg-emerald-50' },
+    { label: 'Inspection h / year', value: Math.round(inspectionWorkloadHours(data)), icon: Clock, color: 'text-indigo-600', bg: 'bg-indigo-50' },
   ];
 
   return (
@@ -1085,13 +1343,47 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ data, studyName,
           onApply={handleApplyOptimizedInterval}
         />
       )}
+      {weibullItem && (
+        <WeibullModal 
+          item={weibullItem} 
+          isOpen={!!weibullItem} 
+          onClose={() => setWeibullItem(null)} 
+          onSave={(updated) => { updateItemInMainData(updated); setWeibullItem(null); }}
+          language={language}
+          riskScheme={riskScheme}
+        />
+      )}
+      {ageReplacementItem && (
+        <AgeReplacementModal 
+          item={ageReplacementItem} 
+          isOpen={!!ageReplacementItem} 
+          onClose={() => setAgeReplacementItem(null)} 
+          onApply={(interval, record) => { updateItemInMainData({ ...ageReplacementItem, interval, ageReplacement: record }); setAgeReplacementItem(null); }}
+          language={language}
+        />
+      )}
+      {failureFindingItem && (
+        <FailureFindingModal 
+          item={failureFindingItem} 
+          isOpen={!!failureFindingItem} 
+          onClose={() => setFailureFindingItem(null)} 
+          onApply={(interval, record) => { updateItemInMainData({ ...failureFindingItem, interval, failureFinding: record }); setFailureFindingItem(null); }}
+          language={language}
+        />
+      )}
+      <ItemReviewPanel item={data.find(i => i.id === reviewItemId) || null} onClose={() => setReviewItemId(null)} onAddComment={handleAddReviewComment} onResolveThread={handleResolveThread} />
+      <FailureModeLibraryModal isOpen={showLibrary} onClose={() => setShowLibrary(false)} onInsert={handleInsertLibraryEntries} />
+      <InspectionCardsModal isOpen={!!cardItems} onClose={() => setCardItems(null)} items={cardItems || []} studyName={studyName} assetHierarchy={assetHierarchy} language={language} />
+      <RouteBuilderModal isOpen={showRouteBuilder} onClose={() => setShowRouteBuilder(false)} data={data} studyName={studyName} assetHierarchy={assetHierarchy} language={language} />
       <CMMSBridgeModal 
         data={data} 
         isOpen={showCMMSBridge} 
         onClose={() => setShowCMMSBridge(false)} 
+        assetHierarchy={assetHierarchy}
+        onAssetHierarchyChange={onAssetHierarchyChange}
       />
 
-      <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-4 lg:grid-cols-7 gap-4">
         {stats.map((stat, i) => (
            <div key={i} className="bg-white p-4 rounded-xl shadow-sm border border-slate-200 hover:shadow-md transition-shadow">
             <div className="flex flex-col gap-3">
@@ -1110,26 +1402,38 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ data, studyName,
       <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
         <div className="xl:col-span-2 bg-white p-6 rounded-xl shadow-sm border border-slate-200 flex flex-col">
           <div className="flex justify-between items-start mb-6">
-            <div><h3 className="text-lg font-bold text-slate-800 flex items-center gap-2"><AlertTriangle size={20} className="text-orange-500" />Risk Criticality Matrix</h3><p className="text-sm text-slate-500 mt-1">Click any cell to filter the items below.</p></div>
+            <div><h3 className="text-lg font-bold text-slate-800 flex items-center gap-2"><AlertTriangle size={20} className="text-orange-500" />Risk Criticality Matrix</h3><p className="text-sm text-slate-500 mt-1">{riskScheme.name} · Click any cell to filter the items below.</p></div>
+            <div className="flex flex-col items-end gap-2">
+            <div className="flex bg-slate-100 p-0.5 rounded-lg">
+              {(['initial', 'residual'] as const).map(view => (
+                <button key={view} onClick={() => { setMatrixView(view); setMatrixFilter(null); }} className={`px-3 py-1 rounded-md text-[10px] font-black uppercase tracking-widest transition-all ${matrixView === view ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}>
+                  {view === 'initial' ? 'Pre-Mitigation' : 'Post-Mitigation'}
+                </button>
+              ))}
+            </div>
             <div className="flex gap-2 text-xs font-medium">
               <div className="flex items-center gap-1"><div className="w-3 h-3 bg-emerald-100 border border-emerald-300 rounded-sm"></div> Low</div>
               <div className="flex items-center gap-1"><div className="w-3 h-3 bg-amber-100 border border-amber-300 rounded-sm"></div> Med</div>
               <div className="flex items-center gap-1"><div className="w-3 h-3 bg-red-100 border border-red-300 rounded-sm"></div> High</div>
             </div>
+            </div>
           </div>
           <div className="flex-1 min-h-[300px] flex items-center justify-center p-4 relative">
              <div className="relative w-full max-w-lg aspect-square">
                 <div className="absolute -left-12 top-0 bottom-0 flex items-center justify-center"><span className="text-xs font-bold text-slate-400 uppercase tracking-widest -rotate-90">Occurrence</span></div>
                 <div className="absolute left-0 right-0 -bottom-8 flex items-center justify-center"><span className="text-xs font-bold text-slate-400 uppercase tracking-widest">Severity</span></div>
-                <div className="grid grid-cols-10 grid-rows-10 gap-1 w-full h-full">
-                   {Array.from({ length: 100 }).map((_, idx) => {
-                      const x = (idx % 10) + 1; const y = 10 - Math.floor(idx / 10); const score = x * y;
-                      let bgClass = "bg-emerald-50 border-emerald-100"; if (score >= 50) bgClass = "bg-red-50 border-red-100"; else if (score >= 20) bgClass = "bg-amber-50 border-amber-100";
+                <div className="grid gap-1 w-full h-full" style={{ gridTemplateColumns: `repeat(${severityMax}, minmax(0, 1fr))`, gridTemplateRows: `repeat(${occurrenceMax}, minmax(0, 1fr))` }}>
+                   {Array.from({ length: severityMax * occurrenceMax }).map((_, idx) => {
+                      const x = (idx % severityMax) + 1; const y = occurrenceMax - Math.floor(idx / severityMax);
+                      // Under AP the cell shows the priority if the failure goes undetected; the dot shows the worst item in it
+                      const level = isApRanking ? itemActionPriority({ severity: x, occurrence: y, detection: scaleMax(riskScheme.detection) }, riskScheme) : matrixLevel(x, y, riskScheme);
+                      let bgClass = RISK_LEVEL_STYLES[level].cell;
                       const isSelected = matrixFilter?.s === x && matrixFilter?.o === y;
                       if (isSelected) bgClass = "bg-indigo-600 border-indigo-700 ring-2 ring-indigo-300 z-10"; else if (matrixFilter) bgClass += " opacity-40 grayscale"; 
-                      const itemsInCell = data.filter(d => (d.severity || 0) === x && (d.occurrence || 0) === y);
+                      const itemsInCell = data.filter(d => (matrixScores(d).severity || 0) === x && (matrixScores(d).occurrence || 0) === y);
                       const count = itemsInCell.length;
-                      return (<button key={idx} onClick={() => handleMatrixClick(x, y)} className={`border rounded-sm relative group transition-all hover:scale-110 hover:z-20 outline-none focus:ring-2 focus:ring-indigo-400 ${bgClass}`}>{count > 0 && (<div className="absolute inset-0 flex items-center justify-center"><div className={`w-6 h-6 rounded-full flex items-center justify-center text-xs font-bold shadow-sm transition-transform ${isSelected ? 'bg-white text-indigo-700 scale-100' : 'text-white scale-90 group-hover:scale-110'} ${!isSelected && (score >= 50 ? 'bg-red-500' : score >= 20 ? 'bg-amber-500' : 'bg-emerald-500')}`}>{count}</div></div>)}</button>);
+                      const dotLevel = isApRanking ? itemsInCell.map(d => itemActionPriority(matrixScores(d), riskScheme)).reduce((worst, ap) => AP_RANK[ap] > AP_RANK[worst] ? ap : worst, 'Low') : level;
+                      return (<button key={idx} onClick={() => handleMatrixClick(x, y)} className={`border rounded-sm relative group transition-all hover:scale-110 hover:z-20 outline-none focus:ring-2 focus:ring-indigo-400 ${bgClass}`}>{count > 0 && (<div className="absolute inset-0 flex items-center justify-center"><div className={`w-6 h-6 rounded-full flex items-center justify-center text-xs font-bold shadow-sm transition-transform ${isSelected ? 'bg-white text-indigo-700 scale-100' : 'text-white scale-90 group-hover:scale-110'} ${!isSelected && RISK_LEVEL_STYLES[dotLevel].dot}`}>{count}</div></div>)}</button>);
                    })}
                 </div>
              </div>
@@ -1137,7 +1441,7 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ data, studyName,
         </div>
         <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 flex flex-col">
           <div className="mb-6">
-            <h3 className="text-lg font-bold text-slate-800">Top 5 Critical Risks (RPN)</h3>
+            <h3 className="text-lg font-bold text-slate-800">Top 5 Critical Risks ({isApRanking ? 'AP' : 'RPN'})</h3>
             <p className="text-sm text-slate-500 mt-1">Click bars to isolate failure modes.</p>
           </div>
           <div className="flex-1 min-h-[250px]">
@@ -1163,7 +1467,7 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ data, studyName,
                 >
                   {topRisks.map((entry, index) => {
                     const isSelected = barFilter === entry.id;
-                    const baseColor = entry.rpn >= 120 ? '#ef4444' : '#f59e0b';
+                    const baseColor = RISK_LEVEL_STYLES[entry.level].hex;
                     return (
                       <Cell 
                         key={index} 
@@ -1180,6 +1484,41 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ data, studyName,
         </div>
       </div>
 
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+        <div className="flex justify-between items-start mb-6">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800">Risk Reduction by Task Type</h3>
+            <p className="text-sm text-slate-500 mt-1">Total RPN before and after the selected tasks are in place.</p>
+          </div>
+          <div className="text-right">
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Reduction</p>
+            <p className="text-2xl font-black text-emerald-600">
+              {riskWaterfall.initialTotal > 0 ? Math.round((1 - riskWaterfall.residualTotal / riskWaterfall.initialTotal) * 100) : 0}%
+            </p>
+          </div>
+        </div>
+        <div className="h-[260px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={riskWaterfall.bars} margin={{ left: 10, right: 10 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+              <XAxis dataKey="name" tick={{fontSize: 10, fill: '#64748b'}} interval={0} />
+              <YAxis tick={{fontSize: 10, fill: '#64748b'}} />
+              <RechartsTooltip 
+                cursor={{fill: '#f1f5f9'}} 
+                formatter={(value: number, name: string) => name === 'base' ? null : [value, 'RPN']}
+                contentStyle={{borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)'}} 
+              />
+              <Bar dataKey="base" stackId="waterfall" fill="transparent" isAnimationActive={false} />
+              <Bar dataKey="value" stackId="waterfall" radius={[4, 4, 0, 0]} barSize={40}>
+                {riskWaterfall.bars.map((entry, index) => (
+                  <Cell key={index} fill={WATERFALL_COLORS[entry.kind]} />
+                ))}
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
       <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden ring-1 ring-slate-900/5">
         <div className="p-6 border-b border-slate-200 flex flex-col xl:flex-row justify-between items-center gap-4 bg-slate-50/50">
           <div className="flex items-center gap-3"><div className="p-2 bg-indigo-600 rounded-lg shadow-sm"><FileText size={20} className="text-white" /></div><div><h3 className="text-lg font-bold text-slate-800">FMECA Analysis Details</h3><p className="text-xs text-slate-500">SAE JA1011 & ISO 14224 Compliant Analysis</p></div></div>
@@ -1198,12 +1537,12 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ data, studyName,
               {isExportMenuOpen && (
                 <>
                   <div className="fixed inset-0 z-40" onClick={() => setIsExportMenuOpen(false)}></div>
-                  <div className="absolute right-0 mt-2 w-[22rem] bg-white border border-slate-200 rounded-[1.5rem] shadow-2xl z-50 p-4 animate-in fade-in zoom-in-95 origin-top-right">
-                    <div className="grid grid-cols-2 gap-4">
+                  <div className="absolute right-0 mt-2 w-[32rem] bg-white border border-slate-200 rounded-[1.5rem] shadow-2xl z-50 p-4 animate-in fade-in zoom-in-95 origin-top-right">
+                    <div className="grid grid-cols-3 gap-4">
                       {/* Excel Column */}
                       <div className="space-y-1">
                         <div className="flex items-center gap-2 text-[9px] font-black text-slate-400 uppercase tracking-widest px-2 mb-2 pb-2 border-b border-slate-100">
-                          <FileSpreadsheet size={12} className="text-emerald-600" /> Excel (CSV)
+                          <FileSpreadsheet size={12} className="text-emerald-600" /> Excel (XLSX)
                         </div>
                         {['English', 'Spanish', 'French', 'German', 'Polish'].map((lang) => (
                           <button
@@ -1231,6 +1570,22 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ data, studyName,
                           </button>
                         ))}
                       </div>
+
+                      {/* PDF Column */}
+                      <div className="space-y-1">
+                        <div className="flex items-center gap-2 text-[9px] font-black text-slate-400 uppercase tracking-widest px-2 mb-2 pb-2 border-b border-slate-100">
+                          <File size={12} className="text-red-600" /> Report (PDF)
+                        </div>
+                        {['English', 'Spanish', 'French', 'German', 'Polish'].map((lang) => (
+                          <button
+                            key={lang}
+                            onClick={() => { handlePdfReport(lang); setIsExportMenuOpen(false); }}
+                            className="w-full text-left px-3 py-2 text-[10px] font-bold rounded-lg text-slate-600 hover:bg-red-50 hover:text-red-700 transition-colors flex items-center justify-between"
+                          >
+                            {lang} <ChevronRight size={10} className="opacity-30" />
+                          </button>
+                        ))}
+                      </div>
                     </div>
                   </div>
                 </>
@@ -1252,6 +1607,36 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ data, studyName,
               <Layers size={16} />
               CMMS Implementation
             </button>
+            <div className="flex items-center rounded-lg border border-slate-200 bg-white shadow-sm overflow-hidden">
+              <select
+                value={assetFilter}
+                onChange={(e) => setAssetFilter(e.target.value)}
+                className="px-3 py-2 text-sm font-medium text-slate-700 bg-transparent outline-none max-w-[220px]"
+                title="Show failure modes at or below an asset"
+              >
+                <option value="">All Assets</option>
+                {flattenAssetTree(assetHierarchy).map(({ node, depth }) => (
+                  <option key={node.id} value={node.id}>{'\u00A0\u00A0'.repeat(depth)}{node.name}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => setGroupByAsset(!groupByAsset)}
+                className={`flex items-center gap-2 px-3 py-2 text-sm font-medium border-l border-slate-200 transition-all ${groupByAsset ? 'bg-indigo-50 text-indigo-700' : 'text-slate-700 hover:bg-slate-50'}`}
+                title="Group rows by asset"
+              >
+                <Network size={16} />
+                Group
+              </button>
+            </div>
+            <button
+              onClick={() => setOpenCommentsOnly(!openCommentsOnly)}
+              className={`flex items-center gap-2 px-3 py-2 text-sm font-medium rounded-lg transition-all border shadow-sm ${openCommentsOnly ? 'bg-amber-50 text-amber-700 border-amber-200' : 'bg-white text-slate-700 border-slate-200 hover:bg-slate-50'}`}
+              title="Show only failure modes with unresolved comment threads"
+            >
+              <MessageSquare size={16} />
+              Open Comments
+              {openCommentItems > 0 && <span className="text-[10px] font-black bg-amber-100 text-amber-700 px-1.5 rounded">{openCommentItems}</span>}
+            </button>
             <button 
               onClick={() => requestSort('status_color')} 
               className={`flex items-center gap-2 px-3 py-2 text-sm font-medium rounded-lg transition-all border shadow-sm ${sortConfig.key === 'status_color' ? 'bg-indigo-50 text-indigo-700 border-indigo-200' : 'bg-white text-slate-700 border-slate-200 hover:bg-slate-50'}`}
@@ -1268,6 +1653,32 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ data, studyName,
               <Plus size={16} className="text-indigo-600" />
               Add Row
             </button>
+            <button
+              onClick={() => setShowLibrary(true)}
+              className="flex items-center gap-2 px-3 py-2 text-sm font-medium rounded-lg transition-all border shadow-sm bg-white text-slate-700 border-slate-200 hover:bg-slate-50"
+              title="Insert failure modes from the library"
+            >
+              <Library size={16} className="text-indigo-600" />
+              Library
+            </button>
+            <button
+              onClick={() => setCardItems(processedData)}
+              disabled={!data.some(i => i.inspectionSheet?.steps?.length)}
+              className="flex items-center gap-2 px-3 py-2 text-sm font-medium rounded-lg transition-all border shadow-sm bg-white text-slate-700 border-slate-200 hover:bg-slate-50 disabled:opacity-40"
+              title="Print field inspection cards for the items shown"
+            >
+              <Printer size={16} className="text-indigo-600" />
+              Field Cards
+            </button>
+            <button
+              onClick={() => setShowRouteBuilder(true)}
+              disabled={data.length === 0}
+              className="flex items-center gap-2 px-3 py-2 text-sm font-medium rounded-lg transition-all border shadow-sm bg-white text-slate-700 border-slate-200 hover:bg-slate-50 disabled:opacity-40"
+              title="Group recurring tasks into inspection routes"
+            >
+              <Route size={16} className="text-indigo-600" />
+              Routes
+            </button>
             <button onClick={handleGenerateAllSheets} disabled={generatingSheets} className={`flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-lg transition-all border shadow-sm ${generatingSheets ? 'bg-indigo-50 text-indigo-400 border-indigo-100 cursor-wait' : 'bg-indigo-600 text-white border-indigo-600 hover:bg-indigo-700 hover:shadow-md hover:-translate-y-0.5'}`}>{generatingSheets ? <Loader2 size={16} className="animate-spin" /> : <ClipboardList size={16} />}{generatingSheets ? `Generating ${progress.current}/${progress.total}` : "Generate Sheets"}</button>
           </div>
         </div>
@@ -1276,8 +1687,10 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ data, studyName,
            <div className="bg-slate-800 text-white px-6 py-3 flex justify-between items-center animate-in slide-in-from-top-2 duration-200">
              <div className="flex items-center gap-3"><span className="text-sm font-medium flex items-center gap-1.5"><Filter size={14} className="text-indigo-400" />Active Filters Applied</span>
                <div className="flex gap-2">
-                 {matrixFilter && <span className="text-[10px] bg-indigo-500/20 px-2 py-0.5 rounded border border-indigo-500/30">Matrix: S{matrixFilter.s} O{matrixFilter.o}</span>}
+                 {matrixFilter && <span className="text-[10px] bg-indigo-500/20 px-2 py-0.5 rounded border border-indigo-500/30">Matrix{matrixView === 'residual' ? ' (post)' : ''}: S{matrixFilter.s} O{matrixFilter.o}</span>}
                  {barFilter && <span className="text-[10px] bg-indigo-500/20 px-2 py-0.5 rounded border border-indigo-500/30">Chart Isolation: On</span>}
+                 {openCommentsOnly && <span className="text-[10px] bg-amber-500/20 px-2 py-0.5 rounded border border-amber-500/30">Open Comments</span>}
+                 {assetFilter && <span className="text-[10px] bg-slate-700 px-2 py-0.5 rounded border border-slate-600">Asset: {formatAssetPath(assetHierarchy, assetFilter)}</span>}
                  {searchFilters.component && <span className="text-[10px] bg-slate-700 px-2 py-0.5 rounded border border-slate-600">Comp: {searchFilters.component}</span>}
                  {searchFilters.componentType && <span className="text-[10px] bg-slate-700 px-2 py-0.5 rounded border border-slate-600">Type: {searchFilters.componentType}</span>}
                  {searchFilters.functionType && <span className="text-[10px] bg-slate-700 px-2 py-0.5 rounded border border-slate-600">Fn: {searchFilters.functionType}</span>}
@@ -1388,7 +1801,7 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ data, studyName,
                     {!isCollapsed('riskGroup') ? (
                       <div className="flex flex-col items-center">
                         <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1 leading-none">Risk Profile</span>
-                        <button onClick={() => requestSort('rpn')} className="flex items-center gap-1 hover:text-indigo-600 transition-colors mx-auto text-[10px] font-bold">RPN {renderSortIcon('rpn')}</button>
+                        <button onClick={() => requestSort('rpn')} className="flex items-center gap-1 hover:text-indigo-600 transition-colors mx-auto text-[10px] font-bold">{isApRanking ? 'AP' : 'RPN'} {renderSortIcon('rpn')}</button>
                       </div>
                     ) : (
                       <span className="text-[10px] font-black uppercase text-slate-400 mt-1">Risk Result</span>
@@ -1399,7 +1812,15 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ data, studyName,
                 <th className={`py-4 transition-all duration-300 ${isCollapsed('maintenanceTask') ? 'w-10' : 'w-[180px]'}`}>
                   <div className="flex flex-col gap-2 px-2">
                     <div className="self-center">{renderColumnToggle('maintenanceTask')}</div>
-                    {!isCollapsed('maintenanceTask') && <span>Proposed Task</span>}
+                    {!isCollapsed('maintenanceTask') && (
+                      <button onClick={() => requestSort('interval')} className="flex items-center gap-2 hover:text-indigo-600 transition-colors">Proposed Task {renderSortIcon('interval')}</button>
+                    )}
+                  </div>
+                </th>
+                <th className={`py-4 transition-all duration-300 ${isCollapsed('decisionPath') ? 'w-10' : 'w-[130px]'}`}>
+                  <div className="flex flex-col gap-2 px-2">
+                    <div className="self-center">{renderColumnToggle('decisionPath')}</div>
+                    {!isCollapsed('decisionPath') && <span>Decision Path</span>}
                   </div>
                 </th>
                 <th className={`py-4 text-center transition-all duration-300 ${isCollapsed('inspectionSheet') ? 'w-10' : 'w-16'}`}>
@@ -1422,51 +1843,178 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ data, studyName,
             </thead>
             <tbody className="divide-y divide-slate-100 text-sm bg-white">
               {processedData.length === 0 ? (
-                <tr><td colSpan={15} className="text-center py-20 bg-slate-50/30"><div className="flex flex-col items-center gap-2 text-slate-400"><FilterX size={48} strokeWidth={1} /><p className="font-medium">No matches found for active filters.</p><button onClick={clearAllFilters} className="text-indigo-600 text-xs hover:underline mt-2">Clear all filters</button></div></td></tr>
+                <tr><td colSpan={16} className="text-center py-20 bg-slate-50/30"><div className="flex flex-col items-center gap-2 text-slate-400"><FilterX size={48} strokeWidth={1} /><p className="font-medium">No matches found for active filters.</p><button onClick={clearAllFilters} className="text-indigo-600 text-xs hover:underline mt-2">Clear all filters</button></div></td></tr>
               ) : (
                 processedData.map((item, idx) => {
                   if (!item) return null;
                   const isEditing = editingId === item.id; const isRegenerating = regeneratingIds.has(item.id);
                   const isGeneratingIntel = generatingIntelIds.has(item.id);
                   const hasIssues = item.validationIssues && item.validationIssues.length > 0;
+                  const issueSeverity = worstSeverity(item.validationIssues || []);
                   
                   const prevItem = idx > 0 ? processedData[idx - 1] : null;
-                  const showFunctionType = !prevItem || prevItem.functionType !== item.functionType;
-                  const showFunction = showFunctionType || prevItem.function !== item.function;
-                  const showFunctionalFailure = showFunction || prevItem.functionalFailure !== item.functionalFailure;
+                  const startsAssetGroup = groupByAsset && (!prevItem || prevItem.assetNodeId !== item.assetNodeId);
+                  const assetRef = resolveAssetReference(assetHierarchy, item.assetNodeId);
+                  const assetGroupHeader = startsAssetGroup ? (
+                    <tr className="bg-slate-100/80">
+                      <td colSpan={16} className="px-4 py-2">
+                        <div className="flex items-center gap-3 text-[10px] font-black uppercase tracking-widest text-slate-500">
+                          <Network size={12} className="text-indigo-500" />
+                          <span className="text-slate-800">{assetRef.path || 'No asset'}</span>
+                          {assetRef.functionalLocation && <span className="font-mono normal-case">FL {assetRef.functionalLocation}</span>}
+                          {assetRef.assetTag && <span className="font-mono normal-case">Tag {assetRef.assetTag}</span>}
+                        </div>
+                      </td>
+                    </tr>
+                  ) : null;
+                  const showFunctionType = startsAssetGroup || !prevItem || prevItem.functionType !== item.functionType;
+                  const showFunction = showFunctionType || prevItem.functionId !== item.functionId;
+                  const showFunctionalFailure = showFunction || prevItem.functionalFailureId !== item.functionalFailureId;
                   const showComponent = showFunctionalFailure || prevItem.component !== item.component;
 
                   if (isEditing && editForm) {
                     const rpnVal = (editForm.severity || 1) * (editForm.occurrence || 1) * (editForm.detection || 1);
                     return (
-                      <tr key={item.id} className="bg-indigo-50/30 ring-2 ring-indigo-500/20 z-10 relative">
+                      <React.Fragment key={item.id}>
+                      {assetGroupHeader}
+                      <tr className="bg-indigo-50/30 ring-2 ring-indigo-500/20 z-10 relative">
                         <td className="align-top text-center py-4">{!isCollapsed('approved') && <div className="w-6 h-6 rounded-full bg-slate-100 mx-auto border-2 border-slate-200"></div>}</td>
                         <td className="align-top py-4 px-1">{!isCollapsed('functionType') && <select value={editForm.functionType} onChange={(e) => handleChange('functionType', e.target.value)} className="w-full px-2 py-1 border rounded text-[10px] font-black uppercase"><option value="Primary">Primary</option><option value="Secondary">Secondary</option></select>}</td>
-                        <td className="align-top py-4 px-1">{!isCollapsed('function') && <textarea rows={2} value={editForm.function} onChange={(e) => handleChange('function', e.target.value)} className="w-full px-2 py-1 border rounded text-xs" />}</td>
-                        <td className="align-top py-4 px-1">{!isCollapsed('functionalFailure') && <textarea rows={2} value={editForm.functionalFailure} onChange={(e) => handleChange('functionalFailure', e.target.value)} className="w-full px-2 py-1 border rounded text-xs" />}</td>
-                        <td className="align-top py-4 px-1">{!isCollapsed('component') && <input type="text" value={editForm.component} onChange={(e) => handleChange('component', e.target.value)} className="w-full px-2 py-1 border rounded" />}</td>
+                        <td className="align-top py-4 px-1">{!isCollapsed('function') && (
+                          <div className="space-y-1">
+                            <textarea rows={2} value={editForm.function} onChange={(e) => handleChange('function', e.target.value)} className="w-full px-2 py-1 border rounded text-xs" title={editForm.functionId ? 'Edits apply to every failure mode of this function' : undefined} />
+                            <select
+                              value={editForm.functionId || ''}
+                              onChange={(e) => {
+                                const fn = studyFunctions.find(f => f.id === e.target.value);
+                                if (!fn) { setEditForm({ ...editForm, functionId: undefined, functionalFailureId: undefined }); return; }
+                                const ff = fn.functionalFailures[0];
+                                setEditForm({ ...editForm, functionId: fn.id, function: fn.description, functionType: fn.functionType, functionalFailureId: ff?.id, functionalFailure: ff?.description ?? editForm.functionalFailure });
+                              }}
+                              className="w-full px-1 py-1 border rounded text-[10px]"
+                            >
+                              <option value="">+ New function from text</option>
+                              {studyFunctions.map(f => <option key={f.id} value={f.id}>{f.description}</option>)}
+                            </select>
+                          </div>
+                        )}</td>
+                        <td className="align-top py-4 px-1">{!isCollapsed('functionalFailure') && (
+                          <div className="space-y-1">
+                            <textarea rows={2} value={editForm.functionalFailure} onChange={(e) => handleChange('functionalFailure', e.target.value)} className="w-full px-2 py-1 border rounded text-xs" title={editForm.functionalFailureId ? 'Edits apply to every failure mode of this functional failure' : undefined} />
+                            <select
+                              value={editForm.functionalFailureId || ''}
+                              onChange={(e) => {
+                                const ff = studyFunctions.find(f => f.id === editForm.functionId)?.functionalFailures.find(f => f.id === e.target.value);
+                                setEditForm({ ...editForm, functionalFailureId: ff?.id, functionalFailure: ff?.description ?? editForm.functionalFailure });
+                              }}
+                              className="w-full px-1 py-1 border rounded text-[10px]"
+                            >
+                              <option value="">+ New failure from text</option>
+                              {(studyFunctions.find(f => f.id === editForm.functionId)?.functionalFailures || []).map(ff => <option key={ff.id} value={ff.id}>{ff.description}</option>)}
+                            </select>
+                          </div>
+                        )}</td>
+                        <td className="align-top py-4 px-1">{!isCollapsed('component') && (
+                          <div className="space-y-1">
+                            <input type="text" value={editForm.component} onChange={(e) => handleChange('component', e.target.value)} className="w-full px-2 py-1 border rounded" title="A new name creates a sibling asset" />
+                            <select
+                              value={editForm.assetNodeId || ''}
+                              onChange={(e) => { const node = assetHierarchy.find(n => n.id === e.target.value); if (node) setEditForm({ ...editForm, assetNodeId: node.id, component: node.name }); }}
+                              className="w-full px-1 py-1 border rounded text-[10px]"
+                            >
+                              {!editForm.assetNodeId && <option value="">— Asset —</option>}
+                              {flattenAssetTree(assetHierarchy).map(({ node, depth }) => (
+                                <option key={node.id} value={node.id}>{'\u00A0\u00A0'.repeat(depth)}{node.name} ({assetLevelLabel(node.level)})</option>
+                              ))}
+                            </select>
+                          </div>
+                        )}</td>
                         <td className="align-top py-4 px-1">{!isCollapsed('componentType') && <select value={editForm.componentType} onChange={(e) => handleChange('componentType', e.target.value)} className="w-full px-2 py-1 border rounded text-[10px] font-black uppercase"><option value="Electrical">Electrical</option><option value="Mechanical">Mechanical</option></select>}</td>
                         <td className="align-top py-4 px-1">{!isCollapsed('consequenceCategory') && <select value={editForm.consequenceCategory} onChange={(e) => handleChange('consequenceCategory', e.target.value)} className="w-full px-2 py-1 border rounded text-xs">{CONSEQUENCE_LABELS.map(cat => <option key={cat} value={cat}>{cat}</option>)}</select>}</td>
-                        <td className="align-top py-4 px-1">{!isCollapsed('failureMode') && <div className="space-y-2"><textarea rows={2} value={editForm.failureMode} onChange={(e) => handleChange('failureMode', e.target.value)} className="w-full px-2 py-1 border rounded" /><textarea rows={3} value={editForm.failureEffect} onChange={(e) => handleChange('failureEffect', e.target.value)} className="w-full px-2 py-1 border rounded" /></div>}</td>
+                        <td className="align-top py-4 px-1">{!isCollapsed('failureMode') && (
+                          <div className="space-y-2">
+                            <textarea rows={2} value={editForm.failureMode} onChange={(e) => handleChange('failureMode', e.target.value)} className="w-full px-2 py-1 border rounded" />
+                            <textarea rows={3} value={editForm.failureEffect} onChange={(e) => handleChange('failureEffect', e.target.value)} className="w-full px-2 py-1 border rounded" />
+                            <div className="grid grid-cols-2 gap-1">
+                              <select
+                                value={editForm.equipmentClass || ''}
+                                onChange={(e) => {
+                                  const equipmentClass = e.target.value || undefined;
+                                  setEditForm({ ...editForm, equipmentClass, iso14224Code: isValidFailureMode(editForm.iso14224Code, equipmentClass) ? editForm.iso14224Code : '' });
+                                }}
+                                className="w-full px-1 py-1 border rounded text-[10px]"
+                                title={equipmentUnitOf(assetHierarchy, editForm.assetNodeId) ? `ISO 14224 equipment class of ${equipmentUnitOf(assetHierarchy, editForm.assetNodeId)!.name}, shared by its failure modes` : 'ISO 14224 equipment class'}
+                              >
+                                <option value="">— Equipment class —</option>
+                                {EQUIPMENT_CLASSES.map(c => <option key={c.code} value={c.code}>{c.code} · {c.label}</option>)}
+                              </select>
+                              <select value={editForm.iso14224Code || ''} onChange={(e) => handleChange('iso14224Code', e.target.value)} className="w-full px-1 py-1 border rounded text-[10px]" title="ISO 14224 failure mode, filtered by equipment class">
+                                <option value="">— Failure mode —</option>
+                                {failureModesForClass(editForm.equipmentClass).map(m => <option key={m.code} value={m.code}>{m.code} · {m.label}</option>)}
+                              </select>
+                              <select value={editForm.failureMechanism || ''} onChange={(e) => handleChange('failureMechanism', e.target.value || undefined)} className="w-full px-1 py-1 border rounded text-[10px]" title="ISO 14224 failure mechanism">
+                                <option value="">— Mechanism —</option>
+                                {FAILURE_MECHANISMS.map(m => <option key={m.code} value={m.code}>{m.code} {m.label}</option>)}
+                              </select>
+                              <select value={editForm.failureCause || ''} onChange={(e) => handleChange('failureCause', e.target.value || undefined)} className="w-full px-1 py-1 border rounded text-[10px]" title="ISO 14224 failure cause">
+                                <option value="">— Cause —</option>
+                                {FAILURE_CAUSES.map(c => <option key={c.code} value={c.code}>{c.code} {c.label}</option>)}
+                              </select>
+                              <select value={editForm.detectionMethod || ''} onChange={(e) => handleChange('detectionMethod', e.target.value || undefined)} className="col-span-2 w-full px-1 py-1 border rounded text-[10px]" title="ISO 14224 detection method">
+                                <option value="">— Detection method —</option>
+                                {DETECTION_METHODS.map(d => <option key={d.code} value={d.code}>{d.code} · {d.label}</option>)}
+                              </select>
+                            </div>
+                          </div>
+                        )}</td>
                         
                         {!isCollapsed('riskGroup') && (
                           <>
-                            <td className="align-top py-4 bg-white/50 border-l"><input type="number" min="1" max="10" value={editForm.severity} onChange={(e) => handleChange('severity', parseInt(e.target.value))} className="w-full text-center border rounded" /></td>
-                            <td className="align-top py-4 bg-white/50"><input type="number" min="1" max="10" value={editForm.occurrence} onChange={(e) => handleChange('occurrence', parseInt(e.target.value))} className="w-full text-center border rounded" /></td>
-                            <td className="align-top py-4 bg-white/50"><input type="number" min="1" max="10" value={editForm.detection} onChange={(e) => handleChange('detection', parseInt(e.target.value))} className="w-full text-center border rounded" /></td>
+                            <td className="align-top py-4 bg-white/50 border-l"><input type="number" min="1" max={scaleMax(riskScheme.severity)} value={editForm.severity} onChange={(e) => handleChange('severity', parseInt(e.target.value))} className="w-full text-center border rounded" /></td>
+                            <td className="align-top py-4 bg-white/50"><input type="number" min="1" max={scaleMax(riskScheme.occurrence)} value={editForm.occurrence} onChange={(e) => handleChange('occurrence', parseInt(e.target.value))} className="w-full text-center border rounded" /></td>
+                            <td className="align-top py-4 bg-white/50"><input type="number" min="1" max={scaleMax(riskScheme.detection)} value={editForm.detection} onChange={(e) => handleChange('detection', parseInt(e.target.value))} className="w-full text-center border rounded" /></td>
                           </>
                         )}
                         <td className={`align-top py-4 text-center font-bold bg-white/50 border-r ${isCollapsed('riskGroup') ? 'border-l' : ''}`}>
                           {rpnVal}
+                          {(() => {
+                            // Estimates follow the scores being edited; manual values stay as typed
+                            const residual = editForm.residual?.source === 'manual' ? editForm.residual : estimateResidualRisk(editForm, riskScheme);
+                            const setResidual = (key: 'severity' | 'occurrence' | 'detection', value: number) => {
+                              const next: ResidualRisk = { ...residual, [key]: value, source: 'manual' };
+                              handleChange('residual', { ...next, rpn: next.severity * next.occurrence * next.detection });
+                            };
+                            return (
+                              <div className="mt-2 pt-2 border-t border-slate-200 space-y-1">
+                                <p className="text-[8px] font-black text-slate-400 uppercase tracking-widest">Residual</p>
+                                {(['severity', 'occurrence', 'detection'] as const).map(key => (
+                                  <input key={key} type="number" min="1" max={editForm[key]} value={residual[key]} onChange={(e) => setResidual(key, parseInt(e.target.value) || 1)} className="w-full text-center border rounded text-[10px]" title={`Residual ${key}`} />
+                                ))}
+                                <button onClick={() => handleChange('residual', undefined)} disabled={residual.source !== 'manual'} className="w-full text-[8px] font-black uppercase text-indigo-600 disabled:text-slate-300" title="Estimate from task type and interval">Auto</button>
+                              </div>
+                            );
+                          })()}
                         </td>
 
-                        <td className="align-top py-4 px-1">{!isCollapsed('maintenanceTask') && <div className="space-y-2"><textarea rows={3} value={editForm.maintenanceTask} onChange={(e) => handleChange('maintenanceTask', e.target.value)} className="w-full border rounded" /><input type="text" value={editForm.interval} onChange={(e) => handleChange('interval', e.target.value)} className="w-full border rounded" /></div>}</td>
+                        <td className="align-top py-4 px-1">{!isCollapsed('maintenanceTask') && <div className="space-y-2"><textarea rows={3} value={editForm.maintenanceTask} onChange={(e) => handleChange('maintenanceTask', e.target.value)} className="w-full border rounded" /><div className="grid grid-cols-2 gap-1"><input type="number" min="0" step="any" value={editForm.interval.value} onChange={(e) => handleChange('interval', { ...editForm.interval, value: parseFloat(e.target.value) || 0, note: undefined })} className="w-full border rounded text-xs px-1" /><select value={editForm.interval.unit} onChange={(e) => handleChange('interval', { ...editForm.interval, unit: e.target.value })} className="w-full border rounded text-[10px]">{unitsForBasis(editForm.interval.basis).map(u => <option key={u} value={u}>{formatIntervalUnit(u, language)}</option>)}</select><select value={editForm.interval.basis} onChange={(e) => handleChange('interval', withBasis(editForm.interval, e.target.value as IntervalBasis))} className="col-span-2 w-full border rounded text-[10px]">{INTERVAL_BASES.map(b => <option key={b} value={b}>{formatIntervalBasis(b, language)}</option>)}</select></div></div>}</td>
+                        <td className="align-top py-4 px-1">{!isCollapsed('decisionPath') && (() => {
+                          const editDecision = evaluateDecision(editForm);
+                          return (
+                            <div className="space-y-1">
+                              <select value={editForm.taskType} onChange={(e) => handleChange('taskType', e.target.value)} className={`w-full px-2 py-1 border rounded text-[10px] font-bold ${editDecision.isTaskPermitted ? '' : editDecision.missingAnswers.length ? 'border-amber-400 text-amber-700' : 'border-red-400 text-red-700'}`}>
+                                {TASK_TYPES.map(t => <option key={t} value={t}>{editDecision.allowedTaskTypes.includes(t) ? t : awaitsAnswer(t, editDecision.answers) ? `${t} (decision not recorded)` : `${t} (not permitted)`}</option>)}
+                              </select>
+                              <p className="text-[9px] font-mono text-slate-400">{formatDecisionPath(editDecision)}</p>
+                            </div>
+                          );
+                        })()}</td>
                         <td className="align-top py-4 text-center text-slate-300">{!isCollapsed('inspectionSheet') && <File size={20} className="mx-auto" />}</td>
                         <td className="align-top py-4 text-right px-1">{!isCollapsed('actions') && <div className="flex flex-col gap-2 items-end"><button onClick={handleSave} className="p-2 bg-emerald-500 text-white rounded"><Save size={16} /></button><button onClick={handleCancel} className="p-2 bg-slate-200 text-slate-600 rounded"><X size={16} /></button></div>}</td>
                       </tr>
+                      </React.Fragment>
                     );
                   }
-                  const rpn = item.rpn || 0; const rpnStyle = getRPNColorStyle(rpn);
+                  const rpn = item.rpn || 0; const rpnStyle = RISK_LEVEL_STYLES[rankingLevel(item, riskScheme)];
                   const consCat = item.consequenceCategory || '';
                   const isNew = item.isNew === true;
                   const isMiraGenerated = item.isMiraGenerated === true;
@@ -1475,13 +2023,15 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ data, studyName,
                   const isRiskCollapsed = isCollapsed('riskGroup');
 
                   return (
-                    <tr key={item.id} className={`group hover:bg-slate-50 ${isRegenerating || isGeneratingIntel ? 'opacity-60 bg-slate-50' : ''} ${barFilter === item.id ? 'bg-indigo-50/50' : ''} ${isMiraGenerated ? 'bg-blue-50/80 border-l-4 border-l-blue-500' : isNew ? 'bg-emerald-50/60' : ''} transition-all duration-300 ${hasIssues ? 'border-l-4 border-l-red-500 bg-red-50/20' : ''}`}>
+                    <React.Fragment key={item.id}>
+                    {assetGroupHeader}
+                    <tr id={`rcm-row-${item.id}`} className={`group hover:bg-slate-50 ${focusedRowId === item.id ? 'ring-2 ring-inset ring-amber-400 bg-amber-50/60' : ''} ${isRegenerating || isGeneratingIntel ? 'opacity-60 bg-slate-50' : ''} ${barFilter === item.id ? 'bg-indigo-50/50' : ''} ${isMiraGenerated ? 'bg-blue-50/80 border-l-4 border-l-blue-500' : isNew ? 'bg-emerald-50/60' : ''} transition-all duration-300 ${hasIssues ? 'border-l-4 border-l-red-500 bg-red-50/20' : ''}`}>
                       <td className="align-middle text-center py-4">
                         {!isCollapsed('approved') ? (
                           <button 
                             onClick={() => handleToggleApproved(item.id)}
                             className={`w-6 h-6 rounded-full border-2 transition-all flex items-center justify-center ${isApproved ? 'bg-emerald-500 border-emerald-500 text-white shadow-md shadow-emerald-200 scale-110' : 'bg-white border-slate-200 text-transparent hover:border-emerald-300 hover:text-emerald-300'}`}
-                            title={isApproved ? "Approved" : "Mark as Approved"}
+                            title={isApproved ? `Approved${item.approval ? ` by ${item.approval.approvedBy}` : ''} · click to reopen` : "Mark as Approved"}
                           >
                             <Check size={14} strokeWidth={4} />
                           </button>
@@ -1505,7 +2055,12 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ data, studyName,
                       <td className="font-medium align-top py-4 px-2 leading-tight text-xs overflow-hidden">
                         {!isCollapsed('component') && showComponent ? (
                           <div className="flex items-center gap-2">
-                            <span className="flex-1 text-slate-700">{item.component}</span>
+                            <div className="flex-1 min-w-0">
+                              <span className="text-slate-700">{item.component}</span>
+                              {(assetRef.functionalLocation || assetRef.assetTag) && (
+                                <p className="text-[9px] font-mono text-slate-400 truncate" title={assetRef.path}>{[assetRef.functionalLocation, assetRef.assetTag].filter(Boolean).join(' · ')}</p>
+                              )}
+                            </div>
                             <button 
                               onClick={() => handleIntelClick(item)} 
                               disabled={isGeneratingIntel}
@@ -1546,7 +2101,7 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ data, studyName,
                               </div>
                               {hasIssues && (
                                 <div className="group/issue relative shrink-0 mt-0.5 cursor-help">
-                                  <ShieldX size={18} className="text-red-500 animate-pulse" />
+                                  <ShieldX size={18} className={`${issueSeverity === 'error' ? 'text-red-500 animate-pulse' : issueSeverity === 'warning' ? 'text-amber-500' : 'text-blue-500'}`} />
                                   <div className="absolute right-0 top-6 w-64 bg-slate-900 text-white p-3 rounded-xl text-[10px] font-bold shadow-2xl z-50 opacity-0 group-hover/issue:opacity-100 transition-opacity pointer-events-none">
                                     <div className="flex items-center gap-2 mb-2 text-red-400">
                                       <AlertOctagon size={12} />
@@ -1556,7 +2111,10 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ data, studyName,
                                       {item.validationIssues?.map((issue, i) => (
                                         <li key={i} className="flex gap-2">
                                           <ChevronRight size={10} className="shrink-0 mt-0.5 text-indigo-400" />
-                                          <span>{issue}</span>
+                                          <span>
+                                            <span className={`mr-1 font-mono ${issue.severity === 'error' ? 'text-red-400' : issue.severity === 'warning' ? 'text-amber-400' : 'text-blue-400'}`}>[{issue.ruleId}]</span>
+                                            {issue.message}
+                                          </span>
                                         </li>
                                       ))}
                                     </ul>
@@ -1565,25 +2123,41 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ data, studyName,
                               )}
                             </div>
                             <div className="text-slate-500 text-[10px] leading-relaxed line-clamp-2">{item.failureEffect}</div>
+                            <div className="flex flex-wrap gap-1">
+                              {item.equipmentClass && <span className="px-1.5 py-0.5 bg-slate-100 text-slate-600 text-[8px] font-black rounded border border-slate-200" title={`Equipment class: ${taxonomyLabel(EQUIPMENT_CLASSES, item.equipmentClass)}`}>{item.equipmentClass}</span>}
+                              {item.iso14224Code && <span className="px-1.5 py-0.5 bg-indigo-50 text-indigo-600 text-[8px] font-black rounded border border-indigo-100" title={`Failure mode: ${taxonomyLabel(FAILURE_MODES, item.iso14224Code)}`}>{item.iso14224Code}</span>}
+                              {item.failureMechanism && <span className="px-1.5 py-0.5 bg-slate-50 text-slate-500 text-[8px] font-bold rounded border border-slate-200" title="Failure mechanism">M {formatTaxonomy(FAILURE_MECHANISMS, item.failureMechanism)}</span>}
+                              {item.failureCause && <span className="px-1.5 py-0.5 bg-slate-50 text-slate-500 text-[8px] font-bold rounded border border-slate-200" title="Failure cause">C {formatTaxonomy(FAILURE_CAUSES, item.failureCause)}</span>}
+                              {item.detectionMethod && <span className="px-1.5 py-0.5 bg-slate-50 text-slate-500 text-[8px] font-bold rounded border border-slate-200" title="Detection method">D {formatTaxonomy(DETECTION_METHODS, item.detectionMethod)}</span>}
+                            </div>
                           </div>
                         ) : null}
                       </td>
 
                       {!isRiskCollapsed && (
                         <>
-                          <td className="align-middle text-center border-l py-4 overflow-hidden"><span className={getScoreColor(item.severity || 0)}>{item.severity || 0}</span></td>
-                          <td className="align-middle text-center py-4 overflow-hidden"><span className={getScoreColor(item.occurrence || 0)}>{item.occurrence || 0}</span></td>
-                          <td className="align-middle text-center py-4 overflow-hidden"><span className={getScoreColor(item.detection || 0)}>{item.detection || 0}</span></td>
+                          <td className="align-middle text-center border-l py-4 overflow-hidden"><span className={SCORE_BAND_CLASSES[scoreBand(item.severity || 0, riskScheme.severity)]}>{item.severity || 0}</span></td>
+                          <td className="align-middle text-center py-4 overflow-hidden"><span className={SCORE_BAND_CLASSES[scoreBand(item.occurrence || 0, riskScheme.occurrence)]}>{item.occurrence || 0}</span></td>
+                          <td className="align-middle text-center py-4 overflow-hidden"><span className={SCORE_BAND_CLASSES[scoreBand(item.detection || 0, riskScheme.detection)]}>{item.detection || 0}</span></td>
                         </>
                       )}
                       <td className={`align-middle border-r py-4 overflow-hidden ${isRiskCollapsed ? 'border-l' : ''}`}>
                         <div className="flex flex-col gap-1 px-2 text-center">
-                          <span className={`text-xs font-bold ${rpnStyle.text}`}>{rpn}</span>
+                          {isApRanking ? (
+                            <span className={`text-[10px] font-black uppercase rounded px-1.5 py-0.5 ${rpnStyle.bg} ${rpnStyle.text}`} title={`Action Priority · RPN ${rpn}`}>{formatActionPriority(item.actionPriority)}</span>
+                          ) : (
+                            <span className={`text-xs font-bold ${rpnStyle.text}`} title={item.actionPriority ? `Action Priority: ${item.actionPriority}` : undefined}>{rpn}</span>
+                          )}
                           {!isRiskCollapsed && (
                             <div className="w-full h-1 bg-slate-100 rounded-full overflow-hidden">
-                              <div className={`h-full ${rpnStyle.bar}`} style={{width: `${Math.min((rpn/400)*100, 100)}%`}}></div>
+                              <div className={`h-full ${rpnStyle.bar}`} style={{width: `${Math.min((rpn / rpnMax(riskScheme)) * 100, 100)}%`}}></div>
                             </div>
                           )}
+                          {item.residual && item.residual.rpn < rpn && (
+                            <span className="text-[9px] font-black text-emerald-600" title={`Residual S${item.residual.severity} O${item.residual.occurrence} D${item.residual.detection} (${item.residual.source})`}>
+                              → {isApRanking ? formatActionPriority(itemActionPriority(item.residual, riskScheme)) : item.residual.rpn}{item.residual.source === 'manual' ? '*' : ''}
+                            </span>
+                          )}
                         </div>
                       </td>
 
@@ -1601,11 +2175,26 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ data, studyName,
                               className="text-[10px] text-slate-400 font-mono mt-1 hover:text-indigo-600 hover:bg-indigo-50 px-1.5 py-0.5 rounded transition-all flex items-center gap-1 group-hover/interval:border group-hover/interval:border-indigo-100"
                             >
                               <Target size={10} className="opacity-0 group-hover/interval:opacity-100" />
-                              {item.interval}
+                              {formatInterval(item.interval, language)}
                             </button>
                           </>
                         )}
                       </td>
+                      <td className="align-middle py-4 px-2 overflow-hidden">
+                        {!isCollapsed('decisionPath') && item.decision && (
+                          <button 
+                            onClick={() => onShowDecisionPath(item)}
+                            className={`w-full text-left px-2 py-1 rounded border transition-all ${item.decision.isTaskPermitted ? 'border-slate-100 hover:border-indigo-200 hover:bg-indigo-50' : item.decision.missingAnswers.length ? 'border-amber-200 bg-amber-50 hover:bg-amber-100' : 'border-red-200 bg-red-50 hover:bg-red-100'}`}
+                            title={item.decision.isTaskPermitted ? 'Open decision diagram' : item.decision.missingAnswers.length ? 'Decision not recorded: answer the feasibility question in the decision diagram' : `${item.taskType} is not permitted by the decision logic`}
+                          >
+                            <span className={`block text-[9px] font-black uppercase tracking-tight ${item.decision.isTaskPermitted ? 'text-slate-600' : item.decision.missingAnswers.length ? 'text-amber-700' : 'text-red-700'}`}>
+                              {!item.decision.isTaskPermitted && <AlertTriangle size={10} className="inline mr-1 -mt-0.5" />}
+                              {item.taskType}
+                            </span>
+                            <span className="block text-[9px] font-mono text-slate-400 mt-0.5">{formatDecisionPath(item.decision)}</span>
+                          </button>
+                        )}
+                      </td>
                       <td className="align-middle text-center py-4 overflow-hidden">
                         {!isCollapsed('inspectionSheet') && (
                           isRegenerating ? <RefreshCw size={20} className="animate-spin text-indigo-500 mx-auto" /> : item.inspectionSheet ? <button onClick={() => setViewSheet({ item })} className="text-emerald-500 hover:scale-110 transition-transform"><FileCheck size={22} /></button> : <button onClick={() => handleGenerateSingleSheet(item)} className="text-slate-300 hover:text-indigo-500"><File size={22} /></button>
@@ -1614,12 +2203,29 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ data, studyName,
                       <td className="align-middle text-right opacity-0 group-hover:opacity-100 transition-opacity py-4 px-2 overflow-hidden">
                         {!isCollapsed('actions') && (
                           <div className="flex justify-end gap-1">
-                            <button onClick={() => handleEdit(item)} className="p-1 text-slate-400 hover:text-indigo-600"><Pencil size={16} /></button>
-                            <button onClick={() => handleDelete(item.id)} className="p-1 text-slate-400 hover:text-red-600"><Trash2 size={16} /></button>
+                            <button onClick={() => setWeibullItem(item)} className={`p-1 hover:text-indigo-600 ${item.weibull ? 'text-indigo-500' : 'text-slate-400'}`} title={item.weibull ? `Weibull β=${item.weibull.fit.beta.toFixed(2)} η=${Math.round(item.weibull.fit.eta)} ${item.weibull.lifeUnit}` : 'Failure history & Weibull'}><TrendingUp size={16} /></button>
+                            {AGE_REPLACEMENT_TASKS.includes(item.taskType) && (
+                              <button onClick={() => setAgeReplacementItem(item)} className={`p-1 hover:text-indigo-600 ${item.ageReplacement ? 'text-indigo-500' : 'text-slate-400'}`} title="Optimal replacement age"><Hourglass size={16} /></button>
+                            )}
+                            {(item.taskType === 'Failure Finding' || FAILURE_FINDING_CATEGORIES.includes(item.consequenceCategory)) && (
+                              <button onClick={() => setFailureFindingItem(item)} className={`p-1 hover:text-indigo-600 ${item.failureFinding ? 'text-indigo-500' : 'text-slate-400'}`} title="Failure-finding interval"><SearchCheck size={16} /></button>
+                            )}
+                            <button onClick={() => setReviewItemId(item.id)} className={`p-1 hover:text-indigo-600 flex items-center gap-0.5 ${hasOpenComments(item) ? 'text-amber-500' : item.reviewComments?.length ? 'text-indigo-500' : 'text-slate-400'}`} title={hasOpenComments(item) ? `${openThreadCount(item)} open comment threads` : 'Comments'}>
+                              <MessageSquare size={16} />{hasOpenComments(item) ? <span className="text-[9px] font-black">{openThreadCount(item)}</span> : null}
+                            </button>
+                            {item.isApproved ? (
+                              <span className="p-1 text-emerald-500" title="Approved items are locked; reopen with a reason to edit"><Lock size={16} /></span>
+                            ) : (
+                              <>
+                                <button onClick={() => handleEdit(item)} className="p-1 text-slate-400 hover:text-indigo-600"><Pencil size={16} /></button>
+                                <button onClick={() => handleDelete(item.id)} className="p-1 text-slate-400 hover:text-red-600"><Trash2 size={16} /></button>
+                              </>
+                            )}
                           </div>
                         )}
                       </td>
                     </tr>
+                    </React.Fragment>
                   );
                 })
               )}
@@ -0,0 +1,198 @@
+import React, { useState, useEffect } from 'react';
+import { X, Network, CheckCircle2, Plus, Trash2, Hash, Info, ChevronRight } from 'lucide-react';
+import { AssetNode, AssetLevel, RCMItem } from '../types';
+import {
+  ASSET_LEVELS, UNASSIGNED_ASSET_ID, assetLevelLabel, assignEquipmentClass, childLevel, createAssetNode, descendantIds,
+  flattenAssetTree, numberFunctionalLocations, removeAssetNode
+} from '../services/assetHierarchy';
+import { EQUIPMENT_CLASSES } from '../services/iso14224';
+
+interface AssetRegisterModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  nodes: AssetNode[];
+  items: RCMItem[];
+  onApply: (nodes: AssetNode[], items: RCMItem[]) => void;
+}
+
+export const AssetRegisterModal: React.FC<AssetRegisterModalProps> = ({ isOpen, onClose, nodes, items, onApply }) => {
+  const [draftNodes, setDraftNodes] = useState<AssetNode[]>(nodes);
+  const [draftItems, setDraftItems] = useState<RCMItem[]>(items);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setDraftNodes(nodes);
+      setDraftItems(items);
+      setSelectedId(nodes[0]?.id || null);
+    }
+  }, [isOpen, nodes, items]);
+
+  if (!isOpen) return null;
+
+  const tree = flattenAssetTree(draftNodes);
+  const selected = draftNodes.find(n => n.id === selectedId) || null;
+  const itemCount = (id: string) => {
+    const ids = descendantIds(draftNodes, id);
+    return draftItems.filter(i => i.assetNodeId && ids.has(i.assetNodeId)).length;
+  };
+
+  const updateNode = (id: string, patch: Partial<AssetNode>) =>
+    setDraftNodes(prev => prev.map(n => n.id === id ? { ...n, ...patch } : n));
+
+  const addNode = (parentId?: string) => {
+    const parent = draftNodes.find(n => n.id === parentId);
+    const node = createAssetNode(draftNodes, `New ${assetLevelLabel(childLevel(parent?.level))}`, parentId);
+    setDraftNodes(prev => [...prev, node]);
+    setSelectedId(node.id);
+  };
+
+  const setEquipmentClass = (id: string, equipmentClass?: string) => {
+    const result = assignEquipmentClass(draftNodes, draftItems, id, equipmentClass);
+    setDraftNodes(result.nodes);
+    setDraftItems(result.items);
+  };
+
+  const deleteNode = (id: string) => {
+    const result = removeAssetNode(draftNodes, draftItems, id);
+    if (!result) return;
+    setDraftNodes(result.nodes);
+    setDraftItems(result.items);
+    setSelectedId(draftNodes.find(n => n.id === id)?.parentId || null);
+  };
+
+  // Parents a node may move under: anything outside its own subtree
+  const parentOptions = selected ? tree.filter(({ node }) => !descendantIds(draftNodes, selected.id).has(node.id)) : [];
+  const canDelete = !!selected && (!!draftNodes.find(n => n.id === selected.parentId) || !draftItems.some(i => i.assetNodeId === selected.id));
+
+  const inputClass = "w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-xs font-bold text-slate-700 outline-none focus:border-indigo-400";
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-slate-900/60 backdrop-blur-md p-4 animate-in fade-in duration-300">
+      <div className="bg-white rounded-[2.5rem] shadow-2xl w-full max-w-5xl h-[85vh] flex flex-col overflow-hidden border border-white/20">
+
+        {/* Header */}
+        <div className="bg-slate-900 px-8 py-6 flex justify-between items-center text-white shrink-0">
+          <div className="flex items-center gap-4">
+            <div className="p-3 bg-indigo-500/20 rounded-2xl border border-indigo-500/30">
+              <Network size={24} className="text-indigo-400" />
+            </div>
+            <div>
+              <h3 className="font-black text-xl uppercase tracking-tighter">Asset Register</h3>
+              <p className="text-[10px] text-slate-400 uppercase tracking-widest font-bold mt-1">ISO 14224 Equipment Hierarchy · {draftNodes.length} nodes</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="flex-1 flex overflow-hidden">
+          {/* Tree */}
+          <div className="w-1/2 border-r border-slate-100 flex flex-col overflow-hidden">
+            <div className="px-6 py-4 border-b border-slate-100 flex gap-2 shrink-0">
+              <button onClick={() => addNode(undefined)} className="flex items-center gap-1.5 px-3 py-1.5 bg-slate-100 text-slate-600 rounded-lg text-[10px] font-black uppercase tracking-widest hover:bg-slate-200 transition-all"><Plus size={12} /> Top Level</button>
+              <button onClick={() => selected && addNode(selected.id)} disabled={!selected} className="flex items-center gap-1.5 px-3 py-1.5 bg-indigo-50 text-indigo-600 rounded-lg text-[10px] font-black uppercase tracking-widest hover:bg-indigo-100 disabled:opacity-40 transition-all"><Plus size={12} /> Child</button>
+              <button onClick={() => setDraftNodes(numberFunctionalLocations(draftNodes))} className="ml-auto flex items-center gap-1.5 px-3 py-1.5 bg-slate-100 text-slate-600 rounded-lg text-[10px] font-black uppercase tracking-widest hover:bg-slate-200 transition-all" title="Fill empty functional locations from their parent's code"><Hash size={12} /> Number FLs</button>
+            </div>
+            <div className="flex-1 overflow-y-auto p-4 custom-scrollbar">
+              {tree.length === 0 && (
+                <p className="text-xs text-slate-400 font-bold p-4">No assets yet. Generated components are filed under "Unassigned Equipment" until you build the tree.</p>
+              )}
+              {tree.map(({ node, depth }) => (
+                <button
+                  key={node.id}
+                  onClick={() => setSelectedId(node.id)}
+                  style={{ paddingLeft: `${depth * 18 + 12}px` }}
+                  className={`w-full flex items-center gap-2 pr-3 py-2 rounded-xl text-left transition-all ${selectedId === node.id ? 'bg-indigo-50 ring-1 ring-indigo-200' : 'hover:bg-slate-50'}`}
+                >
+                  <ChevronRight size={12} className="text-slate-300 shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-xs font-black text-slate-800 truncate">{node.name}</p>
+                    <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest truncate">
+                      {assetLevelLabel(node.level)}{node.equipmentClass ? ` · ${node.equipmentClass}` : ''}{node.functionalLocation ? ` · ${node.functionalLocation}` : ''}{node.assetTag ? ` · ${node.assetTag}` : ''}
+                    </p>
+                  </div>
+                  <span className="text-[9px] font-black text-slate-400 bg-slate-100 px-1.5 py-0.5 rounded">{itemCount(node.id)}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Details */}
+          <div className="w-1/2 overflow-y-auto p-8 custom-scrollbar">
+            {!selected ? (
+              <p className="text-xs text-slate-400 font-bold">Select a node to edit it.</p>
+            ) : (
+              <div className="space-y-5">
+                <div>
+                  <label className="text-[8px] font-black text-slate-400 uppercase tracking-widest block mb-1">Name</label>
+                  <input value={selected.name} onChange={(e) => updateNode(selected.id, { name: e.target.value })} className={inputClass} />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="text-[8px] font-black text-slate-400 uppercase tracking-widest block mb-1">ISO 14224 Level</label>
+                    <select value={selected.level} onChange={(e) => updateNode(selected.id, { level: e.target.value as AssetLevel })} className={inputClass}>
+                      {ASSET_LEVELS.map(l => <option key={l.id} value={l.id}>{l.isoLevel} · {l.label}</option>)}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="text-[8px] font-black text-slate-400 uppercase tracking-widest block mb-1">Parent</label>
+                    <select value={selected.parentId || ''} onChange={(e) => updateNode(selected.id, { parentId: e.target.value || undefined })} className={inputClass}>
+                      <option value="">— Top level —</option>
+                      {parentOptions.map(({ node, depth }) => <option key={node.id} value={node.id}>{'  '.repeat(depth)}{node.name}</option>)}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="text-[8px] font-black text-slate-400 uppercase tracking-widest block mb-1">Functional Location</label>
+                    <input value={selected.functionalLocation || ''} onChange={(e) => updateNode(selected.id, { functionalLocation: e.target.value || undefined })} placeholder="e.g. 10-P-101" className={`${inputClass} font-mono`} />
+                  </div>
+                  <div>
+                    <label className="text-[8px] font-black text-slate-400 uppercase tracking-widest block mb-1">Asset Tag</label>
+                    <input value={selected.assetTag || ''} onChange={(e) => updateNode(selected.id, { assetTag: e.target.value || undefined })} placeholder="e.g. 100234567" className={`${inputClass} font-mono`} />
+                  </div>
+                  {selected.level === 'equipment' && selected.id !== UNASSIGNED_ASSET_ID && (
+                    <div className="col-span-2">
+                      <label className="text-[8px] font-black text-slate-400 uppercase tracking-widest block mb-1">ISO 14224 Equipment Class</label>
+                      <select value={selected.equipmentClass || ''} onChange={(e) => setEquipmentClass(selected.id, e.target.value || undefined)} className={inputClass}>
+                        <option value="">— Not classified —</option>
+                        {EQUIPMENT_CLASSES.map(c => <option key={c.code} value={c.code}>{c.code} · {c.label}</option>)}
+                      </select>
+                    </div>
+                  )}
+                </div>
+
+                <div className="flex gap-2 bg-slate-50 p-4 rounded-2xl border border-slate-100">
+                  <Info size={16} className="text-slate-400 shrink-0" />
+                  <p className="text-[10px] text-slate-500 font-bold leading-relaxed">
+                    {itemCount(selected.id)} failure modes sit at or below this node. Exports use the nearest functional location and asset tag up the tree, so a maintainable item without its own record reports its equipment's.
+                  </p>
+                </div>
+
+                <button
+                  onClick={() => deleteNode(selected.id)}
+                  disabled={!canDelete}
+                  title={canDelete ? 'Children and failure modes move up to the parent' : 'Move its failure modes to another node first'}
+                  className="flex items-center gap-2 px-4 py-2 text-red-600 bg-red-50 rounded-lg text-[10px] font-black uppercase tracking-widest hover:bg-red-100 disabled:opacity-40 transition-all"
+                >
+                  <Trash2 size={14} /> Remove Node
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="px-8 py-5 bg-white border-t border-slate-100 flex justify-end items-center gap-3 shrink-0">
+          <button onClick={onClose} className="px-6 py-2.5 text-slate-500 font-black text-[10px] uppercase tracking-widest hover:bg-slate-50 rounded-lg transition-all">Cancel</button>
+          <button
+            onClick={() => onApply(draftNodes.map(n => ({ ...n, name: n.name.trim() || 'Unnamed' })), draftItems)}
+            className="px-8 py-2.5 bg-indigo-600 text-white rounded-lg font-black text-[10px] uppercase tracking-[0.2em] shadow-xl shadow-indigo-100 hover:bg-indigo-700 transition-all flex items-center gap-2"
+          >
+            <CheckCircle2 size={16} /> Apply Register
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,8 @@
 
 import React, { useState, useMemo } from 'react';
-import { RCMItem } from '../types';
+import { RCMItem, IntervalUnit, RiskLevel, AssetNode } from '../types';
+import { formatInterval } from '../services/intervals';
+import { resolveAssetReference } from '../services/assetHierarchy';
 import { 
   X, Database, Download, CheckCircle2, AlertCircle, 
   Settings, Terminal, Box, FileJson, FileSpreadsheet, 
@@ -11,28 +13,38 @@ interface CMMSBridgeModalProps {
   data: RCMItem[];
   isOpen: boolean;
   onClose: () => void;
+  assetHierarchy: AssetNode[];
+  onAssetHierarchyChange: (nodes: AssetNode[]) => void;
 }
 
 type CMMSProfile = 'Generic' | 'SAP' | 'Maximo';
 
-export const CMMSBridgeModal: React.FC<CMMSBridgeModalProps> = ({ data, isOpen, onClose }) => {
+const SAP_CYCLE_UNITS: Record<IntervalUnit, string> = { hours: 'H', days: 'DAY', weeks: 'WK', months: 'MON', years: 'YR', cycles: 'CYC' };
+
+// Action Priority mapped to the numeric work priority both SAP and Maximo use (1 = highest)
+const CMMS_PRIORITY: Record<RiskLevel, number> = { High: 1, Medium: 2, Low: 3 };
+
+export const CMMSBridgeModal: React.FC<CMMSBridgeModalProps> = ({ data, isOpen, onClose, assetHierarchy, onAssetHierarchyChange }) => {
   const [activeProfile, setActiveProfile] = useState<CMMSProfile>('Generic');
-  const [assetTags, setAssetTags] = useState<Record<string, string>>({});
   const [isExporting, setIsExporting] = useState(false);
 
-  // Mapping logic for different systems
+  // Mapping logic for different systems; locations and tags come from the study's asset register
   const mappedData = useMemo(() => {
     return data.map(item => {
-      const assetTag = assetTags[item.id] || `ASSET-${item.component.substring(0, 3).toUpperCase()}-001`;
+      const { functionalLocation, assetTag, path } = resolveAssetReference(assetHierarchy, item.assetNodeId);
       
       if (activeProfile === 'SAP') {
         return {
-          'Functional Location': assetTag,
+          'Functional Location': functionalLocation,
+          'Equipment': assetTag,
           'Maintenance Plan': `PLAN_${item.id.split('-')[1]}`,
           'Task List Type': 'A',
           'Operation Description': item.maintenanceTask,
-          'Cycle (Interval)': item.interval,
+          'Cycle (Interval)': item.interval.value,
+          'Cycle Unit': SAP_CYCLE_UNITS[item.interval.unit],
+          'Scheduling Basis': item.interval.basis === 'calendar' ? 'Time' : item.interval.basis === 'condition-triggered' ? 'Condition' : 'Performance',
           'Strategic Category': item.taskType,
+          'Priority': item.actionPriority ? CMMS_PRIORITY[item.actionPriority] : '',
           'Step Count': item.inspectionSheet?.steps?.length || 0
         };
       }
@@ -40,25 +52,39 @@ export const CMMSBridgeModal: React.FC<CMMSBridgeModalProps> = ({ data, isOpen,
       if (activeProfile === 'Maximo') {
         return {
           'SITEID': 'SITE_01',
+          'LOCATION': functionalLocation,
           'ASSETNUM': assetTag,
           'JPNUM': `JP_${item.id.split('-')[1]}`,
           'DESCRIPTION': item.maintenanceTask,
-          'FREQUENCY': item.interval,
-          'PM_TYPE': item.taskType === 'Condition Monitoring' ? 'CBM' : 'EM'
+          'FREQUENCY': item.interval.value,
+          'FREQUNIT': item.interval.unit.toUpperCase(),
+          'METER_BASED': item.interval.basis === 'running hours' || item.interval.basis === 'cycles' ? 'Y' : 'N',
+          'PM_TYPE': item.taskType === 'Condition Monitoring' ? 'CBM' : 'EM',
+          'PRIORITY': item.actionPriority ? CMMS_PRIORITY[item.actionPriority] : ''
         };
       }
 
       return {
-        'Asset_ID': assetTag,
+        'Functional_Location': functionalLocation,
+        'Asset_Tag': assetTag,
+        'Asset_Path': path,
         'Component': item.component,
         'Strategy_Task': item.maintenanceTask,
-        'Interval': item.interval,
+        'Interval': formatInterval(item.interval),
+        'Interval_Value': item.interval.value,
+        'Interval_Unit': item.interval.unit,
+        'Interval_Basis': item.interval.basis,
         'Strategy_Type': item.taskType,
         'Risk_Score': item.rpn,
-        'ISO_Code': item.iso14224Code
+        'Action_Priority': item.actionPriority || '',
+        'ISO_Code': item.iso14224Code,
+        'ISO_Equipment_Class': item.equipmentClass || '',
+        'ISO_Failure_Mechanism': item.failureMechanism || '',
+        'ISO_Failure_Cause': item.failureCause || '',
+        'ISO_Detection_Method': item.detectionMethod || ''
       };
     });
-  }, [data, activeProfile, assetTags]);
+  }, [data, activeProfile, assetHierarchy]);
 
   if (!isOpen) return null;
 
@@ -84,10 +110,14 @@ export const CMMSBridgeModal: React.FC<CMMSBridgeModalProps> = ({ data, isOpen,
     }, 1500);
   };
 
-  const handleTagChange = (id: string, value: string) => {
-    setAssetTags(prev => ({ ...prev, [id]: value }));
+  // Edits land on the item's own node; placeholders show what it inherits from further up the tree
+  const handleAssetFieldChange = (nodeId: string | undefined, field: 'functionalLocation' | 'assetTag', value: string) => {
+    if (!nodeId) return;
+    onAssetHierarchyChange(assetHierarchy.map(n => n.id === nodeId ? { ...n, [field]: value || undefined } : n));
   };
 
+  const missingLocations = data.filter(item => !resolveAssetReference(assetHierarchy, item.assetNodeId).functionalLocation).length;
+
   return (
     <div className="fixed inset-0 z-[100] flex items-center justify-center bg-slate-900/60 backdrop-blur-md p-4 animate-in fade-in duration-300">
       <div className="bg-white rounded-[2.5rem] shadow-2xl w-full max-w-6xl h-[85vh] flex flex-col overflow-hidden border border-white/20">
@@ -171,7 +201,7 @@ export const CMMSBridgeModal: React.FC<CMMSBridgeModalProps> = ({ data, isOpen,
             <div className="mt-auto p-4 bg-amber-50 rounded-2xl border border-amber-100 flex gap-3">
                <AlertCircle size={18} className="text-amber-500 shrink-0" />
                <p className="text-[10px] text-amber-800 font-bold leading-tight uppercase">
-                 Verify Functional Locations with Site Engineering before bulk injection.
+                 {missingLocations > 0 ? `${missingLocations} items have no functional location in the asset register.` : 'Verify Functional Locations with Site Engineering before bulk injection.'}
                </p>
             </div>
           </div>
@@ -181,7 +211,7 @@ export const CMMSBridgeModal: React.FC<CMMSBridgeModalProps> = ({ data, isOpen,
             <div className="p-8 border-b border-slate-50 flex justify-between items-center shrink-0">
                <div>
                  <h4 className="text-lg font-black text-slate-900 uppercase tracking-tighter">Implementation Matrix</h4>
-                 <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mt-1">Refine Asset Tags before generating packet</p>
+                 <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mt-1">Refine Functional Locations and Asset Tags before generating packet</p>
                </div>
                <div className="flex gap-2">
                  <div className="px-3 py-1.5 bg-slate-50 rounded-lg border border-slate-100 text-[10px] font-black text-slate-400 uppercase tracking-widest flex items-center gap-2">
@@ -194,33 +224,43 @@ export const CMMSBridgeModal: React.FC<CMMSBridgeModalProps> = ({ data, isOpen,
               <table className="w-full text-left table-fixed">
                 <thead className="bg-slate-50 border-b border-slate-100 sticky top-0 z-10">
                   <tr className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-400">
-                    <th className="px-8 py-4 w-64">CMMS Asset Tag</th>
+                    <th className="px-8 py-4 w-72">Functional Location / Asset Tag</th>
                     <th className="px-8 py-4">Strategy Task</th>
                     <th className="px-8 py-4 w-40">Interval</th>
                     <th className="px-8 py-4 w-48">Implementation Status</th>
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-slate-50">
-                  {data.map((item) => (
+                  {data.map((item) => {
+                    const node = assetHierarchy.find(n => n.id === item.assetNodeId);
+                    const inherited = resolveAssetReference(assetHierarchy, node?.parentId);
+                    return (
                     <tr key={item.id} className="group hover:bg-slate-50/50 transition-colors">
                       <td className="px-8 py-4">
-                         <div className="relative">
+                         <div className="space-y-1.5">
+                            <input 
+                              type="text" 
+                              value={node?.functionalLocation || ''}
+                              onChange={(e) => handleAssetFieldChange(node?.id, 'functionalLocation', e.target.value)}
+                              placeholder={inherited.functionalLocation || 'Functional location'}
+                              className="w-full bg-white border border-slate-200 rounded-lg px-3 py-2 text-[11px] font-black font-mono text-slate-900 focus:border-indigo-600 outline-none shadow-sm transition-all"
+                            />
                             <input 
                               type="text" 
-                              value={assetTags[item.id] || ''}
-                              onChange={(e) => handleTagChange(item.id, e.target.value)}
-                              placeholder={`ASSET-${item.component.substring(0, 3).toUpperCase()}-001`}
-                              className="w-full bg-white border border-slate-200 rounded-lg px-3 py-2 text-[11px] font-black text-slate-900 focus:border-indigo-600 outline-none shadow-sm transition-all"
+                              value={node?.assetTag || ''}
+                              onChange={(e) => handleAssetFieldChange(node?.id, 'assetTag', e.target.value)}
+                              placeholder={inherited.assetTag || 'Asset tag'}
+                              className="w-full bg-white border border-slate-200 rounded-lg px-3 py-1.5 text-[10px] font-bold font-mono text-slate-600 focus:border-indigo-600 outline-none shadow-sm transition-all"
                             />
                          </div>
                       </td>
                       <td className="px-8 py-4">
                         <p className="text-[11px] font-bold text-slate-700 leading-tight uppercase tracking-tight">{item.maintenanceTask}</p>
-                        <p className="text-[9px] text-slate-400 font-bold mt-1 uppercase tracking-widest">{item.component}</p>
+                        <p className="text-[9px] text-slate-400 font-bold mt-1 uppercase tracking-widest">{inherited.path ? `${inherited.path} › ` : ''}{item.component}</p>
                       </td>
                       <td className="px-8 py-4">
                         <div className="flex items-center gap-2 text-[10px] font-black text-indigo-600 uppercase">
-                          <RefreshCw size={12} /> {item.interval}
+                          <RefreshCw size={12} /> {formatInterval(item.interval)}
                         </div>
                       </td>
                       <td className="px-8 py-4">
@@ -237,7 +277,8 @@ export const CMMSBridgeModal: React.FC<CMMSBridgeModalProps> = ({ data, isOpen,
                         )}
                       </td>
                     </tr>
-                  ))}
+                    );
+                  })}
                 </tbody>
               </table>
             </div>
@@ -1,16 +1,20 @@
 
 import React from 'react';
-import { X, GitBranch, ShieldCheck, AlertCircle, Zap, Clock, Search, HelpCircle, ArrowRight, ArrowDown, ChevronRight, Redo2, Undo2 } from 'lucide-react';
+import { X, GitBranch, ShieldCheck, AlertCircle, Zap, Clock, Search, HelpCircle, ArrowRight, ArrowDown, ChevronRight, Redo2, Undo2, CheckCircle2, ShieldX, Activity } from 'lucide-react';
+import { RCMItem, DecisionAnswers, DecisionNodeId } from '../types';
+import { DECISION_QUESTIONS, formatDecisionPath } from '../services/decisionLogic';
 
 interface DecisionLogicModalProps {
   isOpen: boolean;
   onClose: () => void;
   onUndo: () => void;
   canUndo: boolean;
+  item?: RCMItem | null;
+  onAnswerChange?: (itemId: string, answers: Partial<DecisionAnswers>) => void;
 }
 
-const DecisionNode = ({ label, icon: Icon, color = "indigo" }: { label: string, icon: any, color?: string }) => (
-  <div className={`relative z-10 bg-white border-2 border-${color}-600 p-4 rounded-2xl shadow-lg w-full max-w-[280px] group hover:scale-105 transition-transform duration-300`}>
+const DecisionNode = ({ label, icon: Icon, color = "indigo", active, dimmed }: { label: string, icon: any, color?: string, active?: boolean, dimmed?: boolean }) => (
+  <div className={`relative z-10 bg-white border-2 border-${color}-600 p-4 rounded-2xl shadow-lg w-full max-w-[280px] group hover:scale-105 transition-all duration-300 ${active ? `ring-4 ring-${color}-300 scale-105` : ''} ${dimmed ? 'opacity-30 grayscale' : ''}`}>
     <div className={`absolute -top-4 -left-4 w-10 h-10 bg-${color}-600 rounded-xl flex items-center justify-center text-white shadow-xl`}>
       <Icon size={20} />
     </div>
@@ -18,8 +22,8 @@ const DecisionNode = ({ label, icon: Icon, color = "indigo" }: { label: string,
   </div>
 );
 
-const OutcomeNode = ({ label, type, icon: Icon, color = "emerald" }: { label: string, type: string, icon: any, color?: string }) => (
-  <div className={`relative z-10 bg-white border-2 border-${color}-500 p-4 rounded-xl shadow-md w-full max-w-[240px] flex items-center gap-3 hover:shadow-xl transition-all border-dashed`}>
+const OutcomeNode = ({ label, type, icon: Icon, color = "emerald", active, dimmed }: { label: string, type: string, icon: any, color?: string, active?: boolean, dimmed?: boolean }) => (
+  <div className={`relative z-10 bg-white border-2 border-${color}-500 p-4 rounded-xl shadow-md w-full max-w-[240px] flex items-center gap-3 hover:shadow-xl transition-all ${active ? `border-solid ring-4 ring-${color}-300 scale-105` : 'border-dashed'} ${dimmed ? 'opacity-30 grayscale' : ''}`}>
     <div className={`p-2 bg-${color}-50 text-${color}-600 rounded-lg`}>
       <Icon size={18} />
     </div>
@@ -30,18 +34,42 @@ const OutcomeNode = ({ label, type, icon: Icon, color = "emerald" }: { label: st
   </div>
 );
 
-const Connector = ({ label, horizontal = false }: { label: string, horizontal?: boolean }) => (
+const Connector = ({ label, horizontal = false, active }: { label: string, horizontal?: boolean, active?: boolean }) => (
   <div className={`flex ${horizontal ? 'items-center px-4' : 'flex-col items-center py-4'} justify-center relative shrink-0`}>
-    <div className={`${horizontal ? 'h-0.5 w-12' : 'w-0.5 h-12'} bg-slate-200`}></div>
+    <div className={`${horizontal ? 'h-0.5 w-12' : 'w-0.5 h-12'} ${active ? 'bg-indigo-500' : 'bg-slate-200'}`}></div>
     <span className={`absolute bg-white px-2 py-0.5 border border-slate-100 rounded text-[9px] font-black uppercase tracking-tighter ${horizontal ? 'top-1/2 -translate-y-1/2' : 'left-1/2 -translate-x-1/2'} ${label === 'Yes' ? 'text-emerald-600' : 'text-slate-400'}`}>
       {label}
     </span>
   </div>
 );
 
-export const DecisionLogicModal: React.FC<DecisionLogicModalProps> = ({ isOpen, onClose, onUndo, canUndo }) => {
+export const DecisionLogicModal: React.FC<DecisionLogicModalProps> = ({ isOpen, onClose, onUndo, canUndo, item, onAnswerChange }) => {
   if (!isOpen) return null;
 
+  const record = item?.decision;
+  const path = record?.path || [];
+  const isActive = (node: DecisionNodeId) => path.includes(node);
+  const isDimmed = (node: DecisionNodeId) => path.length > 0 && !path.includes(node);
+  const answers = record?.answers;
+  const notRecorded = !!record?.missingAnswers.length;
+
+  const renderAnswer = (node: DecisionNodeId, value: boolean | undefined, field?: keyof DecisionAnswers) => (
+    <div key={node} className={`flex items-start justify-between gap-4 p-3 rounded-xl border ${isActive(node) ? 'bg-white border-indigo-100' : 'bg-slate-50 border-transparent opacity-50'}`}>
+      <p className="text-[11px] font-bold text-slate-700 leading-snug">{DECISION_QUESTIONS[node]}</p>
+      {field && item && onAnswerChange ? (
+        <button
+          onClick={() => onAnswerChange(item.id, { [field]: !value })}
+          className={`shrink-0 px-3 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest border transition-all ${value ? 'bg-emerald-500 text-white border-emerald-500' : value === undefined ? 'bg-amber-50 text-amber-700 border-amber-200 hover:border-indigo-300' : 'bg-white text-slate-500 border-slate-200 hover:border-indigo-300'}`}
+          title={value === undefined ? 'Not answered yet · click to answer Yes' : 'Toggle answer'}
+        >
+          {value === undefined ? 'Not recorded' : value ? 'Yes' : 'No'}
+        </button>
+      ) : (
+        <span className={`shrink-0 px-3 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest ${value ? 'bg-emerald-50 text-emerald-700' : 'bg-slate-100 text-slate-500'}`}>{value ? 'Yes' : 'No'}</span>
+      )}
+    </div>
+  );
+
   return (
     <div className="fixed inset-0 z-[70] flex items-center justify-center bg-slate-900/60 backdrop-blur-sm p-4 animate-in fade-in duration-200">
       <div className="bg-slate-50 rounded-3xl shadow-2xl w-full max-w-6xl overflow-hidden flex flex-col max-h-[95vh] animate-in zoom-in-95 duration-300 border border-white/20">
@@ -57,7 +85,7 @@ export const DecisionLogicModal: React.FC<DecisionLogicModalProps> = ({ isOpen,
               <div className="flex items-center gap-3 mt-2.5">
                 <span className="text-[10px] text-slate-400 font-black uppercase tracking-[0.2em]">SAE JA1011 Reference Flow</span>
                 <div className="w-1 h-1 rounded-full bg-slate-700"></div>
-                <span className="text-[10px] text-indigo-400 font-black uppercase tracking-[0.2em]">Proactive Strategy Logic</span>
+                <span className="text-[10px] text-indigo-400 font-black uppercase tracking-[0.2em]">{item ? item.component : 'Proactive Strategy Logic'}</span>
               </div>
             </div>
           </div>
@@ -80,59 +108,100 @@ export const DecisionLogicModal: React.FC<DecisionLogicModalProps> = ({ isOpen,
 
         <div className="flex-1 overflow-auto custom-scrollbar p-12 bg-[#f8fafc] flex flex-col items-center">
           
-          <div className="max-w-4xl w-full space-y-2 mb-16 text-center">
-            <h4 className="text-3xl font-black text-slate-900 tracking-tighter uppercase leading-none">Decision Flowchart</h4>
-            <p className="text-sm text-slate-500 font-medium italic">Standardized logic for determining if a proactive task is technically feasible and worth doing.</p>
-          </div>
+          {item && record && answers ? (
+            <div className="max-w-4xl w-full mb-16 bg-white rounded-[2rem] border border-slate-200 shadow-sm p-8 space-y-6">
+              <div className="flex items-start justify-between gap-6">
+                <div>
+                  <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Decision Path</span>
+                  <p className="text-sm font-black text-slate-900 uppercase tracking-tight mt-1">{item.failureMode}</p>
+                  <p className="text-[11px] font-mono text-indigo-600 mt-2">{formatDecisionPath(record)}</p>
+                </div>
+                <div className={`shrink-0 flex items-center gap-2 px-4 py-2 rounded-xl border ${record.isTaskPermitted ? 'bg-emerald-50 border-emerald-100 text-emerald-700' : notRecorded ? 'bg-amber-50 border-amber-100 text-amber-700' : 'bg-red-50 border-red-100 text-red-700'}`}>
+                  {record.isTaskPermitted ? <CheckCircle2 size={16} /> : notRecorded ? <HelpCircle size={16} /> : <ShieldX size={16} />}
+                  <div>
+                    <p className="text-[9px] font-black uppercase tracking-widest">{record.isTaskPermitted ? 'Task Permitted' : notRecorded ? 'Decision Not Recorded' : 'Task Not Permitted'}</p>
+                    <p className="text-xs font-bold">{item.taskType}</p>
+                  </div>
+                </div>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {renderAnswer('evident', answers.evident)}
+                {renderAnswer('safety', answers.safetyEnvironmental)}
+                {renderAnswer('operational', answers.operational)}
+                {renderAnswer('pfFeasible', answers.pfFeasible, 'pfFeasible')}
+                {renderAnswer('ageRelated', answers.ageRelated, 'ageRelated')}
+              </div>
+              <p className="text-[10px] text-slate-400 font-medium italic">Consequence answers follow the item's consequence category ({item.consequenceCategory}). Feasibility answers are recorded here; until they are, a condition or scheduled task is not justified.</p>
+              <div>
+                <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Allowable Task Types</span>
+                <div className="flex flex-wrap gap-2 mt-2">
+                  {record.allowedTaskTypes.map(t => (
+                    <span key={t} className={`px-2 py-1 rounded-lg text-[10px] font-black uppercase tracking-tight border ${t === record.recommendedTaskType ? 'bg-indigo-600 text-white border-indigo-600' : t === item.taskType ? 'bg-emerald-50 text-emerald-700 border-emerald-200' : 'bg-slate-50 text-slate-500 border-slate-200'}`}>{t}</span>
+                  ))}
+                </div>
+              </div>
+            </div>
+          ) : (
+            <div className="max-w-4xl w-full space-y-2 mb-16 text-center">
+              <h4 className="text-3xl font-black text-slate-900 tracking-tighter uppercase leading-none">Decision Flowchart</h4>
+              <p className="text-sm text-slate-500 font-medium italic">Standardized logic for determining if a proactive task is technically feasible and worth doing.</p>
+            </div>
+          )}
 
           {/* THE DIAGRAM */}
           <div className="flex flex-col items-center w-full min-w-[900px]">
             
-            {/* START */}
-            <DecisionNode label="Is the failure evident to the operator under normal circumstances?" icon={HelpCircle} />
+            {/* CONSEQUENCE EVALUATION */}
+            <DecisionNode label={DECISION_QUESTIONS.evident} icon={HelpCircle} active={isActive('evident')} />
             
             <div className="flex w-full justify-center">
               {/* HIDDEN PATH */}
-              <div className="flex flex-col items-center px-12 border-l border-slate-100 mt-4">
-                <Connector label="No" />
+              <div className={`flex flex-col items-center px-12 border-l border-slate-100 mt-4 ${answers && answers.evident ? 'opacity-30 grayscale' : ''}`}>
+                <Connector label="No" active={!!answers && !answers.evident} />
                 <div className="p-3 bg-amber-50 rounded-full mb-4 border border-amber-100 shadow-sm"><AlertCircle size={20} className="text-amber-600" /></div>
                 <p className="text-[10px] font-black text-amber-600 uppercase mb-4 tracking-widest">Hidden Failure Path</p>
-                <OutcomeNode label="Failure Finding Task" type="Mandatory" icon={Search} color="amber" />
-                <Connector label="Next" />
-                <DecisionNode label="Is Safety or Environment threatened?" icon={ShieldCheck} color="red" />
-                <Connector label="No" />
-                <OutcomeNode label="Run to Failure / Redesign" type="Economic Decision" icon={Redo2} color="slate" />
+                <DecisionNode label="Does the multiple failure threaten safety or the environment?" icon={ShieldCheck} color="red" active={!!answers && !answers.evident} />
               </div>
 
               {/* EVIDENT PATH */}
-              <div className="flex flex-col items-center px-12 border-r border-slate-100 mt-4">
-                <Connector label="Yes" />
+              <div className={`flex flex-col items-center px-12 border-r border-slate-100 mt-4 ${answers && !answers.evident ? 'opacity-30 grayscale' : ''}`}>
+                <Connector label="Yes" active={!!answers && answers.evident} />
                 <div className="p-3 bg-indigo-50 rounded-full mb-4 border border-indigo-100 shadow-sm"><ArrowRight size={20} className="text-indigo-600" /></div>
                 <p className="text-[10px] font-black text-indigo-600 uppercase mb-4 tracking-widest">Evident Failure Path</p>
-                <DecisionNode label="Does failure cause hazard to safety or environment?" icon={AlertCircle} color="red" />
-                
-                <div className="flex gap-16 mt-4">
-                  <div className="flex flex-col items-center">
-                    <Connector label="Yes" />
-                    <OutcomeNode label="Condition Monitoring" type="Highest Priority" icon={Zap} color="red" />
-                    <Connector label="If not feasible" />
-                    <OutcomeNode label="Scheduled Replacement" type="Hard Time" icon={Clock} color="red" />
-                    <Connector label="If still unsafe" />
-                    <div className="p-5 bg-red-600 text-white rounded-2xl shadow-xl font-black text-xs uppercase tracking-widest">Mandatory Redesign</div>
-                  </div>
-                  
-                  <div className="flex flex-col items-center">
-                    <Connector label="No" />
-                    <p className="text-[10px] font-black text-emerald-600 uppercase mb-4 tracking-widest">Operational Path</p>
-                    <OutcomeNode label="Condition Monitoring" type="Proactive" icon={Zap} color="emerald" />
-                    <Connector label="Or" />
-                    <OutcomeNode label="Scheduled Restoration" type="Proactive" icon={Redo2} color="emerald" />
-                    <Connector label="If not justified" />
-                    <OutcomeNode label="Run to Failure" type="Economic" icon={ArrowDown} color="slate" />
-                  </div>
-                </div>
+                <DecisionNode label="Does failure cause hazard to safety or environment?" icon={AlertCircle} color="red" active={!!answers && answers.evident} />
+                <Connector label="No" active={isActive('operational')} />
+                <DecisionNode label={DECISION_QUESTIONS.operational} icon={Activity} color="emerald" active={isActive('operational')} dimmed={isDimmed('operational')} />
               </div>
+            </div>
 
+            {/* TASK SELECTION LADDER */}
+            <Connector label="Then" active={path.length > 0} />
+            <p className="text-[10px] font-black text-slate-400 uppercase mb-4 tracking-widest">Task Selection</p>
+            <div className="flex items-center">
+              <DecisionNode label={DECISION_QUESTIONS.pfFeasible} icon={Zap} active={isActive('pfFeasible')} dimmed={isDimmed('pfFeasible')} />
+              <Connector label="Yes" horizontal active={isActive('conditionTask')} />
+              <OutcomeNode label="Condition Monitoring" type="On-Condition" icon={Zap} color="emerald" active={isActive('conditionTask')} dimmed={isDimmed('conditionTask')} />
+            </div>
+            <Connector label="No" active={isActive('ageRelated')} />
+            <div className="flex items-center">
+              <DecisionNode label={DECISION_QUESTIONS.ageRelated} icon={Clock} active={isActive('ageRelated')} dimmed={isDimmed('ageRelated')} />
+              <Connector label="Yes" horizontal active={isActive('scheduledTask')} />
+              <OutcomeNode label="Scheduled Restoration / Replacement" type="Hard Time" icon={Redo2} color="emerald" active={isActive('scheduledTask')} dimmed={isDimmed('scheduledTask')} />
+            </div>
+            <Connector label="No" active={isActive('failureFinding') || isActive('redesign') || isActive('runToFailure')} />
+            <div className="flex gap-12">
+              <div className="flex flex-col items-center">
+                <p className="text-[9px] font-black text-amber-600 uppercase mb-3 tracking-widest">If Hidden</p>
+                <OutcomeNode label="Failure Finding Task" type="Mandatory" icon={Search} color="amber" active={isActive('failureFinding')} dimmed={isDimmed('failureFinding')} />
+              </div>
+              <div className="flex flex-col items-center">
+                <p className="text-[9px] font-black text-red-600 uppercase mb-3 tracking-widest">If Safety / Env</p>
+                <div className={`p-5 bg-red-600 text-white rounded-2xl shadow-xl font-black text-xs uppercase tracking-widest transition-all ${isActive('redesign') ? 'ring-4 ring-red-300 scale-105' : ''} ${isDimmed('redesign') ? 'opacity-30 grayscale' : ''}`}>Mandatory Redesign</div>
+              </div>
+              <div className="flex flex-col items-center">
+                <p className="text-[9px] font-black text-slate-400 uppercase mb-3 tracking-widest">If Operational</p>
+                <OutcomeNode label="Run to Failure" type="Economic" icon={ArrowDown} color="slate" active={isActive('runToFailure')} dimmed={isDimmed('runToFailure')} />
+              </div>
             </div>
 
           </div>
@@ -0,0 +1,178 @@
+import React, { useState, useMemo } from 'react';
+import { X, SearchCheck, CheckCircle2, AlertTriangle, ShieldCheck } from 'lucide-react';
+import { RCMItem, FailureFindingInputs, FailureFindingRecord, FFIFormula, MaintenanceInterval, IntervalUnit } from '../types';
+import { calculateFailureFindingInterval, DEFAULT_FFI_INPUTS } from '../services/failureFinding';
+import { formatInterval, formatIntervalUnit } from '../services/intervals';
+
+interface FailureFindingModalProps {
+  item: RCMItem;
+  isOpen: boolean;
+  onClose: () => void;
+  onApply: (interval: MaintenanceInterval, record: FailureFindingRecord) => void;
+  language: string;
+}
+
+const MTBF_UNITS: Exclude<IntervalUnit, 'cycles'>[] = ['hours', 'days', 'weeks', 'months', 'years'];
+
+const FORMULAS: { id: FFIFormula; label: string; description: string }[] = [
+  { id: 'exponential', label: 'Full Exponential', description: 'U = 1 − (MTBF/T)(1 − e^(−T/MTBF))' },
+  { id: 'simplified', label: 'Simplified', description: 'T = 2 · U · MTBF (valid for small U)' }
+];
+
+const formatDays = (days: number | null) => days === null ? '—' : days >= 10 ? `${Math.round(days)} d` : `${(days * 24).toFixed(1)} h`;
+
+export const FailureFindingModal: React.FC<FailureFindingModalProps> = ({ item, isOpen, onClose, onApply, language }) => {
+  const [inputs, setInputs] = useState<FailureFindingInputs>(item.failureFinding?.inputs || DEFAULT_FFI_INPUTS());
+
+  const result = useMemo(() => calculateFailureFindingInterval(inputs), [inputs]);
+
+  if (!isOpen) return null;
+
+  const update = (patch: Partial<FailureFindingInputs>) => setInputs(prev => ({ ...prev, ...patch }));
+
+  const handleApply = () => {
+    if (!result || !result.interval) return;
+    onApply(result.interval, { inputs, result, calculatedAt: Date.now() });
+  };
+
+  const numberField = (label: string, value: number, onChange: (v: number) => void, step: string = 'any') => (
+    <div>
+      <label className="text-[8px] font-black text-slate-400 uppercase tracking-widest block mb-1">{label}</label>
+      <input
+        type="number"
+        min="0"
+        step={step}
+        value={value}
+        onChange={(e) => onChange(parseFloat(e.target.value) || 0)}
+        className="w-full bg-slate-50 border border-slate-200 rounded-lg px-2 py-1.5 text-xs font-black text-slate-700 outline-none focus:border-indigo-400"
+      />
+    </div>
+  );
+
+  const notRequired = result !== null && result.achievable && !result.interval;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-slate-900/60 backdrop-blur-md p-4 animate-in fade-in duration-300">
+      <div className="bg-white rounded-[2.5rem] shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col overflow-hidden border border-white/20">
+
+        {/* Header */}
+        <div className="bg-slate-900 px-8 py-6 flex justify-between items-center text-white shrink-0">
+          <div className="flex items-center gap-4">
+            <div className="p-3 bg-indigo-500/20 rounded-2xl border border-indigo-500/30">
+              <SearchCheck size={24} className="text-indigo-400" />
+            </div>
+            <div>
+              <h3 className="font-black text-xl uppercase tracking-tighter">Failure-Finding Interval</h3>
+              <p className="text-[10px] text-slate-400 uppercase tracking-widest font-bold mt-1">{item.component} · {item.consequenceCategory}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-6 custom-scrollbar">
+          <div className="bg-white p-5 rounded-2xl border border-slate-200 shadow-sm grid grid-cols-3 gap-4">
+            <div className="col-span-1">
+              <label className="text-[8px] font-black text-slate-400 uppercase tracking-widest block mb-1">Protective Device MTBF</label>
+              <div className="flex gap-2">
+                <input
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={inputs.deviceMtbf.value}
+                  onChange={(e) => update({ deviceMtbf: { ...inputs.deviceMtbf, value: parseFloat(e.target.value) || 0 } })}
+                  className="w-20 bg-slate-50 border border-slate-200 rounded-lg px-2 py-1.5 text-xs font-black text-slate-700 outline-none focus:border-indigo-400"
+                />
+                <select
+                  value={inputs.deviceMtbf.unit}
+                  onChange={(e) => update({ deviceMtbf: { ...inputs.deviceMtbf, unit: e.target.value as IntervalUnit } })}
+                  className="flex-1 bg-slate-50 border border-slate-200 rounded-lg px-2 py-1.5 text-[10px] font-bold text-slate-600 outline-none"
+                >
+                  {MTBF_UNITS.map(u => <option key={u} value={u}>{formatIntervalUnit(u, language)}</option>)}
+                </select>
+              </div>
+            </div>
+            {numberField('Demand Rate (per year)', inputs.demandRate, (v) => update({ demandRate: v }))}
+            {numberField('Tolerable Multiple Failure (per year)', inputs.tolerableProbability, (v) => update({ tolerableProbability: v }))}
+            {numberField('Test Downtime (h)', inputs.testDurationHours, (v) => update({ testDurationHours: v }))}
+            <div className="col-span-2">
+              <label className="text-[8px] font-black text-slate-400 uppercase tracking-widest block mb-1">Formula</label>
+              <div className="flex bg-slate-50 p-1 rounded-xl border border-slate-200">
+                {FORMULAS.map(f => (
+                  <button
+                    key={f.id}
+                    onClick={() => update({ formula: f.id })}
+                    title={f.description}
+                    className={`flex-1 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${inputs.formula === f.id ? 'bg-slate-900 text-white' : 'text-slate-500'}`}
+                  >
+                    {f.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {!result && (
+            <p className="text-xs text-slate-400 font-bold">Enter a device MTBF, a demand rate above zero and a tolerable probability between 0 and 1.</p>
+          )}
+
+          {result && (
+            <div className="bg-slate-900 rounded-2xl p-6 text-white grid grid-cols-4 gap-4">
+              <div>
+                <p className="text-[8px] text-slate-500 font-black uppercase mb-1">Required Availability</p>
+                <p className="text-lg font-black">{(result.requiredAvailability * 100).toFixed(3)}%</p>
+              </div>
+              <div>
+                <p className="text-[8px] text-slate-500 font-black uppercase mb-1">Simplified FFI</p>
+                <p className={`text-lg font-black ${inputs.formula === 'simplified' ? 'text-emerald-400' : ''}`}>{formatDays(result.simplifiedDays)}</p>
+              </div>
+              <div>
+                <p className="text-[8px] text-slate-500 font-black uppercase mb-1">Exponential FFI</p>
+                <p className={`text-lg font-black ${inputs.formula === 'exponential' ? 'text-emerald-400' : ''}`}>{formatDays(result.exponentialDays)}</p>
+              </div>
+              <div>
+                <p className="text-[8px] text-slate-500 font-black uppercase mb-1">Proposed Interval</p>
+                <p className="text-lg font-black">{result.interval ? formatInterval(result.interval, language) : '—'}</p>
+              </div>
+            </div>
+          )}
+
+          {result && !result.achievable && (
+            <div className="flex gap-2 bg-red-50 p-4 rounded-2xl border border-red-100">
+              <AlertTriangle size={16} className="text-red-600 shrink-0" />
+              <p className="text-[10px] text-red-800 font-bold leading-relaxed">
+                The required availability of {(result.requiredAvailability * 100).toFixed(3)}% cannot be met: with this MTBF and test downtime the best achievable is {((1 - result.minimumUnavailability) * 100).toFixed(3)}%. Failure finding alone is not enough; add a redundant device, improve device reliability or redesign.
+              </p>
+            </div>
+          )}
+
+          {notRequired && (
+            <div className="flex gap-2 bg-emerald-50 p-4 rounded-2xl border border-emerald-100">
+              <ShieldCheck size={16} className="text-emerald-600 shrink-0" />
+              <p className="text-[10px] text-emerald-800 font-bold leading-relaxed">At this demand rate the multiple-failure target is met even without the protective device, so there is no failure-finding requirement.</p>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-8 py-5 bg-white border-t border-slate-100 flex justify-between items-center shrink-0">
+          <div className="flex items-center gap-2 text-slate-400">
+            <ShieldCheck className="w-4 h-4" />
+            <span className="text-[10px] font-black uppercase tracking-widest">Current interval: {formatInterval(item.interval, language)}</span>
+          </div>
+          <div className="flex gap-3">
+            <button onClick={onClose} className="px-6 py-2.5 text-slate-500 font-black text-[10px] uppercase tracking-widest hover:bg-slate-50 rounded-lg transition-all">Cancel</button>
+            <button
+              onClick={handleApply}
+              disabled={!result?.interval}
+              className="px-8 py-2.5 bg-indigo-600 text-white rounded-lg font-black text-[10px] uppercase tracking-[0.2em] shadow-xl shadow-indigo-100 hover:bg-indigo-700 disabled:opacity-40 transition-all flex items-center gap-2"
+            >
+              <CheckCircle2 size={16} /> Apply Interval
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,155 @@
+import React, { useState, useEffect } from 'react';
+import { X, Library, Download, Trash2, Plus, Loader2, Search, Info } from 'lucide-react';
+import { LibraryEntry } from '../types';
+import { deleteLibraryEntry, getAllStudies, getLibraryEntries, saveLibraryEntries } from '../services/db';
+import { harvestLibraryEntries, libraryKeyLabel } from '../services/library';
+import { formatInterval } from '../services/intervals';
+
+interface FailureModeLibraryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onInsert: (entries: LibraryEntry[]) => void;
+}
+
+export const FailureModeLibraryModal: React.FC<FailureModeLibraryModalProps> = ({ isOpen, onClose, onInsert }) => {
+  const [entries, setEntries] = useState<LibraryEntry[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [query, setQuery] = useState('');
+  const [keyFilter, setKeyFilter] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setSelected(new Set());
+    setQuery('');
+    setKeyFilter('');
+    setNotice(null);
+    setIsLoading(true);
+    getLibraryEntries().then(list => {
+      setEntries(list);
+      setIsLoading(false);
+    });
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const handleHarvest = async () => {
+    setIsLoading(true);
+    const studies = await getAllStudies();
+    const harvested = harvestLibraryEntries(studies, entries);
+    if (harvested.length > 0) await saveLibraryEntries(harvested);
+    const finished = studies.filter(s => s.isFinished).length;
+    setEntries(await getLibraryEntries());
+    setNotice(finished === 0
+      ? 'No studies are marked finished yet. Templates are only taken from finished studies.'
+      : `${harvested.length} new templates from ${finished} finished studies.`);
+    setIsLoading(false);
+  };
+
+  const handleDelete = async (id: string) => {
+    await deleteLibraryEntry(id);
+    setEntries(entries.filter(e => e.id !== id));
+    const next = new Set(selected);
+    next.delete(id);
+    setSelected(next);
+  };
+
+  const toggle = (id: string) => {
+    const next = new Set(selected);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setSelected(next);
+  };
+
+  const keys = Array.from(new Set<string>(entries.map(e => e.key)));
+  const text = query.trim().toLowerCase();
+  const visible = entries.filter(e =>
+    (!keyFilter || e.key === keyFilter)
+    && (!text || [e.component, e.failureMode, e.maintenanceTask, e.iso14224Code].some(v => (v || '').toLowerCase().includes(text))));
+  const groups = keys.map(key => ({ key, entries: visible.filter(e => e.key === key) })).filter(g => g.entries.length > 0);
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-slate-900/60 backdrop-blur-md p-4 animate-in fade-in duration-300">
+      <div className="bg-white rounded-[2.5rem] shadow-2xl w-full max-w-5xl h-[85vh] flex flex-col overflow-hidden border border-white/20">
+
+        {/* Header */}
+        <div className="bg-slate-900 px-8 py-6 flex justify-between items-center text-white shrink-0">
+          <div className="flex items-center gap-4">
+            <div className="p-3 bg-indigo-500/20 rounded-2xl border border-indigo-500/30">
+              <Library size={24} className="text-indigo-400" />
+            </div>
+            <div>
+              <h3 className="font-black text-xl uppercase tracking-tighter">Failure Mode Library</h3>
+              <p className="text-[10px] text-slate-400 uppercase tracking-widest font-bold mt-1">{entries.length} templates · {keys.length} component types and equipment classes</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        {/* Toolbar */}
+        <div className="px-8 py-4 border-b border-slate-100 flex flex-wrap items-center gap-3 shrink-0">
+          <div className="flex items-center gap-2 flex-1 min-w-[200px] bg-slate-50 border border-slate-200 rounded-lg px-3 py-2">
+            <Search size={14} className="text-slate-400" />
+            <input value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Filter by component, failure mode, task or ISO code" className="flex-1 bg-transparent text-xs font-bold text-slate-700 outline-none" />
+          </div>
+          <select value={keyFilter} onChange={(e) => setKeyFilter(e.target.value)} className="bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-xs font-bold text-slate-700 outline-none">
+            <option value="">All types and classes</option>
+            {keys.map(key => <option key={key} value={key}>{libraryKeyLabel(key)}</option>)}
+          </select>
+          <button onClick={handleHarvest} disabled={isLoading} className="flex items-center gap-2 px-4 py-2 bg-slate-100 hover:bg-indigo-50 text-slate-600 hover:text-indigo-600 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-40">
+            <Download size={14} /> Harvest Finished Studies
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-6 custom-scrollbar">
+          {notice && (
+            <div className="flex gap-2 bg-indigo-50 p-4 rounded-2xl border border-indigo-100">
+              <Info size={16} className="text-indigo-500 shrink-0" />
+              <p className="text-[10px] text-indigo-700 font-bold">{notice}</p>
+            </div>
+          )}
+          {isLoading && <div className="flex justify-center p-6"><Loader2 size={20} className="animate-spin text-slate-300" /></div>}
+          {!isLoading && entries.length === 0 && (
+            <p className="text-xs text-slate-400 font-bold">The library is empty. Mark reviewed studies as finished, then harvest them to collect their failure modes as templates.</p>
+          )}
+          {groups.map(group => (
+            <div key={group.key}>
+              <label className="text-[8px] font-black text-slate-400 uppercase tracking-widest block mb-2">{libraryKeyLabel(group.key)} · {group.entries.length}</label>
+              <div className="space-y-1">
+                {group.entries.map(entry => (
+                  <div key={entry.id} onClick={() => toggle(entry.id)} className={`group flex items-center gap-3 px-4 py-2.5 rounded-xl border cursor-pointer transition-all ${selected.has(entry.id) ? 'bg-indigo-50 border-indigo-200' : 'border-slate-100 hover:bg-slate-50'}`}>
+                    <input type="checkbox" checked={selected.has(entry.id)} readOnly className="w-4 h-4 text-indigo-600 rounded border-slate-300 shrink-0" />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-xs font-bold text-slate-800 truncate">{entry.component} — {entry.failureMode}</p>
+                      <p className="text-[10px] text-slate-500 truncate mt-0.5">{entry.maintenanceTask} · {formatInterval(entry.interval)}</p>
+                    </div>
+                    {entry.iso14224Code && <span className="text-[9px] font-mono font-bold text-slate-500 bg-slate-100 px-1.5 py-0.5 rounded shrink-0">{entry.iso14224Code}</span>}
+                    <span className="text-[9px] font-bold text-slate-400 truncate max-w-[140px] shrink-0" title={`From ${entry.source.studyName}`}>{entry.source.studyName}</span>
+                    <button onClick={(e) => { e.stopPropagation(); handleDelete(entry.id); }} className="p-1 text-slate-300 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-all shrink-0" title="Remove from library">
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Footer */}
+        <div className="px-8 py-5 bg-white border-t border-slate-100 flex justify-end items-center gap-3 shrink-0">
+          <button onClick={onClose} className="px-6 py-2.5 text-slate-500 font-black text-[10px] uppercase tracking-widest hover:bg-slate-50 rounded-lg transition-all">Close</button>
+          <button
+            onClick={() => onInsert(entries.filter(e => selected.has(e.id)))}
+            disabled={selected.size === 0}
+            className="px-8 py-2.5 bg-indigo-600 text-white rounded-lg font-black text-[10px] uppercase tracking-[0.2em] shadow-xl shadow-indigo-100 hover:bg-indigo-700 disabled:opacity-40 transition-all flex items-center gap-2"
+          >
+            <Plus size={16} /> Insert {selected.size || ''} into Study
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,202 @@
+import React, { useState, useEffect } from 'react';
+import { X, Copy, Plus, Send, Check, XCircle, ExternalLink, Info, GitFork } from 'lucide-react';
+import { SavedStudy } from '../types';
+import { TemplateDeviations, describeChanges, deviationCount, instanceDeviations, proposedChanges } from '../services/templates';
+
+interface FleetTemplateModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  study: SavedStudy | null;
+  studies: SavedStudy[];
+  onSetGeneric: (isGeneric: boolean) => void;
+  onCreateInstance: (name: string) => void;
+  onPropose: () => Promise<number>;
+  onReview: (instanceId: string, decision: 'accept' | 'reject') => void;
+  onOpenStudy: (studyId: string) => void;
+}
+
+const itemTitle = (item: { component: string; failureMode: string }) => `${item.component} — ${item.failureMode}`;
+
+const DeviationList: React.FC<{ deviations: TemplateDeviations }> = ({ deviations }) => (
+  <div className="space-y-2">
+    {deviationCount(deviations) === 0 && <p className="text-xs text-slate-400 font-bold">Identical to the template in context, scores and intervals.</p>}
+    {deviations.contextChanged && <div className="px-3 py-2 bg-amber-50 border border-amber-100 rounded-lg text-xs font-bold text-amber-800">Operating context differs from the template.</div>}
+    {deviations.changed.map(({ item, fields }) => (
+      <div key={item.id} className="border border-slate-200 rounded-xl overflow-hidden">
+        <div className="px-3 py-2 bg-slate-50 text-xs font-black text-slate-700">{itemTitle(item)}</div>
+        <table className="w-full text-[11px]">
+          <tbody>
+            {fields.map(field => (
+              <tr key={field.key} className="border-t border-slate-100">
+                <td className="px-3 py-1.5 w-28 text-[9px] font-black uppercase tracking-widest text-slate-400">{field.label}</td>
+                <td className="px-3 py-1.5 text-slate-500">Template: {field.before || '—'}</td>
+                <td className="px-3 py-1.5 font-bold text-indigo-700">Site: {field.after || '—'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    ))}
+    {deviations.added.map(item => <div key={item.id} className="px-3 py-2 bg-emerald-50 border border-emerald-100 rounded-lg text-xs font-bold text-emerald-800">+ Site only: {itemTitle(item)}</div>)}
+    {deviations.removed.map(item => <div key={item.id} className="px-3 py-2 bg-red-50 border border-red-100 rounded-lg text-xs font-bold text-red-800">− Not at this site: {itemTitle(item)}</div>)}
+  </div>
+);
+
+export const FleetTemplateModal: React.FC<FleetTemplateModalProps> = ({ isOpen, onClose, study, studies, onSetGeneric, onCreateInstance, onPropose, onReview, onOpenStudy }) => {
+  const [instanceName, setInstanceName] = useState('');
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setInstanceName('');
+      setNotice(null);
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const instances = study ? studies.filter(s => s.template?.templateId === study.id) : [];
+  const link = study?.template;
+
+  const handlePropose = async () => {
+    const count = await onPropose();
+    setNotice(count > 0 ? `Template changes proposed to ${count} instances.` : 'All instances are already in sync with the template.');
+  };
+
+  const handleCreate = () => {
+    if (!instanceName.trim()) return;
+    onCreateInstance(instanceName.trim());
+    setNotice(`Instance "${instanceName.trim()}" created.`);
+    setInstanceName('');
+  };
+
+  const proposalCard = (instance: SavedStudy) => {
+    const changes = instance.template ? proposedChanges(instance.template) : null;
+    if (!changes) return null;
+    return (
+      <div className="flex items-center gap-3 px-4 py-3 bg-indigo-50 border border-indigo-100 rounded-xl">
+        <Send size={14} className="text-indigo-500 shrink-0" />
+        <p className="flex-1 text-[11px] font-bold text-indigo-800">Template update proposed {new Date(instance.template!.proposal!.timestamp).toLocaleString()}: {describeChanges(changes.diff, changes.contextChanged)}</p>
+        <button onClick={() => onReview(instance.id, 'reject')} className="flex items-center gap-1 px-3 py-1.5 bg-white text-slate-600 border border-slate-200 rounded-lg text-[9px] font-black uppercase tracking-widest hover:bg-slate-50"><XCircle size={12} /> Reject</button>
+        <button onClick={() => onReview(instance.id, 'accept')} className="flex items-center gap-1 px-3 py-1.5 bg-indigo-600 text-white rounded-lg text-[9px] font-black uppercase tracking-widest hover:bg-indigo-700"><Check size={12} /> Accept</button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-slate-900/60 backdrop-blur-md p-4 animate-in fade-in duration-300">
+      <div className="bg-white rounded-[2.5rem] shadow-2xl w-full max-w-5xl max-h-[90vh] flex flex-col overflow-hidden border border-white/20">
+
+        {/* Header */}
+        <div className="bg-slate-900 px-8 py-6 flex justify-between items-center text-white shrink-0">
+          <div className="flex items-center gap-4">
+            <div className="p-3 bg-indigo-500/20 rounded-2xl border border-indigo-500/30">
+              <GitFork size={24} className="text-indigo-400" />
+            </div>
+            <div>
+              <h3 className="font-black text-xl uppercase tracking-tighter">Fleet Template</h3>
+              <p className="text-[10px] text-slate-400 uppercase tracking-widest font-bold mt-1">
+                {link ? `Instance of ${link.templateName}` : study?.isGeneric ? `Generic analysis · ${instances.length} instances` : 'Site-specific study'}
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-8 custom-scrollbar">
+          {notice && (
+            <div className="flex gap-2 bg-indigo-50 p-4 rounded-2xl border border-indigo-100">
+              <Info size={16} className="text-indigo-500 shrink-0" />
+              <p className="text-[10px] text-indigo-700 font-bold">{notice}</p>
+            </div>
+          )}
+
+          {!study && <p className="text-xs text-slate-400 font-bold">Add context or failure modes and save the study before using it as a template.</p>}
+
+          {/* Instance view */}
+          {study && link && (
+            <>
+              {proposalCard(study)}
+              <div>
+                <label className="text-[8px] font-black text-slate-400 uppercase tracking-widest block mb-2">Deviations from the Template</label>
+                <DeviationList deviations={instanceDeviations(study)!} />
+              </div>
+              {link.syncLog.length > 0 && (
+                <div>
+                  <label className="text-[8px] font-black text-slate-400 uppercase tracking-widest block mb-2">Template Updates</label>
+                  <div className="space-y-1">
+                    {[...link.syncLog].reverse().map((record, index) => (
+                      <p key={index} className="text-[11px] text-slate-600"><span className={`font-black uppercase text-[9px] tracking-widest ${record.decision === 'accepted' ? 'text-emerald-600' : 'text-slate-400'}`}>{record.decision}</span> · {new Date(record.timestamp).toLocaleString()} · {record.summary}</p>
+                    ))}
+                  </div>
+                </div>
+              )}
+              <button onClick={() => onOpenStudy(link.templateId)} disabled={!studies.some(s => s.id === link.templateId)} className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-indigo-600 hover:underline disabled:opacity-40 disabled:no-underline">
+                <ExternalLink size={12} /> Open Template
+              </button>
+            </>
+          )}
+
+          {/* Template view */}
+          {study && !link && (
+            <>
+              <label className="flex items-center gap-3 px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl cursor-pointer">
+                <input type="checkbox" checked={!!study.isGeneric} onChange={(e) => onSetGeneric(e.target.checked)} className="w-4 h-4 text-indigo-600 rounded border-slate-300" />
+                <div>
+                  <p className="text-xs font-black text-slate-700">Generic analysis</p>
+                  <p className="text-[10px] text-slate-500">Use this study as the template for a fleet of near-identical assets.</p>
+                </div>
+              </label>
+
+              {study.isGeneric && (
+                <>
+                  <div className="flex flex-wrap gap-3">
+                    <input value={instanceName} onChange={(e) => setInstanceName(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && handleCreate()} placeholder="Site or asset name, e.g. Compressor K-101 Site B" className="flex-1 min-w-[240px] bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-xs font-bold text-slate-700 outline-none focus:border-indigo-400" />
+                    <button onClick={handleCreate} disabled={!instanceName.trim()} className="flex items-center gap-2 px-4 py-2 bg-slate-100 hover:bg-indigo-50 text-slate-600 hover:text-indigo-600 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-40">
+                      <Plus size={14} /> New Instance
+                    </button>
+                    <button onClick={handlePropose} disabled={instances.length === 0} className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg text-[10px] font-black uppercase tracking-widest shadow-xl shadow-indigo-100 hover:bg-indigo-700 transition-all disabled:opacity-40">
+                      <Send size={14} /> Propose Changes to Instances
+                    </button>
+                  </div>
+
+                  <div>
+                    <label className="text-[8px] font-black text-slate-400 uppercase tracking-widest block mb-2">Instances</label>
+                    {instances.length === 0 && <p className="text-xs text-slate-400 font-bold">No site-specific studies yet.</p>}
+                    <div className="space-y-3">
+                      {instances.map(instance => {
+                        const deviations = instanceDeviations(instance)!;
+                        return (
+                          <div key={instance.id} className="border border-slate-200 rounded-2xl p-4 space-y-3">
+                            <div className="flex items-center gap-3">
+                              <Copy size={14} className="text-slate-400 shrink-0" />
+                              <p className="flex-1 text-sm font-black text-slate-800 truncate">{instance.name}</p>
+                              <span className="text-[9px] font-black text-slate-500 bg-slate-100 px-2 py-0.5 rounded">{deviationCount(deviations)} deviations</span>
+                              <button onClick={() => onOpenStudy(instance.id)} className="flex items-center gap-1 text-[9px] font-black uppercase tracking-widest text-indigo-600 hover:underline"><ExternalLink size={12} /> Open</button>
+                            </div>
+                            {proposalCard(instance)}
+                            <details>
+                              <summary className="text-[9px] font-black uppercase tracking-widest text-slate-400 cursor-pointer">Deviations</summary>
+                              <div className="mt-2"><DeviationList deviations={deviations} /></div>
+                            </details>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+                </>
+              )}
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-8 py-5 bg-white border-t border-slate-100 flex justify-end items-center gap-3 shrink-0">
+          <button onClick={onClose} className="px-6 py-2.5 text-slate-500 font-black text-[10px] uppercase tracking-widest hover:bg-slate-50 rounded-lg transition-all">Close</button>
+        </div>
+      </div>
+    </div>
+  );
+};
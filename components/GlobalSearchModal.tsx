@@ -0,0 +1,129 @@
+import React, { useState, useEffect } from 'react';
+import { X, Search, FileText, Loader2, ChevronRight, AlignLeft } from 'lucide-react';
+import { searchStudies } from '../services/db';
+import { SEARCH_FIELD_LABELS, SearchHit, contextSnippet, tokenize } from '../services/search';
+
+interface GlobalSearchModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onOpenResult: (studyId: string, itemId?: string) => void;
+}
+
+export const GlobalSearchModal: React.FC<GlobalSearchModalProps> = ({ isOpen, onClose, onOpenResult }) => {
+  const [query, setQuery] = useState('');
+  const [hits, setHits] = useState<SearchHit[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setQuery('');
+      setHits([]);
+    }
+  }, [isOpen]);
+
+  // Debounced so typing does not run a lookup per keystroke
+  useEffect(() => {
+    if (!isOpen) return;
+    if (query.trim().length < 2) {
+      setHits([]);
+      setIsSearching(false);
+      return;
+    }
+    setIsSearching(true);
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      searchStudies(query).then(result => {
+        if (cancelled) return;
+        setHits(result);
+        setIsSearching(false);
+      });
+    }, 200);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, isOpen]);
+
+  if (!isOpen) return null;
+
+  const queryTokens = tokenize(query);
+  const groups = hits.reduce<{ studyId: string; studyName: string; timestamp: number; hits: SearchHit[] }[]>((acc, hit) => {
+    const group = acc.find(g => g.studyId === hit.entry.studyId);
+    if (group) group.hits.push(hit);
+    else acc.push({ studyId: hit.entry.studyId, studyName: hit.entry.studyName, timestamp: hit.entry.studyTimestamp, hits: [hit] });
+    return acc;
+  }, []);
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-start justify-center bg-slate-900/60 backdrop-blur-md p-4 pt-[10vh] animate-in fade-in duration-300" onClick={onClose}>
+      <div className="bg-white rounded-[2.5rem] shadow-2xl w-full max-w-3xl max-h-[75vh] flex flex-col overflow-hidden border border-white/20" onClick={(e) => e.stopPropagation()}>
+
+        {/* Header */}
+        <div className="bg-slate-900 px-8 py-6 flex items-center gap-4 text-white shrink-0">
+          <div className="p-3 bg-indigo-500/20 rounded-2xl border border-indigo-500/30">
+            <Search size={24} className="text-indigo-400" />
+          </div>
+          <input
+            autoFocus
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => e.key === 'Escape' && onClose()}
+            placeholder="Search all studies: component, failure mode, task, ISO code, context..."
+            className="flex-1 bg-transparent text-lg font-bold placeholder:text-slate-500 outline-none"
+          />
+          {isSearching && <Loader2 size={20} className="animate-spin text-slate-400 shrink-0" />}
+          <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full transition-colors shrink-0">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6 custom-scrollbar">
+          {query.trim().length < 2 && (
+            <p className="text-xs text-slate-400 font-bold">Type at least two characters. Every saved study is searched, not only the open one.</p>
+          )}
+          {query.trim().length >= 2 && !isSearching && hits.length === 0 && (
+            <p className="text-xs text-slate-400 font-bold">No matches in saved studies.</p>
+          )}
+          {groups.map(group => (
+            <div key={group.studyId}>
+              <button onClick={() => onOpenResult(group.studyId)} className="w-full flex items-center gap-2 mb-2 text-left group">
+                <FileText size={14} className="text-indigo-500 shrink-0" />
+                <span className="text-xs font-black text-slate-800 truncate group-hover:text-indigo-600">{group.studyName}</span>
+                <span className="text-[9px] font-bold text-slate-400 shrink-0">{new Date(group.timestamp).toLocaleDateString()}</span>
+                <span className="text-[9px] font-black text-slate-400 bg-slate-100 px-1.5 py-0.5 rounded shrink-0">{group.hits.length}</span>
+              </button>
+              <div className="space-y-1">
+                {group.hits.map(({ entry, fields }) => (
+                  <button
+                    key={entry.id}
+                    onClick={() => onOpenResult(entry.studyId, entry.itemId)}
+                    className="w-full text-left px-4 py-2.5 rounded-xl border border-slate-100 hover:border-indigo-200 hover:bg-indigo-50/50 transition-all flex items-center gap-3"
+                  >
+                    {entry.itemId ? (
+                      <div className="flex-1 min-w-0">
+                        <p className="text-xs font-bold text-slate-800 truncate">{entry.component} — {entry.failureMode}</p>
+                        <p className="text-[10px] text-slate-500 truncate mt-0.5">{entry.maintenanceTask}</p>
+                      </div>
+                    ) : (
+                      <div className="flex-1 min-w-0 flex gap-2">
+                        <AlignLeft size={14} className="text-slate-400 shrink-0 mt-0.5" />
+                        <p className="text-[11px] text-slate-600 line-clamp-2">{contextSnippet(entry.contextText, queryTokens)}</p>
+                      </div>
+                    )}
+                    <div className="flex items-center gap-1 shrink-0">
+                      {entry.isoCodes && <span className="text-[9px] font-mono font-bold text-slate-500 bg-slate-100 px-1.5 py-0.5 rounded">{entry.isoCodes}</span>}
+                      {fields.map(field => (
+                        <span key={field} className="text-[8px] font-black uppercase tracking-widest text-indigo-600 bg-indigo-50 border border-indigo-100 px-1.5 py-0.5 rounded">{SEARCH_FIELD_LABELS[field]}</span>
+                      ))}
+                      <ChevronRight size={14} className="text-slate-300" />
+                    </div>
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
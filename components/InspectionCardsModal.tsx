@@ -0,0 +1,148 @@
+import React, { useState, useEffect } from 'react';
+import { X, Printer, Download, Info, QrCode } from 'lucide-react';
+import { AssetNode, RCMItem } from '../types';
+import { PDF_MIME_TYPE } from '../services/pdf';
+import { CardSize, buildInspectionCards, hasInspectionCard } from '../services/inspectionCards';
+import { formatInterval } from '../services/intervals';
+
+interface InspectionCardsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  items: RCMItem[]; // Candidates in display order; items without an inspection sheet are listed as skipped
+  studyName: string;
+  assetHierarchy: AssetNode[];
+  language: string;
+}
+
+const LANGUAGES = ['English', 'Spanish', 'French', 'German', 'Polish'];
+
+export const InspectionCardsModal: React.FC<InspectionCardsModalProps> = ({ isOpen, onClose, items, studyName, assetHierarchy, language }) => {
+  const [size, setSize] = useState<CardSize>('A4');
+  const [cardLanguage, setCardLanguage] = useState(language);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (isOpen) {
+      setCardLanguage(LANGUAGES.includes(language) ? language : 'English');
+      setSelected(new Set(items.filter(hasInspectionCard).map(i => i.id)));
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const printable = items.filter(hasInspectionCard);
+  const skipped = items.length - printable.length;
+  const chosen = printable.filter(i => selected.has(i.id));
+
+  const toggle = (id: string) => setSelected(prev => {
+    const next = new Set(prev);
+    if (next.has(id)) next.delete(id); else next.add(id);
+    return next;
+  });
+
+  const handleDownload = () => {
+    const pdf = buildInspectionCards({ studyName, items: chosen, assetHierarchy, language: cardLanguage, size });
+    const blob = new Blob([pdf], { type: PDF_MIME_TYPE });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.setAttribute('href', url);
+    const fileNameBase = studyName ? studyName.trim().replace(/[^a-zA-Z0-9\u00C0-\u017F]/g, '_') : 'RCM';
+    link.setAttribute('download', `${fileNameBase}_Inspection_Cards_${size}.pdf`);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-slate-900/60 backdrop-blur-md p-4 animate-in fade-in duration-300">
+      <div className="bg-white rounded-[2.5rem] shadow-2xl w-full max-w-3xl max-h-[85vh] flex flex-col overflow-hidden border border-white/20">
+
+        {/* Header */}
+        <div className="bg-slate-900 px-8 py-6 flex justify-between items-center text-white shrink-0">
+          <div className="flex items-center gap-4">
+            <div className="p-3 bg-indigo-500/20 rounded-2xl border border-indigo-500/30">
+              <Printer size={24} className="text-indigo-400" />
+            </div>
+            <div>
+              <h3 className="font-black text-xl uppercase tracking-tighter">Field Inspection Cards</h3>
+              <p className="text-[10px] text-slate-400 uppercase tracking-widest font-bold mt-1">{chosen.length} of {printable.length} cards selected</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-6 custom-scrollbar">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <label className="text-[8px] font-black text-slate-400 uppercase tracking-widest block mb-2">Paper Size</label>
+              <div className="flex bg-slate-100 p-0.5 rounded-lg w-fit">
+                {(['A4', 'A5'] as CardSize[]).map(option => (
+                  <button key={option} onClick={() => setSize(option)} className={`px-6 py-1.5 rounded-md text-[10px] font-black uppercase tracking-widest transition-all ${size === option ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}>
+                    {option}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div>
+              <label className="text-[8px] font-black text-slate-400 uppercase tracking-widest block mb-2">Card Language</label>
+              <select value={cardLanguage} onChange={(e) => setCardLanguage(e.target.value)} className="w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-xs font-bold text-slate-700 outline-none">
+                {LANGUAGES.map(lang => <option key={lang} value={lang}>{lang}</option>)}
+              </select>
+            </div>
+          </div>
+
+          <div className="flex gap-3 bg-indigo-50 p-4 rounded-2xl border border-indigo-100">
+            <Info size={16} className="text-indigo-500 shrink-0 mt-0.5" />
+            <p className="text-[10px] text-indigo-800 font-medium leading-relaxed">
+              Each card starts on a new page with tick boxes per step, reading fields for quantitative checks and a sign-off block. The QR code on every page holds the item ID, so completed cards can be matched back to this study.
+            </p>
+          </div>
+
+          {printable.length > 1 && (
+            <div className="flex justify-between items-center">
+              <span className="text-[8px] font-black text-slate-400 uppercase tracking-widest">Cards</span>
+              <div className="flex gap-3">
+                <button onClick={() => setSelected(new Set(printable.map(i => i.id)))} className="text-[9px] font-black uppercase tracking-widest text-indigo-600 hover:text-indigo-800">Select all</button>
+                <button onClick={() => setSelected(new Set())} className="text-[9px] font-black uppercase tracking-widest text-slate-400 hover:text-slate-600">Clear</button>
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            {printable.map(item => (
+              <label key={item.id} className={`flex items-center gap-4 p-3 rounded-xl border cursor-pointer transition-all ${selected.has(item.id) ? 'border-indigo-200 bg-indigo-50/40' : 'border-slate-100 hover:bg-slate-50'}`}>
+                <input type="checkbox" checked={selected.has(item.id)} onChange={() => toggle(item.id)} className="accent-indigo-600" />
+                <QrCode size={16} className="text-slate-300 shrink-0" />
+                <div className="min-w-0 flex-1">
+                  <p className="text-xs font-bold text-slate-800 truncate">{item.component} · {item.failureMode}</p>
+                  <p className="text-[10px] text-slate-500 truncate">
+                    {item.inspectionSheet!.steps.length} steps · {formatInterval(item.interval)} · {item.inspectionSheet!.responsibility || 'Unassigned'}
+                    {item.inspectionSheet!.type === 'Quantitative' && <span className="ml-2 text-[8px] font-black uppercase tracking-widest text-indigo-600">Readings</span>}
+                  </p>
+                </div>
+              </label>
+            ))}
+            {printable.length === 0 && (
+              <p className="text-center text-xs text-slate-400 py-8">None of these items has an inspection sheet yet. Generate sheets first.</p>
+            )}
+          </div>
+
+          {skipped > 0 && printable.length > 0 && (
+            <p className="text-[10px] text-slate-400">{skipped} item{skipped === 1 ? '' : 's'} without an inspection sheet will not be printed.</p>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-8 py-5 bg-white border-t border-slate-100 flex justify-end items-center gap-3 shrink-0">
+          <button onClick={onClose} className="px-6 py-2.5 text-slate-500 font-black text-[10px] uppercase tracking-widest hover:bg-slate-50 rounded-lg transition-all">Close</button>
+          <button onClick={handleDownload} disabled={chosen.length === 0} className="px-8 py-2.5 bg-indigo-600 text-white rounded-lg font-black text-[10px] uppercase tracking-[0.2em] shadow-xl shadow-indigo-100 hover:bg-indigo-700 disabled:opacity-40 transition-all flex items-center gap-2">
+            <Download size={16} /> Download {chosen.length} Card{chosen.length === 1 ? '' : 's'} (PDF)
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,63 +1,92 @@
 
 import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { X, Clock, Zap, Target, Calculator, CheckCircle2, Bot, Send, User, Loader2, Sparkles, Activity, AlertTriangle, ArrowRight, ShieldCheck, ChevronRight } from 'lucide-react';
-import { GoogleGenAI } from "@google/genai";
-import { RCMItem } from '../types';
+import { RCMItem, MaintenanceInterval, IntervalUnit, PFOptimizationInputs, PFOptimizationRecord } from '../types';
+import { generateText, textPart } from '../services/llmProvider';
+import { parseInterval, formatInterval, formatIntervalUnit, intervalToDays } from '../services/intervals';
+import { DEFAULT_PF_INPUTS, optimizePFInterval } from '../services/pfOptimizer';
 
 interface IntervalOptimizerModalProps {
   item: RCMItem;
   isOpen: boolean;
   onClose: () => void;
-  onApply: (newInterval: string, pfInfo?: string) => void;
+  onApply: (newInterval: MaintenanceInterval, pfInterval?: MaintenanceInterval, pfOptimization?: PFOptimizationRecord) => void;
 }
 
+const DURATION_UNITS: IntervalUnit[] = ['hours', 'days', 'weeks', 'months', 'years'];
+
 interface Message {
   role: 'user' | 'assistant';
   content: string;
 }
 
-const PFCurve: React.FC<{ pfValue: number; taskInterval: number; unit: string }> = ({ pfValue, taskInterval, unit }) => {
+interface PFCurveProps {
+  pfDays: number;
+  leadDays: number; // Minimum net P-F: time needed to act before F
+  intervalDays: number | null;
+  unitLabel: string;
+  unitDays: number;
+}
+
+const MAX_TICKS = 60;
+
+// Condition vs. time: flat until the potential failure point P, then accelerating decline to F
+const PFCurve: React.FC<PFCurveProps> = ({ pfDays, leadDays, intervalDays, unitLabel, unitDays }) => {
   // SVG Dimensions
   const width = 300;
-  const height = 150;
+  const height = 170;
   const padding = 20;
+  const plotW = width - 2 * padding;
+  const plotH = height - 2 * padding - 15;
+
+  const pDay = pfDays * 0.6; // P sits a little over a third along the axis
+  const fDay = pDay + pfDays;
+  const maxDay = fDay * 1.08 || 1;
+
+  const toX = (day: number) => padding + (day / maxDay) * plotW;
+  const condition = (day: number) => day <= pDay ? 1 : Math.max(0, 1 - Math.pow((day - pDay) / pfDays, 2));
+  const toY = (c: number) => padding + (1 - c) * plotH;
 
-  // Points for a smooth curve (Ease-in drop)
   const curvePoints = useMemo(() => {
     const points = [];
-    for (let x = 0; x <= 100; x += 5) {
-      // Exponential decay or sigmoid curve for failure progression
-      const normalizedX = x / 100;
-      const y = 1 - Math.pow(normalizedX, 2); 
-      points.push(`${(normalizedX * (width - 2 * padding)) + padding},${(1 - y) * (height - 2 * padding) + padding}`);
+    for (let i = 0; i <= 80; i++) {
+      const day = (i / 80) * maxDay;
+      points.push(`${toX(day)},${toY(condition(day))}`);
     }
     return points.join(' ');
-  }, [width, height, padding]);
+  }, [pfDays, maxDay]);
 
-  // Map PF Value (0-100) to curve
-  const pX = padding + (0.3 * (width - 2 * padding)); // Fixed P start
-  const fX = padding + ((0.3 + (pfValue / 150)) * (width - 2 * padding)); // F moves based on interval estimate
-  
-  const getY = (x: number) => {
-    const normX = (x - padding) / (width - 2 * padding);
-    const yVal = 1 - Math.pow(normX, 2);
-    return (1 - yVal) * (height - 2 * padding) + padding;
-  };
+  const ticks = useMemo(() => {
+    if (!intervalDays || intervalDays <= 0) return [];
+    const list: { day: number; effective: boolean }[] = [];
+    for (let day = intervalDays; day <= maxDay && list.length < MAX_TICKS; day += intervalDays) {
+      list.push({ day, effective: day >= pDay && day <= fDay - leadDays });
+    }
+    return list;
+  }, [intervalDays, maxDay, pDay, fDay, leadDays]);
 
-  const pY = getY(pX);
-  const fY = getY(fX);
+  const fmt = (days: number) => `${Math.round((days / unitDays) * 10) / 10}`;
+  const baseY = padding + plotH;
 
   return (
     <div className="relative w-full bg-slate-900/50 rounded-2xl p-4 border border-white/10 overflow-hidden">
       <div className="flex justify-between items-center mb-2 px-1">
         <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Reliability P-F Curve</span>
-        <span className="text-[9px] font-bold text-indigo-400 bg-indigo-500/10 px-2 py-0.5 rounded">Active Visualizer</span>
+        <span className="text-[9px] font-bold text-indigo-400 bg-indigo-500/10 px-2 py-0.5 rounded">{ticks.filter(t => t.effective).length} Effective Inspections</span>
       </div>
       
       <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto drop-shadow-lg">
         {/* Grid Lines */}
-        <line x1={padding} y1={height - padding} x2={width - padding} y2={height - padding} stroke="white" strokeOpacity="0.1" strokeWidth="1" />
-        <line x1={padding} y1={padding} x2={padding} y2={height - padding} stroke="white" strokeOpacity="0.1" strokeWidth="1" />
+        <line x1={padding} y1={baseY} x2={width - padding} y2={baseY} stroke="white" strokeOpacity="0.1" strokeWidth="1" />
+        <line x1={padding} y1={padding} x2={padding} y2={baseY} stroke="white" strokeOpacity="0.1" strokeWidth="1" />
+
+        {/* Lead time needed to act: inspections inside this band come too late */}
+        <rect x={toX(Math.max(pDay, fDay - leadDays))} y={padding} width={Math.max(0, toX(fDay) - toX(Math.max(pDay, fDay - leadDays)))} height={plotH} fill="#ef4444" fillOpacity="0.12" />
+
+        {/* Inspection ticks */}
+        {ticks.map((t, i) => (
+          <line key={i} x1={toX(t.day)} y1={baseY} x2={toX(t.day)} y2={baseY - 8} stroke={t.effective ? '#818cf8' : '#475569'} strokeWidth={t.effective ? 2 : 1} />
+        ))}
         
         {/* The Curve */}
         <polyline
@@ -77,20 +106,16 @@ const PFCurve: React.FC<{ pfValue: number; taskInterval: number; unit: string }>
         </defs>
 
         {/* P Point */}
-        <circle cx={pX} cy={pY} r="4" fill="#10b981" className="animate-pulse" />
-        <text x={pX} y={pY - 8} textAnchor="middle" className="fill-emerald-400 text-[10px] font-black">P</text>
+        <circle cx={toX(pDay)} cy={toY(1)} r="4" fill="#10b981" className="animate-pulse" />
+        <text x={toX(pDay)} y={toY(1) - 8} textAnchor="middle" className="fill-emerald-400 text-[10px] font-black">P</text>
         
         {/* F Point */}
-        <circle cx={fX} cy={fY} r="4" fill="#ef4444" />
-        <text x={fX} y={fY + 15} textAnchor="middle" className="fill-red-400 text-[10px] font-black">F</text>
+        <circle cx={toX(fDay)} cy={toY(0)} r="4" fill="#ef4444" />
+        <text x={toX(fDay)} y={toY(0) - 8} textAnchor="middle" className="fill-red-400 text-[10px] font-black">F</text>
 
         {/* P-F Interval Bracket */}
-        <path d={`M ${pX} ${height - padding + 5} L ${pX} ${height - padding + 10} L ${fX} ${height - padding + 10} L ${fX} ${height - padding + 5}`} fill="none" stroke="#6366f1" strokeWidth="1" />
-        <text x={(pX + fX) / 2} y={height - 2} textAnchor="middle" className="fill-indigo-300 text-[8px] font-bold uppercase tracking-widest">Lead Time ({unit})</text>
-
-        {/* Task Markers */}
-        <line x1={pX + (fX - pX) / 2} y1={padding} x2={pX + (fX - pX) / 2} y2={height - padding} stroke="#6366f1" strokeDasharray="3,3" strokeWidth="1" />
-        <text x={pX + (fX - pX) / 2} y={padding - 5} textAnchor="middle" className="fill-indigo-400 text-[7px] font-black uppercase tracking-widest">Ideal Inspection</text>
+        <path d={`M ${toX(pDay)} ${baseY + 5} L ${toX(pDay)} ${baseY + 10} L ${toX(fDay)} ${baseY + 10} L ${toX(fDay)} ${baseY + 5}`} fill="none" stroke="#6366f1" strokeWidth="1" />
+        <text x={(toX(pDay) + toX(fDay)) / 2} y={baseY + 22} textAnchor="middle" className="fill-indigo-300 text-[8px] font-bold uppercase tracking-widest">P-F {fmt(pfDays)} {unitLabel}</text>
       </svg>
       
       <div className="mt-3 grid grid-cols-2 gap-2">
@@ -134,12 +159,11 @@ export const IntervalOptimizerModal: React.FC<IntervalOptimizerModalProps> = ({
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const [optimizedInterval, setOptimizedInterval] = useState(item.interval);
+  const [advisorInterval, setAdvisorInterval] = useState<MaintenanceInterval | null>(null);
   
-  // Interactive PF States
-  const [pfValue, setPfValue] = useState(40); // 0-100 visual length
-  const [pfTimeUnit, setPfTimeUnit] = useState('Days');
-  const [pfDuration, setPfDuration] = useState(30);
+  // Calculator inputs, restored from the last saved calculation when there is one
+  const [inputs, setInputs] = useState<PFOptimizationInputs>(item.pfOptimization?.inputs || DEFAULT_PF_INPUTS(item.pfInterval));
+  const result = useMemo(() => optimizePFInterval(inputs), [inputs]);
   
   const scrollRef = useRef<HTMLDivElement>(null);
 
@@ -147,7 +171,7 @@ export const IntervalOptimizerModal: React.FC<IntervalOptimizerModalProps> = ({
     if (isOpen) {
       setMessages([{
         role: 'assistant',
-        content: `I am ready to optimize the maintenance frequency for ${item.component}. \n\nCurrent strategy: ${item.maintenanceTask} set at ${item.interval} intervals. \n\nTo ensure this is technically efficient, we need to consider the P-F Interval (the time from first detection of the failure mechanism to functional failure). \n\nBased on your site experience or manual data, how long does this failure typically take to progress once detected?`
+        content: `I am ready to optimize the maintenance frequency for ${item.component}. \n\nCurrent strategy: ${item.maintenanceTask} set at ${formatInterval(item.interval)} intervals. \n\nTo ensure this is technically efficient, we need to consider the P-F Interval (the time from first detection of the failure mechanism to functional failure). \n\nBased on your site experience or manual data, how long does this failure typically take to progress once detected?`
       }]);
     }
   }, [isOpen, item]);
@@ -169,15 +193,12 @@ export const IntervalOptimizerModal: React.FC<IntervalOptimizerModalProps> = ({
     setIsLoading(true);
 
     try {
-      // Fix: Initialize GoogleGenAI strictly using process.env.API_KEY
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      
       const prompt = `
         FAILURE MODE CONTEXT:
         Component: ${item.component}
         Failure Mode: ${item.failureMode}
         Current Task: ${item.maintenanceTask}
-        Current Interval: ${item.interval}
+        Current Interval: ${formatInterval(item.interval)}
         RPN: ${item.rpn} (S:${item.severity}, O:${item.occurrence}, D:${item.detection})
 
         USER INPUT: ${userText}
@@ -193,28 +214,26 @@ export const IntervalOptimizerModal: React.FC<IntervalOptimizerModalProps> = ({
         8. Provide a technical explanation of why this frequency is more efficient without using bolding or special symbols.
       `;
 
-      const response = await ai.models.generateContent({
-        model: 'gemini-3-flash-preview',
-        contents: [{ role: 'user', parts: [{ text: prompt }] }],
-        config: {
-          temperature: 0.4,
-          seed: 42,
-          systemInstruction: "You are an RCM Interval Optimization Engine. You use technical lead times and reliability statistics to calculate effective maintenance frequencies. You avoid all markdown formatting, bolding, and special characters in your output."
-        }
+      const responseText = await generateText({
+        task: 'intervalAdvisor',
+        parts: [textPart(prompt)],
+        temperature: 0.4,
+        seed: 42,
+        systemInstruction: "You are an RCM Interval Optimization Engine. You use technical lead times and reliability statistics to calculate effective maintenance frequencies. You avoid all markdown formatting, bolding, and special characters in your output."
       });
 
-      const aiText = response.text || "Calculation error.";
+      const aiText = responseText || "Calculation error.";
       const intervalMatch = aiText.match(/<INTERVAL>([\s\S]*?)<\/INTERVAL>/);
       const pfValMatch = aiText.match(/<PF_VAL>([\s\S]*?)<\/PF_VAL>/);
       const pfUnitMatch = aiText.match(/<PF_UNIT>([\s\S]*?)<\/PF_UNIT>/);
       
-      if (intervalMatch) setOptimizedInterval(intervalMatch[1].trim());
+      // The advisor's P-F estimate feeds the calculator; its interval is shown for comparison only
+      const suggested = intervalMatch ? parseInterval(intervalMatch[1].trim()) : null;
+      if (suggested) setAdvisorInterval(suggested);
       if (pfValMatch) {
-        const val = parseInt(pfValMatch[1]);
-        setPfDuration(val);
-        setPfValue(Math.min(val * 2, 100)); // Just for visual scaling
+        const pf = parseInterval(`${parseFloat(pfValMatch[1])} ${pfUnitMatch ? pfUnitMatch[1].trim() : 'days'}`);
+        if (pf) setInputs(prev => ({ ...prev, pfInterval: pf }));
       }
-      if (pfUnitMatch) setPfTimeUnit(pfUnitMatch[1].trim());
 
       setMessages(prev => [...prev, { 
         role: 'assistant', 
@@ -227,16 +246,54 @@ export const IntervalOptimizerModal: React.FC<IntervalOptimizerModalProps> = ({
     }
   };
 
-  const handleManualPfChange = (val: number) => {
-    setPfValue(val);
-    // Rough calculation for optimized interval based on slider
-    // In a real scenario, this would be more complex
-    if (val > 80) setOptimizedInterval("Quarterly");
-    else if (val > 50) setOptimizedInterval("Monthly");
-    else if (val > 20) setOptimizedInterval("Weekly");
-    else setOptimizedInterval("Daily");
+  const updateInput = <K extends keyof PFOptimizationInputs>(field: K, value: PFOptimizationInputs[K]) => {
+    setInputs(prev => ({ ...prev, [field]: value }));
   };
 
+  const handleApply = () => {
+    if (!result) return;
+    onApply(result.interval, inputs.pfInterval, { inputs, result, calculatedAt: Date.now() });
+  };
+
+  const renderDurationInput = (label: string, field: 'pfInterval' | 'minNetPF' | 'mtbf') => (
+    <div>
+      <label className="text-[8px] font-black text-slate-400 uppercase tracking-widest block mb-1">{label}</label>
+      <div className="flex gap-1">
+        <input 
+          type="number" 
+          min="0" 
+          step="any"
+          value={inputs[field].value}
+          onChange={(e) => updateInput(field, { ...inputs[field], value: parseFloat(e.target.value) || 0 })}
+          className="w-16 bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 text-xs font-black text-slate-700 outline-none focus:border-indigo-400"
+        />
+        <select 
+          value={inputs[field].unit}
+          onChange={(e) => updateInput(field, { ...inputs[field], unit: e.target.value as IntervalUnit })}
+          className="flex-1 bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 text-[10px] font-bold text-slate-600 outline-none"
+        >
+          {DURATION_UNITS.map(u => <option key={u} value={u}>{formatIntervalUnit(u)}</option>)}
+        </select>
+      </div>
+    </div>
+  );
+
+  const renderNumberInput = (label: string, field: 'inspectionCost' | 'failureCost') => (
+    <div>
+      <label className="text-[8px] font-black text-slate-400 uppercase tracking-widest block mb-1">{label}</label>
+      <input 
+        type="number" 
+        min="0" 
+        value={inputs[field]}
+        onChange={(e) => updateInput(field, parseFloat(e.target.value) || 0)}
+        className="w-full bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 text-xs font-black text-slate-700 outline-none focus:border-indigo-400"
+      />
+    </div>
+  );
+
+  const pfDays = intervalToDays(inputs.pfInterval) || 0;
+  const unitDays = intervalToDays({ value: 1, unit: inputs.pfInterval.unit, basis: 'calendar' }) || 1;
+
   return (
     <div className="fixed inset-0 z-[100] flex items-center justify-center bg-slate-900/60 backdrop-blur-md p-4 animate-in fade-in duration-300">
       <div className="bg-white rounded-[2.5rem] shadow-2xl w-full max-w-5xl h-[85vh] flex flex-col overflow-hidden border border-white/20">
@@ -261,29 +318,44 @@ export const IntervalOptimizerModal: React.FC<IntervalOptimizerModalProps> = ({
         <div className="flex-1 flex overflow-hidden">
           
           {/* Left Panel: Reliability Visualizer */}
-          <div className="w-[22rem] border-r border-slate-100 bg-slate-50/50 p-6 flex flex-col gap-6 shrink-0 overflow-y-auto custom-scrollbar">
+          <div className="w-[24rem] border-r border-slate-100 bg-slate-50/50 p-6 flex flex-col gap-6 shrink-0 overflow-y-auto custom-scrollbar">
             <div>
               <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2 block">Interactive P-F Workstation</span>
-              <PFCurve pfValue={pfValue} taskInterval={pfDuration / 2} unit={pfTimeUnit} />
+              <PFCurve 
+                pfDays={pfDays} 
+                leadDays={intervalToDays(inputs.minNetPF) || 0} 
+                intervalDays={result ? intervalToDays(result.interval) : null} 
+                unitLabel={formatIntervalUnit(inputs.pfInterval.unit)} 
+                unitDays={unitDays} 
+              />
             </div>
 
             <div className="space-y-4">
-              <div className="bg-white p-5 rounded-2xl border border-slate-200 shadow-sm">
-                <div className="flex justify-between items-center mb-4">
-                  <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Adjust Lead Time</span>
-                  <span className="text-[10px] font-bold text-indigo-600 bg-indigo-50 px-2 py-0.5 rounded border border-indigo-100">Manual Override</span>
+              <div className="bg-white p-5 rounded-2xl border border-slate-200 shadow-sm space-y-3">
+                <div className="flex justify-between items-center mb-1">
+                  <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Calculator Inputs</span>
+                  <span className="text-[10px] font-bold text-indigo-600 bg-indigo-50 px-2 py-0.5 rounded border border-indigo-100">P-F Model</span>
                 </div>
-                <input 
-                  type="range" 
-                  min="5" 
-                  max="100" 
-                  value={pfValue}
-                  onChange={(e) => handleManualPfChange(parseInt(e.target.value))}
-                  className="w-full h-1.5 bg-slate-100 rounded-lg appearance-none cursor-pointer accent-indigo-600 mb-2"
-                />
-                <div className="flex justify-between text-[8px] font-black text-slate-400 uppercase tracking-widest">
-                  <span>Short</span>
-                  <span>Long P-F Interval</span>
+                <div className="grid grid-cols-2 gap-3">
+                  {renderDurationInput('P-F Interval', 'pfInterval')}
+                  {renderDurationInput('Min. Net P-F', 'minNetPF')}
+                  {renderDurationInput('MTBF', 'mtbf')}
+                  <div>
+                    <label className="text-[8px] font-black text-slate-400 uppercase tracking-widest block mb-1">POD / Inspection</label>
+                    <div className="flex items-center gap-1">
+                      <input 
+                        type="number" 
+                        min="1" 
+                        max="100"
+                        value={Math.round(inputs.probabilityOfDetection * 100)}
+                        onChange={(e) => updateInput('probabilityOfDetection', Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)) / 100)}
+                        className="w-full bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 text-xs font-black text-slate-700 outline-none focus:border-indigo-400"
+                      />
+                      <span className="text-[10px] font-black text-slate-400">%</span>
+                    </div>
+                  </div>
+                  {renderNumberInput('Inspection Cost', 'inspectionCost')}
+                  {renderNumberInput('Cost of Failure', 'failureCost')}
                 </div>
               </div>
 
@@ -296,18 +368,46 @@ export const IntervalOptimizerModal: React.FC<IntervalOptimizerModalProps> = ({
                     <div className="flex justify-between items-end">
                       <div>
                         <span className="text-[10px] font-bold text-slate-500 uppercase block mb-1">Current</span>
-                        <span className="text-sm font-black text-slate-400">{item.interval}</span>
+                        <span className="text-sm font-black text-slate-400">{formatInterval(item.interval)}</span>
                       </div>
                       <ArrowRight size={14} className="text-slate-700 mb-1" />
                       <div className="text-right">
                         <span className="text-[10px] font-bold text-indigo-400 uppercase block">Optimized</span>
-                        <span className="text-xl font-black text-white">{optimizedInterval}</span>
+                        <span className="text-xl font-black text-white">{result ? formatInterval(result.interval) : '—'}</span>
                       </div>
                     </div>
+                    {result ? (
+                      <div className="grid grid-cols-2 gap-2">
+                        <div className="bg-white/5 p-2 rounded-lg">
+                          <p className="text-[7px] text-slate-500 font-black uppercase mb-1">Inspections in Net P-F</p>
+                          <p className="text-xs font-black">{result.inspectionsInWindow}</p>
+                        </div>
+                        <div className="bg-white/5 p-2 rounded-lg">
+                          <p className="text-[7px] text-slate-500 font-black uppercase mb-1">Residual Risk</p>
+                          <p className={`text-xs font-black ${result.residualRisk > 0.05 ? 'text-amber-400' : 'text-emerald-400'}`}>{(result.residualRisk * 100).toFixed(result.residualRisk < 0.01 ? 3 : 1)}%</p>
+                        </div>
+                        <div className="bg-white/5 p-2 rounded-lg">
+                          <p className="text-[7px] text-slate-500 font-black uppercase mb-1">Cost / Year</p>
+                          <p className="text-xs font-black">{Math.round(result.costPerYear).toLocaleString()}</p>
+                        </div>
+                        <div className="bg-white/5 p-2 rounded-lg">
+                          <p className="text-[7px] text-slate-500 font-black uppercase mb-1">Missed Failures / Year</p>
+                          <p className="text-xs font-black">{result.undetectedFailuresPerYear.toPrecision(2)}</p>
+                        </div>
+                      </div>
+                    ) : (
+                      <div className="flex gap-2 bg-red-500/10 p-3 rounded-xl border border-red-500/20">
+                        <AlertTriangle size={14} className="text-red-400 shrink-0" />
+                        <p className="text-[9px] text-red-300 font-bold leading-relaxed">The net P-F interval is zero or the inputs are incomplete. An on-condition task cannot be effective for this failure mode.</p>
+                      </div>
+                    )}
+                    {advisorInterval && (
+                      <p className="text-[9px] text-slate-500 font-bold">Advisor suggestion: {formatInterval(advisorInterval)}</p>
+                    )}
                     <div className="h-px bg-slate-800"></div>
                     <div className="bg-white/5 p-3 rounded-xl border border-white/5">
                       <p className="text-[9px] text-slate-400 font-bold leading-relaxed">
-                        Rule: Task Frequency &lt; P-F Interval / 2. This ensures at least two chances to detect potential failure before actual breakdown.
+                        The interval minimises inspection cost plus the expected cost of failures missed by every inspection inside the net P-F interval.
                       </p>
                     </div>
                  </div>
@@ -394,8 +494,9 @@ export const IntervalOptimizerModal: React.FC<IntervalOptimizerModalProps> = ({
           <div className="flex gap-3">
             <button onClick={onClose} className="px-6 py-2.5 text-slate-500 font-black text-[10px] uppercase tracking-widest hover:bg-slate-50 rounded-lg transition-all">Cancel</button>
             <button 
-              onClick={() => onApply(optimizedInterval)}
-              className="px-8 py-2.5 bg-indigo-600 text-white rounded-lg font-black text-[10px] uppercase tracking-[0.2em] shadow-xl shadow-indigo-100 hover:bg-indigo-700 transition-all flex items-center gap-2"
+              onClick={handleApply}
+              disabled={!result}
+              className="px-8 py-2.5 bg-indigo-600 text-white rounded-lg font-black text-[10px] uppercase tracking-[0.2em] shadow-xl shadow-indigo-100 hover:bg-indigo-700 disabled:opacity-40 transition-all flex items-center gap-2"
             >
               <CheckCircle2 size={16} /> Confirm Strategy Update
             </button>
@@ -0,0 +1,136 @@
+import React, { useState, useEffect } from 'react';
+import { X, MessageSquare, Lock, Unlock, Send, Reply, CheckCircle2, RotateCcw } from 'lucide-react';
+import { RCMItem } from '../types';
+import { getReviewerName } from '../services/workflow';
+import { commentThreads } from '../services/comments';
+
+interface ItemReviewPanelProps {
+  item: RCMItem | null;
+  onClose: () => void;
+  onAddComment: (item: RCMItem, author: string, text: string, parentId?: string) => void;
+  onResolveThread: (item: RCMItem, threadId: string, resolved: boolean, name: string) => void;
+}
+
+export const ItemReviewPanel: React.FC<ItemReviewPanelProps> = ({ item, onClose, onAddComment, onResolveThread }) => {
+  const [author, setAuthor] = useState('');
+  const [text, setText] = useState('');
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [showResolved, setShowResolved] = useState(false);
+
+  useEffect(() => {
+    if (item) {
+      setAuthor(getReviewerName());
+      setText('');
+      setReplyTo(null);
+      setShowResolved(false);
+    }
+  }, [item?.id]);
+
+  if (!item) return null;
+
+  const threads = commentThreads(item);
+  const resolvedCount = threads.filter(t => t.root.resolved).length;
+  const visibleThreads = showResolved ? threads : threads.filter(t => !t.root.resolved);
+  const replyThread = threads.find(t => t.root.id === replyTo && !t.root.resolved);
+
+  const submit = () => {
+    if (!author.trim() || !text.trim()) return;
+    onAddComment(item, author, text, replyThread?.root.id);
+    setText('');
+    setReplyTo(null);
+  };
+
+  return (
+    <div className="fixed inset-y-0 right-0 z-[90] w-full max-w-md bg-white shadow-2xl border-l border-slate-200 flex flex-col animate-in slide-in-from-right duration-300">
+      <div className="bg-slate-900 px-6 py-5 flex justify-between items-start text-white shrink-0">
+        <div className="min-w-0">
+          <p className="text-[10px] text-slate-400 uppercase tracking-widest font-bold">{item.component}</p>
+          <h3 className="font-black text-sm leading-tight mt-1">{item.failureMode}</h3>
+        </div>
+        <button onClick={onClose} className="p-1.5 hover:bg-white/10 rounded-full transition-colors shrink-0"><X size={20} /></button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6 space-y-6 custom-scrollbar">
+        <div className={`flex items-center gap-3 p-4 rounded-2xl border ${item.isApproved ? 'bg-emerald-50 border-emerald-100' : 'bg-slate-50 border-slate-100'}`}>
+          {item.isApproved ? <Lock size={16} className="text-emerald-600 shrink-0" /> : <Unlock size={16} className="text-slate-400 shrink-0" />}
+          <p className="text-[11px] font-bold text-slate-600">
+            {item.isApproved && item.approval
+              ? `Approved by ${item.approval.approvedBy} on ${new Date(item.approval.approvedAt).toLocaleString()}. Locked until reopened.`
+              : item.isApproved ? 'Approved. Locked until reopened.' : 'Not approved.'}
+          </p>
+        </div>
+
+        {(item.reopenLog || []).length > 0 && (
+          <div>
+            <label className="text-[8px] font-black text-slate-400 uppercase tracking-widest block mb-2">Reopened</label>
+            <div className="space-y-2">
+              {item.reopenLog!.map((entry, index) => (
+                <div key={index} className="p-3 bg-amber-50 border border-amber-100 rounded-xl">
+                  <p className="text-[9px] font-black text-amber-700 uppercase tracking-widest">{entry.reopenedBy} · {new Date(entry.reopenedAt).toLocaleString()}</p>
+                  <p className="text-xs text-slate-700 mt-1">{entry.reason}</p>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <label className="text-[8px] font-black text-slate-400 uppercase tracking-widest">Comment Threads · {threads.length - resolvedCount} open</label>
+            {resolvedCount > 0 && (
+              <button onClick={() => setShowResolved(!showResolved)} className="text-[9px] font-black text-indigo-600 uppercase tracking-widest hover:underline">
+                {showResolved ? 'Hide' : 'Show'} {resolvedCount} resolved
+              </button>
+            )}
+          </div>
+          {visibleThreads.length === 0 ? (
+            <p className="text-xs text-slate-400 font-bold">{threads.length === 0 ? 'No comments yet.' : 'All threads are resolved.'}</p>
+          ) : (
+            <div className="space-y-3">
+              {visibleThreads.map(({ root, replies }) => (
+                <div key={root.id} className={`border rounded-xl shadow-sm overflow-hidden ${root.resolved ? 'border-slate-100 opacity-70' : 'border-slate-200'}`}>
+                  {[root, ...replies].map(comment => (
+                    <div key={comment.id} className={`p-3 ${comment.parentId ? 'pl-6 border-t border-slate-100 bg-slate-50/50' : 'bg-white'}`}>
+                      <p className="text-[9px] font-black text-indigo-600 uppercase tracking-widest">{comment.author} · <span className="text-slate-400">{new Date(comment.timestamp).toLocaleString()}</span></p>
+                      <p className="text-xs text-slate-700 mt-1 whitespace-pre-wrap">{comment.text}</p>
+                    </div>
+                  ))}
+                  <div className="px-3 py-2 border-t border-slate-100 bg-slate-50 flex items-center justify-between gap-2">
+                    {root.resolved ? (
+                      <span className="flex items-center gap-1 text-[9px] font-black text-emerald-600 uppercase tracking-widest"><CheckCircle2 size={10} /> Resolved{root.resolvedBy ? ` by ${root.resolvedBy}` : ''}</span>
+                    ) : (
+                      <button onClick={() => setReplyTo(replyTo === root.id ? null : root.id)} className={`flex items-center gap-1 text-[9px] font-black uppercase tracking-widest ${replyTo === root.id ? 'text-indigo-600' : 'text-slate-400 hover:text-indigo-600'}`}><Reply size={10} /> Reply</button>
+                    )}
+                    <button
+                      onClick={() => author.trim() && onResolveThread(item, root.id, !root.resolved, author)}
+                      disabled={!author.trim()}
+                      title={author.trim() ? undefined : 'Enter your name first'}
+                      className={`flex items-center gap-1 px-2 py-1 rounded-md text-[9px] font-black uppercase tracking-widest transition-all disabled:opacity-40 ${root.resolved ? 'text-amber-700 hover:bg-amber-50' : 'text-emerald-700 hover:bg-emerald-50'}`}
+                    >
+                      {root.resolved ? <><RotateCcw size={10} /> Reopen</> : <><CheckCircle2 size={10} /> Resolve</>}
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="p-4 border-t border-slate-100 space-y-2 shrink-0">
+        {replyThread && (
+          <div className="flex items-center justify-between gap-2 px-3 py-1.5 bg-indigo-50 rounded-lg">
+            <p className="text-[10px] font-bold text-indigo-700 truncate">Replying to {replyThread.root.author}: {replyThread.root.text}</p>
+            <button onClick={() => setReplyTo(null)} className="text-indigo-400 hover:text-indigo-700 shrink-0"><X size={12} /></button>
+          </div>
+        )}
+        <input value={author} onChange={(e) => setAuthor(e.target.value)} placeholder="Your name" className="w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-xs font-bold text-slate-700 outline-none focus:border-indigo-400" />
+        <div className="flex gap-2">
+          <textarea value={text} onChange={(e) => setText(e.target.value)} rows={2} placeholder={replyThread ? "Write a reply..." : "Start a new comment thread..."} className="flex-1 bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-xs text-slate-700 outline-none focus:border-indigo-400 resize-none" />
+          <button onClick={submit} disabled={!author.trim() || !text.trim()} className="px-4 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-40 transition-all" title="Add comment"><Send size={16} /></button>
+        </div>
+        <p className="flex items-center gap-1 text-[9px] font-bold text-slate-400"><MessageSquare size={10} /> Comments can be added to approved items without reopening them.</p>
+      </div>
+    </div>
+  );
+};
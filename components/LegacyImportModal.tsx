@@ -0,0 +1,312 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { X, FileSpreadsheet, Upload, ArrowLeft, ArrowRight, AlertTriangle, AlertCircle, CheckCircle2, Loader2, Info } from 'lucide-react';
+import { RCMItem, RiskScheme } from '../types';
+import { readXlsx, XlsxTable } from '../services/xlsx';
+import { ColumnMapping, IMPORT_FIELDS, ImportFieldKey, guessHeaderRow, guessMapping, parseCsv, parseRows } from '../services/legacyImport';
+import { DEFAULT_RISK_SCHEME } from '../services/riskScheme';
+import { formatInterval } from '../services/intervals';
+
+interface LegacyImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  riskScheme: RiskScheme; // Of the open study, used when appending
+  canAppend: boolean;
+  onImport: (items: RCMItem[], studyName: string | null) => void; // null appends to the open study
+}
+
+type Step = 'file' | 'mapping' | 'preview';
+
+const STEPS: { id: Step; label: string }[] = [
+  { id: 'file', label: 'Worksheet' },
+  { id: 'mapping', label: 'Columns' },
+  { id: 'preview', label: 'Preview' }
+];
+
+export const LegacyImportModal: React.FC<LegacyImportModalProps> = ({ isOpen, onClose, riskScheme, canAppend, onImport }) => {
+  const [step, setStep] = useState<Step>('file');
+  const [fileName, setFileName] = useState('');
+  const [tables, setTables] = useState<XlsxTable[]>([]);
+  const [sheetIndex, setSheetIndex] = useState(0);
+  const [headerRow, setHeaderRow] = useState(0);
+  const [mapping, setMapping] = useState<ColumnMapping>([]);
+  const [target, setTarget] = useState<'new' | 'append'>('new');
+  const [studyName, setStudyName] = useState('');
+  const [flaggedOnly, setFlaggedOnly] = useState(false);
+  const [isReading, setIsReading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setStep('file');
+      setFileName('');
+      setTables([]);
+      setTarget('new');
+      setStudyName('');
+      setFlaggedOnly(false);
+      setError(null);
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const rows = tables[sheetIndex]?.rows || [];
+  const headers = rows[headerRow] || [];
+  const scheme = target === 'append' ? riskScheme : DEFAULT_RISK_SCHEME;
+  const parsed = step === 'preview' ? parseRows(rows, headerRow, mapping, scheme) : [];
+  const ready = parsed.filter(r => r.item);
+  const withWarnings = ready.filter(r => r.warnings.length > 0).length;
+  const rejected = parsed.length - ready.length;
+  const missingRequired = IMPORT_FIELDS.filter(f => f.required && !mapping.includes(f.key));
+
+  const selectSheet = (list: XlsxTable[], index: number) => {
+    const header = guessHeaderRow(list[index]?.rows || []);
+    setSheetIndex(index);
+    setHeaderRow(header);
+    setMapping(guessMapping(list[index]?.rows[header] || []));
+  };
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    setIsReading(true);
+    try {
+      const name = file.name.toLowerCase();
+      const data = new Uint8Array(await file.arrayBuffer());
+      let list: XlsxTable[];
+      if (name.endsWith('.xlsx') || name.endsWith('.xlsm')) list = await readXlsx(data);
+      else if (name.endsWith('.xls')) throw new Error('Binary .xls workbooks are not supported. Save the worksheet as .xlsx or CSV first.');
+      else list = [{ name: file.name, rows: parseCsv(new TextDecoder().decode(data)) }];
+      list = list.filter(t => t.rows.length > 1);
+      if (list.length === 0) throw new Error('The file contains no worksheet rows.');
+      setTables(list);
+      setFileName(file.name);
+      setStudyName(file.name.replace(/\.[^.]+$/, ''));
+      selectSheet(list, 0);
+    } catch (e) {
+      console.error('Worksheet read failed', e);
+      setError(e instanceof Error ? e.message : 'The file could not be read.');
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleHeaderRowChange = (row: number) => {
+    const index = Math.min(Math.max(row, 0), rows.length - 1);
+    setHeaderRow(index);
+    setMapping(guessMapping(rows[index] || []));
+  };
+
+  const handleMappingChange = (column: number, key: ImportFieldKey | null) => {
+    const next = headers.map((_, i) => mapping[i] ?? null);
+    // A field is fed by one column; picking it elsewhere moves it
+    if (key) next.forEach((k, i) => { if (k === key) next[i] = null; });
+    next[column] = key;
+    setMapping(next);
+  };
+
+  const handleImport = () => {
+    onImport(ready.map(r => r.item!), target === 'new' ? studyName.trim() : null);
+  };
+
+  const sampleValues = (column: number) =>
+    rows.slice(headerRow + 1).map(r => (r[column] || '').trim()).filter(Boolean).slice(0, 3).join(' · ');
+
+  const visibleRows = flaggedOnly ? parsed.filter(r => r.errors.length > 0 || r.warnings.length > 0) : parsed;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-slate-900/60 backdrop-blur-md p-4 animate-in fade-in duration-300">
+      <div className="bg-white rounded-[2.5rem] shadow-2xl w-full max-w-5xl h-[85vh] flex flex-col overflow-hidden border border-white/20">
+
+        {/* Header */}
+        <div className="bg-slate-900 px-8 py-6 flex justify-between items-center text-white shrink-0">
+          <div className="flex items-center gap-4">
+            <div className="p-3 bg-indigo-500/20 rounded-2xl border border-indigo-500/30">
+              <FileSpreadsheet size={24} className="text-indigo-400" />
+            </div>
+            <div>
+              <h3 className="font-black text-xl uppercase tracking-tighter">Import FMEA Worksheet</h3>
+              <p className="text-[10px] text-slate-400 uppercase tracking-widest font-bold mt-1">{fileName || 'CSV or Excel (XLSX)'}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        {/* Steps */}
+        <div className="px-8 py-3 border-b border-slate-100 flex items-center gap-2 shrink-0">
+          {STEPS.map((s, index) => (
+            <React.Fragment key={s.id}>
+              {index > 0 && <div className="w-6 h-px bg-slate-200" />}
+              <span className={`text-[9px] font-black uppercase tracking-widest px-2 py-1 rounded ${step === s.id ? 'bg-indigo-50 text-indigo-600' : 'text-slate-400'}`}>{index + 1}. {s.label}</span>
+            </React.Fragment>
+          ))}
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-6 custom-scrollbar">
+          {error && (
+            <div className="flex gap-2 bg-red-50 p-4 rounded-2xl border border-red-100">
+              <AlertCircle size={16} className="text-red-500 shrink-0" />
+              <p className="text-[10px] text-red-700 font-bold">{error}</p>
+            </div>
+          )}
+
+          {step === 'file' && (
+            <>
+              <input type="file" ref={fileInputRef} accept=".csv,.txt,.xlsx,.xlsm" className="hidden" onChange={(e) => { const file = e.target.files?.[0]; if (file) handleFile(file); e.target.value = ''; }} />
+              <button onClick={() => fileInputRef.current?.click()} disabled={isReading} className="w-full flex flex-col items-center gap-3 p-10 border-2 border-dashed border-slate-200 rounded-2xl text-slate-400 hover:border-indigo-300 hover:text-indigo-600 transition-all disabled:opacity-40">
+                {isReading ? <Loader2 size={28} className="animate-spin" /> : <Upload size={28} />}
+                <span className="text-xs font-black uppercase tracking-widest">{fileName ? 'Choose another file' : 'Choose a CSV or XLSX worksheet'}</span>
+              </button>
+
+              {tables.length > 0 && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <div>
+                    <label className="text-[8px] font-black text-slate-400 uppercase tracking-widest block mb-2">Sheet</label>
+                    <select value={sheetIndex} onChange={(e) => selectSheet(tables, Number(e.target.value))} className="w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-xs font-bold text-slate-700 outline-none">
+                      {tables.map((t, i) => <option key={i} value={i}>{t.name} ({t.rows.length} rows)</option>)}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="text-[8px] font-black text-slate-400 uppercase tracking-widest block mb-2">Header Row</label>
+                    <input type="number" min={1} max={rows.length} value={headerRow + 1} onChange={(e) => handleHeaderRowChange(Number(e.target.value) - 1)} className="w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-xs font-bold text-slate-700 outline-none" />
+                    <p className="text-[10px] text-slate-400 mt-1 truncate">{headers.filter(Boolean).join(' · ')}</p>
+                  </div>
+                  <div className="md:col-span-2">
+                    <label className="text-[8px] font-black text-slate-400 uppercase tracking-widest block mb-2">Import Into</label>
+                    <div className="flex flex-wrap items-center gap-3">
+                      <label className="flex items-center gap-2 text-xs font-bold text-slate-700 cursor-pointer">
+                        <input type="radio" checked={target === 'new'} onChange={() => setTarget('new')} className="text-indigo-600" /> New study
+                      </label>
+                      <input value={studyName} onChange={(e) => setStudyName(e.target.value)} disabled={target !== 'new'} placeholder="Study name" className="flex-1 min-w-[200px] bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-xs font-bold text-slate-700 outline-none focus:border-indigo-400 disabled:opacity-40" />
+                      <label className={`flex items-center gap-2 text-xs font-bold text-slate-700 ${canAppend ? 'cursor-pointer' : 'opacity-40'}`}>
+                        <input type="radio" checked={target === 'append'} onChange={() => setTarget('append')} disabled={!canAppend} className="text-indigo-600" /> Append to open study
+                      </label>
+                    </div>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+
+          {step === 'mapping' && (
+            <>
+              <div className="flex gap-2 bg-indigo-50 p-4 rounded-2xl border border-indigo-100">
+                <Info size={16} className="text-indigo-500 shrink-0" />
+                <p className="text-[10px] text-indigo-700 font-bold">
+                  Blank or merged cells in grouping columns ({IMPORT_FIELDS.filter(f => f.fillDown).map(f => f.label).join(', ')}) take the value from the row above. Codes such as HS, EO or CBM, RTF are mapped to consequence categories and task types.
+                </p>
+              </div>
+              {missingRequired.length > 0 && (
+                <div className="flex gap-2 bg-amber-50 p-4 rounded-2xl border border-amber-100">
+                  <AlertTriangle size={16} className="text-amber-500 shrink-0" />
+                  <p className="text-[10px] text-amber-700 font-bold">Map a column to {missingRequired.map(f => f.label).join(' and ')} to continue.</p>
+                </div>
+              )}
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-[8px] font-black text-slate-400 uppercase tracking-widest text-left">
+                    <th className="px-3 py-2">Worksheet Column</th>
+                    <th className="px-3 py-2">Sample Values</th>
+                    <th className="px-3 py-2 w-56">Study Field</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {headers.map((header, column) => (
+                    <tr key={column} className="border-t border-slate-100">
+                      <td className="px-3 py-2 font-bold text-slate-700">{header || <span className="text-slate-300">Column {column + 1}</span>}</td>
+                      <td className="px-3 py-2 text-[11px] text-slate-500 truncate max-w-[320px]">{sampleValues(column)}</td>
+                      <td className="px-3 py-2">
+                        <select value={mapping[column] || ''} onChange={(e) => handleMappingChange(column, (e.target.value || null) as ImportFieldKey | null)} className={`w-full border rounded-lg px-2 py-1.5 text-xs font-bold outline-none ${mapping[column] ? 'bg-indigo-50 border-indigo-200 text-indigo-700' : 'bg-slate-50 border-slate-200 text-slate-400'}`}>
+                          <option value="">— Skip —</option>
+                          {IMPORT_FIELDS.map(f => <option key={f.key} value={f.key}>{f.label}{f.required ? ' *' : ''}</option>)}
+                        </select>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+
+          {step === 'preview' && (
+            <>
+              <div className="flex flex-wrap items-center gap-3">
+                <span className="flex items-center gap-1.5 text-[10px] font-black uppercase tracking-widest text-emerald-700 bg-emerald-50 px-3 py-1.5 rounded-lg"><CheckCircle2 size={12} /> {ready.length} ready</span>
+                {withWarnings > 0 && <span className="flex items-center gap-1.5 text-[10px] font-black uppercase tracking-widest text-amber-700 bg-amber-50 px-3 py-1.5 rounded-lg"><AlertTriangle size={12} /> {withWarnings} with warnings</span>}
+                {rejected > 0 && <span className="flex items-center gap-1.5 text-[10px] font-black uppercase tracking-widest text-red-700 bg-red-50 px-3 py-1.5 rounded-lg"><AlertCircle size={12} /> {rejected} not imported</span>}
+                <label className="ml-auto flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-500 cursor-pointer">
+                  <input type="checkbox" checked={flaggedOnly} onChange={(e) => setFlaggedOnly(e.target.checked)} className="w-4 h-4 text-indigo-600 rounded border-slate-300" /> Flagged rows only
+                </label>
+              </div>
+              <table className="w-full text-[11px]">
+                <thead>
+                  <tr className="text-[8px] font-black text-slate-400 uppercase tracking-widest text-left">
+                    <th className="px-2 py-2 w-12">Row</th>
+                    <th className="px-2 py-2">Component — Failure Mode</th>
+                    <th className="px-2 py-2">Consequence</th>
+                    <th className="px-2 py-2">Task</th>
+                    <th className="px-2 py-2 w-16">S·O·D</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleRows.map(row => (
+                    <React.Fragment key={row.rowNumber}>
+                      <tr className={`border-t border-slate-100 ${row.errors.length ? 'bg-red-50/60' : row.warnings.length ? 'bg-amber-50/60' : ''}`}>
+                        <td className="px-2 py-1.5 font-mono text-slate-400">{row.rowNumber}</td>
+                        {row.item ? (
+                          <>
+                            <td className="px-2 py-1.5 font-bold text-slate-700">{row.item.component} — {row.item.failureMode}</td>
+                            <td className="px-2 py-1.5 text-slate-600">{row.item.consequenceCategory}</td>
+                            <td className="px-2 py-1.5 text-slate-600">{row.item.taskType} · {formatInterval(row.item.interval)}</td>
+                            <td className="px-2 py-1.5 font-mono text-slate-600">{row.item.severity}·{row.item.occurrence}·{row.item.detection}</td>
+                          </>
+                        ) : (
+                          <td colSpan={4} className="px-2 py-1.5 font-bold text-red-700">Not imported</td>
+                        )}
+                      </tr>
+                      {[...row.errors, ...row.warnings].length > 0 && (
+                        <tr className={row.errors.length ? 'bg-red-50/60' : 'bg-amber-50/60'}>
+                          <td />
+                          <td colSpan={4} className="px-2 pb-1.5">
+                            {row.errors.map((message, i) => <p key={`e${i}`} className="text-[10px] font-bold text-red-600">{message}</p>)}
+                            {row.warnings.map((message, i) => <p key={`w${i}`} className="text-[10px] text-amber-700">{message}</p>)}
+                          </td>
+                        </tr>
+                      )}
+                    </React.Fragment>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-8 py-5 bg-white border-t border-slate-100 flex justify-end items-center gap-3 shrink-0">
+          <button onClick={onClose} className="px-6 py-2.5 text-slate-500 font-black text-[10px] uppercase tracking-widest hover:bg-slate-50 rounded-lg transition-all">Close</button>
+          {step !== 'file' && (
+            <button onClick={() => setStep(step === 'preview' ? 'mapping' : 'file')} className="px-6 py-2.5 bg-slate-100 text-slate-600 rounded-lg font-black text-[10px] uppercase tracking-widest hover:bg-slate-200 transition-all flex items-center gap-2">
+              <ArrowLeft size={14} /> Back
+            </button>
+          )}
+          {step === 'file' && (
+            <button onClick={() => setStep('mapping')} disabled={tables.length === 0 || (target === 'new' && !studyName.trim())} className="px-8 py-2.5 bg-indigo-600 text-white rounded-lg font-black text-[10px] uppercase tracking-[0.2em] shadow-xl shadow-indigo-100 hover:bg-indigo-700 disabled:opacity-40 transition-all flex items-center gap-2">
+              Map Columns <ArrowRight size={16} />
+            </button>
+          )}
+          {step === 'mapping' && (
+            <button onClick={() => setStep('preview')} disabled={missingRequired.length > 0} className="px-8 py-2.5 bg-indigo-600 text-white rounded-lg font-black text-[10px] uppercase tracking-[0.2em] shadow-xl shadow-indigo-100 hover:bg-indigo-700 disabled:opacity-40 transition-all flex items-center gap-2">
+              Preview <ArrowRight size={16} />
+            </button>
+          )}
+          {step === 'preview' && (
+            <button onClick={handleImport} disabled={ready.length === 0} className="px-8 py-2.5 bg-indigo-600 text-white rounded-lg font-black text-[10px] uppercase tracking-[0.2em] shadow-xl shadow-indigo-100 hover:bg-indigo-700 disabled:opacity-40 transition-all flex items-center gap-2">
+              <Upload size={16} /> Import {ready.length} Rows
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,7 +1,7 @@
 
 import React, { useState, useRef, useEffect } from 'react';
 import { X, Send, Bot, User, Sparkles, Loader2, CheckCircle2, MessageSquarePlus, Info, Zap, Settings, Shield, ChevronRight, Maximize2, ArrowLeft, Undo2, Pencil, Save, RotateCcw } from 'lucide-react';
-import { GoogleGenAI } from "@google/genai";
+import { generateText, textPart } from '../services/llmProvider';
 
 interface OperationalContextBuilderProps {
   isOpen: boolean;
@@ -75,9 +75,6 @@ export const OperationalContextBuilder: React.FC<OperationalContextBuilderProps>
     setIsLoading(true);
 
     try {
-      // Fix: Initialize GoogleGenAI strictly using process.env.API_KEY
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      
       const history = messages.map(m => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content}`).join('\n');
       
       const prompt = `
@@ -106,17 +103,15 @@ export const OperationalContextBuilder: React.FC<OperationalContextBuilderProps>
         - Provide a professional engineer-to-engineer summary before the tags in ${language}.
       `;
 
-      const response = await ai.models.generateContent({
-        model: 'gemini-3-flash-preview',
-        contents: [{ role: 'user', parts: [{ text: prompt }] }],
-        config: {
-          temperature: 0.4,
-          seed: 42,
-          systemInstruction: `You are a world-class RCM Analyst. Your style is professional, technical, and concise. You provide extremely detailed context in ${language}.`
-        }
+      const responseText = await generateText({
+        task: 'contextBuilder',
+        parts: [textPart(prompt)],
+        temperature: 0.4,
+        seed: 42,
+        systemInstruction: `You are a world-class RCM Analyst. Your style is professional, technical, and concise. You provide extremely detailed context in ${language}.`
       });
 
-      const aiText = response.text || "Communication error.";
+      const aiText = responseText || "Communication error.";
       
       const draftMatch = aiText.match(/<DRAFT>([\s\S]*?)<\/DRAFT>/);
       let draftContent = null;
@@ -0,0 +1,224 @@
+import React, { useState, useEffect } from 'react';
+import { X, History, RotateCcw, Plus, Minus, PenLine, Info, Loader2, Bookmark } from 'lucide-react';
+import { RCMItem, StudyRevision } from '../types';
+import { getStudyRevisions } from '../services/db';
+import { REVISION_REASON_LABELS, diffStudyItems, isEmptyDiff } from '../services/revisions';
+
+interface RevisionHistoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  studyId: string | null;
+  currentItems: RCMItem[];
+  onRestore: (revision: StudyRevision) => void;
+  onSaveNamed: (name: string) => Promise<void>;
+}
+
+const REASON_STYLES: Record<StudyRevision['reason'], string> = {
+  'manual-save': 'bg-indigo-50 text-indigo-600 border-indigo-100',
+  'named': 'bg-fuchsia-50 text-fuchsia-600 border-fuchsia-100',
+  'finished': 'bg-emerald-50 text-emerald-600 border-emerald-100',
+  'before-ai': 'bg-violet-50 text-violet-600 border-violet-100',
+  'before-restore': 'bg-amber-50 text-amber-600 border-amber-100',
+  'before-template-update': 'bg-sky-50 text-sky-600 border-sky-100'
+};
+
+const itemTitle = (item: RCMItem) => `${item.component} — ${item.failureMode}`;
+
+export const RevisionHistoryModal: React.FC<RevisionHistoryModalProps> = ({ isOpen, onClose, studyId, currentItems, onRestore, onSaveNamed }) => {
+  const [revisions, setRevisions] = useState<StudyRevision[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareTo, setCompareTo] = useState<'current' | 'previous'>('current');
+  const [isLoading, setIsLoading] = useState(false);
+  const [revisionName, setRevisionName] = useState('');
+
+  const loadRevisions = (id: string) => {
+    setIsLoading(true);
+    getStudyRevisions(id).then(list => {
+      setRevisions(list);
+      setSelectedId(list[0]?.id || null);
+      setIsLoading(false);
+    });
+  };
+
+  useEffect(() => {
+    if (!isOpen || !studyId) {
+      setRevisions([]);
+      return;
+    }
+    setRevisionName('');
+    loadRevisions(studyId);
+  }, [isOpen, studyId]);
+
+  if (!isOpen) return null;
+
+  const selectedIndex = revisions.findIndex(r => r.id === selectedId);
+  const selected = revisions[selectedIndex];
+  const previous = revisions[selectedIndex + 1];
+
+  // "Current" shows what has changed since the revision, i.e. what a restore would undo
+  const diff = selected
+    ? compareTo === 'previous' && previous
+      ? diffStudyItems(previous.snapshot.items, selected.snapshot.items)
+      : diffStudyItems(selected.snapshot.items, currentItems)
+    : null;
+
+  const handleRestore = () => {
+    if (!selected) return;
+    if (!confirm(`Restore "${selected.label}" from ${new Date(selected.timestamp).toLocaleString()}? The current state is kept as a revision first.`)) return;
+    onRestore(selected);
+  };
+
+  // Kept even when nothing changed since the latest revision, so a milestone can be named after the fact
+  const handleSaveNamed = async () => {
+    if (!studyId || !revisionName.trim()) return;
+    await onSaveNamed(revisionName.trim());
+    setRevisionName('');
+    loadRevisions(studyId);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-slate-900/60 backdrop-blur-md p-4 animate-in fade-in duration-300">
+      <div className="bg-white rounded-[2.5rem] shadow-2xl w-full max-w-6xl h-[85vh] flex flex-col overflow-hidden border border-white/20">
+
+        {/* Header */}
+        <div className="bg-slate-900 px-8 py-6 flex justify-between items-center text-white shrink-0">
+          <div className="flex items-center gap-4">
+            <div className="p-3 bg-indigo-500/20 rounded-2xl border border-indigo-500/30">
+              <History size={24} className="text-indigo-400" />
+            </div>
+            <div>
+              <h3 className="font-black text-xl uppercase tracking-tighter">Revision History</h3>
+              <p className="text-[10px] text-slate-400 uppercase tracking-widest font-bold mt-1">{revisions.length} saved revisions</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="flex-1 flex overflow-hidden">
+          {/* Revision list */}
+          <div className="w-80 border-r border-slate-100 overflow-y-auto p-4 custom-scrollbar shrink-0">
+            {!studyId && (
+              <p className="text-xs text-slate-400 font-bold p-4">Save the study once to start its revision history.</p>
+            )}
+            {studyId && (
+              <div className="flex gap-2 mb-3">
+                <input
+                  value={revisionName}
+                  onChange={(e) => setRevisionName(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleSaveNamed()}
+                  placeholder="Name this revision, e.g. Issued for HAZOP"
+                  className="flex-1 min-w-0 bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-xs font-bold text-slate-700 outline-none focus:border-indigo-400"
+                />
+                <button onClick={handleSaveNamed} disabled={!revisionName.trim()} title="Save the current state as a named revision" className="p-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-40 transition-all">
+                  <Bookmark size={14} />
+                </button>
+              </div>
+            )}
+            {studyId && isLoading && <div className="flex justify-center p-6"><Loader2 size={20} className="animate-spin text-slate-300" /></div>}
+            {studyId && !isLoading && revisions.length === 0 && (
+              <p className="text-xs text-slate-400 font-bold p-4">No revisions yet. They are recorded on manual save, when you name one, when the study is marked finished and before AI operations.</p>
+            )}
+            {revisions.map(revision => (
+              <button
+                key={revision.id}
+                onClick={() => setSelectedId(revision.id)}
+                className={`w-full text-left px-4 py-3 rounded-xl mb-1 transition-all ${selectedId === revision.id ? 'bg-indigo-50 ring-1 ring-indigo-200' : 'hover:bg-slate-50'}`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-xs font-black text-slate-800 truncate">{revision.label}</p>
+                  <span className="text-[9px] font-black text-slate-400 bg-slate-100 px-1.5 py-0.5 rounded shrink-0">{revision.snapshot.items.length}</span>
+                </div>
+                <div className="flex items-center gap-2 mt-1">
+                  <span className={`text-[8px] font-black uppercase tracking-widest px-1.5 py-0.5 rounded border ${REASON_STYLES[revision.reason]}`}>{REVISION_REASON_LABELS[revision.reason]}</span>
+                  <span className="text-[9px] font-bold text-slate-400">{new Date(revision.timestamp).toLocaleString()}</span>
+                </div>
+              </button>
+            ))}
+          </div>
+
+          {/* Diff */}
+          <div className="flex-1 overflow-y-auto p-8 custom-scrollbar">
+            {!selected || !diff ? (
+              <p className="text-xs text-slate-400 font-bold">Select a revision to compare it.</p>
+            ) : (
+              <div className="space-y-6">
+                <div className="flex items-center gap-3 flex-wrap">
+                  <div className="flex bg-slate-100 rounded-lg p-1">
+                    <button onClick={() => setCompareTo('current')} className={`px-3 py-1 rounded-md text-[10px] font-black uppercase tracking-widest transition-all ${compareTo === 'current' || !previous ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400'}`}>Revision → Current</button>
+                    <button onClick={() => setCompareTo('previous')} disabled={!previous} className={`px-3 py-1 rounded-md text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-40 ${compareTo === 'previous' && previous ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400'}`}>Previous → Revision</button>
+                  </div>
+                  <span className="flex items-center gap-1 text-[10px] font-black text-emerald-600"><Plus size={12} />{diff.added.length} added</span>
+                  <span className="flex items-center gap-1 text-[10px] font-black text-red-600"><Minus size={12} />{diff.removed.length} removed</span>
+                  <span className="flex items-center gap-1 text-[10px] font-black text-amber-600"><PenLine size={12} />{diff.changed.length} changed</span>
+                </div>
+
+                {isEmptyDiff(diff) && (
+                  <div className="flex gap-2 bg-slate-50 p-4 rounded-2xl border border-slate-100">
+                    <Info size={16} className="text-slate-400 shrink-0" />
+                    <p className="text-[10px] text-slate-500 font-bold">No differences in the failure modes.</p>
+                  </div>
+                )}
+
+                {diff.added.length > 0 && (
+                  <div>
+                    <label className="text-[8px] font-black text-slate-400 uppercase tracking-widest block mb-2">Added</label>
+                    <div className="space-y-1">
+                      {diff.added.map(item => <div key={item.id} className="px-3 py-2 bg-emerald-50 border border-emerald-100 rounded-lg text-xs font-bold text-emerald-800">+ {itemTitle(item)}</div>)}
+                    </div>
+                  </div>
+                )}
+
+                {diff.removed.length > 0 && (
+                  <div>
+                    <label className="text-[8px] font-black text-slate-400 uppercase tracking-widest block mb-2">Removed</label>
+                    <div className="space-y-1">
+                      {diff.removed.map(item => <div key={item.id} className="px-3 py-2 bg-red-50 border border-red-100 rounded-lg text-xs font-bold text-red-800 line-through decoration-red-300">− {itemTitle(item)}</div>)}
+                    </div>
+                  </div>
+                )}
+
+                {diff.changed.length > 0 && (
+                  <div>
+                    <label className="text-[8px] font-black text-slate-400 uppercase tracking-widest block mb-2">Changed</label>
+                    <div className="space-y-3">
+                      {diff.changed.map(({ after, fields }) => (
+                        <div key={after.id} className="border border-slate-200 rounded-xl overflow-hidden">
+                          <div className="px-3 py-2 bg-slate-50 text-xs font-black text-slate-700">{itemTitle(after)}</div>
+                          <table className="w-full text-[11px]">
+                            <tbody>
+                              {fields.map(field => (
+                                <tr key={field.key} className="border-t border-slate-100 align-top">
+                                  <td className="px-3 py-1.5 w-32 text-[9px] font-black uppercase tracking-widest text-slate-400">{field.label}</td>
+                                  <td className="px-3 py-1.5 text-red-700 bg-red-50/50"><div className="line-clamp-3 break-all">{field.before || '—'}</div></td>
+                                  <td className="px-3 py-1.5 text-emerald-700 bg-emerald-50/50"><div className="line-clamp-3 break-all">{field.after || '—'}</div></td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="px-8 py-5 bg-white border-t border-slate-100 flex justify-end items-center gap-3 shrink-0">
+          <button onClick={onClose} className="px-6 py-2.5 text-slate-500 font-black text-[10px] uppercase tracking-widest hover:bg-slate-50 rounded-lg transition-all">Close</button>
+          <button
+            onClick={handleRestore}
+            disabled={!selected}
+            className="px-8 py-2.5 bg-indigo-600 text-white rounded-lg font-black text-[10px] uppercase tracking-[0.2em] shadow-xl shadow-indigo-100 hover:bg-indigo-700 disabled:opacity-40 transition-all flex items-center gap-2"
+          >
+            <RotateCcw size={16} /> Restore Revision
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,250 @@
+import React, { useState, useEffect } from 'react';
+import { X, Grid3x3, CheckCircle2, AlertTriangle, Activity, Eye, LayoutGrid, Info } from 'lucide-react';
+import { RiskScheme, RiskLevel, RiskScaleLevel, CriticalityMethod, RankingMethod } from '../types';
+import { RISK_SCHEME_PRESETS, scaleMax, rpnMax } from '../services/riskScheme';
+
+interface RiskSchemeModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  scheme: RiskScheme;
+  onApply: (scheme: RiskScheme) => void;
+}
+
+type ScaleKey = 'severity' | 'occurrence' | 'detection';
+
+const LEVEL_ORDER: RiskLevel[] = ['Low', 'Medium', 'High'];
+
+const LEVEL_CELL: Record<RiskLevel, string> = {
+  High: 'bg-red-100 border-red-300 text-red-700',
+  Medium: 'bg-amber-100 border-amber-300 text-amber-700',
+  Low: 'bg-emerald-100 border-emerald-300 text-emerald-700'
+};
+
+const TABS: { id: ScaleKey | 'matrix'; label: string; icon: React.ElementType }[] = [
+  { id: 'severity', label: 'Severity', icon: AlertTriangle },
+  { id: 'occurrence', label: 'Occurrence', icon: Activity },
+  { id: 'detection', label: 'Detection', icon: Eye },
+  { id: 'matrix', label: 'Matrix', icon: LayoutGrid }
+];
+
+export const RiskSchemeModal: React.FC<RiskSchemeModalProps> = ({ isOpen, onClose, scheme, onApply }) => {
+  const [draft, setDraft] = useState<RiskScheme>(scheme);
+  const [activeTab, setActiveTab] = useState<ScaleKey | 'matrix'>('severity');
+
+  useEffect(() => {
+    if (isOpen) setDraft(scheme);
+  }, [isOpen, scheme]);
+
+  if (!isOpen) return null;
+
+  const update = (patch: Partial<RiskScheme>) => setDraft(prev => ({ ...prev, ...patch }));
+
+  const updateLevel = (key: ScaleKey, score: number, patch: Partial<RiskScaleLevel>) =>
+    setDraft(prev => ({ ...prev, [key]: prev[key].map(l => l.score === score ? { ...l, ...patch } : l) }));
+
+  const cycleCell = (s: number, o: number) =>
+    setDraft(prev => ({
+      ...prev,
+      matrix: prev.matrix.map((row, si) => si !== s - 1 ? row : row.map((cell, oi) => oi !== o - 1 ? cell : LEVEL_ORDER[(LEVEL_ORDER.indexOf(cell) + 1) % LEVEL_ORDER.length]))
+    }));
+
+  const rescales = (['severity', 'occurrence', 'detection'] as const).some(k => scaleMax(draft[k]) !== scaleMax(scheme[k]));
+
+  const renderScale = (key: ScaleKey) => (
+    <div className="overflow-hidden border border-slate-200 rounded-2xl">
+      <table className="w-full text-xs text-left">
+        <thead className="bg-slate-50 text-[9px] font-black text-slate-400 uppercase tracking-widest">
+          <tr>
+            <th className="px-3 py-2 w-14 text-center">Score</th>
+            <th className="px-3 py-2 w-44">Label</th>
+            <th className="px-3 py-2">Criteria</th>
+            {key === 'occurrence' && <th className="px-3 py-2 w-28">1 in N / year</th>}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100">
+          {draft[key].map(level => (
+            <tr key={level.score}>
+              <td className="px-3 py-2 text-center font-black text-slate-700">{level.score}</td>
+              <td className="px-3 py-2"><input value={level.label} onChange={(e) => updateLevel(key, level.score, { label: e.target.value })} className="w-full bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 font-bold text-slate-700 outline-none focus:border-indigo-400" /></td>
+              <td className="px-3 py-2"><input value={level.description} onChange={(e) => updateLevel(key, level.score, { description: e.target.value })} className="w-full bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 text-slate-600 outline-none focus:border-indigo-400" /></td>
+              {key === 'occurrence' && (
+                <td className="px-3 py-2">
+                  <input
+                    type="number"
+                    min="1"
+                    value={level.probability ? Math.round(1 / level.probability) : ''}
+                    placeholder="—"
+                    onChange={(e) => { const n = parseFloat(e.target.value); updateLevel(key, level.score, { probability: n > 0 ? 1 / n : undefined }); }}
+                    className="w-full bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 font-bold text-slate-700 outline-none focus:border-indigo-400"
+                  />
+                </td>
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+
+  const severityMax = scaleMax(draft.severity);
+  const occurrenceMax = scaleMax(draft.occurrence);
+
+  const renderMatrix = () => (
+    <div className="space-y-3">
+      <p className="text-[10px] text-slate-500 font-bold">Click a cell to cycle its criticality. {draft.method === 'rpn' && 'The matrix colours the risk view; criticality itself follows the RPN thresholds.'}</p>
+      <div className="flex gap-3">
+        <div className="flex items-center"><span className="text-[9px] font-black text-slate-400 uppercase tracking-widest -rotate-90 whitespace-nowrap">Severity</span></div>
+        <div className="flex-1">
+          <div className="grid gap-1" style={{ gridTemplateColumns: `2rem repeat(${occurrenceMax}, minmax(0, 1fr))` }}>
+            {Array.from({ length: severityMax }, (_, i) => severityMax - i).map(s => (
+              <React.Fragment key={s}>
+                <div className="text-[10px] font-black text-slate-400 flex items-center justify-center">{s}</div>
+                {Array.from({ length: occurrenceMax }, (_, j) => j + 1).map(o => {
+                  const level = draft.matrix[s - 1]?.[o - 1] || 'Low';
+                  return (
+                    <button key={o} onClick={() => cycleCell(s, o)} className={`aspect-square border rounded text-[8px] font-black uppercase transition-all hover:scale-105 ${LEVEL_CELL[level]}`} title={`S${s} × O${o}`}>
+                      {severityMax <= 5 ? level : level[0]}
+                    </button>
+                  );
+                })}
+              </React.Fragment>
+            ))}
+            <div />
+            {Array.from({ length: occurrenceMax }, (_, j) => j + 1).map(o => <div key={o} className="text-[10px] font-black text-slate-400 text-center">{o}</div>)}
+          </div>
+          <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest text-center mt-2">Occurrence</p>
+        </div>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-slate-900/60 backdrop-blur-md p-4 animate-in fade-in duration-300">
+      <div className="bg-white rounded-[2.5rem] shadow-2xl w-full max-w-5xl max-h-[90vh] flex flex-col overflow-hidden border border-white/20">
+
+        {/* Header */}
+        <div className="bg-slate-900 px-8 py-6 flex justify-between items-center text-white shrink-0">
+          <div className="flex items-center gap-4">
+            <div className="p-3 bg-indigo-500/20 rounded-2xl border border-indigo-500/30">
+              <Grid3x3 size={24} className="text-indigo-400" />
+            </div>
+            <div>
+              <h3 className="font-black text-xl uppercase tracking-tighter">Risk Scheme</h3>
+              <p className="text-[10px] text-slate-400 uppercase tracking-widest font-bold mt-1">Scales, criticality method and thresholds for this study</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="flex-1 flex overflow-hidden">
+          {/* Method */}
+          <div className="w-80 border-r border-slate-100 bg-slate-50/50 p-6 flex flex-col gap-5 shrink-0 overflow-y-auto custom-scrollbar">
+            <div className="space-y-2">
+              <label className="text-[8px] font-black text-slate-400 uppercase tracking-widest block">Start From Preset</label>
+              {RISK_SCHEME_PRESETS.map(preset => (
+                <button
+                  key={preset.id}
+                  onClick={() => setDraft({ ...preset, ranking: draft.ranking })}
+                  className={`w-full text-left p-3 rounded-xl border transition-all ${draft.id === preset.id ? 'bg-white border-indigo-300 ring-2 ring-indigo-100' : 'bg-white border-slate-200 hover:border-indigo-200'}`}
+                >
+                  <p className="text-xs font-black text-slate-800">{preset.name}</p>
+                  <p className="text-[9px] text-slate-400 font-bold uppercase tracking-widest mt-0.5">{scaleMax(preset.severity)}×{scaleMax(preset.occurrence)} · {preset.method === 'rpn' ? 'RPN' : 'Matrix'}</p>
+                </button>
+              ))}
+            </div>
+
+            <div>
+              <label className="text-[8px] font-black text-slate-400 uppercase tracking-widest block mb-1">Scheme Name</label>
+              <input value={draft.name} onChange={(e) => update({ name: e.target.value })} className="w-full bg-white border border-slate-200 rounded-lg px-2 py-1.5 text-xs font-black text-slate-700 outline-none focus:border-indigo-400" />
+            </div>
+
+            <div>
+              <label className="text-[8px] font-black text-slate-400 uppercase tracking-widest block mb-1">Criticality From</label>
+              <div className="flex bg-white p-1 rounded-xl border border-slate-200">
+                {(['rpn', 'matrix'] as CriticalityMethod[]).map(method => (
+                  <button
+                    key={method}
+                    onClick={() => update({ method })}
+                    className={`flex-1 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${draft.method === method ? 'bg-slate-900 text-white' : 'text-slate-500'}`}
+                  >
+                    {method === 'rpn' ? 'RPN Thresholds' : 'S × O Matrix'}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label className="text-[8px] font-black text-slate-400 uppercase tracking-widest block mb-1">Primary Ranking</label>
+              <div className="flex bg-white p-1 rounded-xl border border-slate-200">
+                {(['rpn', 'ap'] as RankingMethod[]).map(ranking => (
+                  <button
+                    key={ranking}
+                    onClick={() => update({ ranking })}
+                    className={`flex-1 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${draft.ranking === ranking ? 'bg-slate-900 text-white' : 'text-slate-500'}`}
+                    title={ranking === 'ap' ? 'AIAG-VDA Action Priority (High/Medium/Low from S, O and D)' : 'Risk Priority Number (S × O × D)'}
+                  >
+                    {ranking === 'rpn' ? 'RPN' : 'Action Priority'}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className={`bg-white p-4 rounded-2xl border border-slate-200 grid grid-cols-2 gap-3 ${draft.method === 'matrix' ? 'opacity-50' : ''}`}>
+              <div>
+                <label className="text-[8px] font-black text-red-500 uppercase tracking-widest block mb-1">High ≥ RPN</label>
+                <input type="number" min="1" value={draft.rpnThresholds.high} onChange={(e) => update({ rpnThresholds: { ...draft.rpnThresholds, high: parseInt(e.target.value) || 1 } })} className="w-full bg-slate-50 border border-slate-200 rounded-lg px-2 py-1.5 text-xs font-black text-slate-700 outline-none focus:border-indigo-400" />
+              </div>
+              <div>
+                <label className="text-[8px] font-black text-amber-500 uppercase tracking-widest block mb-1">Medium ≥ RPN</label>
+                <input type="number" min="1" value={draft.rpnThresholds.medium} onChange={(e) => update({ rpnThresholds: { ...draft.rpnThresholds, medium: parseInt(e.target.value) || 1 } })} className="w-full bg-slate-50 border border-slate-200 rounded-lg px-2 py-1.5 text-xs font-black text-slate-700 outline-none focus:border-indigo-400" />
+              </div>
+              <p className="col-span-2 text-[9px] text-slate-400 font-bold">Maximum RPN on these scales: {rpnMax(draft)}</p>
+              {draft.rpnThresholds.medium >= draft.rpnThresholds.high && (
+                <p className="col-span-2 text-[9px] text-red-600 font-bold">The Medium threshold must be below the High threshold.</p>
+              )}
+            </div>
+
+            {rescales && (
+              <div className="flex gap-2 bg-amber-50 p-4 rounded-2xl border border-amber-100">
+                <Info size={16} className="text-amber-600 shrink-0" />
+                <p className="text-[10px] text-amber-800 font-bold leading-relaxed">These scales have a different range from the current scheme. Existing S/O/D scores will be rescaled proportionally when applied.</p>
+              </div>
+            )}
+          </div>
+
+          {/* Scales and matrix */}
+          <div className="flex-1 flex flex-col overflow-hidden">
+            <div className="flex border-b border-slate-100 px-6 gap-6 shrink-0">
+              {TABS.map(tab => (
+                <button
+                  key={tab.id}
+                  onClick={() => setActiveTab(tab.id)}
+                  className={`py-4 text-[10px] font-black uppercase tracking-widest border-b-2 transition-all flex items-center gap-2 ${activeTab === tab.id ? 'border-indigo-600 text-indigo-600' : 'border-transparent text-slate-400 hover:text-slate-600'}`}
+                >
+                  <tab.icon size={14} /> {tab.label}
+                </button>
+              ))}
+            </div>
+            <div className="flex-1 overflow-y-auto p-6 custom-scrollbar">
+              {activeTab === 'matrix' ? renderMatrix() : renderScale(activeTab)}
+            </div>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="px-8 py-5 bg-white border-t border-slate-100 flex justify-end items-center gap-3 shrink-0">
+          <button onClick={onClose} className="px-6 py-2.5 text-slate-500 font-black text-[10px] uppercase tracking-widest hover:bg-slate-50 rounded-lg transition-all">Cancel</button>
+          <button
+            onClick={() => onApply(draft)}
+            disabled={draft.rpnThresholds.medium >= draft.rpnThresholds.high || !draft.name.trim()}
+            className="px-8 py-2.5 bg-indigo-600 text-white rounded-lg font-black text-[10px] uppercase tracking-[0.2em] shadow-xl shadow-indigo-100 hover:bg-indigo-700 disabled:opacity-40 transition-all flex items-center gap-2"
+          >
+            <CheckCircle2 size={16} /> Apply Scheme
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
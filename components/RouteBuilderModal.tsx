@@ -0,0 +1,202 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { X, Route, ChevronDown, ChevronRight, Clock, MapPin, FileSpreadsheet, File, Info, AlertTriangle } from 'lucide-react';
+import { AssetNode, RCMItem } from '../types';
+import { InspectionRoute, LocationGrouping, buildJobPlanSheets, buildRoutes, formatHours, isRoutable, stopHours, stopLocation } from '../services/routes';
+import { CardSize, buildRouteChecklist } from '../services/inspectionCards';
+import { formatInterval } from '../services/intervals';
+import { PDF_MIME_TYPE } from '../services/pdf';
+import { XLSX_MIME_TYPE, buildXlsx } from '../services/xlsx';
+
+interface RouteBuilderModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  data: RCMItem[];
+  studyName: string;
+  assetHierarchy: AssetNode[];
+  language: string;
+}
+
+const LANGUAGES = ['English', 'Spanish', 'French', 'German', 'Polish'];
+
+// "Cooling Water Pumps" -> "CWP"
+const defaultPrefix = (studyName: string) =>
+  studyName.split(/[^A-Za-z0-9]+/).filter(Boolean).map(w => w[0].toUpperCase()).join('').slice(0, 6) || 'RCM';
+
+const download = (content: Uint8Array, type: string, fileName: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.setAttribute('href', url);
+  link.setAttribute('download', fileName);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+export const RouteBuilderModal: React.FC<RouteBuilderModalProps> = ({ isOpen, onClose, data, studyName, assetHierarchy, language }) => {
+  const [grouping, setGrouping] = useState<LocationGrouping>('area');
+  const [size, setSize] = useState<CardSize>('A4');
+  const [exportLanguage, setExportLanguage] = useState(language);
+  const [prefix, setPrefix] = useState('');
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (isOpen) {
+      setExportLanguage(LANGUAGES.includes(language) ? language : 'English');
+      setPrefix(defaultPrefix(studyName));
+      setExpanded(new Set());
+    }
+  }, [isOpen]);
+
+  const routes = useMemo(() => isOpen ? buildRoutes(data, assetHierarchy, grouping) : [], [isOpen, data, assetHierarchy, grouping]);
+
+  if (!isOpen) return null;
+
+  const stopCount = routes.reduce((sum, r) => sum + r.stops.length, 0);
+  const totalHours = routes.reduce((sum, r) => sum + r.hours, 0);
+  const notRouted = data.filter(item => !isRoutable(item)).length;
+  const untimed = routes.reduce((sum, r) => sum + r.untimedStops, 0);
+  const fileNameBase = studyName ? studyName.trim().replace(/[^a-zA-Z0-9\u00C0-\u017F]/g, '_') : 'RCM';
+  const planPrefix = prefix.trim() || defaultPrefix(studyName);
+
+  const toggle = (code: string) => setExpanded(prev => {
+    const next = new Set(prev);
+    if (next.has(code)) next.delete(code); else next.add(code);
+    return next;
+  });
+
+  const handleChecklist = (route: InspectionRoute) =>
+    download(buildRouteChecklist({ studyName, route, assetHierarchy, language: exportLanguage, size }), PDF_MIME_TYPE, `${fileNameBase}_${route.code}_Checklist.pdf`);
+
+  const handleJobPlans = (selection: InspectionRoute[], suffix: string) =>
+    download(buildXlsx(buildJobPlanSheets(selection, assetHierarchy, planPrefix)), XLSX_MIME_TYPE, `${fileNameBase}_${suffix}_Job_Plan.xlsx`);
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-slate-900/60 backdrop-blur-md p-4 animate-in fade-in duration-300">
+      <div className="bg-white rounded-[2.5rem] shadow-2xl w-full max-w-5xl h-[85vh] flex flex-col overflow-hidden border border-white/20">
+
+        {/* Header */}
+        <div className="bg-slate-900 px-8 py-6 flex justify-between items-center text-white shrink-0">
+          <div className="flex items-center gap-4">
+            <div className="p-3 bg-indigo-500/20 rounded-2xl border border-indigo-500/30">
+              <Route size={24} className="text-indigo-400" />
+            </div>
+            <div>
+              <h3 className="font-black text-xl uppercase tracking-tighter">Inspection Route Builder</h3>
+              <p className="text-[10px] text-slate-400 uppercase tracking-widest font-bold mt-1">{routes.length} routes · {stopCount} stops · {formatHours(totalHours)} per cycle</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-6 custom-scrollbar">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+            <div>
+              <label className="text-[8px] font-black text-slate-400 uppercase tracking-widest block mb-2">Group Locations By</label>
+              <div className="flex bg-slate-100 p-0.5 rounded-lg w-fit">
+                {(['area', 'exact'] as LocationGrouping[]).map(option => (
+                  <button key={option} onClick={() => setGrouping(option)} className={`px-4 py-1.5 rounded-md text-[10px] font-black uppercase tracking-widest transition-all ${grouping === option ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}>
+                    {option === 'area' ? 'Area' : 'Exact Location'}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div>
+              <label className="text-[8px] font-black text-slate-400 uppercase tracking-widest block mb-2">Checklist Paper</label>
+              <div className="flex bg-slate-100 p-0.5 rounded-lg w-fit">
+                {(['A4', 'A5'] as CardSize[]).map(option => (
+                  <button key={option} onClick={() => setSize(option)} className={`px-5 py-1.5 rounded-md text-[10px] font-black uppercase tracking-widest transition-all ${size === option ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}>
+                    {option}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div>
+              <label className="text-[8px] font-black text-slate-400 uppercase tracking-widest block mb-2">Checklist Language</label>
+              <select value={exportLanguage} onChange={(e) => setExportLanguage(e.target.value)} className="w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-xs font-bold text-slate-700 outline-none">
+                {LANGUAGES.map(lang => <option key={lang} value={lang}>{lang}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="text-[8px] font-black text-slate-400 uppercase tracking-widest block mb-2">Job Plan Prefix</label>
+              <input value={prefix} onChange={(e) => setPrefix(e.target.value.toUpperCase())} className="w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-xs font-bold text-slate-700 outline-none" />
+              <p className="text-[10px] text-slate-400 mt-1">Job plans are numbered {planPrefix}-R-01, {planPrefix}-R-02…</p>
+            </div>
+          </div>
+
+          <div className="flex gap-3 bg-indigo-50 p-4 rounded-2xl border border-indigo-100">
+            <Info size={16} className="text-indigo-500 shrink-0 mt-0.5" />
+            <p className="text-[10px] text-indigo-800 font-medium leading-relaxed">
+              Recurring tasks are grouped when they share an interval, a trade (the inspection sheet's responsibility) and a location from the component intel, falling back to the asset register. Stops follow functional location order.
+              {notRouted > 0 && ` ${notRouted} one-off or condition-triggered item${notRouted === 1 ? ' is' : 's are'} left out.`}
+            </p>
+          </div>
+
+          {untimed > 0 && (
+            <div className="flex gap-2 bg-amber-50 p-4 rounded-2xl border border-amber-100">
+              <AlertTriangle size={16} className="text-amber-500 shrink-0" />
+              <p className="text-[10px] text-amber-800 font-bold">{untimed} stop{untimed === 1 ? ' has' : 's have'} no readable estimated time and {untimed === 1 ? 'is' : 'are'} not counted in the route totals.</p>
+            </div>
+          )}
+
+          <div className="space-y-3">
+            {routes.map(route => (
+              <div key={route.code} className="border border-slate-200 rounded-2xl overflow-hidden">
+                <div className="flex items-center gap-4 p-4 bg-slate-50/50">
+                  <button onClick={() => toggle(route.code)} className="p-1 text-slate-400 hover:text-indigo-600 transition-colors">
+                    {expanded.has(route.code) ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+                  </button>
+                  <span className="text-[10px] font-black text-indigo-600 bg-indigo-50 border border-indigo-100 px-2 py-1 rounded-lg shrink-0">{route.code}</span>
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm font-bold text-slate-800 truncate">{route.trade} · {route.location}</p>
+                    <p className="text-[10px] text-slate-500 flex items-center gap-3">
+                      <span>{formatInterval(route.interval)}</span>
+                      <span>{route.stops.length} stop{route.stops.length === 1 ? '' : 's'}</span>
+                      <span className="flex items-center gap-1"><Clock size={10} /> {formatHours(route.hours)}{route.untimedStops > 0 ? ` + ${route.untimedStops} untimed` : ''}</span>
+                    </p>
+                  </div>
+                  <button onClick={() => handleChecklist(route)} className="flex items-center gap-2 px-3 py-2 text-[9px] font-black uppercase tracking-widest rounded-lg border border-slate-200 bg-white text-slate-600 hover:bg-red-50 hover:text-red-700 transition-all">
+                    <File size={12} /> Checklist
+                  </button>
+                  <button onClick={() => handleJobPlans([route], route.code)} className="flex items-center gap-2 px-3 py-2 text-[9px] font-black uppercase tracking-widest rounded-lg border border-slate-200 bg-white text-slate-600 hover:bg-emerald-50 hover:text-emerald-700 transition-all">
+                    <FileSpreadsheet size={12} /> Job Plan
+                  </button>
+                </div>
+                {expanded.has(route.code) && (
+                  <ol className="divide-y divide-slate-100">
+                    {route.stops.map((item, index) => (
+                      <li key={item.id} className="flex items-center gap-4 px-6 py-3">
+                        <span className="w-6 h-6 rounded-full bg-slate-900 text-white text-[10px] font-black flex items-center justify-center shrink-0">{index + 1}</span>
+                        <div className="min-w-0 flex-1">
+                          <p className="text-xs font-bold text-slate-800 truncate">{item.component} · {item.failureMode}</p>
+                          <p className="text-[10px] text-slate-500 truncate flex items-center gap-1"><MapPin size={10} className="shrink-0" /> {stopLocation(item, assetHierarchy) || 'No location recorded'} · {item.maintenanceTask}</p>
+                        </div>
+                        <span className={`text-[10px] font-bold shrink-0 ${stopHours(item) > 0 ? 'text-slate-500' : 'text-amber-600'}`}>
+                          {stopHours(item) > 0 ? item.inspectionSheet!.estimatedTime : 'No estimate'}
+                        </span>
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </div>
+            ))}
+            {routes.length === 0 && (
+              <p className="text-center text-xs text-slate-400 py-8">No recurring tasks to route. Routes need items with a scheduled interval.</p>
+            )}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="px-8 py-5 bg-white border-t border-slate-100 flex justify-end items-center gap-3 shrink-0">
+          <button onClick={onClose} className="px-6 py-2.5 text-slate-500 font-black text-[10px] uppercase tracking-widest hover:bg-slate-50 rounded-lg transition-all">Close</button>
+          <button onClick={() => handleJobPlans(routes, 'All_Routes')} disabled={routes.length === 0} className="px-8 py-2.5 bg-indigo-600 text-white rounded-lg font-black text-[10px] uppercase tracking-[0.2em] shadow-xl shadow-indigo-100 hover:bg-indigo-700 disabled:opacity-40 transition-all flex items-center gap-2">
+            <FileSpreadsheet size={16} /> Export All Job Plans
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
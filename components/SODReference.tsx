@@ -1,59 +1,23 @@
 
 import React, { useState } from 'react';
 import { X, AlertTriangle, Activity, Eye, BookOpen, Undo2 } from 'lucide-react';
+import { RiskScheme, RiskScaleLevel } from '../types';
+import { scaleMax } from '../services/riskScheme';
 
 interface SODReferenceProps {
   isOpen: boolean;
   onClose: () => void;
   onUndo: () => void;
   canUndo: boolean;
+  scheme: RiskScheme;
 }
 
-const SEVERITY_DATA = [
-  { score: 10, label: "Hazardous w/o Warning", desc: "Safety hazard, failure occurs without warning." },
-  { score: 9, label: "Hazardous w/ Warning", desc: "Safety hazard, failure occurs with warning." },
-  { score: 8, label: "Very High", desc: "Major disruption, loss of primary function." },
-  { score: 7, label: "High", desc: "Significant disruption, reduced performance." },
-  { score: 6, label: "Moderate", desc: "Minor disruption, comfort/convenience issue." },
-  { score: 5, label: "Low", desc: "Minor performance loss." },
-  { score: 4, label: "Very Low", desc: "Minor defect, fit/finish." },
-  { score: 3, label: "Minor", desc: "Minor annoyance, noticed by some." },
-  { score: 2, label: "Very Minor", desc: "Unnoticed by most users." },
-  { score: 1, label: "None", desc: "No discernible effect." },
-];
-
-const OCCURRENCE_DATA = [
-  { score: 10, label: "Very High", desc: "Failure almost inevitable (> 1 in 2)." },
-  { score: 9, label: "Very High", desc: "Repeated failures (1 in 3)." },
-  { score: 8, label: "High", desc: "Failures often (1 in 8)." },
-  { score: 7, label: "High", desc: "Failures moderately frequent (1 in 20)." },
-  { score: 6, label: "Moderate", desc: "Occasional failures (1 in 80)." },
-  { score: 5, label: "Moderate", desc: "Infrequent failures (1 in 400)." },
-  { score: 4, label: "Low", desc: "Few failures (1 in 2,000)." },
-  { score: 3, label: "Low", desc: "Isolated failures (1 in 15,000)." },
-  { score: 2, label: "Very Low", desc: "Only isolated failures associated (1 in 150,000)." },
-  { score: 1, label: "Remote", desc: "Failure unlikely (< 1 in 1,500,000)." },
-];
-
-const DETECTION_DATA = [
-  { score: 10, label: "Absolute Uncertainty", desc: "Defect cannot be detected." },
-  { score: 9, label: "Very Remote", desc: "Very remote chance of detection." },
-  { score: 8, label: "Remote", desc: "Remote chance of detection." },
-  { score: 7, label: "Very Low", desc: "Very low chance of detection." },
-  { score: 6, label: "Low", desc: "Low chance of detection." },
-  { score: 5, label: "Moderate", desc: "Moderate chance of detection." },
-  { score: 4, label: "Moderately High", desc: "Moderately high chance of detection." },
-  { score: 3, label: "High", desc: "High chance of detection." },
-  { score: 2, label: "Very High", desc: "Very high chance of detection." },
-  { score: 1, label: "Almost Certain", desc: "Defect will be detected." },
-];
-
-export const SODReference: React.FC<SODReferenceProps> = ({ isOpen, onClose, onUndo, canUndo }) => {
+export const SODReference: React.FC<SODReferenceProps> = ({ isOpen, onClose, onUndo, canUndo, scheme }) => {
   const [activeTab, setActiveTab] = useState<'S' | 'O' | 'D'>('S');
 
   if (!isOpen) return null;
 
-  const renderTable = (data: typeof SEVERITY_DATA, colorClass: string) => (
+  const renderTable = (data: RiskScaleLevel[], colorClass: string) => (
     <div className="overflow-hidden border border-slate-200 rounded-lg shadow-sm">
       <table className="w-full text-sm text-left">
         <thead className="bg-slate-50 text-slate-500 font-semibold text-xs uppercase tracking-wider">
@@ -68,7 +32,7 @@ export const SODReference: React.FC<SODReferenceProps> = ({ isOpen, onClose, onU
             <tr key={row.score} className="hover:bg-slate-50 transition-colors">
               <td className={`px-4 py-3 text-center font-bold ${colorClass}`}>{row.score}</td>
               <td className="px-4 py-3 font-medium text-slate-800">{row.label}</td>
-              <td className="px-4 py-3 text-slate-600">{row.desc}</td>
+              <td className="px-4 py-3 text-slate-600">{row.description}</td>
             </tr>
           ))}
         </tbody>
@@ -89,7 +53,7 @@ export const SODReference: React.FC<SODReferenceProps> = ({ isOpen, onClose, onU
             </div>
             <div>
               <h3 className="font-bold text-lg">FMECA Scoring Criteria</h3>
-              <p className="text-xs text-slate-400">Standard 1-10 Industry Scale</p>
+              <p className="text-xs text-slate-400">{scheme.name} · 1-{scaleMax(scheme.severity)} Scale</p>
             </div>
           </div>
           <div className="flex items-center gap-3">
@@ -148,7 +112,7 @@ export const SODReference: React.FC<SODReferenceProps> = ({ isOpen, onClose, onU
                <div className="mb-4 p-3 bg-red-50 border border-red-100 rounded-lg text-xs text-red-800">
                  <strong>Definition:</strong> Severity ranks the potential failure mode effect on the system, process, or user.
                </div>
-               {renderTable(SEVERITY_DATA, 'text-red-600')}
+               {renderTable(scheme.severity, 'text-red-600')}
             </div>
           )}
           {activeTab === 'O' && (
@@ -156,7 +120,7 @@ export const SODReference: React.FC<SODReferenceProps> = ({ isOpen, onClose, onU
                <div className="mb-4 p-3 bg-amber-50 border-amber-100 rounded-lg text-xs text-amber-800">
                  <strong>Definition:</strong> Occurrence ranks the likelihood that a specific failure mode will happen.
                </div>
-               {renderTable(OCCURRENCE_DATA, 'text-amber-600')}
+               {renderTable(scheme.occurrence, 'text-amber-600')}
             </div>
           )}
           {activeTab === 'D' && (
@@ -164,7 +128,7 @@ export const SODReference: React.FC<SODReferenceProps> = ({ isOpen, onClose, onU
                <div className="mb-4 p-3 bg-blue-50 border-blue-100 rounded-lg text-xs text-blue-800">
                  <strong>Definition:</strong> Detection ranks the probability that the failure will be detected <em>before</em> the system fails.
                </div>
-               {renderTable(DETECTION_DATA, 'text-blue-600')}
+               {renderTable(scheme.detection, 'text-blue-600')}
             </div>
           )}
         </div>
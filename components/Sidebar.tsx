@@ -1,7 +1,8 @@
 
 import React, { useState, useRef } from 'react';
 import { SavedStudy, Folder } from '../types';
-import { Plus, Trash2, FileText, Calendar, Database, FolderOpen, AlertCircle, FolderPlus, ChevronRight, ChevronDown, Move, Download, Upload, CheckCircle2, Pencil, Copy, Globe } from 'lucide-react';
+import { LLMSettings, LLM_PROVIDERS, LLMProviderId, clearRecordings, exportRecordings, importRecordings, recordingCount } from '../services/llmProvider';
+import { Plus, Trash2, FileText, Calendar, Database, FolderOpen, AlertCircle, FolderPlus, ChevronRight, ChevronDown, Move, Download, Upload, CheckCircle2, Pencil, Copy, Globe, Cpu, Search, FileSpreadsheet, Circle, KeyRound } from 'lucide-react';
 
 interface SidebarProps {
   studies: SavedStudy[];
@@ -18,10 +19,14 @@ interface SidebarProps {
   onExport: (study: SavedStudy) => void;
   onExportFolder: (folder: Folder) => void;
   onImport: (file: File) => void;
+  onOpenSearch: () => void;
+  onImportWorksheet: () => void;
   onToggleFinished: (studyId: string) => void;
   selectedLanguage: string;
   onLanguageChange: (lang: string) => void;
   languages: { code: string; label: string; flag: string; }[];
+  llmSettings: LLMSettings;
+  onLLMSettingsChange: (settings: LLMSettings) => void;
   className?: string;
 }
 
@@ -40,16 +45,22 @@ export const Sidebar: React.FC<SidebarProps> = ({
   onExport,
   onExportFolder,
   onImport,
+  onOpenSearch,
+  onImportWorksheet,
   onToggleFinished,
   selectedLanguage,
   onLanguageChange,
   languages,
+  llmSettings,
+  onLLMSettingsChange,
   className = "" 
 }) => {
   const [deleteConfirm, setDeleteConfirm] = useState<{ type: 'study' | 'folder', id: string } | null>(null);
   const [expandedFolders, setExpandedFolders] = useState<Set<string>>(new Set(folders.map(f => f.id)));
   const [showMoveMenu, setShowMoveMenu] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const recordingsInputRef = useRef<HTMLInputElement>(null);
+  const [recordings, setRecordings] = useState(recordingCount);
 
   const toggleFolder = (id: string) => {
     const next = new Set(expandedFolders);
@@ -80,6 +91,41 @@ export const Sidebar: React.FC<SidebarProps> = ({
     }
   };
 
+  // Recordings live in local storage next to the settings; the count refreshes on each action here
+  const handleExportRecordings = () => {
+    const blob = new Blob([JSON.stringify(exportRecordings(), null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `llm_recordings_${new Date().toISOString().split('T')[0]}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+    setRecordings(recordingCount());
+  };
+
+  const handleImportRecordings = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    e.target.value = '';
+    file.text().then(text => {
+      try {
+        importRecordings(JSON.parse(text));
+        setRecordings(recordingCount());
+      } catch (err) {
+        console.error(err);
+        alert("The file is not a recordings export.");
+      }
+    });
+  };
+
+  const handleClearRecordings = () => {
+    if (!confirm(`Delete ${recordings} recorded responses?`)) return;
+    clearRecordings();
+    setRecordings(0);
+  };
+
   const renderStudyItem = (study: SavedStudy) => (
     <div
       key={study.id}
@@ -103,7 +149,7 @@ export const Sidebar: React.FC<SidebarProps> = ({
             onToggleFinished(study.id);
           }}
           className={`transition-all duration-300 ${study.isFinished ? 'text-emerald-500 scale-110' : 'text-slate-200 hover:text-slate-400'}`}
-          title={study.isFinished ? "Study Finished" : "Mark as Finished"}
+          title={study.isFinished ? "Study Issued · reopen in the review workflow" : "Issue through the review workflow"}
         >
           <CheckCircle2 size={16} fill={study.isFinished ? "currentColor" : "none"} strokeWidth={study.isFinished ? 3 : 2} className={study.isFinished ? "fill-emerald-500/20" : ""} />
         </button>
@@ -237,6 +283,13 @@ export const Sidebar: React.FC<SidebarProps> = ({
           >
             <Upload size={18} />
           </button>
+          <button
+            onClick={onImportWorksheet}
+            className="p-2.5 bg-slate-100 hover:bg-emerald-50 text-slate-600 hover:text-emerald-600 rounded-xl transition-all active:scale-95"
+            title="Import FMEA Worksheet (CSV / XLSX)"
+          >
+            <FileSpreadsheet size={18} />
+          </button>
           <button
             onClick={handleCreateFolder}
             className="p-2.5 bg-slate-100 hover:bg-indigo-50 text-slate-600 hover:text-indigo-600 rounded-xl transition-all active:scale-95"
@@ -245,6 +298,13 @@ export const Sidebar: React.FC<SidebarProps> = ({
             <FolderPlus size={18} />
           </button>
         </div>
+        <button
+          onClick={onOpenSearch}
+          className="w-full flex items-center gap-2 px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-xs font-medium text-slate-400 hover:border-indigo-200 hover:text-indigo-600 transition-all"
+        >
+          <Search size={14} />
+          Search all studies...
+        </button>
       </div>
 
       {/* Folders and Studies List */}
@@ -358,6 +418,72 @@ export const Sidebar: React.FC<SidebarProps> = ({
              ))}
            </select>
         </div>
+        <div className="bg-white border border-slate-200 px-3 py-1.5 rounded-xl shadow-sm space-y-1.5">
+          <div className="flex items-center gap-2">
+            <Cpu size={14} className="text-indigo-600 shrink-0" />
+            <select 
+              value={llmSettings.provider}
+              onChange={(e) => onLLMSettingsChange({ ...llmSettings, provider: e.target.value as LLMProviderId })}
+              className="bg-transparent text-[10px] font-black uppercase tracking-widest text-slate-700 outline-none cursor-pointer flex-1"
+              title="AI Backend"
+            >
+              {LLM_PROVIDERS.map(p => (
+                <option key={p.id} value={p.id}>{p.label}</option>
+              ))}
+            </select>
+          </div>
+          {llmSettings.provider === 'openai' && (
+            <div className="space-y-1 pb-1">
+              <input 
+                type="text"
+                value={llmSettings.baseUrl}
+                onChange={(e) => onLLMSettingsChange({ ...llmSettings, baseUrl: e.target.value })}
+                placeholder="http://localhost:11434/v1"
+                className="w-full px-2 py-1 bg-slate-50 border border-slate-200 rounded text-[10px] font-mono text-slate-600 outline-none focus:border-indigo-400"
+                title="Endpoint Base URL"
+              />
+              <input 
+                type="text"
+                value={llmSettings.model}
+                onChange={(e) => onLLMSettingsChange({ ...llmSettings, model: e.target.value })}
+                placeholder="Model name"
+                className="w-full px-2 py-1 bg-slate-50 border border-slate-200 rounded text-[10px] font-mono text-slate-600 outline-none focus:border-indigo-400"
+                title="Model"
+              />
+              <div className="flex items-center gap-1.5 px-2 py-1 bg-slate-50 border border-slate-200 rounded focus-within:border-indigo-400">
+                <KeyRound size={10} className="text-slate-400 shrink-0" />
+                <input
+                  type="password"
+                  value={llmSettings.apiKey}
+                  onChange={(e) => onLLMSettingsChange({ ...llmSettings, apiKey: e.target.value })}
+                  placeholder="API key (optional for local)"
+                  autoComplete="off"
+                  className="w-full bg-transparent text-[10px] font-mono text-slate-600 outline-none"
+                  title="API key, kept in this browser's local storage"
+                />
+              </div>
+            </div>
+          )}
+          <div className="flex items-center gap-1.5 pb-0.5 text-[9px] font-black uppercase tracking-widest text-slate-400">
+            {llmSettings.provider !== 'mock' && (
+              <button
+                onClick={() => {
+                  onLLMSettingsChange({ ...llmSettings, recordResponses: !llmSettings.recordResponses });
+                  setRecordings(recordingCount());
+                }}
+                className={`flex items-center gap-1 hover:text-slate-600 ${llmSettings.recordResponses ? 'text-red-500' : ''}`}
+                title="Store live responses so the Offline Mock backend can replay them"
+              >
+                <Circle size={8} className={llmSettings.recordResponses ? 'fill-red-500' : ''} /> {llmSettings.recordResponses ? 'Recording' : 'Record'}
+              </button>
+            )}
+            <span className="flex-1 text-right" title="Recorded responses available for offline replay">{recordings} rec.</span>
+            <button onClick={handleExportRecordings} disabled={recordings === 0} className="p-0.5 hover:text-indigo-600 disabled:opacity-40" title="Export recordings"><Download size={10} /></button>
+            <button onClick={() => recordingsInputRef.current?.click()} className="p-0.5 hover:text-indigo-600" title="Import recordings"><Upload size={10} /></button>
+            <button onClick={handleClearRecordings} disabled={recordings === 0} className="p-0.5 hover:text-red-600 disabled:opacity-40" title="Clear recordings"><Trash2 size={10} /></button>
+            <input type="file" ref={recordingsInputRef} onChange={handleImportRecordings} accept=".json" className="hidden" />
+          </div>
+        </div>
         <div className="text-[10px] text-slate-400 text-center font-bold tracking-tight uppercase">
           Reliability Intelligence Repository
         </div>
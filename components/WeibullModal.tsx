@@ -0,0 +1,290 @@
+import React, { useState, useMemo } from 'react';
+import { X, TrendingUp, Plus, Trash2, CheckCircle2, AlertTriangle, ShieldCheck, History } from 'lucide-react';
+import { RCMItem, FailureRecord, WeibullMethod, WeibullFit, MaintenanceInterval, WeibullLifeUnit, RiskScheme } from '../types';
+import { toLifeData, medianRanks, fitRankRegression, fitMLE, bLife, weibullMean, proposeOccurrence, LifeData } from '../services/weibull';
+import { intervalFromDays, formatInterval } from '../services/intervals';
+
+interface WeibullModalProps {
+  item: RCMItem;
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (updated: RCMItem) => void;
+  language: string;
+  riskScheme: RiskScheme;
+}
+
+const PLOT_PROBABILITIES = [0.01, 0.05, 0.1, 0.2, 0.5, 0.632, 0.9, 0.99];
+
+// Life converted to a task interval: running hours stay on an hours basis, calendar days are rounded to a sensible unit
+export const lifeToInterval = (life: number, unit: WeibullLifeUnit): MaintenanceInterval => {
+  if (unit === 'hours') return { value: Math.max(1, Math.round(life)), unit: 'hours', basis: 'running hours' };
+  if (life >= 730) return intervalFromDays(life, 'years');
+  if (life >= 60) return intervalFromDays(life, 'months');
+  if (life >= 14) return intervalFromDays(life, 'weeks');
+  return intervalFromDays(life, 'days');
+};
+
+const ProbabilityPlot: React.FC<{ data: LifeData; fit: WeibullFit | null }> = ({ data, fit }) => {
+  const width = 340;
+  const height = 220;
+  const padding = 32;
+  const points = medianRanks(data);
+
+  const yOf = (f: number) => Math.log(-Math.log(1 - f));
+  const allTimes = [...points.map(p => p.time), ...(fit ? [bLife(0.01, fit), bLife(0.99, fit)] : [])].filter(t => t > 0);
+  if (allTimes.length === 0) {
+    return <div className="h-[220px] flex items-center justify-center text-[10px] font-black text-slate-400 uppercase tracking-widest">Not enough failures to plot</div>;
+  }
+
+  const minX = Math.log(Math.min(...allTimes)) - 0.2;
+  const maxX = Math.log(Math.max(...allTimes)) + 0.2;
+  const minY = yOf(PLOT_PROBABILITIES[0]);
+  const maxY = yOf(PLOT_PROBABILITIES[PLOT_PROBABILITIES.length - 1]);
+  const toX = (lnT: number) => padding + ((lnT - minX) / (maxX - minX || 1)) * (width - 2 * padding);
+  const toY = (y: number) => height - padding - ((y - minY) / (maxY - minY)) * (height - 2 * padding);
+
+  const decades: number[] = [];
+  for (let e = Math.floor(minX / Math.LN10); e <= Math.ceil(maxX / Math.LN10); e++) {
+    const lnT = e * Math.LN10;
+    if (lnT >= minX && lnT <= maxX) decades.push(e);
+  }
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto">
+      {PLOT_PROBABILITIES.map(f => (
+        <g key={f}>
+          <line x1={padding} x2={width - padding} y1={toY(yOf(f))} y2={toY(yOf(f))} stroke="#e2e8f0" strokeWidth="1" strokeDasharray={f === 0.632 ? '4,2' : undefined} />
+          <text x={padding - 4} y={toY(yOf(f)) + 3} textAnchor="end" className="fill-slate-400 text-[7px] font-bold">{Math.round(f * 1000) / 10}%</text>
+        </g>
+      ))}
+      {decades.map(e => (
+        <g key={e}>
+          <line x1={toX(e * Math.LN10)} x2={toX(e * Math.LN10)} y1={padding} y2={height - padding} stroke="#e2e8f0" strokeWidth="1" />
+          <text x={toX(e * Math.LN10)} y={height - padding + 12} textAnchor="middle" className="fill-slate-400 text-[7px] font-bold">{Math.pow(10, e).toLocaleString()}</text>
+        </g>
+      ))}
+      {fit && (
+        <line
+          x1={toX(minX)} y1={toY(fit.beta * (minX - Math.log(fit.eta)))}
+          x2={toX(maxX)} y2={toY(fit.beta * (maxX - Math.log(fit.eta)))}
+          stroke="#4f46e5" strokeWidth="2"
+        />
+      )}
+      {points.map((p, i) => (
+        <circle key={i} cx={toX(Math.log(p.time))} cy={toY(yOf(p.medianRank))} r="3.5" fill="#ef4444" stroke="white" strokeWidth="1" />
+      ))}
+      <text x={width / 2} y={height - 4} textAnchor="middle" className="fill-slate-500 text-[8px] font-black uppercase tracking-widest">Life ({data.unit})</text>
+    </svg>
+  );
+};
+
+export const WeibullModal: React.FC<WeibullModalProps> = ({ item, isOpen, onClose, onSave, language, riskScheme }) => {
+  const [records, setRecords] = useState<FailureRecord[]>(item.failureHistory || []);
+  const [method, setMethod] = useState<WeibullMethod>(item.weibull?.fit.method || 'rank-regression');
+  const [hoursPerYear, setHoursPerYear] = useState(8760);
+  const [applyOccurrence, setApplyOccurrence] = useState(false);
+  const [applyInterval, setApplyInterval] = useState(false);
+
+  const lifeData = useMemo(() => toLifeData(records), [records]);
+  const fits = useMemo(() => ({
+    'rank-regression': fitRankRegression(lifeData),
+    'mle': fitMLE(lifeData)
+  }), [lifeData]);
+  const fit = fits[method];
+
+  const periodLength = lifeData.unit === 'hours' ? hoursPerYear : 365.25;
+  const proposedOccurrence = fit ? proposeOccurrence(fit, periodLength, riskScheme.occurrence) : null;
+  const b10 = fit ? bLife(0.1, fit) : null;
+  const proposedInterval = fit && b10 && fit.beta > 1 ? lifeToInterval(b10, lifeData.unit) : null;
+
+  if (!isOpen) return null;
+
+  const updateRecord = (id: string, patch: Partial<FailureRecord>) => {
+    setRecords(prev => prev.map(r => r.id === id ? { ...r, ...patch } : r));
+  };
+
+  const handleAddRecord = () => {
+    setRecords(prev => [...prev, {
+      id: `fr-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`,
+      date: new Date().toISOString().split('T')[0],
+      censored: false
+    }]);
+  };
+
+  const handleSave = () => {
+    const occurrence = applyOccurrence && proposedOccurrence ? proposedOccurrence : item.occurrence;
+    onSave({
+      ...item,
+      failureHistory: records,
+      weibull: fit ? { fit, lifeUnit: lifeData.unit, fittedAt: Date.now() } : undefined,
+      occurrence,
+      rpn: (item.severity || 1) * (occurrence || 1) * (item.detection || 1),
+      interval: applyInterval && proposedInterval ? proposedInterval : item.interval
+    });
+  };
+
+  const renderFitCard = (m: WeibullMethod, label: string) => {
+    const f = fits[m];
+    const active = method === m;
+    return (
+      <button
+        key={m}
+        onClick={() => setMethod(m)}
+        disabled={!f}
+        className={`text-left p-4 rounded-2xl border transition-all disabled:opacity-40 ${active ? 'bg-slate-900 text-white border-slate-900 shadow-xl' : 'bg-white border-slate-200 hover:border-indigo-300'}`}
+      >
+        <span className={`text-[9px] font-black uppercase tracking-widest ${active ? 'text-indigo-400' : 'text-slate-400'}`}>{label}</span>
+        {f ? (
+          <div className="grid grid-cols-2 gap-2 mt-2">
+            <div><p className="text-[8px] font-black uppercase opacity-50">β (Shape)</p><p className="text-lg font-black">{f.beta.toFixed(2)}</p></div>
+            <div><p className="text-[8px] font-black uppercase opacity-50">η (Scale)</p><p className="text-lg font-black">{Math.round(f.eta).toLocaleString()}</p></div>
+            <p className="col-span-2 text-[9px] font-bold opacity-60">
+              {m === 'rank-regression' ? `R² = ${(f.rSquared || 0).toFixed(3)}` : `ln L = ${(f.logLikelihood || 0).toFixed(2)}`} · {f.failures} F / {f.suspensions} S
+            </p>
+          </div>
+        ) : (
+          <p className="text-[10px] font-bold mt-2 opacity-60">At least two failures are required.</p>
+        )}
+      </button>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-slate-900/60 backdrop-blur-md p-4 animate-in fade-in duration-300">
+      <div className="bg-white rounded-[2.5rem] shadow-2xl w-full max-w-6xl h-[88vh] flex flex-col overflow-hidden border border-white/20">
+
+        {/* Header */}
+        <div className="bg-slate-900 px-8 py-6 flex justify-between items-center text-white shrink-0">
+          <div className="flex items-center gap-4">
+            <div className="p-3 bg-indigo-500/20 rounded-2xl border border-indigo-500/30">
+              <TrendingUp size={24} className="text-indigo-400" />
+            </div>
+            <div>
+              <h3 className="font-black text-xl uppercase tracking-tighter">Weibull Life Analysis</h3>
+              <p className="text-[10px] text-slate-400 uppercase tracking-widest font-bold mt-1">{item.component} · {item.failureMode}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="flex-1 flex overflow-hidden">
+          {/* Left: failure history */}
+          <div className="w-[26rem] border-r border-slate-100 bg-slate-50/50 p-6 flex flex-col gap-4 shrink-0 overflow-y-auto custom-scrollbar">
+            <div className="flex justify-between items-center">
+              <div className="flex items-center gap-2">
+                <History size={14} className="text-indigo-600" />
+                <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Failure History</span>
+              </div>
+              <button onClick={handleAddRecord} className="flex items-center gap-1 px-3 py-1.5 bg-indigo-600 text-white rounded-lg text-[10px] font-black uppercase tracking-widest hover:bg-indigo-700 transition-all">
+                <Plus size={12} /> Record
+              </button>
+            </div>
+            <p className="text-[10px] text-slate-500 font-medium leading-relaxed">
+              Enter operating hours since the previous renewal for every record to fit on running hours; otherwise the time between consecutive dates is used. Mark units removed or still running without failure as suspended.
+            </p>
+            <div className="space-y-2">
+              {records.length === 0 && (
+                <div className="p-6 text-center border-2 border-dashed border-slate-200 rounded-2xl text-[10px] font-black text-slate-400 uppercase tracking-widest">No records yet</div>
+              )}
+              {records.map(r => (
+                <div key={r.id} className="bg-white p-3 rounded-xl border border-slate-200 shadow-sm grid grid-cols-[1fr_5.5rem_auto_auto] gap-2 items-center">
+                  <input type="date" value={r.date} onChange={(e) => updateRecord(r.id, { date: e.target.value })} className="border border-slate-200 rounded-lg px-2 py-1 text-[11px] font-bold text-slate-700" />
+                  <input type="number" min="0" placeholder="Op. hrs" value={r.operatingHours ?? ''} onChange={(e) => updateRecord(r.id, { operatingHours: e.target.value === '' ? undefined : parseFloat(e.target.value) })} className="border border-slate-200 rounded-lg px-2 py-1 text-[11px] font-bold text-slate-700" />
+                  <label className={`flex items-center gap-1 px-2 py-1 rounded-lg text-[9px] font-black uppercase cursor-pointer border ${r.censored ? 'bg-amber-50 text-amber-700 border-amber-200' : 'bg-red-50 text-red-700 border-red-200'}`}>
+                    <input type="checkbox" checked={r.censored} onChange={(e) => updateRecord(r.id, { censored: e.target.checked })} className="hidden" />
+                    {r.censored ? 'Susp.' : 'Fail'}
+                  </label>
+                  <button onClick={() => setRecords(prev => prev.filter(x => x.id !== r.id))} className="p-1 text-slate-300 hover:text-red-500"><Trash2 size={14} /></button>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Right: fit, plot and proposals */}
+          <div className="flex-1 overflow-y-auto p-8 space-y-6 custom-scrollbar">
+            <div className="grid grid-cols-2 gap-4">
+              {renderFitCard('rank-regression', 'Median-Rank Regression')}
+              {renderFitCard('mle', 'Maximum Likelihood')}
+            </div>
+
+            <div className="bg-white p-5 rounded-2xl border border-slate-200 shadow-sm">
+              <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-3">Weibull Probability Plot</span>
+              <ProbabilityPlot data={lifeData} fit={fit} />
+            </div>
+
+            {fit && (
+              <div className="bg-slate-50 p-5 rounded-2xl border border-slate-200 space-y-4">
+                <div className="flex justify-between items-center">
+                  <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Proposals from Fitted Model</span>
+                  {lifeData.unit === 'hours' && (
+                    <label className="flex items-center gap-2 text-[10px] font-bold text-slate-500">
+                      Operating h / year
+                      <input type="number" min="1" value={hoursPerYear} onChange={(e) => setHoursPerYear(parseFloat(e.target.value) || 8760)} className="w-20 border border-slate-200 rounded-lg px-2 py-1 text-[11px] font-bold text-slate-700" />
+                    </label>
+                  )}
+                </div>
+
+                <div className="grid grid-cols-3 gap-3">
+                  <div className="bg-white p-3 rounded-xl border border-slate-100">
+                    <p className="text-[8px] font-black text-slate-400 uppercase mb-1">Mean Life</p>
+                    <p className="text-sm font-black text-slate-800">{Math.round(weibullMean(fit)).toLocaleString()} {lifeData.unit}</p>
+                  </div>
+                  <div className="bg-white p-3 rounded-xl border border-slate-100">
+                    <p className="text-[8px] font-black text-slate-400 uppercase mb-1">B10 Life</p>
+                    <p className="text-sm font-black text-slate-800">{Math.round(b10 || 0).toLocaleString()} {lifeData.unit}</p>
+                  </div>
+                  <div className="bg-white p-3 rounded-xl border border-slate-100">
+                    <p className="text-[8px] font-black text-slate-400 uppercase mb-1">Failure Pattern</p>
+                    <p className="text-sm font-black text-slate-800">{fit.beta < 0.95 ? 'Infant Mortality' : fit.beta <= 1.05 ? 'Random' : 'Wear-Out'}</p>
+                  </div>
+                </div>
+
+                <label className="flex items-center justify-between gap-4 bg-white p-3 rounded-xl border border-slate-100 cursor-pointer">
+                  <div>
+                    <p className="text-[10px] font-black text-slate-700 uppercase">Occurrence score {item.occurrence} → {proposedOccurrence}</p>
+                    <p className="text-[9px] text-slate-400 font-bold">From the probability of failure within one year of operation.</p>
+                  </div>
+                  <input type="checkbox" checked={applyOccurrence} onChange={(e) => setApplyOccurrence(e.target.checked)} className="w-4 h-4 accent-indigo-600" />
+                </label>
+
+                {proposedInterval ? (
+                  <label className="flex items-center justify-between gap-4 bg-white p-3 rounded-xl border border-slate-100 cursor-pointer">
+                    <div>
+                      <p className="text-[10px] font-black text-slate-700 uppercase">Replacement interval {formatInterval(item.interval, language)} → {formatInterval(proposedInterval, language)}</p>
+                      <p className="text-[9px] text-slate-400 font-bold">Time-based replacement at the B10 life (10% of units failed).</p>
+                    </div>
+                    <input type="checkbox" checked={applyInterval} onChange={(e) => setApplyInterval(e.target.checked)} className="w-4 h-4 accent-indigo-600" />
+                  </label>
+                ) : (
+                  <div className="flex gap-2 bg-amber-50 p-3 rounded-xl border border-amber-100">
+                    <AlertTriangle size={14} className="text-amber-600 shrink-0" />
+                    <p className="text-[10px] text-amber-800 font-bold">β ≤ 1: failures are not age-related, so time-based replacement will not reduce them. Consider condition monitoring or redesign.</p>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="px-8 py-5 bg-white border-t border-slate-100 flex justify-between items-center shrink-0">
+          <div className="flex items-center gap-2 text-slate-400">
+            <ShieldCheck className="w-4 h-4" />
+            <span className="text-[10px] font-black uppercase tracking-widest">2-Parameter Weibull · Johnson / Bernard Ranks</span>
+          </div>
+          <div className="flex gap-3">
+            <button onClick={onClose} className="px-6 py-2.5 text-slate-500 font-black text-[10px] uppercase tracking-widest hover:bg-slate-50 rounded-lg transition-all">Cancel</button>
+            <button
+              onClick={handleSave}
+              className="px-8 py-2.5 bg-indigo-600 text-white rounded-lg font-black text-[10px] uppercase tracking-[0.2em] shadow-xl shadow-indigo-100 hover:bg-indigo-700 transition-all flex items-center gap-2"
+            >
+              <CheckCircle2 size={16} /> Save Analysis
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
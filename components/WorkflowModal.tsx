@@ -0,0 +1,134 @@
+import React, { useState, useEffect } from 'react';
+import { X, ClipboardCheck, ChevronRight, AlertTriangle, PenLine } from 'lucide-react';
+import { RCMItem, StudyWorkflow } from '../types';
+import {
+  WORKFLOW_STATES, WorkflowTransition, availableTransitions, getReviewerName, transitionBlocker, workflowStateLabel
+} from '../services/workflow';
+
+interface WorkflowModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  workflow: StudyWorkflow;
+  items: RCMItem[];
+  onTransition: (transition: WorkflowTransition, name: string, comment: string) => void;
+}
+
+export const WorkflowModal: React.FC<WorkflowModalProps> = ({ isOpen, onClose, workflow, items, onTransition }) => {
+  const [name, setName] = useState('');
+  const [comment, setComment] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      setName(getReviewerName());
+      setComment('');
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const currentIndex = WORKFLOW_STATES.findIndex(s => s.id === workflow.state);
+  const approvedCount = items.filter(i => i.isApproved).length;
+  const inputClass = "w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-xs font-bold text-slate-700 outline-none focus:border-indigo-400";
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-slate-900/60 backdrop-blur-md p-4 animate-in fade-in duration-300">
+      <div className="bg-white rounded-[2.5rem] shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col overflow-hidden border border-white/20">
+
+        {/* Header */}
+        <div className="bg-slate-900 px-8 py-6 flex justify-between items-center text-white shrink-0">
+          <div className="flex items-center gap-4">
+            <div className="p-3 bg-indigo-500/20 rounded-2xl border border-indigo-500/30">
+              <ClipboardCheck size={24} className="text-indigo-400" />
+            </div>
+            <div>
+              <h3 className="font-black text-xl uppercase tracking-tighter">Review & Approval</h3>
+              <p className="text-[10px] text-slate-400 uppercase tracking-widest font-bold mt-1">{workflowStateLabel(workflow.state)} · {approvedCount} / {items.length} failure modes approved</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-8 custom-scrollbar">
+          {/* State stepper */}
+          <div className="flex items-center gap-2">
+            {WORKFLOW_STATES.map((state, index) => (
+              <React.Fragment key={state.id}>
+                <div className={`flex-1 px-4 py-3 rounded-xl border text-center text-[10px] font-black uppercase tracking-widest ${index === currentIndex ? 'bg-indigo-600 text-white border-indigo-600 shadow-lg shadow-indigo-100' : index < currentIndex ? 'bg-emerald-50 text-emerald-600 border-emerald-100' : 'bg-slate-50 text-slate-400 border-slate-100'}`}>
+                  {state.label}
+                </div>
+                {index < WORKFLOW_STATES.length - 1 && <ChevronRight size={16} className="text-slate-300 shrink-0" />}
+              </React.Fragment>
+            ))}
+          </div>
+
+          {/* Sign-off form */}
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="text-[8px] font-black text-slate-400 uppercase tracking-widest block mb-1">Signed by</label>
+              <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Full name" className={inputClass} />
+            </div>
+            <div>
+              <label className="text-[8px] font-black text-slate-400 uppercase tracking-widest block mb-1">Comment</label>
+              <input value={comment} onChange={(e) => setComment(e.target.value)} placeholder="Required when returning or reopening" className={inputClass} />
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-3">
+            {availableTransitions(workflow.state).map(transition => {
+              const blocker = transitionBlocker(transition, items);
+              const missing = !name.trim() ? 'Enter your name to sign.' : transition.requiresComment && !comment.trim() ? 'A comment is required.' : null;
+              return (
+                <div key={`${transition.from}-${transition.to}`} className="flex flex-col gap-1">
+                  <button
+                    onClick={() => onTransition(transition, name, comment)}
+                    disabled={!!blocker || !!missing}
+                    className={`flex items-center gap-2 px-6 py-2.5 rounded-lg font-black text-[10px] uppercase tracking-[0.2em] transition-all disabled:opacity-40 ${transition.to === 'draft' ? 'bg-amber-50 text-amber-700 hover:bg-amber-100' : 'bg-indigo-600 text-white shadow-xl shadow-indigo-100 hover:bg-indigo-700'}`}
+                  >
+                    <PenLine size={14} /> {transition.action} <span className="opacity-60">as {transition.role}</span>
+                  </button>
+                  {(blocker || missing) && (
+                    <span className="flex items-center gap-1 text-[9px] font-bold text-amber-600"><AlertTriangle size={10} />{blocker || missing}</span>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Sign-off log */}
+          <div>
+            <label className="text-[8px] font-black text-slate-400 uppercase tracking-widest block mb-2">Sign-off Record</label>
+            {workflow.signOffs.length === 0 ? (
+              <p className="text-xs text-slate-400 font-bold">No sign-offs yet.</p>
+            ) : (
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-[9px] font-black uppercase tracking-widest text-slate-400 text-left">
+                    <th className="py-2 pr-3">Date</th><th className="py-2 pr-3">Name</th><th className="py-2 pr-3">Role</th><th className="py-2 pr-3">Transition</th><th className="py-2">Comment</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {[...workflow.signOffs].reverse().map(signOff => (
+                    <tr key={signOff.id} className="border-t border-slate-100 align-top">
+                      <td className="py-2 pr-3 text-slate-500 whitespace-nowrap">{new Date(signOff.timestamp).toLocaleString()}</td>
+                      <td className="py-2 pr-3 font-bold text-slate-800">{signOff.name}</td>
+                      <td className="py-2 pr-3 text-slate-600">{signOff.role}</td>
+                      <td className="py-2 pr-3 text-slate-600 whitespace-nowrap">{workflowStateLabel(signOff.from)} → {workflowStateLabel(signOff.to)}</td>
+                      <td className="py-2 text-slate-500 italic">{signOff.comment || ''}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="px-8 py-5 bg-white border-t border-slate-100 flex justify-end items-center gap-3 shrink-0">
+          <button onClick={onClose} className="px-6 py-2.5 text-slate-500 font-black text-[10px] uppercase tracking-widest hover:bg-slate-50 rounded-lg transition-all">Close</button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,72 @@
+import { RCMItem, RiskLevel, RiskScaleLevel } from "../types";
+
+// Action Priority (AIAG-VDA FMEA Handbook, 2019). Unlike RPN, AP weights severity first,
+// then occurrence, then detection, so a high-severity mode cannot be diluted by good detection.
+// The table is defined on 1-10 scales; scores on other scales are mapped onto 1-10 first.
+
+type Band = { min: number; ap: [RiskLevel, RiskLevel, RiskLevel, RiskLevel] }; // D 7-10, 5-6, 2-4, 1
+
+const H: RiskLevel = 'High';
+const M: RiskLevel = 'Medium';
+const L: RiskLevel = 'Low';
+
+// Severity band -> occurrence bands (highest first) -> AP by detection band
+const AP_TABLE: { min: number; occurrence: Band[] }[] = [
+  { min: 9, occurrence: [
+    { min: 8, ap: [H, H, H, H] },
+    { min: 6, ap: [H, H, H, H] },
+    { min: 4, ap: [H, H, H, M] },
+    { min: 2, ap: [H, M, L, L] },
+    { min: 1, ap: [L, L, L, L] }
+  ] },
+  { min: 7, occurrence: [
+    { min: 8, ap: [H, H, H, H] },
+    { min: 6, ap: [H, H, H, M] },
+    { min: 4, ap: [H, M, M, M] },
+    { min: 2, ap: [M, M, L, L] },
+    { min: 1, ap: [L, L, L, L] }
+  ] },
+  { min: 4, occurrence: [
+    { min: 8, ap: [H, H, M, M] },
+    { min: 6, ap: [M, M, M, L] },
+    { min: 4, ap: [M, L, L, L] },
+    { min: 1, ap: [L, L, L, L] }
+  ] },
+  { min: 2, occurrence: [
+    { min: 8, ap: [M, M, L, L] },
+    { min: 1, ap: [L, L, L, L] }
+  ] },
+  { min: 1, occurrence: [
+    { min: 1, ap: [L, L, L, L] }
+  ] }
+];
+
+const detectionColumn = (detection: number): number =>
+  detection >= 7 ? 0 : detection >= 5 ? 1 : detection >= 2 ? 2 : 3;
+
+const toTenPoint = (score: number, scaleMax: number): number =>
+  scaleMax === 10 || scaleMax <= 1 ? score : Math.round(1 + ((score - 1) * 9) / (scaleMax - 1));
+
+const maxScore = (scale?: RiskScaleLevel[]) => scale ? Math.max(...scale.map(l => l.score), 1) : 10;
+
+export const actionPriority = (
+  severity: number,
+  occurrence: number,
+  detection: number,
+  scales?: { severity: RiskScaleLevel[]; occurrence: RiskScaleLevel[]; detection: RiskScaleLevel[] }
+): RiskLevel => {
+  const s = toTenPoint(severity || 1, maxScore(scales?.severity));
+  const o = toTenPoint(occurrence || 1, maxScore(scales?.occurrence));
+  const d = toTenPoint(detection || 1, maxScore(scales?.detection));
+  const severityBand = AP_TABLE.find(band => s >= band.min) || AP_TABLE[AP_TABLE.length - 1];
+  const occurrenceBand = severityBand.occurrence.find(band => o >= band.min) || severityBand.occurrence[severityBand.occurrence.length - 1];
+  return occurrenceBand.ap[detectionColumn(d)];
+};
+
+export const AP_RANK: Record<RiskLevel, number> = { High: 3, Medium: 2, Low: 1 };
+
+// AP first, RPN as the tie-breaker within a priority
+export const compareByActionPriority = (a: Pick<RCMItem, 'actionPriority' | 'rpn'>, b: Pick<RCMItem, 'actionPriority' | 'rpn'>): number =>
+  (AP_RANK[b.actionPriority || 'Low'] - AP_RANK[a.actionPriority || 'Low']) || ((b.rpn || 0) - (a.rpn || 0));
+
+export const formatActionPriority = (ap?: RiskLevel): string => ap ? ap[0] : '';
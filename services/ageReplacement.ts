@@ -0,0 +1,101 @@
+import { AgeReplacementInputs, AgeReplacementResult, RCMItem } from "../types";
+import { gamma } from "./weibull";
+
+// Optimal age replacement (Barlow & Proschan): replace at age T or on failure, whichever comes first.
+// Cost per unit time C(T) = (Cp * R(T) + Cf * F(T)) / integral_0^T R(t) dt
+
+const reliability = (t: number, beta: number, eta: number) => Math.exp(-Math.pow(t / eta, beta));
+
+// Expected cycle length up to age T (Simpson's rule)
+const expectedCycleLength = (T: number, beta: number, eta: number, steps: number = 200): number => {
+  const h = T / steps;
+  let sum = reliability(0, beta, eta) + reliability(T, beta, eta);
+  for (let i = 1; i < steps; i++) {
+    sum += reliability(i * h, beta, eta) * (i % 2 === 0 ? 2 : 4);
+  }
+  return (sum * h) / 3;
+};
+
+export const costRate = (T: number, inputs: Pick<AgeReplacementInputs, 'beta' | 'eta' | 'preventiveCost' | 'failureCost'>): number => {
+  const { beta, eta, preventiveCost, failureCost } = inputs;
+  const R = reliability(T, beta, eta);
+  return (preventiveCost * R + failureCost * (1 - R)) / expectedCycleLength(T, beta, eta);
+};
+
+// Scale parameter that gives the stated mean life for a shape guess
+export const etaFromMTBF = (mtbf: number, beta: number): number => mtbf / gamma(1 + 1 / beta);
+
+export const costCurve = (inputs: AgeReplacementInputs, points: number = 60): { age: number; cost: number }[] => {
+  const maxAge = inputs.eta * 2.5;
+  return Array.from({ length: points }, (_, i) => {
+    const age = (maxAge * (i + 1)) / points;
+    return { age, cost: costRate(age, inputs) };
+  });
+};
+
+export const optimizeReplacementAge = (inputs: AgeReplacementInputs): AgeReplacementResult | null => {
+  const { beta, eta, preventiveCost, failureCost } = inputs;
+  if (!(beta > 0) || !(eta > 0) || !(failureCost > 0) || preventiveCost < 0) return null;
+
+  const mean = eta * gamma(1 + 1 / beta);
+  const runToFailureCostRate = failureCost / mean;
+  const noOptimum = { optimumAge: null, costRateAtOptimum: runToFailureCostRate, runToFailureCostRate, savingsFraction: 0, worthwhile: false };
+
+  // Without wear-out (beta <= 1) the cost rate never rises again, so replacing early cannot pay
+  if (beta <= 1 || preventiveCost >= failureCost) return noOptimum;
+
+  // Coarse scan for the bracket, then golden-section refinement
+  const curve = costCurve(inputs, 120);
+  let bestIndex = 0;
+  curve.forEach((p, i) => { if (p.cost < curve[bestIndex].cost) bestIndex = i; });
+  if (bestIndex === curve.length - 1) return noOptimum;
+
+  let low = bestIndex > 0 ? curve[bestIndex - 1].age : curve[0].age / 2;
+  let high = curve[bestIndex + 1].age;
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  for (let i = 0; i < 60; i++) {
+    const a = high - ratio * (high - low);
+    const b = low + ratio * (high - low);
+    if (costRate(a, inputs) < costRate(b, inputs)) high = b;
+    else low = a;
+  }
+  const optimumAge = (low + high) / 2;
+  const costRateAtOptimum = costRate(optimumAge, inputs);
+  const savingsFraction = 1 - costRateAtOptimum / runToFailureCostRate;
+
+  return {
+    optimumAge,
+    costRateAtOptimum,
+    runToFailureCostRate,
+    savingsFraction,
+    // Small savings are within the uncertainty of the inputs
+    worthwhile: savingsFraction > 0.05
+  };
+};
+
+export const AGE_REPLACEMENT_TASKS: RCMItem['taskType'][] = ['Replacement', 'Restoration', 'Time-Based'];
+
+export const defaultAgeReplacementInputs = (item: RCMItem): AgeReplacementInputs => {
+  if (item.ageReplacement) return item.ageReplacement.inputs;
+  if (item.weibull) {
+    return {
+      source: 'weibull',
+      beta: item.weibull.fit.beta,
+      eta: item.weibull.fit.eta,
+      unit: item.weibull.lifeUnit,
+      basis: item.weibull.lifeUnit === 'hours' ? 'running hours' : 'calendar',
+      preventiveCost: 1000,
+      failureCost: 10000
+    };
+  }
+  return {
+    source: 'mtbf',
+    beta: 2.5,
+    eta: etaFromMTBF(36, 2.5),
+    mtbf: 36,
+    unit: 'months',
+    basis: 'calendar',
+    preventiveCost: 1000,
+    failureCost: 10000
+  };
+};
@@ -0,0 +1,202 @@
+import { AssetLevel, AssetNode, RCMItem } from "../types";
+
+// Per-study asset register following the ISO 14224 equipment hierarchy.
+// Items point at a node through assetNodeId; item.component always carries the node's name
+// so reports and prompts that read the component keep working unchanged.
+
+export const ASSET_LEVELS: { id: AssetLevel; label: string; isoLevel: number }[] = [
+  { id: 'installation', label: 'Installation', isoLevel: 3 },
+  { id: 'plant', label: 'Plant / Unit', isoLevel: 4 },
+  { id: 'system', label: 'Section / System', isoLevel: 5 },
+  { id: 'equipment', label: 'Equipment Unit', isoLevel: 6 },
+  { id: 'subunit', label: 'Subunit', isoLevel: 7 },
+  { id: 'maintainable-item', label: 'Maintainable Item', isoLevel: 8 }
+];
+
+// Items that arrive without a node are filed here until someone places them in the tree
+export const UNASSIGNED_ASSET_ID = 'asset-unassigned';
+
+export const assetLevelLabel = (level: AssetLevel): string =>
+  ASSET_LEVELS.find(l => l.id === level)?.label || level;
+
+export const childLevel = (level?: AssetLevel): AssetLevel => {
+  if (!level) return 'installation';
+  const index = ASSET_LEVELS.findIndex(l => l.id === level);
+  return ASSET_LEVELS[Math.min(index + 1, ASSET_LEVELS.length - 1)].id;
+};
+
+export const assetChildren = (nodes: AssetNode[], parentId?: string): AssetNode[] =>
+  nodes.filter(n => n.parentId === parentId || (!parentId && !nodes.some(p => p.id === n.parentId)));
+
+/** Nodes in depth-first order with their depth, for trees, pickers and grouping. */
+export const flattenAssetTree = (nodes: AssetNode[]): { node: AssetNode; depth: number }[] => {
+  const result: { node: AssetNode; depth: number }[] = [];
+  const visit = (parentId: string | undefined, depth: number) => {
+    assetChildren(nodes, parentId).forEach(node => {
+      result.push({ node, depth });
+      visit(node.id, depth + 1);
+    });
+  };
+  visit(undefined, 0);
+  return result;
+};
+
+/** Root-first chain of nodes down to (and including) the given node. */
+export const assetPath = (nodes: AssetNode[], id?: string): AssetNode[] => {
+  const path: AssetNode[] = [];
+  let current = nodes.find(n => n.id === id);
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    current = nodes.find(n => n.id === current!.parentId);
+  }
+  return path;
+};
+
+export const formatAssetPath = (nodes: AssetNode[], id?: string): string =>
+  assetPath(nodes, id).map(n => n.name).join(' › ');
+
+export const descendantIds = (nodes: AssetNode[], id: string): Set<string> => {
+  const ids = new Set<string>([id]);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    nodes.forEach(n => {
+      if (n.parentId && ids.has(n.parentId) && !ids.has(n.id)) {
+        ids.add(n.id);
+        grew = true;
+      }
+    });
+  }
+  return ids;
+};
+
+/**
+ * Functional location and asset tag used in exports. A maintainable item rarely has its own
+ * CMMS record, so both fall back to the nearest ancestor that has one.
+ */
+export const resolveAssetReference = (nodes: AssetNode[], id?: string): { functionalLocation: string; assetTag: string; path: string } => {
+  const path = assetPath(nodes, id);
+  const nearest = (key: 'functionalLocation' | 'assetTag') => [...path].reverse().find(n => n[key]?.trim())?.[key]?.trim() || '';
+  return { functionalLocation: nearest('functionalLocation'), assetTag: nearest('assetTag'), path: path.map(n => n.name).join(' › ') };
+};
+
+/** First free child code under the parent's functional location, e.g. 10-P-101 -> 10-P-101-03. */
+export const suggestFunctionalLocation = (nodes: AssetNode[], parentId?: string): string => {
+  const parent = nodes.find(n => n.id === parentId);
+  if (!parent?.functionalLocation) return '';
+  const taken = new Set(nodes.map(n => n.functionalLocation));
+  let seq = 1;
+  const code = (n: number) => `${parent.functionalLocation}-${String(n).padStart(2, '0')}`;
+  while (taken.has(code(seq))) seq++;
+  return code(seq);
+};
+
+export const createAssetNode = (nodes: AssetNode[], name: string, parentId?: string, level?: AssetLevel): AssetNode => ({
+  id: `asset-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`,
+  parentId,
+  level: level || childLevel(nodes.find(n => n.id === parentId)?.level),
+  name,
+  functionalLocation: suggestFunctionalLocation(nodes, parentId) || undefined
+});
+
+/** Fills empty functional locations top-down from the nearest coded parent. */
+export const numberFunctionalLocations = (nodes: AssetNode[]): AssetNode[] => {
+  let next = [...nodes];
+  flattenAssetTree(nodes).forEach(({ node }) => {
+    const current = next.find(n => n.id === node.id)!;
+    if (current.functionalLocation) return;
+    const code = suggestFunctionalLocation(next, current.parentId);
+    if (code) next = next.map(n => n.id === current.id ? { ...n, functionalLocation: code } : n);
+  });
+  return next;
+};
+
+/** Nearest equipment unit at or above the node; the unassigned holding node is not a real unit. */
+export const equipmentUnitOf = (nodes: AssetNode[], id?: string): AssetNode | undefined =>
+  [...assetPath(nodes, id)].reverse().find(n => n.level === 'equipment' && n.id !== UNASSIGNED_ASSET_ID);
+
+/** Sets the class on the node's equipment unit and on every item below that unit. */
+export const assignEquipmentClass = (nodes: AssetNode[], items: RCMItem[], id: string, equipmentClass?: string): { items: RCMItem[]; nodes: AssetNode[] } => {
+  const unit = equipmentUnitOf(nodes, id);
+  if (!unit) return { items, nodes };
+  const below = descendantIds(nodes, unit.id);
+  return {
+    nodes: nodes.map(n => n.id === unit.id ? { ...n, equipmentClass } : n),
+    items: items.map(i => i.assetNodeId && below.has(i.assetNodeId) ? { ...i, equipmentClass } : i)
+  };
+};
+
+// The equipment class belongs to the unit: a unit without one adopts the first class its items
+// bring, and items placed under a unit then carry the unit's class
+const mirrorEquipmentClasses = (items: RCMItem[], nodes: AssetNode[]): { items: RCMItem[]; nodes: AssetNode[] } => {
+  let next = nodes;
+  items.forEach(item => {
+    const unit = equipmentUnitOf(next, item.assetNodeId);
+    if (unit && !unit.equipmentClass && item.equipmentClass) {
+      next = next.map(n => n.id === unit.id ? { ...n, equipmentClass: item.equipmentClass } : n);
+    }
+  });
+  const mirrored = items.map(item => {
+    const unit = equipmentUnitOf(next, item.assetNodeId);
+    return !unit || unit.equipmentClass === item.equipmentClass ? item : { ...item, equipmentClass: unit.equipmentClass };
+  });
+  return { items: mirrored, nodes: next };
+};
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * Links every item to a node. An item keeps its node while the names agree; a renamed component
+ * moves to a sibling of that name (created if needed), and items without a node are matched by
+ * name under the unassigned equipment node or filed there. Matching never leaves the item's own
+ * parent, so same-named parts of other equipment are not picked up. Leaf nodes whose last item
+ * moved away in this pass are pruned, and items take the equipment class of their unit.
+ */
+export const linkAssetHierarchy = (items: RCMItem[], nodes: AssetNode[]): { items: RCMItem[]; nodes: AssetNode[] } => {
+  let next = nodes;
+  const linked = items.map(item => {
+    const name = (item.component || '').trim() || 'Unnamed Component';
+    const current = next.find(n => n.id === item.assetNodeId);
+    if (current && sameName(current.name, name)) {
+      return current.name === item.component ? item : { ...item, component: current.name };
+    }
+
+    const parentId = current ? current.parentId : UNASSIGNED_ASSET_ID;
+    const match = next.find(n => n.parentId === parentId && sameName(n.name, name));
+    if (match) return { ...item, component: match.name, assetNodeId: match.id };
+
+    if (!current && !next.some(n => n.id === UNASSIGNED_ASSET_ID)) {
+      next = [...next, { id: UNASSIGNED_ASSET_ID, level: 'equipment', name: 'Unassigned Equipment' }];
+    }
+    const node = createAssetNode(next, name, parentId, 'maintainable-item');
+    next = [...next, node];
+    return { ...item, component: node.name, assetNodeId: node.id };
+  });
+
+  const inUse = new Set(linked.map(item => item.assetNodeId));
+  const vacated = new Set(items.map(item => item.assetNodeId).filter((id): id is string => !!id && !inUse.has(id)));
+  const pruned = next.filter(n => !vacated.has(n.id) || next.some(c => c.parentId === n.id));
+  return mirrorEquipmentClasses(linked, pruned);
+};
+
+/**
+ * Removes a node: its children move up to its parent and so do its items.
+ * Top-level nodes that still carry items cannot be removed.
+ */
+export const removeAssetNode = (nodes: AssetNode[], items: RCMItem[], id: string): { items: RCMItem[]; nodes: AssetNode[] } | null => {
+  const node = nodes.find(n => n.id === id);
+  if (!node) return null;
+  const parent = nodes.find(n => n.id === node.parentId);
+  if (!parent && items.some(i => i.assetNodeId === id)) return null;
+  return {
+    nodes: nodes.filter(n => n.id !== id).map(n => n.parentId === id ? { ...n, parentId: node.parentId } : n),
+    items: parent ? items.map(i => i.assetNodeId === id ? { ...i, assetNodeId: parent.id, component: parent.name } : i) : items
+  };
+};
+
+/** Keeps item.component in step after nodes are renamed in the register. */
+export const syncAssetNames = (items: RCMItem[], nodes: AssetNode[]): RCMItem[] =>
+  items.map(item => {
+    const node = nodes.find(n => n.id === item.assetNodeId);
+    return node && node.name !== item.component ? { ...item, component: node.name } : item;
+  });
@@ -0,0 +1,57 @@
+import { RCMItem, ReviewComment } from "../types";
+
+// Per-item comment threads used during review workshops. Threads are flat: a thread is its
+// opening comment plus the replies that point at it, and only the opening comment carries state.
+
+export interface CommentThread {
+  root: ReviewComment;
+  replies: ReviewComment[];
+}
+
+export const commentThreads = (item: RCMItem): CommentThread[] => {
+  const comments = item.reviewComments || [];
+  return comments
+    .filter(c => !c.parentId)
+    .map(root => ({ root, replies: comments.filter(c => c.parentId === root.id).sort((a, b) => a.timestamp - b.timestamp) }))
+    .sort((a, b) => a.root.timestamp - b.root.timestamp);
+};
+
+export const openThreadCount = (item: RCMItem): number =>
+  (item.reviewComments || []).filter(c => !c.parentId && !c.resolved).length;
+
+export const hasOpenComments = (item: RCMItem): boolean => openThreadCount(item) > 0;
+
+/** Starts a thread, or replies to one; a reply reopens a resolved thread. */
+export const addComment = (item: RCMItem, author: string, text: string, parentId?: string): RCMItem => {
+  const comment: ReviewComment = {
+    id: `comment-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`,
+    author: author.trim(),
+    timestamp: Date.now(),
+    text: text.trim(),
+    parentId
+  };
+  const existing = (item.reviewComments || []).map(c =>
+    parentId && c.id === parentId && c.resolved ? { ...c, resolved: false, resolvedBy: undefined, resolvedAt: undefined } : c);
+  return { ...item, reviewComments: [...existing, comment] };
+};
+
+export const setThreadResolved = (item: RCMItem, threadId: string, resolved: boolean, name: string): RCMItem => ({
+  ...item,
+  reviewComments: (item.reviewComments || []).map(c => c.id !== threadId ? c : resolved
+    ? { ...c, resolved: true, resolvedBy: name.trim(), resolvedAt: Date.now() }
+    : { ...c, resolved: false, resolvedBy: undefined, resolvedAt: undefined })
+});
+
+/**
+ * Cleans comments from imported or older studies: plain strings become comments, missing
+ * ids and authors are filled in, and replies whose thread is gone become threads themselves.
+ */
+export const normalizeComments = (items: RCMItem[]): RCMItem[] =>
+  items.map(item => {
+    if (!item || !item.reviewComments) return item;
+    const comments = (item.reviewComments as (ReviewComment | string)[]).map((c, index) => typeof c === 'string'
+      ? { id: `comment-${item.id}-${index}`, author: 'Unknown', timestamp: 0, text: c }
+      : { ...c, id: c.id || `comment-${item.id}-${index}`, author: c.author || 'Unknown', timestamp: c.timestamp || 0 });
+    const ids = new Set(comments.map(c => c.id));
+    return { ...item, reviewComments: comments.map(c => c.parentId && !ids.has(c.parentId) ? { ...c, parentId: undefined } : c) };
+  });
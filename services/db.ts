@@ -1,10 +1,18 @@
 
-import { SavedStudy, Folder } from '../types';
+import { SavedStudy, Folder, StudyRevision, SearchIndexEntry, LibraryEntry } from '../types';
+import { SearchHit, buildSearchEntries, lookupToken, matchEntry, tokenize } from './search';
+import { migrateStudyIntervals, toInterval } from './intervals';
 
 const DB_NAME = 'RCM_Generator_DB';
 const STORE_NAME = 'studies';
 const FOLDER_STORE = 'folders';
-const DB_VERSION = 2;
+const REVISION_STORE = 'revisions';
+const SEARCH_STORE = 'searchIndex';
+const LIBRARY_STORE = 'failureModeLibrary';
+const DB_VERSION = 5;
+
+// Oldest automatic revisions beyond this are pruned per study; named revisions are always kept
+const MAX_REVISIONS_PER_STUDY = 50;
 
 // Initialize the database
 const initDB = (): Promise<IDBDatabase> => {
@@ -22,6 +30,28 @@ const initDB = (): Promise<IDBDatabase> => {
       if (!db.objectStoreNames.contains(FOLDER_STORE)) {
         db.createObjectStore(FOLDER_STORE, { keyPath: 'id' });
       }
+      if (!db.objectStoreNames.contains(REVISION_STORE)) {
+        const revisions = db.createObjectStore(REVISION_STORE, { keyPath: 'id' });
+        revisions.createIndex('studyId', 'studyId', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(SEARCH_STORE)) {
+        const search = db.createObjectStore(SEARCH_STORE, { keyPath: 'id' });
+        search.createIndex('studyId', 'studyId', { unique: false });
+        search.createIndex('tokens', 'tokens', { unique: false, multiEntry: true });
+        // Index the studies saved before search existed
+        const transaction = (event.target as IDBOpenDBRequest).transaction!;
+        const cursorRequest = transaction.objectStore(STORE_NAME).openCursor();
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (!cursor) return;
+          buildSearchEntries(cursor.value as SavedStudy).forEach(entry => search.put(entry));
+          cursor.continue();
+        };
+      }
+      if (!db.objectStoreNames.contains(LIBRARY_STORE)) {
+        const library = db.createObjectStore(LIBRARY_STORE, { keyPath: 'id' });
+        library.createIndex('key', 'key', { unique: false });
+      }
     };
   });
 };
@@ -37,7 +67,7 @@ export const getAllStudies = async (): Promise<SavedStudy[]> => {
 
       request.onsuccess = () => {
         // Sort by timestamp descending (newest first)
-        const results = request.result as SavedStudy[];
+        const results = (request.result as SavedStudy[]).map(migrateStudyIntervals);
         resolve(results.sort((a, b) => b.timestamp - a.timestamp));
       };
       request.onerror = () => reject(request.error);
@@ -48,16 +78,26 @@ export const getAllStudies = async (): Promise<SavedStudy[]> => {
   }
 };
 
+// Replaces a study's search entries within the transaction that writes or deletes the study
+const reindexStudy = (transaction: IDBTransaction, studyId: string, entries: SearchIndexEntry[]) => {
+  const search = transaction.objectStore(SEARCH_STORE);
+  const keysRequest = search.index('studyId').getAllKeys(studyId);
+  keysRequest.onsuccess = () => {
+    keysRequest.result.forEach(key => search.delete(key));
+    entries.forEach(entry => search.put(entry));
+  };
+};
+
 // Save a study (create or update)
 export const saveStudyToDB = async (study: SavedStudy): Promise<void> => {
   const db = await initDB();
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction(STORE_NAME, 'readwrite');
-    const store = transaction.objectStore(STORE_NAME);
-    const request = store.put(study);
+    const transaction = db.transaction([STORE_NAME, SEARCH_STORE], 'readwrite');
+    transaction.objectStore(STORE_NAME).put(study);
+    reindexStudy(transaction, study.id, buildSearchEntries(study));
 
-    request.onsuccess = () => resolve();
-    request.onerror = () => reject(request.error);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
   });
 };
 
@@ -65,15 +105,43 @@ export const saveStudyToDB = async (study: SavedStudy): Promise<void> => {
 export const deleteStudyFromDB = async (id: string): Promise<void> => {
   const db = await initDB();
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction(STORE_NAME, 'readwrite');
-    const store = transaction.objectStore(STORE_NAME);
-    const request = store.delete(id);
+    const transaction = db.transaction([STORE_NAME, SEARCH_STORE], 'readwrite');
+    transaction.objectStore(STORE_NAME).delete(id);
+    reindexStudy(transaction, id, []);
 
-    request.onsuccess = () => resolve();
-    request.onerror = () => reject(request.error);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
   });
 };
 
+// Search all saved studies; candidates come from the token index, newest studies first
+export const searchStudies = async (query: string, limit: number = 100): Promise<SearchHit[]> => {
+  const queryTokens = tokenize(query);
+  const token = lookupToken(queryTokens);
+  if (!token) return [];
+  try {
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(SEARCH_STORE, 'readonly');
+      const request = transaction.objectStore(SEARCH_STORE).index('tokens').getAll(IDBKeyRange.bound(token, `${token}\uffff`));
+
+      request.onsuccess = () => {
+        // A multi-entry range returns an entry once per matching token
+        const unique = new Map((request.result as SearchIndexEntry[]).map(entry => [entry.id, entry]));
+        const hits = Array.from(unique.values())
+          .map(entry => matchEntry(entry, queryTokens))
+          .filter((hit): hit is SearchHit => !!hit)
+          .sort((a, b) => b.entry.studyTimestamp - a.entry.studyTimestamp || a.entry.id.localeCompare(b.entry.id));
+        resolve(hits.slice(0, limit));
+      };
+      request.onerror = () => reject(request.error);
+    });
+  } catch (e) {
+    console.error("DB Error:", e);
+    return [];
+  }
+};
+
 // Folders Logic
 export const getAllFolders = async (): Promise<Folder[]> => {
   try {
@@ -118,3 +186,100 @@ export const deleteFolderFromDB = async (id: string): Promise<void> => {
     request.onerror = () => reject(request.error);
   });
 };
+
+// Revisions Logic
+export const getStudyRevisions = async (studyId: string): Promise<StudyRevision[]> => {
+  try {
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(REVISION_STORE, 'readonly');
+      const store = transaction.objectStore(REVISION_STORE);
+      const request = store.index('studyId').getAll(studyId);
+
+      request.onsuccess = () => {
+        const results = (request.result as StudyRevision[]).map(r => ({ ...r, snapshot: migrateStudyIntervals(r.snapshot) }));
+        resolve(results.sort((a, b) => b.timestamp - a.timestamp));
+      };
+      request.onerror = () => reject(request.error);
+    });
+  } catch (e) {
+    console.error("DB Error:", e);
+    return [];
+  }
+};
+
+// Stores a revision and prunes the study's oldest automatic ones beyond the cap
+export const saveRevisionToDB = async (revision: StudyRevision): Promise<void> => {
+  const existing = await getStudyRevisions(revision.studyId);
+  const kept = revision.reason === 'named' ? MAX_REVISIONS_PER_STUDY : MAX_REVISIONS_PER_STUDY - 1;
+  const stale = existing.filter(r => r.id !== revision.id && r.reason !== 'named').slice(kept);
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(REVISION_STORE, 'readwrite');
+    const store = transaction.objectStore(REVISION_STORE);
+    store.put(revision);
+    stale.forEach(r => store.delete(r.id));
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const deleteStudyRevisions = async (studyId: string): Promise<void> => {
+  const revisions = await getStudyRevisions(studyId);
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(REVISION_STORE, 'readwrite');
+    const store = transaction.objectStore(REVISION_STORE);
+    revisions.forEach(r => store.delete(r.id));
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// Failure Mode Library Logic
+export const getLibraryEntries = async (): Promise<LibraryEntry[]> => {
+  try {
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(LIBRARY_STORE, 'readonly');
+      const store = transaction.objectStore(LIBRARY_STORE);
+      const request = store.getAll();
+
+      request.onsuccess = () => {
+        // Entries harvested before intervals were typed may still hold free text
+        const results = (request.result as LibraryEntry[]).map(entry => ({ ...entry, interval: toInterval(entry.interval) }));
+        resolve(results.sort((a, b) => a.key.localeCompare(b.key) || a.component.localeCompare(b.component) || a.failureMode.localeCompare(b.failureMode)));
+      };
+      request.onerror = () => reject(request.error);
+    });
+  } catch (e) {
+    console.error("DB Error:", e);
+    return [];
+  }
+};
+
+export const saveLibraryEntries = async (entries: LibraryEntry[]): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(LIBRARY_STORE, 'readwrite');
+    const store = transaction.objectStore(LIBRARY_STORE);
+    entries.forEach(entry => store.put(entry));
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const deleteLibraryEntry = async (id: string): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(LIBRARY_STORE, 'readwrite');
+    const store = transaction.objectStore(LIBRARY_STORE);
+    const request = store.delete(id);
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+};
@@ -0,0 +1,126 @@
+import { RCMItem, TaskType, ConsequenceCategory, DecisionAnswers, DecisionNodeId, DecisionRecord } from "../types";
+
+export const TASK_TYPES: TaskType[] = [
+  'Condition Monitoring',
+  'Time-Based',
+  'Run-to-Failure',
+  'Redesign',
+  'Failure Finding',
+  'Lubrication',
+  'Servicing',
+  'Restoration',
+  'Replacement',
+  'Training',
+  'Procedural Change'
+];
+
+export const DECISION_QUESTIONS: Record<DecisionNodeId, string> = {
+  evident: "Will the loss of function be evident to the operating crew under normal circumstances?",
+  safety: "Does the failure mode (or the multiple failure, if hidden) threaten safety or the environment?",
+  operational: "Does the failure mode have a direct adverse effect on operational capability?",
+  pfFeasible: "Is there a detectable potential failure with a P-F interval long enough to act on?",
+  ageRelated: "Is there an age at which the conditional probability of failure rises sharply?",
+  conditionTask: "On-condition task",
+  scheduledTask: "Scheduled restoration / replacement",
+  failureFinding: "Scheduled failure-finding task",
+  redesign: "Redesign is mandatory",
+  runToFailure: "No scheduled maintenance (run-to-failure)"
+};
+
+// Lubrication, servicing and one-time changes are acceptable under every consequence category
+const ALWAYS_ALLOWED: TaskType[] = ['Lubrication', 'Servicing', 'Redesign', 'Training', 'Procedural Change'];
+const CONDITION_TASKS: TaskType[] = ['Condition Monitoring'];
+const SCHEDULED_TASKS: TaskType[] = ['Time-Based', 'Restoration', 'Replacement'];
+
+const answersFromCategory = (category: ConsequenceCategory): Pick<DecisionAnswers, 'evident' | 'safetyEnvironmental' | 'operational'> => ({
+  evident: category.startsWith('Evident'),
+  safetyEnvironmental: category.includes('Safety/Env'),
+  operational: category === 'Evident - Operational' || category === 'Hidden - Operational'
+});
+
+// Consequence answers follow the category; feasibility answers stay unset until someone records them
+export const deriveAnswers = (item: RCMItem): DecisionAnswers => ({
+  ...answersFromCategory(item.consequenceCategory || 'Evident - Operational'),
+  pfFeasible: item.decision?.answers.pfFeasible,
+  ageRelated: item.decision?.answers.ageRelated
+});
+
+// The feasibility question a task type is justified by
+const justifyingQuestion = (taskType: TaskType): 'pfFeasible' | 'ageRelated' | null =>
+  CONDITION_TASKS.includes(taskType) ? 'pfFeasible' : SCHEDULED_TASKS.includes(taskType) ? 'ageRelated' : null;
+
+/** True when the task type hinges on a feasibility question nobody has answered yet. */
+export const awaitsAnswer = (taskType: TaskType, answers: DecisionAnswers): boolean => {
+  const question = justifyingQuestion(taskType);
+  return !!question && answers[question] === undefined;
+};
+
+export const getAllowedTaskTypes = (answers: DecisionAnswers): TaskType[] => {
+  const allowed: TaskType[] = [...ALWAYS_ALLOWED];
+  if (answers.pfFeasible) allowed.push(...CONDITION_TASKS);
+  if (answers.ageRelated) allowed.push(...SCHEDULED_TASKS);
+  if (!answers.evident) allowed.push('Failure Finding');
+  if (!answers.safetyEnvironmental) allowed.push('Run-to-Failure');
+  return TASK_TYPES.filter(t => allowed.includes(t));
+};
+
+// Walks the decision diagram and returns the visited nodes, ending at the default outcome;
+// an unanswered feasibility question is followed down its "No" branch
+export const walkDecisionPath = (answers: DecisionAnswers): { path: DecisionNodeId[]; recommendedTaskType: TaskType } => {
+  const path: DecisionNodeId[] = ['evident', 'safety'];
+  if (!answers.safetyEnvironmental && answers.evident) path.push('operational');
+
+  path.push('pfFeasible');
+  if (answers.pfFeasible) return { path: [...path, 'conditionTask'], recommendedTaskType: 'Condition Monitoring' };
+
+  path.push('ageRelated');
+  if (answers.ageRelated) return { path: [...path, 'scheduledTask'], recommendedTaskType: 'Restoration' };
+
+  if (!answers.evident) return { path: [...path, 'failureFinding'], recommendedTaskType: 'Failure Finding' };
+  if (answers.safetyEnvironmental) return { path: [...path, 'redesign'], recommendedTaskType: 'Redesign' };
+  return { path: [...path, 'runToFailure'], recommendedTaskType: 'Run-to-Failure' };
+};
+
+export const evaluateDecision = (item: RCMItem, overrides: Partial<DecisionAnswers> = {}): DecisionRecord => {
+  const answers = { ...deriveAnswers(item), ...overrides };
+  const allowedTaskTypes = getAllowedTaskTypes(answers);
+  const { path, recommendedTaskType } = walkDecisionPath(answers);
+  return {
+    answers,
+    path,
+    allowedTaskTypes,
+    recommendedTaskType,
+    isTaskPermitted: allowedTaskTypes.includes(item.taskType),
+    missingAnswers: awaitsAnswer(item.taskType, answers) ? [justifyingQuestion(item.taskType)!] : []
+  };
+};
+
+export const applyDecisionLogic = (items: RCMItem[]): RCMItem[] =>
+  items.map(item => item ? { ...item, decision: evaluateDecision(item) } : item);
+
+// Compact label for table cells, e.g. "H › S › PF → CM"
+const NODE_SHORT: Record<DecisionNodeId, string> = {
+  evident: 'E',
+  safety: 'S',
+  operational: 'O',
+  pfFeasible: 'PF',
+  ageRelated: 'AGE',
+  conditionTask: 'CM',
+  scheduledTask: 'SR',
+  failureFinding: 'FF',
+  redesign: 'RD',
+  runToFailure: 'RTF'
+};
+
+export const formatDecisionPath = (record: DecisionRecord): string => {
+  const { answers, path } = record;
+  const answerFor: Partial<Record<DecisionNodeId, boolean>> = {
+    evident: answers.evident,
+    safety: answers.safetyEnvironmental,
+    operational: answers.operational,
+    pfFeasible: answers.pfFeasible,
+    ageRelated: answers.ageRelated
+  };
+  const questions = path.slice(0, -1).map(node => `${NODE_SHORT[node]}:${answerFor[node] === undefined ? '?' : answerFor[node] ? 'Y' : 'N'}`);
+  return `${questions.join(' › ')} → ${NODE_SHORT[path[path.length - 1]]}`;
+};
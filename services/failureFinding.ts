@@ -0,0 +1,101 @@
+import { FailureFindingInputs, FailureFindingResult, FFIFormula, RCMItem } from "../types";
+import { intervalToDays, scaleInterval } from "./intervals";
+
+// Failure-finding interval (FFI) for hidden functions (Moubray, RCM II; IEC 61511 style).
+//
+// A multiple failure needs the protective device to be failed when a demand arrives, so
+// the tolerable multiple-failure rate fixes the device unavailability: U = rate(MF) / demand rate.
+// The unavailability of a device tested every T with test downtime t is
+//   simplified:  U = T / (2 * MTBF) + t / T
+//   exponential: U = 1 - (MTBF / T)(1 - e^(-T / MTBF)) + t / T
+// With no test downtime the simplified form is the familiar FFI = 2 * U * MTBF.
+
+const HOURS_PER_DAY = 24;
+
+export const FAILURE_FINDING_CATEGORIES: RCMItem['consequenceCategory'][] = ['Hidden - Safety/Env', 'Hidden - Operational'];
+
+export const DEFAULT_FFI_INPUTS = (): FailureFindingInputs => ({
+  deviceMtbf: { value: 10, unit: 'years', basis: 'calendar' },
+  demandRate: 0.1,
+  tolerableProbability: 0.001,
+  testDurationHours: 2,
+  formula: 'exponential'
+});
+
+export const unavailability = (T: number, mtbf: number, testDays: number, formula: FFIFormula): number => {
+  const downtime = testDays / T;
+  if (formula === 'simplified') return T / (2 * mtbf) + downtime;
+  return 1 - (mtbf / T) * (1 - Math.exp(-T / mtbf)) + downtime;
+};
+
+// Required unavailability of the protective device; >= 1 means the device is not needed at all
+export const requiredUnavailability = (inputs: Pick<FailureFindingInputs, 'demandRate' | 'tolerableProbability'>): number | null => {
+  const { demandRate, tolerableProbability } = inputs;
+  if (!(demandRate > 0) || !(tolerableProbability > 0) || tolerableProbability >= 1) return null;
+  return -Math.log(1 - tolerableProbability) / demandRate;
+};
+
+// Test interval giving the lowest unavailability; only finite when tests take the device offline
+const optimumTest = (mtbf: number, testDays: number, formula: FFIFormula): { T: number; U: number } => {
+  if (testDays <= 0) return { T: 0, U: 0 };
+  if (formula === 'simplified') {
+    const T = Math.sqrt(2 * mtbf * testDays);
+    return { T, U: unavailability(T, mtbf, testDays, formula) };
+  }
+  // Golden-section search on a log scale
+  let low = Math.log(testDays);
+  let high = Math.log(mtbf * 100);
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  const f = (x: number) => unavailability(Math.exp(x), mtbf, testDays, formula);
+  for (let i = 0; i < 100; i++) {
+    const a = high - ratio * (high - low);
+    const b = low + ratio * (high - low);
+    if (f(a) < f(b)) high = b;
+    else low = a;
+  }
+  const T = Math.exp((low + high) / 2);
+  return { T, U: unavailability(T, mtbf, testDays, formula) };
+};
+
+// Longest interval that still meets the required unavailability (the rising branch of U(T))
+const solveInterval = (required: number, mtbf: number, testDays: number, formula: FFIFormula): number | null => {
+  const best = optimumTest(mtbf, testDays, formula);
+  if (required <= best.U) return null;
+
+  if (formula === 'simplified') {
+    const half = mtbf * required;
+    return half + Math.sqrt(half * half - 2 * mtbf * testDays);
+  }
+
+  let low = Math.max(best.T, 1e-9 * mtbf);
+  let high = Math.max(low * 2, mtbf);
+  while (unavailability(high, mtbf, testDays, formula) < required && high < mtbf * 1e6) high *= 2;
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    if (unavailability(mid, mtbf, testDays, formula) < required) low = mid;
+    else high = mid;
+  }
+  return low;
+};
+
+export const calculateFailureFindingInterval = (inputs: FailureFindingInputs): FailureFindingResult | null => {
+  const mtbfDays = intervalToDays(inputs.deviceMtbf);
+  const required = requiredUnavailability(inputs);
+  if (!mtbfDays || required === null || inputs.testDurationHours < 0) return null;
+
+  const testDays = inputs.testDurationHours / HOURS_PER_DAY;
+  const target = Math.min(required, 1);
+  const simplifiedDays = solveInterval(target, mtbfDays, testDays, 'simplified');
+  const exponentialDays = solveInterval(target, mtbfDays, testDays, 'exponential');
+  const chosen = inputs.formula === 'simplified' ? simplifiedDays : exponentialDays;
+
+  return {
+    requiredAvailability: Math.max(0, 1 - required),
+    minimumUnavailability: optimumTest(mtbfDays, testDays, inputs.formula).U,
+    achievable: chosen !== null,
+    simplifiedDays,
+    exponentialDays,
+    // A device that is never needed to meet the target has no failure-finding requirement
+    interval: chosen !== null && required < 1 ? scaleInterval(inputs.deviceMtbf, chosen / mtbfDays) : null
+  };
+};
@@ -1,5 +1,13 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { RCMItem, FileData, InspectionSheet, ComponentIntel } from "../types";
+import { Type } from "@google/genai";
+import { RCMItem, FileData, InspectionSheet, ComponentIntel, RiskScheme, LibraryEntry } from "../types";
+import { generateText, parseJSONResponse, textPart } from "./llmProvider";
+import { toInterval } from "./intervals";
+import { DEFAULT_RISK_SCHEME, clampScore, describeRiskScheme } from "./riskScheme";
+import {
+  CLASS_FAILURE_MODE_CODES, DETECTION_METHOD_CODES, FAILURE_CAUSE_CODES, FAILURE_MECHANISM_CODES,
+  describeTaxonomy, normalizeTaxonomy, splitClassFailureMode
+} from "./iso14224";
+import { describeLibraryExamples } from "./library";
 
 // Define the expected output schema for structured JSON
 const rcmSchema = {
@@ -59,20 +67,23 @@ const rcmSchema = {
           'Evident - Non-Operational'
         ]
       },
-      iso14224Code: { 
+      isoFailureMode: {
         type: Type.STRING,
-        enum: ["BRD", "LOP", "ELP", "INL", "VIB", "OHE", "STP", "FTS", "FTC", "FTO", "UST", "NOI", "LCP", "OTH"],
-        description: "Strict ISO 14224 Failure Mechanism Code. Use ONLY the 3-letter shorthand code."
+        enum: CLASS_FAILURE_MODE_CODES,
+        description: "ISO 14224 equipment class of the equipment unit the component belongs to and a failure mode allowed for it, as CLASS/MODE, e.g. 'PU/VIB'."
       },
+      failureMechanism: { type: Type.STRING, enum: FAILURE_MECHANISM_CODES, description: "ISO 14224 failure mechanism code, e.g. '2.4'." },
+      failureCause: { type: Type.STRING, enum: FAILURE_CAUSE_CODES, description: "ISO 14224 failure cause code, e.g. '3.3'." },
+      detectionMethod: { type: Type.STRING, enum: DETECTION_METHOD_CODES, description: "ISO 14224 detection method code, e.g. '4'." },
       criticality: { type: Type.STRING, enum: ["High", "Medium", "Low"] },
-      severity: { type: Type.INTEGER, description: "1-10 Scale. Rigorous scoring: 9-10 for Safety/Env, 7-8 for total production loss." },
-      occurrence: { type: Type.INTEGER, description: "1-10 Scale. Be conservative; assume higher frequencies for complex mechanical wear." },
-      detection: { type: Type.INTEGER, description: "1-10 Scale. 7-10 for manual/periodic checks; 1-3 only for continuous automated monitoring." },
+      severity: { type: Type.INTEGER, description: "Score on the study's severity scale. Rigorous scoring: the top scores for Safety/Env, the next band for total production loss." },
+      occurrence: { type: Type.INTEGER, description: "Score on the study's occurrence scale. Be conservative; assume higher frequencies for complex mechanical wear." },
+      detection: { type: Type.INTEGER, description: "Score on the study's detection scale. The upper half for manual/periodic checks; the lowest scores only for continuous automated monitoring." },
       maintenanceTask: { 
         type: Type.STRING,
         description: "Exactly one technical maintenance task."
       },
-      interval: { type: Type.STRING },
+      interval: { type: Type.STRING, description: "Task frequency, e.g. 'Weekly', '3 Months', '2000 Running Hours', '500 Cycles' or 'On Condition'." },
       taskType: {
         type: Type.STRING,
         enum: [
@@ -113,7 +124,7 @@ const rcmSchema = {
         required: ["responsibility", "estimatedTime", "safetyPrecautions", "toolsRequired", "steps"]
       }
     },
-    required: ["functionType", "component", "componentType", "componentIntel", "function", "functionalFailure", "failureMode", "failureEffect", "consequenceCategory", "iso14224Code", "criticality", "severity", "occurrence", "detection", "maintenanceTask", "interval", "taskType"]
+    required: ["functionType", "component", "componentType", "componentIntel", "function", "functionalFailure", "failureMode", "failureEffect", "consequenceCategory", "isoFailureMode", "failureMechanism", "failureCause", "detectionMethod", "criticality", "severity", "occurrence", "detection", "maintenanceTask", "interval", "taskType"]
   }
 };
 
@@ -171,10 +182,10 @@ export const generateRCMAnalysis = async (
   contextText: string,
   filesData: FileData[] | null,
   language: string = 'English',
-  existingItems: RCMItem[] = []
+  existingItems: RCMItem[] = [],
+  riskScheme: RiskScheme = DEFAULT_RISK_SCHEME,
+  seedExamples: LibraryEntry[] = []
 ): Promise<RCMItem[]> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
   const fileParts = filesData ? filesData.map(file => ({
     inlineData: {
       data: file.data,
@@ -194,50 +205,54 @@ export const generateRCMAnalysis = async (
     2. Additionally, identify AT LEAST 10 failure modes specifically induced by HUMAN FACTORS (e.g., incorrect installation, improper maintenance procedure, operator oversight, or calibration error).
     3. Ensure a comprehensive breakdown of both Electrical and Mechanical components.
     
-    RIGOROUS RISK SCORING PROTOCOL (RPN):
+    ${describeRiskScheme(riskScheme)}
+
+    RIGOROUS RISK SCORING PROTOCOL:
+    - Use ONLY the scores defined in the scales above.
     - You MUST be conservative and aggressive in risk assessment to ensure the user clearly sees criticality.
-    - Severity (S): Score 9-10 if there is ANY chance of safety or environmental impact. Score 7-8 for significant production loss or major downtime.
-    - Occurrence (O): Be conservative. If a component is complex or operates in harsh environments (as per context), assume a higher likelihood of failure (score 6-9).
-    - Detection (D): Score 8-10 for any failure mode that requires manual inspection or is "hidden". Only score 1-3 if there is continuous, fail-safe automated monitoring.
-    - Resulting RPN scores should be high for critical items to emphasize the need for proactive maintenance.
+    - Severity (S): Use the top scores if there is ANY chance of safety or environmental impact, the next band for significant production loss or major downtime.
+    - Occurrence (O): Be conservative. If a component is complex or operates in harsh environments (as per context), assume a higher likelihood of failure (upper half of the scale).
+    - Detection (D): Use the upper part of the scale for any failure mode that requires manual inspection or is "hidden". Only use the lowest scores if there is continuous, fail-safe automated monitoring.
+    - Resulting risk should be high for critical items to emphasize the need for proactive maintenance.
+
+    ${describeTaxonomy()}
 
-    ISO 14224 Mapping: 'BRD', 'LOP', 'ELP', 'INL', 'VIB', 'OHE', 'STP', 'FTS', 'FTC', 'FTO', 'UST', 'NOI', 'LCP', 'OTH'.
+    ${describeLibraryExamples(seedExamples)}
     
     Exiting items to avoid duplicates: ${JSON.stringify(existingItems.map(i => i.failureMode))}
   `;
 
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-flash-preview',
-    contents: [
-      { 
-        role: 'user', 
-        parts: [
-          ...fileParts,
-          { text: prompt }
-        ] 
-      }
-    ],
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: rcmSchema,
-      temperature: 0.2,
-      thinkingConfig: { thinkingBudget: 0 }
-    },
+  const responseText = await generateText({
+    task: 'rcmAnalysis',
+    parts: [...fileParts, textPart(prompt)],
+    responseSchema: rcmSchema,
+    temperature: 0.2,
+    thinkingBudget: 0
   });
 
-  const parsed = JSON.parse(response.text || "[]") as RCMItem[];
-  return parsed.map(item => ({
-    ...item,
-    id: `rcm-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`,
-    rpn: (item.severity || 1) * (item.occurrence || 1) * (item.detection || 1),
-    isNew: true,
-    isApproved: false
+  // The model returns the interval as free text and the class with its failure mode as one code;
+  // both are parsed into the typed model here
+  const parsed = parseJSONResponse<(Omit<RCMItem, 'interval'> & { interval: string; isoFailureMode?: string })[]>(responseText, []);
+  return normalizeTaxonomy(parsed.map(({ isoFailureMode, ...item }) => {
+    const severity = clampScore(item.severity, riskScheme.severity);
+    const occurrence = clampScore(item.occurrence, riskScheme.occurrence);
+    const detection = clampScore(item.detection, riskScheme.detection);
+    return {
+      ...item,
+      ...splitClassFailureMode(isoFailureMode),
+      interval: toInterval(item.interval),
+      id: `rcm-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`,
+      severity,
+      occurrence,
+      detection,
+      rpn: severity * occurrence * detection,
+      isNew: true,
+      isApproved: false
+    };
   }));
 };
 
 export const extractOperationalContext = async (filesData: FileData[], language: string = 'English'): Promise<string> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
   const fileParts = filesData.map(file => ({
     inlineData: {
       data: file.data,
@@ -259,29 +274,17 @@ export const extractOperationalContext = async (filesData: FileData[], language:
     Format the response as a clear, professional technical summary in ${language}. Do not use bolding or markdown headers.
   `;
 
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-flash-preview',
-    contents: [
-      { 
-        role: 'user', 
-        parts: [
-          ...fileParts,
-          { text: prompt }
-        ] 
-      }
-    ],
-    config: {
-      temperature: 0.1,
-      thinkingConfig: { thinkingBudget: 0 }
-    },
+  const responseText = await generateText({
+    task: 'contextExtraction',
+    parts: [...fileParts, textPart(prompt)],
+    temperature: 0.1,
+    thinkingBudget: 0
   });
 
-  return response.text || "No context extracted.";
+  return responseText || "No context extracted.";
 };
 
 export const generateInspectionSheet = async (item: RCMItem, language: string = 'English'): Promise<InspectionSheet> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
   const prompt = `
     Generate a highly technical field inspection sheet for the following failure mode:
     Component: ${item.component}
@@ -293,44 +296,36 @@ export const generateInspectionSheet = async (item: RCMItem, language: string =
     Output MUST be in ${language}.
   `;
 
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-flash-preview',
-    contents: prompt,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: inspectionSchema,
-      temperature: 0.4
-    },
+  const responseText = await generateText({
+    task: 'inspectionSheet',
+    parts: [textPart(prompt)],
+    responseSchema: inspectionSchema,
+    temperature: 0.4,
+    payload: item
   });
 
-  return JSON.parse(response.text || "{}") as InspectionSheet;
+  return parseJSONResponse<InspectionSheet>(responseText, {} as InspectionSheet);
 };
 
 export const generateComponentIntel = async (componentName: string, language: string = 'English'): Promise<ComponentIntel> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
   const prompt = `
     Provide engineering intelligence for the industrial component: "${componentName}".
     Speak in: ${language}.
     Required: Physical description, typical mounting location, and visual cues for identification.
   `;
 
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-flash-preview',
-    contents: prompt,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: componentIntelSchema,
-      temperature: 0.3
-    }
+  const responseText = await generateText({
+    task: 'componentIntel',
+    parts: [textPart(prompt)],
+    responseSchema: componentIntelSchema,
+    temperature: 0.3,
+    payload: { componentName }
   });
 
-  return JSON.parse(response.text || "{}") as ComponentIntel;
+  return parseJSONResponse<ComponentIntel>(responseText, {} as ComponentIntel);
 };
 
 export const validateRCMAnalysis = async (items: RCMItem[], language: string = 'English'): Promise<{id: string, issues: string[]}[]> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
   const prompt = `
     Review the following RCM analysis for technical logical consistency and adherence to SAE JA1011 standards in ${language}.
     Analysis: ${JSON.stringify(items.map(i => ({ id: i.id, comp: i.component, fm: i.failureMode, task: i.maintenanceTask })))}
@@ -339,22 +334,18 @@ export const validateRCMAnalysis = async (items: RCMItem[], language: string = '
     Output in ${language}.
   `;
 
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-flash-preview',
-    contents: prompt,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: validationSchema,
-      temperature: 0.1
-    }
+  const responseText = await generateText({
+    task: 'validation',
+    parts: [textPart(prompt)],
+    responseSchema: validationSchema,
+    temperature: 0.1,
+    payload: items
   });
 
-  return JSON.parse(response.text || "[]");
+  return parseJSONResponse<{id: string, issues: string[]}[]>(responseText, []);
 };
 
 export const translateRCMAnalysis = async (items: RCMItem[], targetLanguage: string): Promise<RCMItem[]> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
   // Batch processing to avoid token limits
   // Increased batch size to 20 for speed, Flash model has large context
   const BATCH_SIZE = 20;
@@ -374,7 +365,8 @@ export const translateRCMAnalysis = async (items: RCMItem[], targetLanguage: str
         Return the exact same JSON structure, but with all string values translated to ${targetLanguage}.
         
         DO NOT TRANSLATE (Keep English/Original):
-        - id, rpn, severity, occurrence, detection, iso14224Code
+        - id, rpn, severity, occurrence, detection, interval, pfInterval
+        - ISO 14224 codes: equipmentClass, iso14224Code, failureMechanism, failureCause, detectionMethod
         - Enums: criticality, consequenceCategory, functionType, componentType, taskType
         
         TRANSLATE THESE FIELDS:
@@ -384,28 +376,25 @@ export const translateRCMAnalysis = async (items: RCMItem[], targetLanguage: str
         - failureMode
         - failureEffect
         - maintenanceTask
-        - interval
         - componentIntel (description, location, visualCues)
         - inspectionSheet (responsibility, safetyPrecautions, toolsRequired, steps[].description, steps[].criteria, steps[].technique)
         
         Output MUST be a valid JSON array of RCMItems.
       `;
 
-      const response = await ai.models.generateContent({
-        model: 'gemini-3-flash-preview',
-        contents: prompt,
-        config: {
-          responseMimeType: "application/json",
-          responseSchema: rcmSchema,
-          temperature: 0.1,
-          thinkingConfig: { thinkingBudget: 0 } // Disable thinking for speed
-        }
+      const responseText = await generateText({
+        task: 'translateItems',
+        parts: [textPart(prompt)],
+        responseSchema: rcmSchema,
+        temperature: 0.1,
+        thinkingBudget: 0, // Disable thinking for speed
+        payload: chunk
       });
 
-      const parsedChunk = JSON.parse(response.text || "[]") as RCMItem[];
+      const parsedChunk = parseJSONResponse<(RCMItem & { isoFailureMode?: string })[]>(responseText, []);
       
       // Restore metadata for this chunk
-      return parsedChunk.map((item, index) => {
+      return parsedChunk.map(({ isoFailureMode, ...item }, index) => {
         const original = chunk[index];
         return {
           ...item,
@@ -416,7 +405,14 @@ export const translateRCMAnalysis = async (items: RCMItem[], targetLanguage: str
           // Ensure enums are preserved if translation messed them up (fallback)
           criticality: original?.criticality || item.criticality,
           consequenceCategory: original?.consequenceCategory || item.consequenceCategory,
-          iso14224Code: original?.iso14224Code || item.iso14224Code
+          iso14224Code: original?.iso14224Code || item.iso14224Code,
+          equipmentClass: original?.equipmentClass,
+          failureMechanism: original?.failureMechanism,
+          failureCause: original?.failureCause,
+          detectionMethod: original?.detectionMethod,
+          // Intervals are structured and rendered per language, so they are never translated
+          interval: original?.interval || toInterval(item.interval),
+          pfInterval: original?.pfInterval
         };
       });
     } catch (error) {
@@ -431,8 +427,6 @@ export const translateRCMAnalysis = async (items: RCMItem[], targetLanguage: str
 };
 
 export const translateContext = async (text: string, targetLanguage: string): Promise<string> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
   const prompt = `
     Translate the following Operational Context technical description into ${targetLanguage}.
     Maintain professional engineering tone and terminology.
@@ -441,13 +435,12 @@ export const translateContext = async (text: string, targetLanguage: string): Pr
     ${text}
   `;
 
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-flash-preview',
-    contents: prompt,
-    config: {
-      temperature: 0.1
-    }
+  const responseText = await generateText({
+    task: 'translateContext',
+    parts: [textPart(prompt)],
+    temperature: 0.1,
+    payload: text
   });
 
-  return response.text || text;
+  return responseText || text;
 };
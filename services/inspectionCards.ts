@@ -0,0 +1,426 @@
+import { AssetNode, InspectionSheet, RCMItem } from "../types";
+import { A4, A5, PdfBookmark, PdfOp, PdfPage, buildPdf, fitText, textWidth, wrapText } from "./pdf";
+import { resolveAssetReference } from "./assetHierarchy";
+import { formatInterval } from "./intervals";
+import { encodeQr } from "./qr";
+import { InspectionRoute, formatHours } from "./routes";
+
+// Printable field documents. Inspection cards hold one item each, starting on a new page, with a QR code
+// of the item ID on every page; route checklists walk all stops of one inspection route in order. Both
+// share the step checklist, remarks and sign-off blocks.
+
+export type CardSize = 'A4' | 'A5';
+
+export interface InspectionCardInput {
+  studyName: string;
+  items: RCMItem[];
+  assetHierarchy: AssetNode[];
+  language: string;
+  size: CardSize;
+}
+
+export interface RouteChecklistInput {
+  studyName: string;
+  route: InspectionRoute;
+  assetHierarchy: AssetNode[];
+  language: string;
+  size: CardSize;
+}
+
+interface CardLabels {
+  title: string; continued: string; page: string; of: string; itemId: string;
+  floc: string; tag: string; location: string; task: string; interval: string; taskType: string; responsibility: string; duration: string; checkPoint: string;
+  safety: string; tools: string; measurement: string; limits: string; normal: string;
+  step: string; technique: string; criteria: string; reading: string; ok: string; notOk: string; na: string;
+  remarks: string; followUp: string; yes: string; no: string; workOrder: string;
+  performedBy: string; reviewedBy: string; name: string; date: string; time: string; signature: string;
+  routeTitle: string; route: string; stop: string; stops: string; trade: string; totalTime: string; untimed: string;
+}
+
+const CARD_LABELS: Record<string, CardLabels> = {
+  English: {
+    title: "Field Inspection Card", continued: "continued", page: "Page", of: "of", itemId: "ID",
+    floc: "Functional Location", tag: "Asset Tag", location: "Location", task: "Task", interval: "Interval", taskType: "Task Type", responsibility: "Responsibility", duration: "Est. Time", checkPoint: "Check Point",
+    safety: "Safety Precautions", tools: "Tools Required", measurement: "Measurement", limits: "Limits", normal: "Normal Condition",
+    step: "Action Step", technique: "Technique", criteria: "Acceptance Criteria", reading: "Reading", ok: "OK", notOk: "Not OK", na: "N/A",
+    remarks: "Findings / Remarks", followUp: "Follow-up work required", yes: "Yes", no: "No", workOrder: "Work Order No.",
+    performedBy: "Performed by", reviewedBy: "Reviewed by", name: "Name", date: "Date", time: "Time", signature: "Signature",
+    routeTitle: "Inspection Route Checklist", route: "Route", stop: "Stop", stops: "Stops", trade: "Trade", totalTime: "Total Est. Time", untimed: "without estimate"
+  },
+  Spanish: {
+    title: "Tarjeta de Inspección de Campo", continued: "continuación", page: "Página", of: "de", itemId: "ID",
+    floc: "Ubicación técnica", tag: "Etiqueta de activo", location: "Ubicación", task: "Tarea", interval: "Intervalo", taskType: "Tipo de tarea", responsibility: "Responsable", duration: "Tiempo est.", checkPoint: "Punto de control",
+    safety: "Precauciones de seguridad", tools: "Herramientas necesarias", measurement: "Medición", limits: "Límites", normal: "Condición normal",
+    step: "Paso", technique: "Técnica", criteria: "Criterios de aceptación", reading: "Lectura", ok: "OK", notOk: "No OK", na: "N/A",
+    remarks: "Hallazgos / Observaciones", followUp: "Requiere trabajo posterior", yes: "Sí", no: "No", workOrder: "N.º de orden de trabajo",
+    performedBy: "Realizado por", reviewedBy: "Revisado por", name: "Nombre", date: "Fecha", time: "Hora", signature: "Firma",
+    routeTitle: "Lista de Ruta de Inspección", route: "Ruta", stop: "Parada", stops: "Paradas", trade: "Oficio", totalTime: "Tiempo total est.", untimed: "sin estimación"
+  },
+  French: {
+    title: "Fiche d'Inspection Terrain", continued: "suite", page: "Page", of: "sur", itemId: "ID",
+    floc: "Poste technique", tag: "Repère d'équipement", location: "Emplacement", task: "Tâche", interval: "Intervalle", taskType: "Type de tâche", responsibility: "Responsable", duration: "Durée est.", checkPoint: "Point de contrôle",
+    safety: "Consignes de sécurité", tools: "Outillage requis", measurement: "Mesure", limits: "Limites", normal: "État normal",
+    step: "Étape", technique: "Technique", criteria: "Critères d'acceptation", reading: "Relevé", ok: "OK", notOk: "Non OK", na: "S.O.",
+    remarks: "Constats / Remarques", followUp: "Travaux complémentaires requis", yes: "Oui", no: "Non", workOrder: "N° d'ordre de travail",
+    performedBy: "Réalisé par", reviewedBy: "Vérifié par", name: "Nom", date: "Date", time: "Heure", signature: "Signature",
+    routeTitle: "Liste de Tournée d'Inspection", route: "Tournée", stop: "Arrêt", stops: "Arrêts", trade: "Métier", totalTime: "Durée totale est.", untimed: "sans estimation"
+  },
+  German: {
+    title: "Inspektionskarte", continued: "Fortsetzung", page: "Seite", of: "von", itemId: "ID",
+    floc: "Technischer Platz", tag: "Equipment-Nr.", location: "Standort", task: "Aufgabe", interval: "Intervall", taskType: "Aufgabentyp", responsibility: "Verantwortlich", duration: "Geschätzte Zeit", checkPoint: "Prüfpunkt",
+    safety: "Sicherheitsmaßnahmen", tools: "Benötigtes Werkzeug", measurement: "Messung", limits: "Grenzwerte", normal: "Normalzustand",
+    step: "Arbeitsschritt", technique: "Methode", criteria: "Abnahmekriterien", reading: "Messwert", ok: "i.O.", notOk: "n.i.O.", na: "k. A.",
+    remarks: "Befunde / Bemerkungen", followUp: "Folgearbeiten erforderlich", yes: "Ja", no: "Nein", workOrder: "Auftragsnummer",
+    performedBy: "Durchgeführt von", reviewedBy: "Geprüft von", name: "Name", date: "Datum", time: "Uhrzeit", signature: "Unterschrift",
+    routeTitle: "Checkliste Inspektionsrundgang", route: "Rundgang", stop: "Station", stops: "Stationen", trade: "Gewerk", totalTime: "Geschätzte Gesamtzeit", untimed: "ohne Schätzung"
+  },
+  Polish: {
+    title: "Karta Inspekcji Terenowej", continued: "ciąg dalszy", page: "Strona", of: "z", itemId: "ID",
+    floc: "Miejsce instalacji", tag: "Numer urządzenia", location: "Lokalizacja", task: "Zadanie", interval: "Interwał", taskType: "Typ zadania", responsibility: "Odpowiedzialny", duration: "Szac. czas", checkPoint: "Punkt kontrolny",
+    safety: "Środki bezpieczeństwa", tools: "Wymagane narzędzia", measurement: "Pomiar", limits: "Limity", normal: "Stan normalny",
+    step: "Krok", technique: "Technika", criteria: "Kryteria akceptacji", reading: "Odczyt", ok: "OK", notOk: "Nie OK", na: "N/D",
+    remarks: "Ustalenia / Uwagi", followUp: "Wymagane dalsze prace", yes: "Tak", no: "Nie", workOrder: "Nr zlecenia pracy",
+    performedBy: "Wykonał", reviewedBy: "Sprawdził", name: "Imię i nazwisko", date: "Data", time: "Godzina", signature: "Podpis",
+    routeTitle: "Lista Kontrolna Trasy Inspekcji", route: "Trasa", stop: "Punkt", stops: "Punkty", trade: "Branża", totalTime: "Szac. czas łączny", untimed: "bez szacunku"
+  }
+};
+
+const COLORS = {
+  ink: '#0f172a', text: '#334155', muted: '#64748b', rule: '#cbd5e1', panel: '#f1f5f9', accent: '#4f46e5', white: '#ffffff',
+  safetyFill: '#fef2f2', safetyRule: '#fca5a5', safetyInk: '#b91c1c'
+};
+
+const PAGE_SIZES: Record<CardSize, { width: number; height: number }> = { A4, A5 };
+
+/** Items that have an inspection protocol to print. */
+export const hasInspectionCard = (item: RCMItem): boolean => !!item.inspectionSheet?.steps?.length;
+
+// Draws the symbol as runs of dark modules inside a white square with the four-module quiet zone
+const drawQr = (draw: (op: PdfOp) => void, text: string, x: number, y: number, size: number) => {
+  const matrix = encodeQr(text);
+  const moduleSize = size / (matrix.length + 8);
+  draw({ type: 'rect', x, y, width: size, height: size, fill: COLORS.white });
+  matrix.forEach((row, r) => {
+    for (let c = 0; c < row.length; c++) {
+      if (!row[c]) continue;
+      const start = c;
+      while (c + 1 < row.length && row[c + 1]) c++;
+      draw({ type: 'rect', x: x + (start + 4) * moduleSize, y: y + (r + 4) * moduleSize, width: (c - start + 1) * moduleSize, height: moduleSize, fill: COLORS.ink });
+    }
+  });
+};
+
+// Sequential layout over pages of one size; the header callback redraws the page heading whenever
+// content runs onto a new page
+const createSheetLayout = (size: CardSize, labels: CardLabels) => {
+  const page = PAGE_SIZES[size];
+  const compact = size === 'A5';
+  const margin = compact ? 28 : 40;
+  const width = page.width - 2 * margin;
+  const bottom = page.height - (compact ? 34 : 44);
+  const pages: PdfPage[] = [];
+  let ops: PdfOp[] = [];
+  let y = margin;
+  let header: (continued: boolean) => void = () => {};
+  const draw = (op: PdfOp) => ops.push(op);
+
+  const startPage = (continued: boolean) => {
+    ops = [];
+    pages.push({ ops });
+    y = margin;
+    header(continued);
+  };
+  const ensure = (height: number) => {
+    if (y + height > bottom) startPage(true);
+  };
+
+  const label = (text: string, x: number, top: number, maxWidth: number, color: string = COLORS.muted) =>
+    draw({ type: 'text', x, y: top + 6.5, text: fitText(text.toUpperCase(), maxWidth, 6.5, 'bold'), size: 6.5, font: 'bold', color });
+
+  const tickBox = (x: number, top: number, boxSize: number) =>
+    draw({ type: 'rect', x, y: top, width: boxSize, height: boxSize, stroke: COLORS.ink, lineWidth: 0.75 });
+
+  // Dark band with a caption, title and two subtitle lines; the QR code, when given, sits to its right
+  const band = (caption: string, title: string, subtitle: string, qrText?: string) => {
+    const qrSize = compact ? 58 : 72;
+    const bandWidth = qrText ? width - qrSize - 8 : width;
+    draw({ type: 'rect', x: margin, y, width: bandWidth, height: qrSize, fill: COLORS.ink });
+    draw({ type: 'text', x: margin + 10, y: y + 15, text: fitText(caption.toUpperCase(), bandWidth - 20, 7, 'bold'), size: 7, font: 'bold', color: '#a5b4fc' });
+    const titleSize = compact ? 11.5 : 14;
+    draw({ type: 'text', x: margin + 10, y: y + 17 + titleSize, text: fitText(title || '—', bandWidth - 20, titleSize, 'bold'), size: titleSize, font: 'bold', color: COLORS.white });
+    wrapText(subtitle, bandWidth - 20, 8).slice(0, 2).forEach((line, i) =>
+      draw({ type: 'text', x: margin + 10, y: y + 30 + titleSize + i * 10, text: line, size: 8, color: '#cbd5e1' }));
+
+    if (qrText) {
+      const qrX = margin + width - qrSize;
+      draw({ type: 'rect', x: qrX, y, width: qrSize, height: qrSize, stroke: COLORS.rule, lineWidth: 0.5 });
+      drawQr(draw, qrText, qrX + 0.5, y + 0.5, qrSize - 1);
+      y += qrSize + 3;
+      const idText = fitText(`${labels.itemId}: ${qrText}`, width / 2, 6);
+      draw({ type: 'text', x: margin + width - textWidth(idText, 6), y: y + 6, text: idText, size: 6, color: COLORS.muted });
+      y += 12;
+    } else {
+      y += qrSize + 12;
+    }
+  };
+
+  // Label and value pairs, two per row; empty values are left out
+  const fields = (pairs: [string, string][]) => {
+    const shown = pairs.filter(([, value]) => value?.trim());
+    const half = width / 2;
+    for (let i = 0; i < shown.length; i += 2) {
+      const pair = shown.slice(i, i + 2);
+      const cells = pair.map(([, value]) => wrapText(value, half - 12, 8.5).slice(0, 3));
+      const height = 14 + Math.max(...cells.map(lines => lines.length)) * 10.5;
+      ensure(height);
+      pair.forEach(([name], j) => {
+        const x = margin + j * half;
+        draw({ type: 'rect', x, y, width: half, height, stroke: COLORS.rule, lineWidth: 0.5 });
+        label(name, x + 6, y + 4, half - 12);
+        cells[j].forEach((line, l) => draw({ type: 'text', x: x + 6, y: y + 21 + l * 10.5, text: line, size: 8.5, font: j === 0 && i === 0 ? 'bold' : 'regular', color: COLORS.ink }));
+      });
+      y += height;
+    }
+    y += 8;
+  };
+
+  const note = (title: string, value: string | undefined, tone: 'safety' | 'plain' | 'accent') => {
+    if (!value?.trim()) return;
+    const [fill, stroke, titleColor] = tone === 'safety'
+      ? [COLORS.safetyFill, COLORS.safetyRule, COLORS.safetyInk]
+      : tone === 'accent' ? ['#eef2ff', '#a5b4fc', COLORS.accent] : [COLORS.panel, COLORS.rule, COLORS.muted];
+    const lines = wrapText(value, width - 16, 8);
+    const height = 18 + lines.length * 10;
+    ensure(height);
+    draw({ type: 'rect', x: margin, y, width, height, fill, stroke, lineWidth: 0.75 });
+    label(title, margin + 8, y + 5, width - 16, titleColor);
+    lines.forEach((line, i) => draw({ type: 'text', x: margin + 8, y: y + 22 + i * 10, text: line, size: 8, color: COLORS.text }));
+    y += height + 6;
+  };
+
+  // Step checklist: OK / Not OK / N/A tick boxes, plus a reading field on quantitative sheets
+  const steps = (sheet: Pick<InspectionSheet, 'steps' | 'type' | 'criteriaLimits'>) => {
+    const quantitative = sheet.type === 'Quantitative';
+    const boxColumn = Math.max(compact ? 26 : 32, ...[labels.ok, labels.notOk, labels.na].map(l => textWidth(l.toUpperCase(), 6.5, 'bold') + 8));
+    const readingColumn = quantitative ? (compact ? 66 : 90) : 0;
+    const numberColumn = 20;
+    const textColumns = width - numberColumn - readingColumn - 3 * boxColumn;
+    const columns = [
+      { label: '#', width: numberColumn },
+      { label: labels.step, width: textColumns * 0.58 },
+      { label: labels.criteria, width: textColumns * 0.42 },
+      ...(quantitative ? [{ label: labels.reading, width: readingColumn }] : []),
+      { label: labels.ok, width: boxColumn }, { label: labels.notOk, width: boxColumn }, { label: labels.na, width: boxColumn }
+    ];
+    const tableHeader = () => {
+      let x = margin;
+      draw({ type: 'rect', x: margin, y, width, height: 16, fill: COLORS.ink });
+      columns.forEach(column => {
+        draw({ type: 'text', x: x + 4, y: y + 10.5, text: fitText(column.label.toUpperCase(), column.width - 6, 6.5, 'bold'), size: 6.5, font: 'bold', color: COLORS.white });
+        x += column.width;
+      });
+      y += 16;
+    };
+
+    ensure(16 + 30);
+    tableHeader();
+    [...sheet.steps].sort((a, b) => a.step - b.step).forEach(step => {
+      const described = wrapText(step.description || '', columns[1].width - 8, 8);
+      const technique = step.technique ? wrapText(`${labels.technique}: ${step.technique}`, columns[1].width - 8, 7) : [];
+      const criteria = wrapText(step.criteria || '', columns[2].width - 8, 8);
+      const height = Math.max(quantitative ? 34 : 24, 10 + Math.max(described.length * 10 + technique.length * 9, criteria.length * 10));
+      if (y + height > bottom) {
+        startPage(true);
+        tableHeader();
+      }
+      let x = margin;
+      columns.forEach(column => {
+        draw({ type: 'rect', x, y, width: column.width, height, stroke: COLORS.rule, lineWidth: 0.5 });
+        x += column.width;
+      });
+      x = margin;
+      draw({ type: 'text', x: x + 4, y: y + 13, text: String(step.step), size: 8, font: 'bold', color: COLORS.ink });
+      x += columns[0].width;
+      described.forEach((line, i) => draw({ type: 'text', x: x + 4, y: y + 13 + i * 10, text: line, size: 8, color: COLORS.ink }));
+      technique.forEach((line, i) => draw({ type: 'text', x: x + 4, y: y + 13 + described.length * 10 + i * 9, text: line, size: 7, color: COLORS.muted }));
+      x += columns[1].width;
+      criteria.forEach((line, i) => draw({ type: 'text', x: x + 4, y: y + 13 + i * 10, text: line, size: 8, color: COLORS.text }));
+      x += columns[2].width;
+      if (quantitative) {
+        if (sheet.criteriaLimits) draw({ type: 'text', x: x + 4, y: y + 10, text: fitText(sheet.criteriaLimits, readingColumn - 8, 6), size: 6, color: COLORS.muted });
+        draw({ type: 'line', x1: x + 4, y1: y + height - 7, x2: x + readingColumn - 4, y2: y + height - 7, color: COLORS.muted, lineWidth: 0.5, dash: [1.5, 1.5] });
+        x += readingColumn;
+      }
+      for (let i = 0; i < 3; i++) {
+        tickBox(x + (boxColumn - 9) / 2, y + (height - 9) / 2, 9);
+        x += boxColumn;
+      }
+      y += height;
+    });
+    y += 10;
+  };
+
+  // Remarks, the follow-up decision and the sign-off stay together on one page
+  const closing = () => {
+    const lineGap = compact ? 16 : 18;
+    const rowHeight = compact ? 30 : 34;
+    const remarksHeight = 22 + 3 * lineGap;
+    ensure(remarksHeight + 6 + 22 + 2 * rowHeight + 4);
+
+    draw({ type: 'rect', x: margin, y, width, height: remarksHeight, stroke: COLORS.rule, lineWidth: 0.75 });
+    label(labels.remarks, margin + 8, y + 5, width * 0.4);
+    for (let i = 1; i <= 3; i++) {
+      draw({ type: 'line', x1: margin + 8, y1: y + 14 + i * lineGap, x2: margin + width - 8, y2: y + 14 + i * lineGap, color: COLORS.rule, lineWidth: 0.5 });
+    }
+    y += remarksHeight + 6;
+
+    let x = margin;
+    draw({ type: 'text', x, y: y + 8, text: labels.followUp, size: 8, font: 'bold', color: COLORS.ink });
+    x += textWidth(labels.followUp, 8, 'bold') + 10;
+    [labels.yes, labels.no].forEach(option => {
+      tickBox(x, y + 0.5, 9);
+      draw({ type: 'text', x: x + 13, y: y + 8, text: option, size: 8, color: COLORS.text });
+      x += 13 + textWidth(option, 8) + 14;
+    });
+    draw({ type: 'text', x, y: y + 8, text: `${labels.workOrder}:`, size: 8, color: COLORS.text });
+    x += textWidth(`${labels.workOrder}:`, 8) + 4;
+    draw({ type: 'line', x1: x, y1: y + 9, x2: margin + width, y2: y + 9, color: COLORS.muted, lineWidth: 0.5 });
+    y += 22;
+
+    const roleWidth = width * 0.2;
+    const cells = [{ label: labels.name, width: (width - roleWidth) * 0.36 }, { label: labels.date, width: (width - roleWidth) * 0.18 }, { label: labels.time, width: (width - roleWidth) * 0.14 }, { label: labels.signature, width: (width - roleWidth) * 0.32 }];
+    [labels.performedBy, labels.reviewedBy].forEach(role => {
+      draw({ type: 'rect', x: margin, y, width: roleWidth, height: rowHeight, fill: COLORS.panel, stroke: COLORS.rule, lineWidth: 0.5 });
+      wrapText(role, roleWidth - 12, 8, 'bold').slice(0, 2).forEach((line, i) =>
+        draw({ type: 'text', x: margin + 6, y: y + 13 + i * 10, text: line, size: 8, font: 'bold', color: COLORS.ink }));
+      x = margin + roleWidth;
+      cells.forEach(cell => {
+        draw({ type: 'rect', x, y, width: cell.width, height: rowHeight, stroke: COLORS.rule, lineWidth: 0.5 });
+        label(cell.label, x + 5, y + 3, cell.width - 10);
+        x += cell.width;
+      });
+      y += rowHeight;
+    });
+  };
+
+  return {
+    pages, compact, margin, width, draw, ensure, startPage, label, band, fields, note, steps, closing,
+    setHeader: (next: (continued: boolean) => void) => { header = next; },
+    get y() { return y; },
+    set y(value: number) { y = value; }
+  };
+};
+
+type SheetLayout = ReturnType<typeof createSheetLayout>;
+
+const drawCard = (layout: SheetLayout, item: RCMItem, input: InspectionCardInput, labels: CardLabels) => {
+  const sheet = item.inspectionSheet!;
+  const asset = resolveAssetReference(input.assetHierarchy, item.assetNodeId);
+  layout.setHeader(continued => layout.band(continued ? `${labels.title} (${labels.continued})` : labels.title, item.component, item.failureMode || '', item.id));
+  layout.startPage(false);
+  layout.fields([
+    [labels.floc, asset.functionalLocation], [labels.tag, asset.assetTag],
+    [labels.location, item.componentIntel?.location || ''], [labels.checkPoint, sheet.checkPointDescription || ''],
+    [labels.task, item.maintenanceTask], [labels.interval, formatInterval(item.interval, input.language)],
+    [labels.taskType, item.taskType], [labels.responsibility, sheet.responsibility],
+    [labels.duration, sheet.estimatedTime]
+  ]);
+  layout.note(labels.safety, sheet.safetyPrecautions, 'safety');
+  layout.note(labels.tools, sheet.toolsRequired, 'plain');
+  if (sheet.type === 'Quantitative') {
+    layout.note(labels.measurement, [
+      sheet.criteriaLimits ? `${labels.limits}: ${sheet.criteriaLimits}` : '',
+      sheet.normalCondition ? `${labels.normal}: ${sheet.normalCondition}` : ''
+    ].filter(Boolean).join('  ·  '), 'accent');
+  }
+  layout.steps(sheet);
+  layout.closing();
+};
+
+// A route stop: panel with the stop number, component and where to find it, then the item's checklist.
+// Items without an inspection sheet are checked off against their maintenance task. Returns the page the stop starts on.
+const drawStop = (layout: SheetLayout, item: RCMItem, index: number, input: RouteChecklistInput, labels: CardLabels): number => {
+  const { route } = input;
+  const sheet = item.inspectionSheet?.steps?.length
+    ? item.inspectionSheet
+    : { steps: [{ step: 1, description: item.maintenanceTask, criteria: '', technique: '' }] };
+  const asset = resolveAssetReference(input.assetHierarchy, item.assetNodeId);
+  const qrSize = layout.compact ? 40 : 46;
+  const height = qrSize + 8;
+  const textWidthMax = layout.width - qrSize - 24;
+  layout.ensure(height + 6 + 16 + 34);
+
+  const { margin, width } = layout;
+  const page = layout.pages.length - 1;
+  const top = layout.y;
+  layout.draw({ type: 'rect', x: margin, y: top, width, height, fill: COLORS.panel, stroke: COLORS.rule, lineWidth: 0.5 });
+  layout.draw({ type: 'rect', x: margin, y: top, width: 3, height, fill: COLORS.accent });
+  layout.label(`${labels.stop} ${index + 1} / ${route.stops.length}`, margin + 10, top + 5, textWidthMax, COLORS.accent);
+  layout.draw({ type: 'text', x: margin + 10, y: top + 24, text: fitText(`${item.component} – ${item.failureMode}`, textWidthMax, 9.5, 'bold'), size: 9.5, font: 'bold', color: COLORS.ink });
+  const where = [asset.functionalLocation, asset.assetTag, item.componentIntel?.location].filter(Boolean).join('  ·  ');
+  layout.draw({ type: 'text', x: margin + 10, y: top + 36, text: fitText(where, textWidthMax, 7.5), size: 7.5, color: COLORS.text });
+  const task = [item.maintenanceTask, item.inspectionSheet?.estimatedTime].filter(Boolean).join('  ·  ');
+  layout.draw({ type: 'text', x: margin + 10, y: top + 46, text: fitText(task, textWidthMax, 7.5), size: 7.5, color: COLORS.muted });
+  drawQr(layout.draw, item.id, margin + width - qrSize - 4, top + 4, qrSize);
+  layout.y = top + height + 6;
+
+  layout.note(labels.safety, item.inspectionSheet?.safetyPrecautions, 'safety');
+  layout.steps(sheet);
+  return page;
+};
+
+const drawFooter = (page: PdfPage, index: number, total: number, size: CardSize, note: string, labels: CardLabels) => {
+  const pageSize = PAGE_SIZES[size];
+  const margin = size === 'A5' ? 28 : 40;
+  const y = pageSize.height - (size === 'A5' ? 18 : 26);
+  const pageLabel = `${labels.page} ${index + 1} ${labels.of} ${total}`;
+  page.ops.push(
+    { type: 'line', x1: margin, y1: y - 10, x2: pageSize.width - margin, y2: y - 10, color: COLORS.rule },
+    { type: 'text', x: margin, y, text: fitText(note, (pageSize.width - 2 * margin) * 0.65, 7), size: 7, color: COLORS.muted },
+    { type: 'text', x: pageSize.width - margin - textWidth(pageLabel, 7, 'bold'), y, text: pageLabel, size: 7, font: 'bold', color: COLORS.ink }
+  );
+};
+
+/** Builds one PDF holding a card for every item with an inspection sheet, in the order given. */
+export const buildInspectionCards = (input: InspectionCardInput): Uint8Array => {
+  const labels = CARD_LABELS[input.language] || CARD_LABELS['English'];
+  const layout = createSheetLayout(input.size, labels);
+  const bookmarks: PdfBookmark[] = [];
+  input.items.filter(hasInspectionCard).forEach(item => {
+    bookmarks.push({ title: `${item.component} – ${item.failureMode}`, page: layout.pages.length });
+    drawCard(layout, item, input, labels);
+  });
+  layout.pages.forEach((page, index) => drawFooter(page, index, layout.pages.length, input.size, input.studyName || labels.title, labels));
+  return buildPdf(layout.pages, { title: `${labels.title} · ${input.studyName}`, bookmarks, size: PAGE_SIZES[input.size] });
+};
+
+/** Builds the consolidated checklist of one route: summary, every stop in walking order, then one sign-off. */
+export const buildRouteChecklist = (input: RouteChecklistInput): Uint8Array => {
+  const labels = CARD_LABELS[input.language] || CARD_LABELS['English'];
+  const { route } = input;
+  const interval = formatInterval(route.interval, input.language);
+  const totalTime = `${formatHours(route.hours)}${route.untimedStops ? ` (+${route.untimedStops} ${labels.untimed})` : ''}`;
+  const layout = createSheetLayout(input.size, labels);
+  layout.setHeader(continued => layout.band(
+    `${labels.routeTitle} ${route.code}${continued ? ` (${labels.continued})` : ''}`,
+    `${route.trade} · ${route.location}`,
+    `${interval}  ·  ${route.stops.length} ${labels.stops}  ·  ${labels.totalTime}: ${totalTime}`
+  ));
+  layout.startPage(false);
+  layout.fields([
+    [labels.route, route.code], [labels.interval, interval],
+    [labels.trade, route.trade], [labels.location, route.location],
+    [labels.stops, String(route.stops.length)], [labels.totalTime, totalTime]
+  ]);
+
+  const bookmarks: PdfBookmark[] = [];
+  route.stops.forEach((item, index) => {
+    const page = drawStop(layout, item, index, input, labels);
+    bookmarks.push({ title: `${index + 1}. ${item.component} – ${item.failureMode}`, page });
+  });
+  layout.closing();
+
+  const note = `${input.studyName || labels.routeTitle} · ${labels.route} ${route.code}`;
+  layout.pages.forEach((page, index) => drawFooter(page, index, layout.pages.length, input.size, note, labels));
+  return buildPdf(layout.pages, { title: `${labels.routeTitle} ${route.code} · ${input.studyName}`, bookmarks, size: PAGE_SIZES[input.size] });
+};
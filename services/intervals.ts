@@ -0,0 +1,350 @@
+import { RCMItem, MaintenanceInterval, IntervalUnit, IntervalBasis, SavedStudy, TemplateSnapshot } from "../types";
+
+export const INTERVAL_UNITS: IntervalUnit[] = ['hours', 'days', 'weeks', 'months', 'years', 'cycles'];
+export const INTERVAL_BASES: IntervalBasis[] = ['calendar', 'running hours', 'cycles', 'condition-triggered'];
+
+const DAYS_PER_UNIT: Record<Exclude<IntervalUnit, 'cycles'>, number> = {
+  hours: 1 / 24,
+  days: 1,
+  weeks: 7,
+  months: 30.4375,
+  years: 365.25
+};
+
+export const NO_INTERVAL: MaintenanceInterval = { value: 0, unit: 'months', basis: 'calendar' };
+
+// --- Parsing ---
+
+const normalize = (text: string) =>
+  text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/ł/g, 'l').replace(/\s+/g, ' ').trim();
+
+// Unit words in the five study languages, accent-stripped
+const UNIT_WORDS: Record<IntervalUnit, string[]> = {
+  hours: ['h', 'hr', 'hrs', 'hour', 'hours', 'hora', 'horas', 'heure', 'heures', 'stunde', 'stunden', 'std', 'godz', 'godzina', 'godziny', 'godzin'],
+  days: ['d', 'day', 'days', 'dia', 'dias', 'jour', 'jours', 'tag', 'tage', 'tagen', 'dzien', 'dni'],
+  weeks: ['w', 'wk', 'wks', 'week', 'weeks', 'semana', 'semanas', 'semaine', 'semaines', 'woche', 'wochen', 'tydzien', 'tygodnie', 'tygodni'],
+  months: ['m', 'mo', 'mos', 'month', 'months', 'mes', 'meses', 'mois', 'monat', 'monate', 'monaten', 'miesiac', 'miesiace', 'miesiecy'],
+  years: ['y', 'yr', 'yrs', 'year', 'years', 'ano', 'anos', 'an', 'ans', 'annee', 'annees', 'jahr', 'jahre', 'jahren', 'rok', 'lata', 'lat'],
+  cycles: ['cycle', 'cycles', 'ciclo', 'ciclos', 'zyklus', 'zyklen', 'cykl', 'cykle', 'cykli', 'start', 'starts', 'operation', 'operations']
+};
+
+const RUNNING_HOUR_WORDS = ['running hours', 'operating hours', 'run hours', 'rh', 'oh', 'horas de funcionamiento', 'horas de operacion', 'heures de fonctionnement', 'betriebsstunden', 'bh', 'motogodzin', 'motogodziny', 'mth'];
+const CONDITION_WORDS = ['on condition', 'condition based', 'condition-based', 'continuous', 'continuo', 'continua', 'segun condicion', 'segun estado', 'selon etat', 'continu', 'zustandsabhangig', 'kontinuierlich', 'wg stanu', 'ciagly', 'ciagle'];
+
+const KEYWORDS: Record<string, Pick<MaintenanceInterval, 'value' | 'unit'>> = {
+  'hourly': { value: 1, unit: 'hours' },
+  'per shift': { value: 8, unit: 'hours' },
+  'every shift': { value: 8, unit: 'hours' },
+  'daily': { value: 1, unit: 'days' },
+  'weekly': { value: 1, unit: 'weeks' },
+  'fortnightly': { value: 2, unit: 'weeks' },
+  'bi-weekly': { value: 2, unit: 'weeks' },
+  'biweekly': { value: 2, unit: 'weeks' },
+  'monthly': { value: 1, unit: 'months' },
+  'bi-monthly': { value: 2, unit: 'months' },
+  'quarterly': { value: 3, unit: 'months' },
+  'semi-annually': { value: 6, unit: 'months' },
+  'semi-annual': { value: 6, unit: 'months' },
+  'half-yearly': { value: 6, unit: 'months' },
+  'yearly': { value: 1, unit: 'years' },
+  'annually': { value: 1, unit: 'years' },
+  'annual': { value: 1, unit: 'years' },
+  'biennially': { value: 2, unit: 'years' },
+  // Spanish
+  'cada hora': { value: 1, unit: 'hours' },
+  'diario': { value: 1, unit: 'days' },
+  'diaria': { value: 1, unit: 'days' },
+  'semanal': { value: 1, unit: 'weeks' },
+  'quincenal': { value: 2, unit: 'weeks' },
+  'mensual': { value: 1, unit: 'months' },
+  'bimestral': { value: 2, unit: 'months' },
+  'trimestral': { value: 3, unit: 'months' },
+  'semestral': { value: 6, unit: 'months' },
+  'anual': { value: 1, unit: 'years' },
+  'bienal': { value: 2, unit: 'years' },
+  // French
+  'horaire': { value: 1, unit: 'hours' },
+  'quotidien': { value: 1, unit: 'days' },
+  'quotidienne': { value: 1, unit: 'days' },
+  'journalier': { value: 1, unit: 'days' },
+  'hebdomadaire': { value: 1, unit: 'weeks' },
+  'bimensuel': { value: 2, unit: 'weeks' },
+  'mensuel': { value: 1, unit: 'months' },
+  'mensuelle': { value: 1, unit: 'months' },
+  'trimestriel': { value: 3, unit: 'months' },
+  'trimestrielle': { value: 3, unit: 'months' },
+  'semestriel': { value: 6, unit: 'months' },
+  'semestrielle': { value: 6, unit: 'months' },
+  'annuel': { value: 1, unit: 'years' },
+  'annuelle': { value: 1, unit: 'years' },
+  // German
+  'stundlich': { value: 1, unit: 'hours' },
+  'taglich': { value: 1, unit: 'days' },
+  'wochentlich': { value: 1, unit: 'weeks' },
+  'zweiwochentlich': { value: 2, unit: 'weeks' },
+  'monatlich': { value: 1, unit: 'months' },
+  'vierteljahrlich': { value: 3, unit: 'months' },
+  'quartalsweise': { value: 3, unit: 'months' },
+  'halbjahrlich': { value: 6, unit: 'months' },
+  'jahrlich': { value: 1, unit: 'years' },
+  // Polish
+  'co godzine': { value: 1, unit: 'hours' },
+  'codziennie': { value: 1, unit: 'days' },
+  'dziennie': { value: 1, unit: 'days' },
+  'co tydzien': { value: 1, unit: 'weeks' },
+  'tygodniowo': { value: 1, unit: 'weeks' },
+  'co miesiac': { value: 1, unit: 'months' },
+  'miesiecznie': { value: 1, unit: 'months' },
+  'co kwartal': { value: 3, unit: 'months' },
+  'kwartalnie': { value: 3, unit: 'months' },
+  'co pol roku': { value: 6, unit: 'months' },
+  'polrocznie': { value: 6, unit: 'months' },
+  'co rok': { value: 1, unit: 'years' },
+  'corocznie': { value: 1, unit: 'years' },
+  'rocznie': { value: 1, unit: 'years' }
+};
+
+const EVERY_PREFIX = /^(every|each|cada|tous les|toutes les|chaque|alle|jede|jeden|jedes|co)\s+/;
+
+const unitFromWord = (word: string): IntervalUnit | null =>
+  INTERVAL_UNITS.find(unit => UNIT_WORDS[unit].includes(word)) || null;
+
+/**
+ * Parses a free-text interval such as "Monthly", "3 Months", "500h", "Alle 2 Wochen"
+ * or "2000 running hours". Returns null when the text is not a recognizable frequency.
+ */
+export const parseInterval = (text: string): MaintenanceInterval | null => {
+  if (!text) return null;
+  const cleaned = normalize(text.replace(/\([^)]*\)/g, ''));
+  if (!cleaned) return null;
+
+  if (CONDITION_WORDS.includes(cleaned)) return { value: 0, unit: 'days', basis: 'condition-triggered' };
+  if (KEYWORDS[cleaned]) return { ...KEYWORDS[cleaned], basis: 'calendar' };
+
+  const withoutPrefix = cleaned.replace(EVERY_PREFIX, '');
+  const match = withoutPrefix.match(/^(\d+(?:[.,]\d+)?)\s*-?\s*(.+)$/);
+  if (!match) {
+    // "every month", "cada semana"
+    const unit = unitFromWord(withoutPrefix);
+    return unit && withoutPrefix !== cleaned ? { value: 1, unit, basis: unit === 'cycles' ? 'cycles' : 'calendar' } : null;
+  }
+
+  const value = parseFloat(match[1].replace(',', '.'));
+  const unitText = match[2].trim();
+  if (!(value > 0)) return null;
+
+  if (RUNNING_HOUR_WORDS.includes(unitText)) return { value, unit: 'hours', basis: 'running hours' };
+  const unit = unitFromWord(unitText);
+  if (!unit) return null;
+  return { value, unit, basis: unit === 'cycles' ? 'cycles' : 'calendar' };
+};
+
+// Legacy placeholders written for one-off tasks that have no recurring interval
+const PLACEHOLDERS = ['n/a', 'na', '-', 'none', 'one-time', 'once', 'k. a.', 'n/d', 's.o.'];
+
+const isInterval = (value: unknown): value is MaintenanceInterval =>
+  !!value && typeof value === 'object' && typeof (value as MaintenanceInterval).value === 'number';
+
+/**
+ * Migrates a stored interval (legacy string or typed) to the typed model.
+ * Text that cannot be parsed is kept in `note` so nothing the analyst wrote is lost.
+ */
+export const toInterval = (value: unknown): MaintenanceInterval => {
+  if (isInterval(value)) return value;
+  if (typeof value !== 'string' || !value.trim() || PLACEHOLDERS.includes(normalize(value))) return { ...NO_INTERVAL };
+  return parseInterval(value) || { ...NO_INTERVAL, note: value.trim() };
+};
+
+export const toOptionalInterval = (value: unknown): MaintenanceInterval | undefined =>
+  value === undefined || value === null || value === '' ? undefined : toInterval(value);
+
+export const isScheduled = (interval: MaintenanceInterval): boolean =>
+  interval.basis !== 'condition-triggered' && interval.value > 0;
+
+export const isUnparsedInterval = (interval: MaintenanceInterval): boolean =>
+  !!interval.note && interval.value === 0;
+
+/** Units that make sense on a basis: running hours are counted in hours and cycles in cycles. */
+export const unitsForBasis = (basis: IntervalBasis): IntervalUnit[] =>
+  basis === 'running hours' ? ['hours'] : basis === 'cycles' ? ['cycles'] : INTERVAL_UNITS.filter(unit => unit !== 'cycles');
+
+/** Moves an interval onto another basis; calendar lengths become running hours on the 24-hour clock. */
+export const withBasis = (interval: MaintenanceInterval, basis: IntervalBasis): MaintenanceInterval => {
+  const units = unitsForBasis(basis);
+  if (units.includes(interval.unit)) return { ...interval, basis };
+  if (basis === 'running hours' && interval.unit !== 'cycles') {
+    return { ...interval, value: Math.max(1, Math.round(interval.value * DAYS_PER_UNIT[interval.unit] * 24)), unit: 'hours', basis };
+  }
+  return { ...interval, unit: basis === 'cycles' ? 'cycles' : 'months', basis };
+};
+
+// --- Arithmetic ---
+
+/**
+ * Calendar-equivalent length in days. Running hours are converted with the given
+ * utilisation and cycles with the given daily cycle rate; returns null when that
+ * cannot be done (condition-triggered, unscheduled, or cycles without a rate).
+ */
+export const intervalToDays = (interval: MaintenanceInterval, hoursPerDay: number = 24, cyclesPerDay?: number): number | null => {
+  if (!isScheduled(interval)) return null;
+  if (interval.unit === 'cycles') return cyclesPerDay ? interval.value / cyclesPerDay : null;
+  if (interval.basis === 'running hours') return interval.value * DAYS_PER_UNIT[interval.unit] * 24 / hoursPerDay;
+  return interval.value * DAYS_PER_UNIT[interval.unit];
+};
+
+export const occurrencesPerYear = (interval: MaintenanceInterval, hoursPerDay?: number, cyclesPerDay?: number): number => {
+  const days = intervalToDays(interval, hoursPerDay, cyclesPerDay);
+  return days ? 365.25 / days : 0;
+};
+
+export const intervalFromDays = (days: number, unit: Exclude<IntervalUnit, 'cycles'>): MaintenanceInterval => ({
+  value: Math.max(1, Math.round(days / DAYS_PER_UNIT[unit])),
+  unit,
+  basis: 'calendar'
+});
+
+const SMALLER_UNIT: Partial<Record<IntervalUnit, IntervalUnit>> = { years: 'months', months: 'weeks', weeks: 'days', days: 'hours' };
+
+/**
+ * Scales an interval by a fraction, rounding down so the result never exceeds it
+ * (e.g. half a P-F interval). Steps down to a smaller unit when the value drops below one.
+ */
+export const scaleInterval = (interval: MaintenanceInterval, fraction: number): MaintenanceInterval => {
+  let { value, unit } = interval;
+  value *= fraction;
+  while (value < 1 && SMALLER_UNIT[unit] && interval.basis === 'calendar') {
+    const next = SMALLER_UNIT[unit]!;
+    value = value * DAYS_PER_UNIT[unit as Exclude<IntervalUnit, 'cycles'>] / DAYS_PER_UNIT[next as Exclude<IntervalUnit, 'cycles'>];
+    unit = next;
+  }
+  return { value: Math.max(1, Math.floor(value)), unit, basis: interval.basis };
+};
+
+// Orders shortest first; condition-triggered and unscheduled intervals sort last
+export const compareIntervals = (a: MaintenanceInterval, b: MaintenanceInterval): number => {
+  const da = intervalToDays(a) ?? (a.unit === 'cycles' && isScheduled(a) ? Number.MAX_SAFE_INTEGER - 2 : Number.MAX_SAFE_INTEGER);
+  const db = intervalToDays(b) ?? (b.unit === 'cycles' && isScheduled(b) ? Number.MAX_SAFE_INTEGER - 2 : Number.MAX_SAFE_INTEGER);
+  if (da !== db) return da - db;
+  return a.value - b.value;
+};
+
+// Inspection durations such as "30m", "1.5h", "2 hours", "45 min"
+export const parseDurationHours = (text: string = ''): number => {
+  const cleaned = normalize(text);
+  let hours = 0;
+  const pattern = /(\d+(?:[.,]\d+)?)\s*(h|hr|hrs|hours?|horas?|heures?|std|stunden?|godz\w*|m|min|mins|minutes?|minutos?|minuten?|minut\w*)\b/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(cleaned)) !== null) {
+    const value = parseFloat(match[1].replace(',', '.'));
+    hours += match[2].startsWith('m') ? value / 60 : value;
+  }
+  return hours;
+};
+
+// --- Formatting ---
+
+interface IntervalLabels {
+  units: Record<IntervalUnit, [string, string]>;
+  every: Partial<Record<IntervalUnit, string>>;
+  runningHours: string;
+  condition: string;
+  none: string;
+  bases: Record<IntervalBasis, string>;
+}
+
+const LABELS: Record<string, IntervalLabels> = {
+  English: {
+    units: { hours: ['Hour', 'Hours'], days: ['Day', 'Days'], weeks: ['Week', 'Weeks'], months: ['Month', 'Months'], years: ['Year', 'Years'], cycles: ['Cycle', 'Cycles'] },
+    every: { hours: 'Hourly', days: 'Daily', weeks: 'Weekly', months: 'Monthly', years: 'Yearly' },
+    runningHours: 'Running Hours',
+    condition: 'On Condition',
+    none: 'N/A',
+    bases: { 'calendar': 'Calendar', 'running hours': 'Running Hours', 'cycles': 'Cycles', 'condition-triggered': 'Condition-Triggered' }
+  },
+  Spanish: {
+    units: { hours: ['Hora', 'Horas'], days: ['Día', 'Días'], weeks: ['Semana', 'Semanas'], months: ['Mes', 'Meses'], years: ['Año', 'Años'], cycles: ['Ciclo', 'Ciclos'] },
+    every: { hours: 'Cada Hora', days: 'Diario', weeks: 'Semanal', months: 'Mensual', years: 'Anual' },
+    runningHours: 'Horas de Funcionamiento',
+    condition: 'Según Condición',
+    none: 'N/A',
+    bases: { 'calendar': 'Calendario', 'running hours': 'Horas de Funcionamiento', 'cycles': 'Ciclos', 'condition-triggered': 'Según Condición' }
+  },
+  French: {
+    units: { hours: ['Heure', 'Heures'], days: ['Jour', 'Jours'], weeks: ['Semaine', 'Semaines'], months: ['Mois', 'Mois'], years: ['An', 'Ans'], cycles: ['Cycle', 'Cycles'] },
+    every: { hours: 'Horaire', days: 'Quotidien', weeks: 'Hebdomadaire', months: 'Mensuel', years: 'Annuel' },
+    runningHours: 'Heures de Fonctionnement',
+    condition: 'Selon État',
+    none: 'S.O.',
+    bases: { 'calendar': 'Calendaire', 'running hours': 'Heures de Fonctionnement', 'cycles': 'Cycles', 'condition-triggered': 'Selon État' }
+  },
+  German: {
+    units: { hours: ['Stunde', 'Stunden'], days: ['Tag', 'Tage'], weeks: ['Woche', 'Wochen'], months: ['Monat', 'Monate'], years: ['Jahr', 'Jahre'], cycles: ['Zyklus', 'Zyklen'] },
+    every: { hours: 'Stündlich', days: 'Täglich', weeks: 'Wöchentlich', months: 'Monatlich', years: 'Jährlich' },
+    runningHours: 'Betriebsstunden',
+    condition: 'Zustandsabhängig',
+    none: 'k. A.',
+    bases: { 'calendar': 'Kalender', 'running hours': 'Betriebsstunden', 'cycles': 'Zyklen', 'condition-triggered': 'Zustandsabhängig' }
+  },
+  Polish: {
+    units: { hours: ['Godzina', 'Godzin'], days: ['Dzień', 'Dni'], weeks: ['Tydzień', 'Tygodni'], months: ['Miesiąc', 'Miesięcy'], years: ['Rok', 'Lat'], cycles: ['Cykl', 'Cykli'] },
+    every: { hours: 'Co Godzinę', days: 'Codziennie', weeks: 'Co Tydzień', months: 'Co Miesiąc', years: 'Co Rok' },
+    runningHours: 'Motogodzin',
+    condition: 'Wg Stanu',
+    none: 'N/D',
+    bases: { 'calendar': 'Kalendarz', 'running hours': 'Motogodziny', 'cycles': 'Cykle', 'condition-triggered': 'Wg Stanu' }
+  }
+};
+
+// Polish uses a separate plural form for 2-4 (except 12-14)
+const POLISH_FEW: Record<IntervalUnit, string> = { hours: 'Godziny', days: 'Dni', weeks: 'Tygodnie', months: 'Miesiące', years: 'Lata', cycles: 'Cykle' };
+
+const labelsFor = (language: string) => LABELS[language] || LABELS.English;
+
+const unitLabel = (value: number, unit: IntervalUnit, language: string): string => {
+  const [singular, plural] = labelsFor(language).units[unit];
+  if (value === 1) return singular;
+  if (language === 'Polish' && Number.isInteger(value) && [2, 3, 4].includes(value % 10) && ![12, 13, 14].includes(value % 100)) {
+    return POLISH_FEW[unit];
+  }
+  return plural;
+};
+
+const formatNumber = (value: number) => Number.isInteger(value) ? String(value) : value.toFixed(1);
+
+export const formatInterval = (interval: MaintenanceInterval | undefined, language: string = 'English'): string => {
+  const labels = labelsFor(language);
+  if (!interval) return labels.none;
+  if (interval.basis === 'condition-triggered') return labels.condition;
+  if (interval.value <= 0) return interval.note || labels.none;
+  if (interval.basis === 'running hours') return `${formatNumber(interval.value)} ${language === 'Polish' && interval.value === 1 ? 'Motogodzina' : labels.runningHours}`;
+  if (interval.value === 1 && labels.every[interval.unit]) return labels.every[interval.unit]!;
+  return `${formatNumber(interval.value)} ${unitLabel(interval.value, interval.unit, language)}`;
+};
+
+export const formatIntervalBasis = (basis: IntervalBasis, language: string = 'English'): string => labelsFor(language).bases[basis];
+
+export const formatIntervalUnit = (unit: IntervalUnit, language: string = 'English'): string => labelsFor(language).units[unit][1];
+
+export const migrateIntervals = (items: RCMItem[]): RCMItem[] =>
+  items.map(item => item ? { ...item, interval: toInterval(item.interval), pfInterval: toOptionalInterval(item.pfInterval) } : item);
+
+const migrateSnapshot = (snapshot: TemplateSnapshot): TemplateSnapshot => ({ ...snapshot, items: migrateIntervals(snapshot.items || []) });
+
+// Studies are migrated as they are read from storage, so every reader sees typed intervals,
+// including the template states a fleet instance keeps
+export const migrateStudyIntervals = (study: SavedStudy): SavedStudy => ({
+  ...study,
+  items: migrateIntervals(study.items || []),
+  template: study.template && {
+    ...study.template,
+    baseline: migrateSnapshot(study.template.baseline),
+    proposal: study.template.proposal && migrateSnapshot(study.template.proposal)
+  }
+});
+
+// Annual inspection hours: task duration from the inspection sheet times executions per year
+export const inspectionWorkloadHours = (items: RCMItem[], hoursPerDay?: number): number =>
+  items.reduce((total, item) => {
+    if (!item?.inspectionSheet || !item.interval) return total;
+    return total + parseDurationHours(item.inspectionSheet.estimatedTime) * occurrencesPerYear(item.interval, hoursPerDay);
+  }, 0);
@@ -0,0 +1,234 @@
+import { RCMItem } from "../types";
+
+// ISO 14224 reference tables (equipment classes from Annex A, failure data codes from Annex B),
+// bundled locally so pickers, prompts and rule checks all read the same lists.
+
+export interface TaxonomyEntry {
+  code: string;
+  label: string;
+}
+
+export type EquipmentCategory = 'Rotating' | 'Mechanical' | 'Electrical' | 'Safety and Control';
+
+export interface EquipmentClass extends TaxonomyEntry {
+  category: EquipmentCategory;
+  failureModes: string[];
+}
+
+export const FAILURE_MODES: TaxonomyEntry[] = [
+  { code: 'AIR', label: 'Abnormal instrument reading' },
+  { code: 'BRD', label: 'Breakdown' },
+  { code: 'DOP', label: 'Delayed operation' },
+  { code: 'ELF', label: 'External leakage – fuel' },
+  { code: 'ELP', label: 'External leakage – process medium' },
+  { code: 'ELU', label: 'External leakage – utility medium' },
+  { code: 'ERO', label: 'Erratic output' },
+  { code: 'FOF', label: 'Faulty output frequency' },
+  { code: 'FOV', label: 'Faulty output voltage' },
+  { code: 'FTC', label: 'Fail to close on demand' },
+  { code: 'FTF', label: 'Fail to function on demand' },
+  { code: 'FTO', label: 'Fail to open on demand' },
+  { code: 'FTS', label: 'Fail to start on demand' },
+  { code: 'HIO', label: 'High output' },
+  { code: 'IHT', label: 'Insufficient heat transfer' },
+  { code: 'INL', label: 'Internal leakage' },
+  { code: 'LCP', label: 'Leakage in closed position' },
+  { code: 'LOA', label: 'Load drop' },
+  { code: 'LOO', label: 'Low output' },
+  { code: 'NOI', label: 'Noise' },
+  { code: 'NOO', label: 'No output' },
+  { code: 'OHE', label: 'Overheating' },
+  { code: 'PDE', label: 'Parameter deviation' },
+  { code: 'PLU', label: 'Plugged / choked' },
+  { code: 'SER', label: 'Minor in-service problems' },
+  { code: 'SHH', label: 'Spurious high alarm level' },
+  { code: 'SLL', label: 'Spurious low alarm level' },
+  { code: 'SPO', label: 'Spurious operation' },
+  { code: 'STD', label: 'Structural deficiency' },
+  { code: 'STP', label: 'Fail to stop on demand' },
+  { code: 'UST', label: 'Spurious stop' },
+  { code: 'VIB', label: 'Vibration' },
+  { code: 'OTH', label: 'Other' },
+  { code: 'UNK', label: 'Unknown' }
+];
+
+// Every class accepts these in addition to its own list
+const COMMON_MODES = ['OTH', 'UNK'];
+
+const ROTATING_MODES = ['AIR', 'BRD', 'ELP', 'ELU', 'ERO', 'FTS', 'HIO', 'INL', 'LOO', 'NOI', 'OHE', 'PDE', 'PLU', 'SER', 'STD', 'STP', 'UST', 'VIB'];
+const STATIC_MODES = ['AIR', 'ELP', 'ELU', 'INL', 'PDE', 'PLU', 'SER', 'STD'];
+const LIFTING_MODES = ['BRD', 'DOP', 'ERO', 'FTS', 'LOA', 'NOI', 'OHE', 'SER', 'SPO', 'STD', 'STP', 'UST', 'VIB'];
+const SENSOR_MODES = ['ERO', 'FTF', 'HIO', 'LOO', 'NOO', 'SER', 'SHH', 'SLL', 'SPO', 'STD'];
+
+export const EQUIPMENT_CLASSES: EquipmentClass[] = [
+  { code: 'CE', label: 'Combustion engines', category: 'Rotating', failureModes: ['AIR', 'BRD', 'ELF', 'ELU', 'ERO', 'FTS', 'LOO', 'NOI', 'OHE', 'PDE', 'PLU', 'SER', 'STD', 'STP', 'UST', 'VIB'] },
+  { code: 'CO', label: 'Compressors', category: 'Rotating', failureModes: ROTATING_MODES },
+  { code: 'EG', label: 'Electric generators', category: 'Rotating', failureModes: ['AIR', 'BRD', 'ELU', 'ERO', 'FOF', 'FOV', 'FTS', 'LOO', 'NOI', 'OHE', 'SER', 'STD', 'STP', 'UST', 'VIB'] },
+  { code: 'EM', label: 'Electric motors', category: 'Rotating', failureModes: ['AIR', 'BRD', 'ELU', 'ERO', 'FTS', 'LOO', 'NOI', 'OHE', 'PDE', 'SER', 'STD', 'STP', 'UST', 'VIB'] },
+  { code: 'GT', label: 'Gas turbines', category: 'Rotating', failureModes: [...ROTATING_MODES, 'ELF'] },
+  { code: 'PU', label: 'Pumps', category: 'Rotating', failureModes: ROTATING_MODES },
+  { code: 'ST', label: 'Steam turbines', category: 'Rotating', failureModes: ROTATING_MODES.filter(c => c !== 'PLU') },
+  { code: 'TE', label: 'Turboexpanders', category: 'Rotating', failureModes: ROTATING_MODES.filter(c => c !== 'HIO') },
+  { code: 'CR', label: 'Cranes', category: 'Mechanical', failureModes: LIFTING_MODES },
+  { code: 'HE', label: 'Heat exchangers', category: 'Mechanical', failureModes: [...STATIC_MODES, 'IHT'] },
+  { code: 'HB', label: 'Heaters and boilers', category: 'Mechanical', failureModes: [...STATIC_MODES, 'BRD', 'IHT', 'OHE'] },
+  { code: 'VE', label: 'Vessels', category: 'Mechanical', failureModes: STATIC_MODES },
+  { code: 'PI', label: 'Piping', category: 'Mechanical', failureModes: STATIC_MODES },
+  { code: 'TA', label: 'Storage tanks', category: 'Mechanical', failureModes: STATIC_MODES },
+  { code: 'WI', label: 'Winches', category: 'Mechanical', failureModes: LIFTING_MODES },
+  { code: 'PT', label: 'Power transformers', category: 'Electrical', failureModes: ['BRD', 'ELU', 'FOV', 'INL', 'NOO', 'OHE', 'PDE', 'SER', 'STD', 'UST'] },
+  { code: 'SG', label: 'Switchgear', category: 'Electrical', failureModes: ['AIR', 'BRD', 'FTC', 'FTO', 'NOO', 'OHE', 'SER', 'SPO', 'STD', 'UST'] },
+  { code: 'FC', label: 'Frequency converters', category: 'Electrical', failureModes: ['BRD', 'ERO', 'FOF', 'FOV', 'FTS', 'NOO', 'OHE', 'SER', 'SPO', 'STD', 'STP', 'UST'] },
+  { code: 'UP', label: 'Uninterruptible power supply', category: 'Electrical', failureModes: ['BRD', 'ERO', 'FOF', 'FOV', 'NOO', 'OHE', 'SER', 'SPO', 'STD', 'UST'] },
+  { code: 'FG', label: 'Fire and gas detectors', category: 'Safety and Control', failureModes: SENSOR_MODES },
+  { code: 'IP', label: 'Input devices', category: 'Safety and Control', failureModes: SENSOR_MODES },
+  { code: 'CL', label: 'Control logic units', category: 'Safety and Control', failureModes: ['ERO', 'FTF', 'NOO', 'SER', 'SPO', 'STD'] },
+  { code: 'VA', label: 'Valves', category: 'Safety and Control', failureModes: ['AIR', 'DOP', 'ELP', 'ELU', 'FTC', 'FTO', 'INL', 'LCP', 'NOI', 'OHE', 'PLU', 'SER', 'SPO', 'STD', 'VIB'] },
+  { code: 'NO', label: 'Nozzles', category: 'Safety and Control', failureModes: ['ELP', 'FTF', 'PLU', 'SER', 'SPO', 'STD'] }
+];
+
+export const FAILURE_MECHANISMS: TaxonomyEntry[] = [
+  { code: '1.0', label: 'Mechanical failure – general' },
+  { code: '1.1', label: 'Leakage' },
+  { code: '1.2', label: 'Vibration' },
+  { code: '1.3', label: 'Clearance / alignment failure' },
+  { code: '1.4', label: 'Deformation' },
+  { code: '1.5', label: 'Looseness' },
+  { code: '1.6', label: 'Sticking' },
+  { code: '2.0', label: 'Material failure – general' },
+  { code: '2.1', label: 'Cavitation' },
+  { code: '2.2', label: 'Corrosion' },
+  { code: '2.3', label: 'Erosion' },
+  { code: '2.4', label: 'Wear' },
+  { code: '2.5', label: 'Breakage' },
+  { code: '2.6', label: 'Fatigue' },
+  { code: '2.7', label: 'Overheating' },
+  { code: '2.8', label: 'Burst' },
+  { code: '3.0', label: 'Instrument failure – general' },
+  { code: '3.1', label: 'Control failure' },
+  { code: '3.2', label: 'No signal / indication / alarm' },
+  { code: '3.3', label: 'Faulty signal / indication / alarm' },
+  { code: '3.4', label: 'Out of adjustment' },
+  { code: '3.5', label: 'Software failure' },
+  { code: '3.6', label: 'Common cause / mode failure' },
+  { code: '4.0', label: 'Electrical failure – general' },
+  { code: '4.1', label: 'Short circuiting' },
+  { code: '4.2', label: 'Open circuit' },
+  { code: '4.3', label: 'No power / voltage' },
+  { code: '4.4', label: 'Faulty power / voltage' },
+  { code: '4.5', label: 'Earth / isolation fault' },
+  { code: '5.0', label: 'External influence – general' },
+  { code: '5.1', label: 'Blockage / plugged' },
+  { code: '5.2', label: 'Contamination' },
+  { code: '5.3', label: 'Miscellaneous external influences' },
+  { code: '6.0', label: 'Miscellaneous – general' },
+  { code: '6.1', label: 'No cause found' },
+  { code: '6.2', label: 'Combined causes' },
+  { code: '6.3', label: 'Other' },
+  { code: '6.4', label: 'Unknown' }
+];
+
+export const FAILURE_CAUSES: TaxonomyEntry[] = [
+  { code: '1.0', label: 'Design-related – general' },
+  { code: '1.1', label: 'Improper capacity' },
+  { code: '1.2', label: 'Improper material' },
+  { code: '2.0', label: 'Fabrication / installation – general' },
+  { code: '2.1', label: 'Fabrication error' },
+  { code: '2.2', label: 'Installation error' },
+  { code: '3.0', label: 'Operation / maintenance – general' },
+  { code: '3.1', label: 'Off-design service' },
+  { code: '3.2', label: 'Operating error' },
+  { code: '3.3', label: 'Maintenance error' },
+  { code: '3.4', label: 'Expected wear and tear' },
+  { code: '4.0', label: 'Management – general' },
+  { code: '4.1', label: 'Documentation error' },
+  { code: '4.2', label: 'Management error' },
+  { code: '5.0', label: 'Miscellaneous – general' },
+  { code: '5.1', label: 'No cause found' },
+  { code: '5.2', label: 'Common cause' },
+  { code: '5.3', label: 'Combined causes' },
+  { code: '5.4', label: 'Other unit / cascading failure' },
+  { code: '5.5', label: 'Other' },
+  { code: '5.6', label: 'Unknown' }
+];
+
+export const DETECTION_METHODS: TaxonomyEntry[] = [
+  { code: '1', label: 'Periodic maintenance' },
+  { code: '2', label: 'Functional testing' },
+  { code: '3', label: 'Inspection' },
+  { code: '4', label: 'Periodic condition monitoring' },
+  { code: '5', label: 'Pressure testing' },
+  { code: '6', label: 'Continuous condition monitoring' },
+  { code: '7', label: 'Production interference' },
+  { code: '8', label: 'Casual observation' },
+  { code: '9', label: 'Corrective maintenance' },
+  { code: '10', label: 'On demand' },
+  { code: '11', label: 'Other' }
+];
+
+export const ISO_14224_CODES = FAILURE_MODES.map(m => m.code);
+export const EQUIPMENT_CLASS_CODES = EQUIPMENT_CLASSES.map(c => c.code);
+export const FAILURE_MECHANISM_CODES = FAILURE_MECHANISMS.map(m => m.code);
+export const FAILURE_CAUSE_CODES = FAILURE_CAUSES.map(c => c.code);
+export const DETECTION_METHOD_CODES = DETECTION_METHODS.map(d => d.code);
+
+// Codes from the earlier shortlist that are not ISO 14224 failure modes
+const LEGACY_FAILURE_MODES: Record<string, string> = { LOP: 'LOO' };
+
+export const equipmentClassOf = (code?: string): EquipmentClass | undefined =>
+  EQUIPMENT_CLASSES.find(c => c.code === code);
+
+/** Failure modes allowed for the class; all modes when the class is not set. */
+export const failureModesForClass = (classCode?: string): TaxonomyEntry[] => {
+  const equipmentClass = equipmentClassOf(classCode);
+  if (!equipmentClass) return FAILURE_MODES;
+  const allowed = new Set([...equipmentClass.failureModes, ...COMMON_MODES]);
+  return FAILURE_MODES.filter(m => allowed.has(m.code));
+};
+
+export const isValidFailureMode = (code: string, classCode?: string): boolean =>
+  failureModesForClass(classCode).some(m => m.code === code);
+
+// Class and failure mode as one "PU/VIB" code, so a response schema enum only offers the modes each class allows
+export const CLASS_FAILURE_MODE_CODES = EQUIPMENT_CLASSES.flatMap(c => failureModesForClass(c.code).map(m => `${c.code}/${m.code}`));
+
+export const splitClassFailureMode = (code?: string): { equipmentClass?: string; iso14224Code: string } => {
+  const [equipmentClass, iso14224Code] = (code || '').split('/');
+  return iso14224Code === undefined ? { iso14224Code: equipmentClass } : { equipmentClass: equipmentClass || undefined, iso14224Code };
+};
+
+export const taxonomyLabel = (table: TaxonomyEntry[], code?: string): string =>
+  table.find(e => e.code === code)?.label || '';
+
+// "2.4 Wear" style text for tables and exports
+export const formatTaxonomy = (table: TaxonomyEntry[], code?: string): string => {
+  const label = taxonomyLabel(table, code);
+  return code ? (label ? `${code} ${label}` : code) : '';
+};
+
+// Studies saved before the full taxonomy used a shortlist of failure mode codes. Unknown classes are
+// dropped and a mode the class does not allow is cleared, so the rule check asks for a valid one.
+export const normalizeTaxonomy = (items: RCMItem[]): RCMItem[] =>
+  items.map(item => {
+    if (!item) return item;
+    const equipmentClass = equipmentClassOf(item.equipmentClass)?.code;
+    const code = (item.iso14224Code || '').trim().toUpperCase();
+    const mapped = LEGACY_FAILURE_MODES[code] || code;
+    const iso14224Code = isValidFailureMode(mapped, equipmentClass) ? mapped : '';
+    return iso14224Code === item.iso14224Code && equipmentClass === item.equipmentClass ? item : { ...item, equipmentClass, iso14224Code };
+  });
+
+const describeTable = (name: string, table: TaxonomyEntry[]) =>
+  `${name}:\n${table.map(e => `      ${e.code} = ${e.label}`).join('\n')}`;
+
+// Code tables for generation prompts
+export const describeTaxonomy = (): string => [
+  'ISO 14224 CODING: every failure mode is coded against the equipment class of the equipment unit it belongs to.',
+  '    Equipment class: pick the class of the parent equipment unit (not the maintainable item).',
+  '    Failure mode: chosen ONLY from the codes allowed for that class:',
+  ...EQUIPMENT_CLASSES.map(c => `      ${c.code} (${c.label}): ${[...c.failureModes, ...COMMON_MODES].join(', ')}`),
+  `    ${describeTable('Failure mode codes', FAILURE_MODES)}`,
+  `    ${describeTable('failureMechanism (how the item failed)', FAILURE_MECHANISMS)}`,
+  `    ${describeTable('failureCause (why it failed; human factors map to 2.2, 3.2, 3.3 and 4.1)', FAILURE_CAUSES)}`,
+  `    ${describeTable('detectionMethod (how the failure is found)', DETECTION_METHODS)}`
+].join('\n');
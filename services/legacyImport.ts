@@ -0,0 +1,317 @@
+import { ConsequenceCategory, FunctionType, RCMItem, RiskScheme, TaskType } from "../types";
+import { TASK_TYPES } from "./decisionLogic";
+import { clampScore, scaleMax } from "./riskScheme";
+import { isUnparsedInterval, toInterval, toOptionalInterval } from "./intervals";
+import { normalizeTaxonomy } from "./iso14224";
+
+// Import of legacy FMEA worksheets (CSV or XLSX). Nothing here touches storage: the rows are parsed
+// into a preview first, and only the rows without errors are handed back to the study.
+
+export type ImportFieldKey =
+  | 'function' | 'functionalFailure' | 'functionType' | 'component' | 'componentType'
+  | 'failureMode' | 'failureEffect' | 'consequenceCategory' | 'iso14224Code' | 'equipmentClass'
+  | 'failureMechanism' | 'failureCause' | 'detectionMethod'
+  | 'severity' | 'occurrence' | 'detection'
+  | 'maintenanceTask' | 'taskType' | 'interval' | 'pfInterval';
+
+export interface ImportField {
+  key: ImportFieldKey;
+  label: string;
+  aliases: string[]; // Normalized header spellings, English first
+  required?: boolean;
+  fillDown?: boolean; // Grouping column, often merged or left blank below its first row
+  groups?: ImportFieldKey[]; // Grouping columns nested under this one; a new value here starts them afresh
+}
+
+export const IMPORT_FIELDS: ImportField[] = [
+  { key: 'function', label: 'Function', fillDown: true, groups: ['functionalFailure', 'functionType'], aliases: ['function', 'function description', 'funktion', 'funcion', 'fonction', 'funkcja'] },
+  { key: 'functionalFailure', label: 'Functional Failure', fillDown: true, aliases: ['functional failure', 'ff', 'failure of function', 'funktionsstorung', 'funktionsausfall', 'fallo funcional', 'falla funcional', 'defaillance fonctionnelle', 'usterka funkcjonalna'] },
+  { key: 'functionType', label: 'Function Type', fillDown: true, aliases: ['function type', 'primary secondary', 'funktionstyp', 'tipo de funcion', 'type de fonction'] },
+  { key: 'component', label: 'Component', required: true, fillDown: true, groups: ['componentType'], aliases: ['component', 'item', 'equipment', 'asset', 'part', 'maintainable item', 'komponente', 'bauteil', 'componente', 'composant', 'komponent'] },
+  { key: 'componentType', label: 'Component Type', fillDown: true, aliases: ['component type', 'discipline', 'type', 'typ', 'tipo'] },
+  { key: 'failureMode', label: 'Failure Mode', required: true, aliases: ['failure mode', 'fm', 'mode', 'fehlermodus', 'ausfallart', 'modo de fallo', 'modo de falla', 'mode de defaillance', 'tryb awarii'] },
+  { key: 'failureEffect', label: 'Failure Effect', aliases: ['failure effect', 'effect', 'effects', 'local effect', 'fehlerfolge', 'auswirkung', 'efecto de fallo', 'efecto', 'effet', 'skutek awarii', 'skutek'] },
+  { key: 'consequenceCategory', label: 'Consequence', aliases: ['consequence', 'consequence category', 'consequences', 'hseo', 'folge', 'konsequenz', 'consecuencia', 'consequence de la defaillance', 'konsekwencja'] },
+  { key: 'iso14224Code', label: 'ISO 14224 Code', aliases: ['iso 14224 code', 'iso code', 'failure mode code', 'fm code', 'codigo iso 14224', 'code iso 14224', 'kod iso 14224'] },
+  { key: 'equipmentClass', label: 'Equipment Class', aliases: ['equipment class', 'class', 'equipmentklasse', 'clase de equipo', 'classe d equipement', 'klasa urzadzenia'] },
+  { key: 'failureMechanism', label: 'Failure Mechanism', aliases: ['failure mechanism', 'mechanism', 'ausfallmechanismus', 'mecanismo de fallo', 'mecanisme de defaillance', 'mechanizm uszkodzenia'] },
+  { key: 'failureCause', label: 'Failure Cause', aliases: ['failure cause', 'cause', 'root cause', 'ausfallursache', 'ursache', 'causa de fallo', 'causa', 'cause de defaillance', 'przyczyna uszkodzenia', 'przyczyna'] },
+  { key: 'detectionMethod', label: 'Detection Method', aliases: ['detection method', 'current controls', 'erkennungsmethode', 'metodo de deteccion', 'methode de detection', 'metoda wykrycia'] },
+  { key: 'severity', label: 'Severity', aliases: ['severity', 'sev', 's', 'bedeutung', 'schwere', 'severidad', 'gravite', 'g', 'znaczenie'] },
+  { key: 'occurrence', label: 'Occurrence', aliases: ['occurrence', 'occ', 'o', 'probability', 'auftreten', 'a', 'ocurrencia', 'frecuencia de ocurrencia', 'occurrence f', 'f', 'wystapienie'] },
+  { key: 'detection', label: 'Detection', aliases: ['detection', 'det', 'd', 'detectability', 'entdeckung', 'e', 'deteccion', 'detectabilite', 'n', 'wykrywalnosc'] },
+  { key: 'maintenanceTask', label: 'Maintenance Task', aliases: ['maintenance task', 'proposed task', 'task', 'action', 'recommended action', 'task description', 'vorgeschlagene aufgabe', 'massnahme', 'tarea propuesta', 'tarea', 'tache proposee', 'tache', 'proponowane zadanie', 'zadanie'] },
+  { key: 'taskType', label: 'Task Type', aliases: ['task type', 'strategy', 'maintenance strategy', 'task category', 'aufgabentyp', 'strategie', 'tipo de tarea', 'type de tache', 'typ zadania'] },
+  { key: 'interval', label: 'Interval', aliases: ['interval', 'frequency', 'task interval', 'intervall', 'frecuencia', 'frequence', 'czestotliwosc', 'interwal'] },
+  { key: 'pfInterval', label: 'P-F Interval', aliases: ['p f interval', 'pf interval', 'p f', 'p f intervall', 'intervalo p f', 'intervalle p f'] }
+];
+
+/** Column index to target field; null leaves the column out of the import. */
+export type ColumnMapping = (ImportFieldKey | null)[];
+
+export interface ImportRow {
+  rowNumber: number; // As shown by the spreadsheet application
+  item?: RCMItem; // Absent when the row has errors
+  errors: string[];
+  warnings: string[];
+}
+
+const normalizeHeader = (text: string) =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/ł/g, 'l').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+const normalizeCode = (text: string) =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, '');
+
+// --- CSV ---
+
+const detectDelimiter = (line: string): string => {
+  const counts = [',', ';', '\t'].map(d => ({ d, n: line.split(d).length - 1 }));
+  return counts.reduce((best, c) => (c.n > best.n ? c : best)).d;
+};
+
+/** Parses CSV with quoted fields, an optional Excel "sep=" line and comma, semicolon or tab delimiters. */
+export const parseCsv = (text: string): string[][] => {
+  let body = text.replace(/^\uFEFF/, '');
+  let delimiter: string;
+  const sep = body.match(/^sep=(.)\r?\n/i);
+  if (sep) {
+    delimiter = sep[1];
+    body = body.slice(sep[0].length);
+  } else {
+    delimiter = detectDelimiter(body.split(/\r?\n/, 1)[0].replace(/"[^"]*"/g, ''));
+  }
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < body.length; i++) {
+    const ch = body[i];
+    if (quoted) {
+      if (ch === '"' && body[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === delimiter) { row.push(field); field = ''; }
+    else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && body[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else field += ch;
+  }
+  if (field || row.length) rows.push([...row, field]);
+  return rows;
+};
+
+// --- Column mapping ---
+
+const fieldForHeader = (header: string, taken: Set<ImportFieldKey>): ImportFieldKey | null => {
+  const text = normalizeHeader(header);
+  if (!text) return null;
+  const free = IMPORT_FIELDS.filter(f => !taken.has(f.key));
+  const exact = free.find(f => f.aliases.includes(text));
+  if (exact) return exact.key;
+  // Longer headers such as "Severity (1-10)" or "Failure mode description"; single letters only match exactly
+  const partial = free
+    .flatMap(f => f.aliases.filter(a => a.length > 2 && (` ${text} `).includes(` ${a} `)).map(a => ({ key: f.key, length: a.length })))
+    .sort((a, b) => b.length - a.length)[0];
+  return partial ? partial.key : null;
+};
+
+export const guessMapping = (headers: string[]): ColumnMapping => {
+  const taken = new Set<ImportFieldKey>();
+  return headers.map(header => {
+    const key = fieldForHeader(header, taken);
+    if (key) taken.add(key);
+    return key;
+  });
+};
+
+/** The row among the first few that names the most fields; legacy sheets often start with a title block. */
+export const guessHeaderRow = (rows: string[][]): number => {
+  let best = 0;
+  let bestCount = 0;
+  rows.slice(0, 20).forEach((row, index) => {
+    const count = guessMapping(row).filter(Boolean).length;
+    if (count > bestCount) {
+      best = index;
+      bestCount = count;
+    }
+  });
+  return best;
+};
+
+// --- Code mapping ---
+
+const CONSEQUENCE_CODES: Record<string, ConsequenceCategory> = {
+  hs: 'Hidden - Safety/Env', he: 'Hidden - Safety/Env', hse: 'Hidden - Safety/Env',
+  h: 'Hidden - Operational', ho: 'Hidden - Operational', hn: 'Hidden - Operational', hno: 'Hidden - Operational',
+  s: 'Evident - Safety/Env', e: 'Evident - Safety/Env', es: 'Evident - Safety/Env', ee: 'Evident - Safety/Env', ese: 'Evident - Safety/Env',
+  o: 'Evident - Operational', eo: 'Evident - Operational',
+  n: 'Evident - Non-Operational', en: 'Evident - Non-Operational', eno: 'Evident - Non-Operational', no: 'Evident - Non-Operational'
+};
+
+const HIDDEN_WORDS = ['hidden', 'verdeckt', 'versteckt', 'oculto', 'oculta', 'cache', 'cachee', 'ukryt'];
+const SAFETY_WORDS = ['safety', 'environment', 'env', 'sicherheit', 'umwelt', 'seguridad', 'ambiental', 'securite', 'environnement', 'bezpieczen', 'srodowisk'];
+const NON_OPERATIONAL_WORDS = ['nonoperational', 'nonop', 'economic', 'nichtbetrieblich', 'nooperacional', 'nonoperationnel', 'nieoperacyjn'];
+const OPERATIONAL_WORDS = ['operational', 'production', 'betrieb', 'operacional', 'operationnel', 'operacyjn'];
+
+const mapConsequence = (text: string): ConsequenceCategory | null => {
+  const code = normalizeCode(text);
+  if (CONSEQUENCE_CODES[code]) return CONSEQUENCE_CODES[code];
+  const has = (words: string[]) => words.some(w => code.includes(w));
+  const hidden = has(HIDDEN_WORDS);
+  if (has(SAFETY_WORDS)) return hidden ? 'Hidden - Safety/Env' : 'Evident - Safety/Env';
+  if (has(NON_OPERATIONAL_WORDS)) return hidden ? 'Hidden - Operational' : 'Evident - Non-Operational';
+  if (has(OPERATIONAL_WORDS) || hidden) return hidden ? 'Hidden - Operational' : 'Evident - Operational';
+  return null;
+};
+
+const TASK_TYPE_CODES: Record<string, TaskType> = {
+  cm: 'Condition Monitoring', cbm: 'Condition Monitoring', pdm: 'Condition Monitoring', ocm: 'Condition Monitoring', oc: 'Condition Monitoring', oncondition: 'Condition Monitoring', predictive: 'Condition Monitoring',
+  tb: 'Time-Based', tbm: 'Time-Based', pm: 'Time-Based', preventive: 'Time-Based', scheduled: 'Time-Based', hardtime: 'Time-Based',
+  rtf: 'Run-to-Failure', r2f: 'Run-to-Failure', otf: 'Run-to-Failure', nsm: 'Run-to-Failure', nopm: 'Run-to-Failure', noscheduledmaintenance: 'Run-to-Failure', runtofailure: 'Run-to-Failure', breakdown: 'Run-to-Failure', corrective: 'Run-to-Failure',
+  rd: 'Redesign', mod: 'Redesign', modification: 'Redesign',
+  ff: 'Failure Finding', fft: 'Failure Finding', fftest: 'Failure Finding', functionaltest: 'Failure Finding',
+  lub: 'Lubrication', lube: 'Lubrication',
+  sv: 'Servicing', serv: 'Servicing', service: 'Servicing',
+  sr: 'Restoration', restore: 'Restoration', overhaul: 'Restoration', scheduledrestoration: 'Restoration',
+  sd: 'Replacement', discard: 'Replacement', replace: 'Replacement', scheduleddiscard: 'Replacement',
+  trn: 'Training', proc: 'Procedural Change', procedure: 'Procedural Change'
+};
+
+const mapTaskType = (text: string): TaskType | null => {
+  const code = normalizeCode(text);
+  return TASK_TYPES.find(t => normalizeCode(t) === code) || TASK_TYPE_CODES[code] || null;
+};
+
+const mapComponentType = (text: string): RCMItem['componentType'] | null => {
+  const code = normalizeCode(text);
+  if (['e', 'el', 'elec', 'electrical', 'electric', 'elektrisch', 'electrico', 'electrique', 'elektryczny', 'ei', 'instrument', 'instrumentation'].includes(code)) return 'Electrical';
+  if (['m', 'mech', 'mechanical', 'mechanisch', 'mecanico', 'mecanique', 'mechaniczny'].includes(code)) return 'Mechanical';
+  return null;
+};
+
+const mapFunctionType = (text: string): FunctionType | null => {
+  const code = normalizeCode(text);
+  if (['p', 'primary', 'primar', 'principal', 'primaria', 'primaire', 'glowna', 'podstawowa'].includes(code)) return 'Primary';
+  if (['s', 'secondary', 'sekundar', 'secundaria', 'secondaire', 'drugorzedna', 'pomocnicza'].includes(code)) return 'Secondary';
+  return null;
+};
+
+// --- Rows ---
+
+const SCORE_FIELDS: { key: 'severity' | 'occurrence' | 'detection'; label: string }[] = [
+  { key: 'severity', label: 'Severity' },
+  { key: 'occurrence', label: 'Occurrence' },
+  { key: 'detection', label: 'Detection' }
+];
+
+/**
+ * Parses the data rows below the header into study items. Blank grouping cells (merged ranges or
+ * cells left empty under their first row) take the value above within their group: a new function
+ * or component clears the values carried in the columns nested under it. Blank rows are skipped.
+ */
+export const parseRows = (rows: string[][], headerRow: number, mapping: ColumnMapping, scheme: RiskScheme): ImportRow[] => {
+  const column = (key: ImportFieldKey) => mapping.indexOf(key);
+  const carried: Partial<Record<ImportFieldKey, string>> = {};
+  const result: ImportRow[] = [];
+
+  rows.slice(headerRow + 1).forEach((cells, offset) => {
+    if (cells.every(c => !c.trim())) return;
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const cell = (key: ImportFieldKey): string => {
+      const index = column(key);
+      return index >= 0 ? (cells[index] || '').trim() : '';
+    };
+    // Grouping columns are listed parents first, so a parent clears its groups before they are read
+    IMPORT_FIELDS.filter(f => f.fillDown).forEach(field => {
+      const text = cell(field.key);
+      if (!text) return;
+      if (text !== carried[field.key]) field.groups?.forEach(key => delete carried[key]);
+      carried[field.key] = text;
+    });
+    const value = (key: ImportFieldKey): string =>
+      IMPORT_FIELDS.find(f => f.key === key)!.fillDown ? carried[key] || '' : cell(key);
+
+    const failureMode = value('failureMode');
+    const component = value('component');
+    if (!failureMode) errors.push('No failure mode.');
+    if (!component) errors.push('No component.');
+
+    const scores = {} as Record<'severity' | 'occurrence' | 'detection', number>;
+    SCORE_FIELDS.forEach(({ key, label }) => {
+      const scale = scheme[key];
+      const text = value(key);
+      if (column(key) < 0) {
+        scores[key] = 1;
+        return;
+      }
+      if (!text) {
+        warnings.push(`${label} is blank; set to 1.`);
+        scores[key] = 1;
+        return;
+      }
+      const score = Number(text.replace(',', '.'));
+      if (!Number.isFinite(score)) {
+        errors.push(`${label} "${text}" is not a number.`);
+        return;
+      }
+      scores[key] = clampScore(score, scale);
+      if (score !== scores[key]) warnings.push(`${label} ${text} is outside 1–${scaleMax(scale)}; set to ${scores[key]}.`);
+    });
+
+    const mapped = <T>(key: ImportFieldKey, label: string, map: (text: string) => T | null, fallback: T): T => {
+      const text = value(key);
+      if (!text) return fallback;
+      const result = map(text);
+      if (result === null) warnings.push(`${label} "${text}" not recognised; set to ${fallback}.`);
+      return result ?? fallback;
+    };
+    const consequenceCategory = mapped('consequenceCategory', 'Consequence', mapConsequence, 'Evident - Operational' as ConsequenceCategory);
+    const taskType = mapped('taskType', 'Task type', mapTaskType, 'Time-Based' as TaskType);
+    const componentType = mapped('componentType', 'Component type', mapComponentType, 'Mechanical' as RCMItem['componentType']);
+    const functionType = mapped('functionType', 'Function type', mapFunctionType, 'Primary' as FunctionType);
+
+    const interval = toInterval(value('interval'));
+    if (isUnparsedInterval(interval)) warnings.push(`Interval "${interval.note}" not recognised; kept as a note.`);
+    const pfInterval = toOptionalInterval(value('pfInterval'));
+    if (pfInterval && isUnparsedInterval(pfInterval)) warnings.push(`P-F interval "${pfInterval.note}" not recognised; kept as a note.`);
+
+    const row: ImportRow = { rowNumber: headerRow + offset + 2, errors, warnings };
+    if (errors.length === 0) {
+      const { severity, occurrence, detection } = scores;
+      row.item = normalizeTaxonomy([{
+        id: `rcm-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`,
+        component,
+        componentType,
+        equipmentClass: value('equipmentClass') || undefined,
+        functionType,
+        function: value('function'),
+        functionalFailure: value('functionalFailure'),
+        failureMode,
+        failureEffect: value('failureEffect'),
+        criticality: 'Low',
+        consequenceCategory,
+        iso14224Code: value('iso14224Code'),
+        failureMechanism: value('failureMechanism') || undefined,
+        failureCause: value('failureCause') || undefined,
+        detectionMethod: value('detectionMethod') || undefined,
+        severity,
+        occurrence,
+        detection,
+        rpn: severity * occurrence * detection,
+        maintenanceTask: value('maintenanceTask'),
+        interval,
+        pfInterval,
+        taskType,
+        isNew: true
+      }])[0];
+    }
+    result.push(row);
+  });
+  return result;
+};
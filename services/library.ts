@@ -0,0 +1,140 @@
+import { LibraryEntry, RCMItem, RiskScheme, SavedStudy } from "../types";
+import { clampScore, normalizeRiskScheme, rescaleScore, scaleMax } from "./riskScheme";
+import { equipmentClassOf } from "./iso14224";
+import { formatInterval, migrateIntervals, toInterval } from "./intervals";
+import { tokenize } from "./search";
+
+// Local library of curated failure mode templates, keyed by component type and ISO 14224
+// equipment class. It is filled from finished studies and feeds both manual inserts and generation.
+
+export const libraryKey = (componentType: string, equipmentClass?: string): string =>
+  `${componentType}|${equipmentClass || ''}`;
+
+export const libraryKeyLabel = (key: string): string => {
+  const [componentType, classCode] = key.split('|');
+  const equipmentClass = equipmentClassOf(classCode);
+  return equipmentClass ? `${componentType} · ${equipmentClass.code} ${equipmentClass.label}` : `${componentType} · No equipment class`;
+};
+
+const normalizeText = (text: string) => (text || '').trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Same key, component and failure mode wording count as one template
+const templateSignature = (entry: Pick<LibraryEntry, 'key' | 'component' | 'failureMode'>) =>
+  `${entry.key}|${normalizeText(entry.component)}|${normalizeText(entry.failureMode)}`;
+
+export const entryFromItem = (item: RCMItem, study: SavedStudy, scheme: RiskScheme): LibraryEntry => ({
+  id: `lib-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`,
+  key: libraryKey(item.componentType, item.equipmentClass),
+  componentType: item.componentType,
+  equipmentClass: item.equipmentClass,
+  component: item.component,
+  function: item.function,
+  functionalFailure: item.functionalFailure,
+  failureMode: item.failureMode,
+  failureEffect: item.failureEffect,
+  consequenceCategory: item.consequenceCategory,
+  iso14224Code: item.iso14224Code,
+  failureMechanism: item.failureMechanism,
+  failureCause: item.failureCause,
+  detectionMethod: item.detectionMethod,
+  severity: item.severity,
+  occurrence: item.occurrence,
+  detection: item.detection,
+  scoreMax: { severity: scaleMax(scheme.severity), occurrence: scaleMax(scheme.occurrence), detection: scaleMax(scheme.detection) },
+  maintenanceTask: item.maintenanceTask,
+  taskType: item.taskType,
+  interval: toInterval(item.interval),
+  source: { studyId: study.id, studyName: study.name, itemId: item.id },
+  harvestedAt: Date.now()
+});
+
+/**
+ * New templates from the items of finished studies. Templates already in the library,
+ * whether harvested or curated by hand, are left alone.
+ */
+export const harvestLibraryEntries = (studies: SavedStudy[], existing: LibraryEntry[]): LibraryEntry[] => {
+  const known = new Set(existing.map(templateSignature));
+  const harvested: LibraryEntry[] = [];
+  studies.filter(study => study.isFinished).forEach(study => {
+    migrateIntervals(study.items).filter(item => item && item.failureMode?.trim()).forEach(item => {
+      const entry = entryFromItem(item, study, normalizeRiskScheme(study.riskScheme));
+      const signature = templateSignature(entry);
+      if (known.has(signature)) return;
+      known.add(signature);
+      harvested.push(entry);
+    });
+  });
+  return harvested;
+};
+
+/** A new worksheet item from a template, with scores mapped onto the study's risk scheme. */
+export const itemFromEntry = (entry: LibraryEntry, scheme: RiskScheme): RCMItem => {
+  const score = (key: 'severity' | 'occurrence' | 'detection') =>
+    clampScore(rescaleScore(entry[key] || 1, entry.scoreMax[key], scaleMax(scheme[key])), scheme[key]);
+  const severity = score('severity');
+  const occurrence = score('occurrence');
+  const detection = score('detection');
+  return {
+    id: `rcm-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`,
+    component: entry.component,
+    componentType: entry.componentType,
+    equipmentClass: entry.equipmentClass,
+    functionType: 'Primary',
+    function: entry.function,
+    functionalFailure: entry.functionalFailure,
+    failureMode: entry.failureMode,
+    failureEffect: entry.failureEffect,
+    criticality: 'Low',
+    consequenceCategory: entry.consequenceCategory,
+    iso14224Code: entry.iso14224Code,
+    failureMechanism: entry.failureMechanism,
+    failureCause: entry.failureCause,
+    detectionMethod: entry.detectionMethod,
+    severity,
+    occurrence,
+    detection,
+    rpn: severity * occurrence * detection,
+    maintenanceTask: entry.maintenanceTask,
+    interval: toInterval(entry.interval),
+    taskType: entry.taskType,
+    isNew: true
+  };
+};
+
+/**
+ * Templates that look relevant to an operational context: their component name or
+ * equipment class appears in it. Capped so the prompt stays small.
+ */
+export const seedEntriesForContext = (entries: LibraryEntry[], contextText: string, limit: number = 15): LibraryEntry[] => {
+  const contextTokens = tokenize(contextText);
+  const mentioned = (words: string[]) => words.some(word => word.length > 2 && contextTokens.some(t => t.startsWith(word)));
+  return entries
+    .map(entry => ({
+      entry,
+      score: (mentioned(tokenize(entry.component)) ? 2 : 0) + (mentioned(tokenize(equipmentClassOf(entry.equipmentClass)?.label || '')) ? 1 : 0)
+    }))
+    .filter(e => e.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(e => e.entry);
+};
+
+// Seed examples for generation prompts
+export const describeLibraryExamples = (entries: LibraryEntry[]): string => {
+  if (entries.length === 0) return '';
+  const examples = entries.map(e => ({
+    component: e.component,
+    componentType: e.componentType,
+    equipmentClass: e.equipmentClass,
+    failureMode: e.failureMode,
+    iso14224Code: e.iso14224Code,
+    failureEffect: e.failureEffect,
+    consequenceCategory: e.consequenceCategory,
+    maintenanceTask: e.maintenanceTask,
+    taskType: e.taskType,
+    interval: formatInterval(e.interval)
+  }));
+  return `REFERENCE FAILURE MODES FROM THE ORGANISATION'S LIBRARY (reviewed in finished studies):
+    Use them as examples of the expected depth and wording. Include those that apply to this asset, adapted to the operational context and language; do not copy ones that do not apply.
+    ${JSON.stringify(examples)}`;
+};
@@ -0,0 +1,211 @@
+import type { LLMRequest, LLMTask } from "./llmProvider";
+
+// Deterministic responses used by the offline mock backend. Each fixture mirrors the
+// shape the live model returns for that task, so the app can run end-to-end without a network.
+
+const PUMP_ITEMS = [
+  {
+    functionType: 'Primary',
+    function: 'Deliver 120 m3/h of process water at 8 bar discharge pressure',
+    functionalFailure: 'Total loss of flow',
+    component: 'Mechanical Seal',
+    componentType: 'Mechanical',
+    componentIntel: { description: 'Single cartridge mechanical seal with carbon/SiC faces', location: 'Pump casing, drive end', visualCues: 'Stainless gland plate with flush port' },
+    failureMode: 'Seal face wear due to dry running',
+    failureEffect: 'External leakage of process fluid, pump trips on low suction pressure',
+    consequenceCategory: 'Evident - Operational',
+    isoFailureMode: 'PU/ELP',
+    failureMechanism: '1.1',
+    failureCause: '3.1',
+    detectionMethod: '3',
+    criticality: 'High',
+    severity: 7,
+    occurrence: 6,
+    detection: 5,
+    maintenanceTask: 'Inspect seal area for leakage and check flush line flow',
+    interval: 'Weekly',
+    taskType: 'Condition Monitoring'
+  },
+  {
+    functionType: 'Primary',
+    function: 'Deliver 120 m3/h of process water at 8 bar discharge pressure',
+    functionalFailure: 'Total loss of flow',
+    component: 'Drive End Bearing',
+    componentType: 'Mechanical',
+    componentIntel: { description: 'Deep groove ball bearing 6312 C3', location: 'Bearing housing, drive end', visualCues: 'Grease nipple on top of housing' },
+    failureMode: 'Bearing fatigue due to inadequate lubrication',
+    failureEffect: 'Rising vibration followed by seizure and shaft damage',
+    consequenceCategory: 'Evident - Operational',
+    isoFailureMode: 'PU/VIB',
+    failureMechanism: '2.6',
+    failureCause: '3.3',
+    detectionMethod: '4',
+    criticality: 'High',
+    severity: 8,
+    occurrence: 5,
+    detection: 4,
+    maintenanceTask: 'Measure bearing vibration velocity and envelope spectrum',
+    interval: 'Monthly',
+    taskType: 'Condition Monitoring'
+  },
+  {
+    functionType: 'Primary',
+    function: 'Deliver 120 m3/h of process water at 8 bar discharge pressure',
+    functionalFailure: 'Flow below 100 m3/h',
+    component: 'Impeller',
+    componentType: 'Mechanical',
+    componentIntel: { description: 'Closed cast bronze impeller, 5 vanes', location: 'Inside volute casing', visualCues: 'Visible through suction nozzle when dismantled' },
+    failureMode: 'Erosion due to cavitation',
+    failureEffect: 'Gradual loss of head and flow, increased noise',
+    consequenceCategory: 'Evident - Operational',
+    isoFailureMode: 'PU/LOO',
+    failureMechanism: '2.1',
+    failureCause: '3.1',
+    detectionMethod: '4',
+    criticality: 'Medium',
+    severity: 6,
+    occurrence: 4,
+    detection: 6,
+    maintenanceTask: 'Trend discharge pressure against flow to detect performance loss',
+    interval: '3 Months',
+    taskType: 'Condition Monitoring'
+  },
+  {
+    functionType: 'Secondary',
+    function: 'Protect the motor against overload',
+    functionalFailure: 'Fails to trip on overcurrent',
+    component: 'Motor Protection Relay',
+    componentType: 'Electrical',
+    componentIntel: { description: 'Digital motor protection relay with thermal model', location: 'MCC panel, feeder cubicle', visualCues: 'Front panel LCD with trip LED' },
+    failureMode: 'Relay fails to operate due to incorrect setting after maintenance',
+    failureEffect: 'Motor winding damage on overload with no warning',
+    consequenceCategory: 'Hidden - Operational',
+    isoFailureMode: 'SG/FTO',
+    failureMechanism: '3.4',
+    failureCause: '3.3',
+    detectionMethod: '2',
+    criticality: 'Medium',
+    severity: 7,
+    occurrence: 3,
+    detection: 9,
+    maintenanceTask: 'Secondary injection test of overload trip function',
+    interval: 'Yearly',
+    taskType: 'Failure Finding'
+  },
+  {
+    functionType: 'Secondary',
+    function: 'Contain the process fluid',
+    functionalFailure: 'External leakage to environment',
+    component: 'Casing Gasket',
+    componentType: 'Mechanical',
+    componentIntel: { description: 'Spiral wound gasket between casing halves', location: 'Casing split line', visualCues: 'Bolted flange around volute' },
+    failureMode: 'Gasket blow-out due to incorrect bolt torque during reassembly',
+    failureEffect: 'Spray of hot water, risk of burns to personnel',
+    consequenceCategory: 'Evident - Safety/Env',
+    isoFailureMode: 'PU/ELP',
+    failureMechanism: '1.1',
+    failureCause: '2.2',
+    detectionMethod: '8',
+    criticality: 'High',
+    severity: 9,
+    occurrence: 3,
+    detection: 6,
+    maintenanceTask: 'Train fitters on torque sequence and verify with calibrated wrench',
+    interval: 'Yearly',
+    taskType: 'Training'
+  },
+  {
+    functionType: 'Primary',
+    function: 'Deliver 120 m3/h of process water at 8 bar discharge pressure',
+    functionalFailure: 'Total loss of flow',
+    component: 'Coupling Element',
+    componentType: 'Mechanical',
+    componentIntel: { description: 'Elastomeric tyre coupling', location: 'Between motor and pump shafts', visualCues: 'Yellow guard over shaft gap' },
+    failureMode: 'Elastomer cracking due to ageing',
+    failureEffect: 'Loss of drive, pump stops',
+    consequenceCategory: 'Evident - Operational',
+    isoFailureMode: 'PU/BRD',
+    failureMechanism: '2.5',
+    failureCause: '3.4',
+    detectionMethod: '3',
+    criticality: 'Medium',
+    severity: 6,
+    occurrence: 4,
+    detection: 5,
+    maintenanceTask: 'Replace coupling element',
+    interval: '2 Years',
+    taskType: 'Replacement'
+  }
+];
+
+const INSPECTION_SHEET = {
+  responsibility: 'Mechanical Technician',
+  estimatedTime: '30m',
+  safetyPrecautions: 'Apply lockout/tagout, wear gloves and safety glasses',
+  toolsRequired: 'Vibration analyser, torch, inspection mirror',
+  steps: [
+    { step: 1, description: 'Verify isolation and that the equipment is safe to approach', criteria: 'Zero energy confirmed', technique: 'Visual' },
+    { step: 2, description: 'Inspect the component for leaks, cracks and discolouration', criteria: 'No visible defects', technique: 'Visual' },
+    { step: 3, description: 'Measure vibration at the bearing housing', criteria: 'Velocity below 4.5 mm/s RMS', technique: 'Vibration Analysis' },
+    { step: 4, description: 'Record findings and restore the equipment to service', criteria: 'Record complete', technique: 'Administrative' }
+  ]
+};
+
+const CONTEXT_TEXT = `Operational Profile: Centrifugal pump P-101 runs continuously at 120 m3/h supplying process water to the cooling circuit. A standby pump is available with manual changeover.
+Environmental Conditions: Indoor pump house, ambient 5-35 C, humid, no hazardous area classification.
+Performance Standards: 120 m3/h at 8 bar discharge; minimum acceptable 100 m3/h.
+Known Critical Components: Mechanical seal, bearings, impeller, coupling, motor protection relay.
+System Boundaries: From suction isolation valve to discharge check valve, including motor and local control panel.`;
+
+type Fixture = (request: LLMRequest) => string;
+
+const FIXTURES: Record<LLMTask, Fixture> = {
+  rcmAnalysis: () => JSON.stringify(PUMP_ITEMS),
+  contextExtraction: () => CONTEXT_TEXT,
+  inspectionSheet: () => JSON.stringify(INSPECTION_SHEET),
+  componentIntel: (request) => {
+    const name = (request.payload as { componentName?: string })?.componentName || 'Component';
+    return JSON.stringify({
+      description: `${name}: standard industrial design, refer to OEM manual for material specification.`,
+      location: 'Mounted on the main assembly, accessible from the maintenance side.',
+      visualCues: 'OEM nameplate with serial number and tag plate.'
+    });
+  },
+  validation: () => '[]',
+  // Translations echo the input unchanged so that no data is lost offline
+  translateItems: (request) => JSON.stringify(request.payload || []),
+  translateContext: (request) => String(request.payload || ''),
+  copilotChat: () => `Offline facilitator mode. Based on the current study, one additional failure mode is worth considering.
+<ACTION>${JSON.stringify({ type: 'ADD', reason: 'Suction strainer blockage is a common cause of cavitation.', item: {
+    component: 'Suction Strainer', componentType: 'Mechanical', functionType: 'Primary',
+    function: 'Deliver 120 m3/h of process water at 8 bar discharge pressure', functionalFailure: 'Flow below 100 m3/h',
+    failureMode: 'Strainer blockage due to debris accumulation', failureEffect: 'Low suction pressure and cavitation',
+    consequenceCategory: 'Evident - Operational', equipmentClass: 'PU', iso14224Code: 'PLU',
+    failureMechanism: '5.1', failureCause: '3.1', detectionMethod: '4', severity: 6, occurrence: 5, detection: 4,
+    maintenanceTask: 'Check strainer differential pressure', interval: 'Weekly', taskType: 'Condition Monitoring'
+  } })}</ACTION>`,
+  copilotAudit: (request) => FIXTURES.copilotChat(request),
+  intervalAdvisor: () => `Offline advisor mode. Assuming a P-F interval of about 60 days, inspecting at half that interval gives two opportunities to detect the potential failure.
+<INTERVAL>Monthly</INTERVAL><PF_VAL>60</PF_VAL><PF_UNIT>Days</PF_UNIT>`,
+  contextBuilder: () => `Offline facilitator mode. A draft operational context has been prepared from a reference pump template.
+<DRAFT>
+SYSTEM BOUNDARIES
+${CONTEXT_TEXT}
+</DRAFT>`
+};
+
+const overrides: Partial<Record<LLMTask, Fixture>> = {};
+
+// Lets tests and demos swap in their own recorded response for a task
+export const setFixture = (task: LLMTask, fixture: string | Fixture) => {
+  overrides[task] = typeof fixture === 'string' ? () => fixture : fixture;
+};
+
+export const resetFixtures = () => {
+  (Object.keys(overrides) as LLMTask[]).forEach(task => delete overrides[task]);
+};
+
+export const resolveFixture = (request: LLMRequest): string => {
+  const fixture = overrides[request.task] || FIXTURES[request.task];
+  return fixture(request);
+};
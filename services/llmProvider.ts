@@ -0,0 +1,255 @@
+import { GoogleGenAI } from "@google/genai";
+import { resolveFixture } from "./llmFixtures";
+
+export type LLMProviderId = 'gemini' | 'openai' | 'mock';
+
+// Every call site declares which job it is doing so the mock backend can pick a fixture
+export type LLMTask =
+  | 'rcmAnalysis'
+  | 'contextExtraction'
+  | 'inspectionSheet'
+  | 'componentIntel'
+  | 'validation'
+  | 'translateItems'
+  | 'translateContext'
+  | 'copilotChat'
+  | 'copilotAudit'
+  | 'intervalAdvisor'
+  | 'contextBuilder';
+
+export interface LLMPart {
+  text?: string;
+  inlineData?: {
+    data: string;
+    mimeType: string;
+  };
+}
+
+export interface LLMRequest {
+  task: LLMTask;
+  // 'fast' maps to the flash-class model, 'reasoning' to the pro-class model
+  tier?: 'fast' | 'reasoning';
+  parts: LLMPart[];
+  systemInstruction?: string;
+  // Gemini-style schema (Type.* enums); converted for other backends
+  responseSchema?: Record<string, any>;
+  temperature?: number;
+  seed?: number;
+  thinkingBudget?: number;
+  // Structured input the prompt was built from, used by offline fixtures
+  payload?: unknown;
+}
+
+export interface LLMProvider {
+  id: LLMProviderId;
+  generate: (request: LLMRequest) => Promise<string>;
+}
+
+export interface LLMSettings {
+  provider: LLMProviderId;
+  baseUrl: string;
+  model: string;
+  apiKey: string;
+  // Live responses are stored for replay by the offline mock backend
+  recordResponses: boolean;
+}
+
+export const LLM_PROVIDERS: { id: LLMProviderId; label: string }[] = [
+  { id: 'gemini', label: 'Google Gemini' },
+  { id: 'openai', label: 'OpenAI-Compatible / Local' },
+  { id: 'mock', label: 'Offline Mock' }
+];
+
+const SETTINGS_KEY = 'rcm_llm_settings';
+const RECORDINGS_KEY = 'rcm_llm_recordings';
+
+const GEMINI_MODELS = {
+  fast: 'gemini-3-flash-preview',
+  reasoning: 'gemini-3-pro-preview'
+};
+
+const DEFAULT_SETTINGS: LLMSettings = {
+  provider: (process.env.LLM_PROVIDER as LLMProviderId) || 'gemini',
+  baseUrl: process.env.LLM_BASE_URL || 'http://localhost:11434/v1',
+  model: process.env.LLM_MODEL || 'llama3.1',
+  apiKey: process.env.LLM_API_KEY || '',
+  recordResponses: false
+};
+
+export const getLLMSettings = (): LLMSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    if (stored) return { ...DEFAULT_SETTINGS, ...JSON.parse(stored) };
+  } catch (e) {
+    console.error("LLM settings unreadable, using defaults", e);
+  }
+  return DEFAULT_SETTINGS;
+};
+
+export const saveLLMSettings = (settings: LLMSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// Models frequently wrap JSON answers in markdown fences
+export const parseJSONResponse = <T>(text: string, fallback: T): T => {
+  const cleaned = (text || '').trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/i, '').trim();
+  if (!cleaned) return fallback;
+  return JSON.parse(cleaned) as T;
+};
+
+export const textPart = (text: string): LLMPart => ({ text });
+
+// Stable key for a request: task plus a FNV-1a hash of its text parts
+export const fixtureKey = (request: LLMRequest): string => {
+  const text = request.parts.map(p => p.text || '').join('\n') + (request.systemInstruction || '');
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return `${request.task}:${hash.toString(16)}`;
+};
+
+// Recorded responses (captured from a live backend) are replayed by the mock provider
+const loadRecordings = (): Record<string, string> => {
+  try {
+    return JSON.parse(localStorage.getItem(RECORDINGS_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const recordingCount = (): number => Object.keys(loadRecordings()).length;
+
+export const exportRecordings = (): Record<string, string> => loadRecordings();
+
+export const importRecordings = (recordings: Record<string, string>) => {
+  localStorage.setItem(RECORDINGS_KEY, JSON.stringify({ ...loadRecordings(), ...recordings }));
+};
+
+export const clearRecordings = () => {
+  localStorage.removeItem(RECORDINGS_KEY);
+};
+
+const createGeminiProvider = (): LLMProvider => ({
+  id: 'gemini',
+  generate: async (request) => {
+    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    const config: Record<string, any> = {};
+    if (request.temperature !== undefined) config.temperature = request.temperature;
+    if (request.seed !== undefined) config.seed = request.seed;
+    if (request.systemInstruction) config.systemInstruction = request.systemInstruction;
+    if (request.thinkingBudget !== undefined) config.thinkingConfig = { thinkingBudget: request.thinkingBudget };
+    if (request.responseSchema) {
+      config.responseMimeType = "application/json";
+      config.responseSchema = request.responseSchema;
+    }
+
+    const response = await ai.models.generateContent({
+      model: GEMINI_MODELS[request.tier || 'fast'],
+      contents: [{ role: 'user', parts: request.parts }],
+      config
+    });
+    return response.text || "";
+  }
+});
+
+// Gemini schemas use upper-case OpenAPI type names; JSON Schema wants lower-case
+const toJSONSchema = (schema: Record<string, any>): Record<string, any> => {
+  const out: Record<string, any> = {};
+  Object.entries(schema).forEach(([key, value]) => {
+    if (key === 'type' && typeof value === 'string') out.type = value.toLowerCase();
+    else if (key === 'properties') out.properties = Object.fromEntries(Object.entries(value as Record<string, any>).map(([k, v]) => [k, toJSONSchema(v)]));
+    else if (key === 'items') out.items = toJSONSchema(value);
+    else out[key] = value;
+  });
+  return out;
+};
+
+// Chat Completions message shape; only the roles and content parts this provider sends
+type OpenAIContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+interface OpenAIMessage {
+  role: 'system' | 'user';
+  content: string | OpenAIContentPart[];
+}
+
+const toOpenAIContent = (parts: LLMPart[]): OpenAIContentPart[] => parts.map((part): OpenAIContentPart => {
+  if (part.text !== undefined) return { type: 'text', text: part.text };
+  const file = part.inlineData!;
+  if (file.mimeType.startsWith('image/')) {
+    return { type: 'image_url', image_url: { url: `data:${file.mimeType};base64,${file.data}` } };
+  }
+  if (file.mimeType.startsWith('text/')) {
+    const bytes = Uint8Array.from(atob(file.data), c => c.charCodeAt(0));
+    return { type: 'text', text: new TextDecoder().decode(bytes) };
+  }
+  return { type: 'text', text: `[Attached document of type ${file.mimeType} cannot be read by this backend]` };
+});
+
+const createOpenAIProvider = (settings: LLMSettings): LLMProvider => ({
+  id: 'openai',
+  generate: async (request) => {
+    const messages: OpenAIMessage[] = [];
+    if (request.systemInstruction) messages.push({ role: 'system', content: request.systemInstruction });
+    messages.push({ role: 'user', content: toOpenAIContent(request.parts) });
+
+    const body: Record<string, any> = {
+      model: settings.model,
+      messages,
+      temperature: request.temperature,
+      seed: request.seed
+    };
+    if (request.responseSchema) {
+      body.response_format = {
+        type: 'json_schema',
+        json_schema: { name: request.task, schema: toJSONSchema(request.responseSchema) }
+      };
+    }
+
+    const response = await fetch(`${settings.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {})
+      },
+      body: JSON.stringify(body)
+    });
+    if (!response.ok) {
+      throw new Error(`LLM endpoint returned ${response.status}: ${await response.text()}`);
+    }
+    const json = await response.json();
+    return json.choices?.[0]?.message?.content || "";
+  }
+});
+
+const createMockProvider = (): LLMProvider => ({
+  id: 'mock',
+  generate: async (request) => {
+    const recorded = loadRecordings()[fixtureKey(request)];
+    if (recorded !== undefined) return recorded;
+    return resolveFixture(request);
+  }
+});
+
+const withRecording = (provider: LLMProvider, enabled: boolean): LLMProvider => ({
+  id: provider.id,
+  generate: async (request) => {
+    const text = await provider.generate(request);
+    if (enabled && provider.id !== 'mock') {
+      importRecordings({ [fixtureKey(request)]: text });
+    }
+    return text;
+  }
+});
+
+export const getLLMProvider = (): LLMProvider => {
+  const settings = getLLMSettings();
+  if (settings.provider === 'mock') return createMockProvider();
+  if (settings.provider === 'openai') return withRecording(createOpenAIProvider(settings), settings.recordResponses);
+  return withRecording(createGeminiProvider(), settings.recordResponses);
+};
+
+export const generateText = (request: LLMRequest): Promise<string> => getLLMProvider().generate(request);
@@ -0,0 +1,230 @@
+// Minimal PDF writer for client-side reports. Pages are lists of drawing operations in points with
+// the origin at the top left; text uses the built-in Helvetica faces, so nothing is embedded. The font
+// encoding is WinAnsi with the Polish letters placed in unused slots, which covers all report languages.
+
+export type PdfFont = 'regular' | 'bold';
+
+export type PdfOp =
+  | { type: 'text'; x: number; y: number; text: string; size: number; font?: PdfFont; color?: string } // y is the baseline
+  | { type: 'rect'; x: number; y: number; width: number; height: number; fill?: string; stroke?: string; lineWidth?: number }
+  | { type: 'line'; x1: number; y1: number; x2: number; y2: number; color?: string; lineWidth?: number; dash?: number[] }
+  | { type: 'link'; x: number; y: number; width: number; height: number; page: number }; // To a page index
+
+export interface PdfPage {
+  ops: PdfOp[];
+}
+
+export interface PdfBookmark {
+  title: string;
+  page: number;
+}
+
+export const PDF_MIME_TYPE = 'application/pdf';
+
+export const A4 = { width: 595.28, height: 841.89 };
+export const A5 = { width: 419.53, height: 595.28 };
+
+// --- Fonts ---
+
+// Advance widths (1/1000 em) of the printable ASCII range, from the Helvetica AFM files
+const ASCII_WIDTHS: Record<PdfFont, number[]> = {
+  regular: [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+    1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+    333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+    556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+  ],
+  bold: [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+    975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+    333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+    611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+  ]
+};
+
+// Characters outside ASCII that are not a base letter plus accents: [code, regular width, bold width]
+const SPECIAL_GLYPHS: Record<string, [number, number, number]> = {
+  '€': [0x80, 556, 556], '…': [0x85, 1000, 1000], 'Œ': [0x8C, 1000, 1000], 'œ': [0x9C, 944, 944],
+  '‘': [0x91, 222, 278], '’': [0x92, 222, 278], '“': [0x93, 333, 500], '”': [0x94, 333, 500],
+  '•': [0x95, 350, 350], '–': [0x96, 556, 556], '—': [0x97, 1000, 1000],
+  'ą': [0x81, 556, 556], 'Ą': [0x82, 667, 722], 'ć': [0x83, 500, 556], 'Ć': [0x84, 722, 722],
+  'ę': [0x86, 556, 556], 'Ę': [0x87, 667, 667], 'ł': [0x88, 222, 278], 'Ł': [0x89, 556, 611],
+  'ń': [0x8A, 556, 611], 'Ń': [0x8B, 722, 722], 'ś': [0x8D, 500, 556], 'Ś': [0x8E, 667, 667],
+  'ź': [0x8F, 500, 500], 'Ź': [0x90, 611, 611], 'ż': [0x98, 500, 500], 'Ż': [0x99, 611, 611],
+  ' ': [0x20, 278, 278], '«': [0xAB, 556, 556], '»': [0xBB, 556, 556], '°': [0xB0, 400, 400],
+  '±': [0xB1, 584, 584], '²': [0xB2, 333, 333], '³': [0xB3, 333, 333], 'µ': [0xB5, 556, 611],
+  '·': [0xB7, 278, 278], '×': [0xD7, 584, 584], 'ß': [0xDF, 611, 611], 'æ': [0xE6, 889, 889],
+  'Æ': [0xC6, 1000, 1000], 'ø': [0xF8, 611, 611], 'Ø': [0xD8, 778, 778], '§': [0xA7, 556, 556]
+};
+
+const DIFFERENCES = '[129 /aogonek /Aogonek /cacute /Cacute 134 /eogonek /Eogonek /lslash /Lslash /nacute /Nacute 141 /sacute /Sacute /zacute /Zacute 152 /zdotaccent /Zdotaccent]';
+
+// Symbols without a glyph in the encoding
+const REPLACEMENTS: Record<string, string> = { '→': '->', '←': '<-', '↓': 'v', '↑': '^', '≤': '<=', '≥': '>=', '›': '>', '‹': '<', '✓': 'x', '\t': ' ' };
+
+interface Glyph {
+  code: number;
+  width: Record<PdfFont, number>;
+}
+
+const glyphCache = new Map<string, Glyph[]>();
+
+const glyphsFor = (ch: string): Glyph[] => {
+  const cached = glyphCache.get(ch);
+  if (cached) return cached;
+  let glyphs: Glyph[];
+  const code = ch.charCodeAt(0);
+  if (code >= 32 && code < 127) {
+    glyphs = [{ code, width: { regular: ASCII_WIDTHS.regular[code - 32], bold: ASCII_WIDTHS.bold[code - 32] } }];
+  } else if (SPECIAL_GLYPHS[ch]) {
+    const [special, regular, bold] = SPECIAL_GLYPHS[ch];
+    glyphs = [{ code: special, width: { regular, bold } }];
+  } else if (REPLACEMENTS[ch]) {
+    glyphs = REPLACEMENTS[ch].split('').flatMap(glyphsFor);
+  } else {
+    // Latin-1 accented letters keep their own code and the width of their base letter
+    const base = ch.normalize('NFD')[0];
+    const baseCode = base.charCodeAt(0);
+    const width = baseCode >= 32 && baseCode < 127
+      ? { regular: ASCII_WIDTHS.regular[baseCode - 32], bold: ASCII_WIDTHS.bold[baseCode - 32] }
+      : { regular: 556, bold: 556 };
+    glyphs = code >= 0xA0 && code <= 0xFF ? [{ code, width }]
+      : base !== ch ? glyphsFor(base)
+      : code < 32 ? glyphsFor(' ')
+      : glyphsFor('?');
+  }
+  glyphCache.set(ch, glyphs);
+  return glyphs;
+};
+
+const glyphsOf = (text: string): Glyph[] => Array.from(text).flatMap(glyphsFor);
+
+export const textWidth = (text: string, size: number, font: PdfFont = 'regular'): number =>
+  glyphsOf(text).reduce((sum, g) => sum + g.width[font], 0) * size / 1000;
+
+/** Breaks text into lines no wider than the given width; words longer than a line are split. */
+export const wrapText = (text: string, width: number, size: number, font: PdfFont = 'regular'): string[] => {
+  const lines: string[] = [];
+  (text || '').split(/\r?\n/).forEach(paragraph => {
+    let line = '';
+    paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (textWidth(candidate, size, font) <= width) {
+        line = candidate;
+        return;
+      }
+      if (line) lines.push(line);
+      line = '';
+      while (textWidth(word, size, font) > width) {
+        let cut = word.length - 1;
+        while (cut > 1 && textWidth(word.slice(0, cut), size, font) > width) cut--;
+        lines.push(word.slice(0, cut));
+        word = word.slice(cut);
+      }
+      line = word;
+    });
+    lines.push(line);
+  });
+  return lines;
+};
+
+/** Shortens text with an ellipsis to fit the given width. */
+export const fitText = (text: string, width: number, size: number, font: PdfFont = 'regular'): string => {
+  if (textWidth(text, size, font) <= width) return text;
+  let end = text.length;
+  while (end > 0 && textWidth(`${text.slice(0, end)}…`, size, font) > width) end--;
+  return `${text.slice(0, end)}…`;
+};
+
+// --- Serialization ---
+
+const num = (n: number) => (Math.round(n * 100) / 100).toString();
+
+const color = (hex: string, op: 'rg' | 'RG') => {
+  const value = hex.replace('#', '');
+  const full = value.length === 3 ? value.split('').map(c => c + c).join('') : value;
+  return [0, 2, 4].map(i => num(parseInt(full.slice(i, i + 2), 16) / 255)).join(' ') + ` ${op}`;
+};
+
+const pdfString = (text: string) =>
+  '(' + glyphsOf(text).map(g => {
+    if (g.code === 0x28 || g.code === 0x29 || g.code === 0x5C) return `\\${String.fromCharCode(g.code)}`;
+    return g.code < 127 ? String.fromCharCode(g.code) : `\\${g.code.toString(8).padStart(3, '0')}`;
+  }).join('') + ')';
+
+// Document metadata and bookmarks take Unicode text as UTF-16BE
+const pdfUnicodeString = (text: string) =>
+  '<FEFF' + Array.from(text).map(ch => {
+    const code = ch.codePointAt(0)!;
+    if (code <= 0xFFFF) return code.toString(16).padStart(4, '0');
+    const offset = code - 0x10000;
+    return ((offset >> 10) + 0xD800).toString(16) + ((offset & 0x3FF) + 0xDC00).toString(16);
+  }).join('').toUpperCase() + '>';
+
+const contentStream = (page: PdfPage, height: number): string =>
+  page.ops.map(op => {
+    switch (op.type) {
+      case 'text':
+        return `BT ${color(op.color || '#000000', 'rg')} /${op.font === 'bold' ? 'F2' : 'F1'} ${num(op.size)} Tf 1 0 0 1 ${num(op.x)} ${num(height - op.y)} Tm ${pdfString(op.text)} Tj ET`;
+      case 'rect': {
+        const path = `${num(op.x)} ${num(height - op.y - op.height)} ${num(op.width)} ${num(op.height)} re`;
+        const style = [op.fill ? color(op.fill, 'rg') : '', op.stroke ? `${color(op.stroke, 'RG')} ${num(op.lineWidth ?? 0.5)} w` : ''].filter(Boolean).join(' ');
+        return `q ${style} ${path} ${op.fill && op.stroke ? 'B' : op.fill ? 'f' : 'S'} Q`;
+      }
+      case 'line':
+        return `q ${color(op.color || '#000000', 'RG')} ${num(op.lineWidth ?? 0.5)} w [${(op.dash || []).map(num).join(' ')}] 0 d ${num(op.x1)} ${num(height - op.y1)} m ${num(op.x2)} ${num(height - op.y2)} l S Q`;
+      default:
+        return '';
+    }
+  }).filter(Boolean).join('\n');
+
+/** Serializes pages into a PDF file, with optional bookmarks shown in the viewer's outline. Pages are A4 unless a size is given. */
+export const buildPdf = (pages: PdfPage[], options: { title?: string; bookmarks?: PdfBookmark[]; size?: { width: number; height: number } } = {}): Uint8Array => {
+  const { width, height } = options.size || A4;
+  const objects: string[] = [];
+  const add = (body: string) => objects.push(body);
+
+  // 1 catalog, 2 page tree, 3-4 fonts, 5 info, then per page: page, content; then the outline
+  const pageId = (index: number) => 6 + index * 2;
+  const bookmarks = options.bookmarks || [];
+  const outlineId = 6 + pages.length * 2;
+  add(`<< /Type /Catalog /Pages 2 0 R${bookmarks.length ? ` /Outlines ${outlineId} 0 R /PageMode /UseOutlines` : ''} >>`);
+  add(`<< /Type /Pages /Kids [${pages.map((_, i) => `${pageId(i)} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  const encoding = `<< /Type /Encoding /BaseEncoding /WinAnsiEncoding /Differences ${DIFFERENCES} >>`;
+  add(`<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding ${encoding} >>`);
+  add(`<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding ${encoding} >>`);
+  add(`<< /Producer (RCM Generator)${options.title ? ` /Title ${pdfUnicodeString(options.title)}` : ''} >>`);
+
+  pages.forEach((page, index) => {
+    const links = page.ops.flatMap(op => op.type === 'link' && pages[op.page]
+      ? [`<< /Type /Annot /Subtype /Link /Border [0 0 0] /Rect [${num(op.x)} ${num(height - op.y - op.height)} ${num(op.x + op.width)} ${num(height - op.y)}] /Dest [${pageId(op.page)} 0 R /XYZ null null null] >>`]
+      : []);
+    add(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(width)} ${num(height)}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId(index) + 1} 0 R${links.length ? ` /Annots [${links.join(' ')}]` : ''} >>`);
+    const stream = contentStream(page, height);
+    add(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+  });
+
+  if (bookmarks.length) {
+    const first = outlineId + 1;
+    add(`<< /Type /Outlines /First ${first} 0 R /Last ${first + bookmarks.length - 1} 0 R /Count ${bookmarks.length} >>`);
+    bookmarks.forEach((bookmark, i) => add(
+      `<< /Title ${pdfUnicodeString(bookmark.title)} /Parent ${outlineId} 0 R${i > 0 ? ` /Prev ${first + i - 1} 0 R` : ''}${i < bookmarks.length - 1 ? ` /Next ${first + i + 1} 0 R` : ''} /Dest [${pageId(bookmark.page)} 0 R /XYZ null null null] >>`
+    ));
+  }
+
+  // Every object body is ASCII, so string lengths are byte offsets
+  let out = '%PDF-1.4\n%âãÏÓ\n';
+  const offsets = objects.map((body, i) => {
+    const offset = out.length;
+    out += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+  const xref = out.length;
+  out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n${offsets.map(o => `${o.toString().padStart(10, '0')} 00000 n \n`).join('')}`;
+  out += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Uint8Array.from(out, ch => ch.charCodeAt(0));
+};
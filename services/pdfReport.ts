@@ -0,0 +1,549 @@
+import { AssetNode, RCMItem, RiskLevel, RiskScheme, StudyFunction, StudyWorkflow, WorkflowState } from "../types";
+import { A4, PdfBookmark, PdfFont, PdfOp, PdfPage, buildPdf, fitText, textWidth, wrapText } from "./pdf";
+import { matrixLevel, rpnLevel, scaleMax } from "./riskScheme";
+import { compareByWorksheet } from "./worksheet";
+import { resolveAssetReference } from "./assetHierarchy";
+import { DETECTION_METHODS, FAILURE_CAUSES, FAILURE_MECHANISMS, formatTaxonomy } from "./iso14224";
+import { formatInterval } from "./intervals";
+import { documentRevision } from "./workflow";
+
+// RCM Strategy Report as a paginated PDF: cover sheet, linked table of contents, sign-offs, operating
+// context, risk matrix and RPN chart drawn as vector graphics, then one chapter per function.
+
+export interface StrategyReportInput {
+  studyName: string;
+  items: RCMItem[];
+  functions: StudyFunction[];
+  assetHierarchy: AssetNode[];
+  riskScheme: RiskScheme;
+  workflow: StudyWorkflow;
+  contextText: string;
+  language: string;
+}
+
+interface ReportLabels {
+  title: string; subtitle: string; contents: string; page: string; of: string; revision: string; date: string;
+  signoff: string; status: string; approved: string; role: string; name: string; action: string; comment: string; signature: string;
+  context: string; noContext: string; riskOverview: string; matrix: string; severity: string; occurrence: string; chart: string;
+  riskScheme: string; failureModes: string; functions: string; func: string; ff: string; unassigned: string;
+  comp: string; floc: string; tag: string; failureMode: string; effect: string; consequence: string; criticality: string;
+  iso: string; mechanism: string; cause: string; detection: string; approvedBy: string;
+  strategy: string; task: string; interval: string; type: string; insp: string; responsibility: string; duration: string; step: string; criteria: string;
+  levels: Record<RiskLevel, string>;
+  states: Record<WorkflowState, string>; roles: Record<SignOffRole, string>;
+}
+
+// Sign-off roles named by the workflow transitions
+type SignOffRole = 'Author' | 'Reviewer' | 'Approver' | 'Issuer';
+
+const REPORT_LABELS: Record<string, ReportLabels> = {
+  English: {
+    title: "RCM Strategy Report", subtitle: "SAE JA1011 Reliability Compliance Report", contents: "Contents", page: "Page", of: "of", revision: "Rev.", date: "Date",
+    signoff: "Document Approval", status: "Status", approved: "Failure modes approved", role: "Role", name: "Name", action: "Action", comment: "Comment", signature: "Signature",
+    context: "Operational Context", noContext: "No operational context has been recorded for this study.", riskOverview: "Risk Overview", matrix: "Risk Criticality Matrix", severity: "Severity", occurrence: "Occurrence", chart: "Highest RPN Failure Modes",
+    riskScheme: "Risk scheme", failureModes: "Failure modes", functions: "Functions", func: "Function", ff: "Functional Failure", unassigned: "Unassigned",
+    comp: "Component", floc: "Functional Location", tag: "Asset Tag", failureMode: "Failure Mode", effect: "Failure Effect", consequence: "Consequence", criticality: "Criticality",
+    iso: "ISO 14224", mechanism: "Failure Mechanism", cause: "Failure Cause", detection: "Detection Method", approvedBy: "Approved",
+    strategy: "Maintenance Strategy", task: "Task Description", interval: "Interval", type: "Type", insp: "Inspection Protocol", responsibility: "Responsibility", duration: "Duration", step: "Action Step", criteria: "Acceptance Criteria",
+    levels: { High: "High", Medium: "Medium", Low: "Low" },
+    states: { draft: "Draft", "in-review": "In Review", approved: "Approved", issued: "Issued" },
+    roles: { Author: "Author", Reviewer: "Reviewer", Approver: "Approver", Issuer: "Issuer" }
+  },
+  Spanish: {
+    title: "Informe de Estrategia RCM", subtitle: "Informe de cumplimiento de fiabilidad SAE JA1011", contents: "Índice", page: "Página", of: "de", revision: "Rev.", date: "Fecha",
+    signoff: "Aprobación del documento", status: "Estado", approved: "Modos de fallo aprobados", role: "Rol", name: "Nombre", action: "Acción", comment: "Comentario", signature: "Firma",
+    context: "Contexto operacional", noContext: "No se ha registrado un contexto operacional para este estudio.", riskOverview: "Resumen de riesgos", matrix: "Matriz de criticidad de riesgos", severity: "Severidad", occurrence: "Ocurrencia", chart: "Modos de fallo con mayor NPR",
+    riskScheme: "Esquema de riesgo", failureModes: "Modos de fallo", functions: "Funciones", func: "Función", ff: "Fallo Funcional", unassigned: "Sin asignar",
+    comp: "Componente", floc: "Ubicación técnica", tag: "Etiqueta de activo", failureMode: "Modo de fallo", effect: "Efecto del fallo", consequence: "Consecuencia", criticality: "Criticidad",
+    iso: "ISO 14224", mechanism: "Mecanismo de fallo", cause: "Causa de fallo", detection: "Método de detección", approvedBy: "Aprobado",
+    strategy: "Estrategia de Mantenimiento", task: "Descripción de la tarea", interval: "Intervalo", type: "Tipo", insp: "Protocolo de Inspección", responsibility: "Responsabilidad", duration: "Duración", step: "Paso", criteria: "Criterios de aceptación",
+    levels: { High: "Alto", Medium: "Medio", Low: "Bajo" },
+    states: { draft: "Borrador", "in-review": "En revisión", approved: "Aprobado", issued: "Emitido" },
+    roles: { Author: "Autor", Reviewer: "Revisor", Approver: "Aprobador", Issuer: "Emisor" }
+  },
+  French: {
+    title: "Rapport de Stratégie RCM", subtitle: "Rapport de conformité de fiabilité SAE JA1011", contents: "Sommaire", page: "Page", of: "sur", revision: "Rév.", date: "Date",
+    signoff: "Approbation du document", status: "Statut", approved: "Modes de défaillance approuvés", role: "Rôle", name: "Nom", action: "Action", comment: "Commentaire", signature: "Signature",
+    context: "Contexte opérationnel", noContext: "Aucun contexte opérationnel n'a été saisi pour cette étude.", riskOverview: "Synthèse des risques", matrix: "Matrice de criticité des risques", severity: "Gravité", occurrence: "Occurrence", chart: "Modes de défaillance à IPR le plus élevé",
+    riskScheme: "Schéma de risque", failureModes: "Modes de défaillance", functions: "Fonctions", func: "Fonction", ff: "Défaillance Fonctionnelle", unassigned: "Non affecté",
+    comp: "Composant", floc: "Poste technique", tag: "Repère d'équipement", failureMode: "Mode de défaillance", effect: "Effet de la défaillance", consequence: "Conséquence", criticality: "Criticité",
+    iso: "ISO 14224", mechanism: "Mécanisme de défaillance", cause: "Cause de défaillance", detection: "Méthode de détection", approvedBy: "Approuvé",
+    strategy: "Stratégie de Maintenance", task: "Description de la tâche", interval: "Intervalle", type: "Type", insp: "Protocole d'Inspection", responsibility: "Responsabilité", duration: "Durée", step: "Étape", criteria: "Critères d'acceptation",
+    levels: { High: "Élevé", Medium: "Moyen", Low: "Faible" },
+    states: { draft: "Brouillon", "in-review": "En revue", approved: "Approuvé", issued: "Émis" },
+    roles: { Author: "Auteur", Reviewer: "Vérificateur", Approver: "Approbateur", Issuer: "Émetteur" }
+  },
+  German: {
+    title: "RCM-Strategiebericht", subtitle: "SAE JA1011 Zuverlässigkeits-Konformitätsbericht", contents: "Inhalt", page: "Seite", of: "von", revision: "Rev.", date: "Datum",
+    signoff: "Dokumentfreigabe", status: "Status", approved: "Freigegebene Fehlermodi", role: "Rolle", name: "Name", action: "Aktion", comment: "Kommentar", signature: "Unterschrift",
+    context: "Betriebskontext", noContext: "Für diese Studie wurde kein Betriebskontext erfasst.", riskOverview: "Risikoübersicht", matrix: "Risikokritikalitätsmatrix", severity: "Schwere", occurrence: "Auftreten", chart: "Fehlermodi mit der höchsten RPZ",
+    riskScheme: "Risikoschema", failureModes: "Fehlermodi", functions: "Funktionen", func: "Funktion", ff: "Funktionsstörung", unassigned: "Nicht zugeordnet",
+    comp: "Komponente", floc: "Technischer Platz", tag: "Equipment-Nr.", failureMode: "Fehlermodus", effect: "Fehlerauswirkung", consequence: "Konsequenz", criticality: "Kritikalität",
+    iso: "ISO 14224", mechanism: "Ausfallmechanismus", cause: "Ausfallursache", detection: "Erkennungsmethode", approvedBy: "Freigegeben",
+    strategy: "Instandhaltungsstrategie", task: "Aufgabenbeschreibung", interval: "Intervall", type: "Typ", insp: "Inspektionsprotokoll", responsibility: "Verantwortung", duration: "Dauer", step: "Arbeitsschritt", criteria: "Abnahmekriterien",
+    levels: { High: "Hoch", Medium: "Mittel", Low: "Niedrig" },
+    states: { draft: "Entwurf", "in-review": "In Prüfung", approved: "Freigegeben", issued: "Herausgegeben" },
+    roles: { Author: "Ersteller", Reviewer: "Prüfer", Approver: "Freigeber", Issuer: "Herausgeber" }
+  },
+  Polish: {
+    title: "Raport Strategii RCM", subtitle: "Raport zgodności niezawodnościowej SAE JA1011", contents: "Spis treści", page: "Strona", of: "z", revision: "Wer.", date: "Data",
+    signoff: "Zatwierdzenie dokumentu", status: "Status", approved: "Zatwierdzone tryby awarii", role: "Rola", name: "Imię i nazwisko", action: "Działanie", comment: "Komentarz", signature: "Podpis",
+    context: "Kontekst operacyjny", noContext: "Dla tego badania nie zapisano kontekstu operacyjnego.", riskOverview: "Przegląd ryzyka", matrix: "Macierz krytyczności ryzyka", severity: "Dotkliwość", occurrence: "Występowanie", chart: "Tryby awarii o najwyższym RPN",
+    riskScheme: "Schemat ryzyka", failureModes: "Tryby awarii", functions: "Funkcje", func: "Funkcja", ff: "Usterka Funkcjonalna", unassigned: "Nieprzypisane",
+    comp: "Komponent", floc: "Lokalizacja funkcjonalna", tag: "Numer zasobu", failureMode: "Tryb awarii", effect: "Skutek awarii", consequence: "Konsekwencja", criticality: "Krytyczność",
+    iso: "ISO 14224", mechanism: "Mechanizm uszkodzenia", cause: "Przyczyna uszkodzenia", detection: "Metoda wykrycia", approvedBy: "Zatwierdzono",
+    strategy: "Strategia Utrzymania", task: "Opis zadania", interval: "Interwał", type: "Typ", insp: "Protokół Inspekcji", responsibility: "Odpowiedzialność", duration: "Czas trwania", step: "Krok", criteria: "Kryteria akceptacji",
+    levels: { High: "Wysoki", Medium: "Średni", Low: "Niski" },
+    states: { draft: "Projekt", "in-review": "W przeglądzie", approved: "Zatwierdzony", issued: "Wydany" },
+    roles: { Author: "Autor", Reviewer: "Weryfikator", Approver: "Zatwierdzający", Issuer: "Wydający" }
+  }
+};
+
+const LOCALES: Record<string, string> = { English: 'en-GB', Spanish: 'es-ES', French: 'fr-FR', German: 'de-DE', Polish: 'pl-PL' };
+
+const COLORS = {
+  ink: '#0f172a', text: '#334155', muted: '#64748b', rule: '#cbd5e1', faint: '#e2e8f0', panel: '#f1f5f9', accent: '#4f46e5', white: '#ffffff'
+};
+
+const LEVEL_COLORS: Record<RiskLevel, { fill: string; solid: string }> = {
+  High: { fill: '#fee2e2', solid: '#ef4444' },
+  Medium: { fill: '#fef3c7', solid: '#f59e0b' },
+  Low: { fill: '#d1fae5', solid: '#10b981' }
+};
+
+const MARGIN = 50;
+const TOP = 78; // Below the running header
+const BOTTOM = A4.height - 60; // Above the running footer
+const CONTENT_WIDTH = A4.width - 2 * MARGIN;
+const TOC_LINE = 18;
+
+interface TocEntry {
+  title: string;
+  level: number;
+  page: number; // Index into the content pages
+}
+
+// Sequential layout over content pages; sections add table of contents entries as they start
+const createLayout = () => {
+  const pages: PdfPage[] = [];
+  const toc: TocEntry[] = [];
+  let ops: PdfOp[] = [];
+  let y = TOP;
+
+  const newPage = () => {
+    ops = [];
+    pages.push({ ops });
+    y = TOP;
+  };
+  const ensure = (height: number) => {
+    if (pages.length === 0 || y + height > BOTTOM) newPage();
+  };
+  const draw = (op: PdfOp) => ops.push(op);
+
+  const text = (value: string, options: { size?: number; font?: PdfFont; color?: string; indent?: number; width?: number; gap?: number } = {}) => {
+    const size = options.size ?? 9;
+    const lineHeight = size * 1.35;
+    const x = MARGIN + (options.indent ?? 0);
+    wrapText(value, options.width ?? CONTENT_WIDTH - (options.indent ?? 0), size, options.font).forEach(line => {
+      ensure(lineHeight);
+      draw({ type: 'text', x, y: y + size, text: line, size, font: options.font, color: options.color ?? COLORS.text });
+      y += lineHeight;
+    });
+    y += options.gap ?? 4;
+  };
+
+  const section = (title: string, level: number, options: { newPage?: boolean } = {}) => {
+    if (options.newPage || pages.length === 0) newPage();
+    const size = level === 0 ? 16 : 12;
+    ensure(size * 3 + 40);
+    toc.push({ title, level, page: pages.length - 1 });
+    if (level === 0) {
+      draw({ type: 'text', x: MARGIN, y: y + size, text: fitText(title, CONTENT_WIDTH, size, 'bold'), size, font: 'bold', color: COLORS.ink });
+      y += size + 6;
+      draw({ type: 'line', x1: MARGIN, y1: y, x2: MARGIN + CONTENT_WIDTH, y2: y, color: COLORS.accent, lineWidth: 1.5 });
+      y += 14;
+    } else {
+      y += 6;
+      draw({ type: 'rect', x: MARGIN, y, width: 3, height: size + 6, fill: COLORS.accent });
+      const lines = wrapText(title, CONTENT_WIDTH - 12, size, 'bold');
+      lines.forEach((line, i) => draw({ type: 'text', x: MARGIN + 10, y: y + size + i * size * 1.3, text: line, size, font: 'bold', color: COLORS.ink }));
+      y += lines.length * size * 1.3 + 12;
+    }
+  };
+
+  const table = (columns: { label: string; width: number; font?: PdfFont }[], rows: string[][], options: { size?: number; minRowHeight?: number } = {}) => {
+    const size = options.size ?? 8;
+    const lineHeight = size * 1.3;
+    const pad = 4;
+    const headerHeight = 7 * 1.3 + 2 * pad;
+    const maxLines = Math.floor((BOTTOM - TOP - headerHeight - 2 * pad) / lineHeight);
+    const header = () => {
+      let x = MARGIN;
+      draw({ type: 'rect', x: MARGIN, y, width: columns.reduce((sum, c) => sum + c.width, 0), height: headerHeight, fill: COLORS.ink });
+      columns.forEach(column => {
+        draw({ type: 'text', x: x + pad, y: y + pad + 7, text: fitText(column.label.toUpperCase(), column.width - 2 * pad, 7, 'bold'), size: 7, font: 'bold', color: COLORS.white });
+        x += column.width;
+      });
+      y += headerHeight;
+    };
+
+    ensure(headerHeight + lineHeight + 2 * pad);
+    header();
+    rows.forEach(row => {
+      const cells = row.map((value, i) => {
+        const lines = wrapText(value || '', columns[i].width - 2 * pad, size, columns[i].font);
+        return lines.length > maxLines ? [...lines.slice(0, maxLines - 1), `${lines[maxLines - 1]}…`] : lines;
+      });
+      const height = Math.max(options.minRowHeight ?? 0, Math.max(...cells.map(lines => lines.length)) * lineHeight + 2 * pad);
+      if (y + height > BOTTOM) {
+        newPage();
+        header();
+      }
+      let x = MARGIN;
+      cells.forEach((lines, i) => {
+        draw({ type: 'rect', x, y, width: columns[i].width, height, stroke: COLORS.rule, lineWidth: 0.5 });
+        lines.forEach((line, l) => draw({ type: 'text', x: x + pad, y: y + pad + size + l * lineHeight, text: line, size, font: columns[i].font, color: COLORS.text }));
+        x += columns[i].width;
+      });
+      y += height;
+    });
+    y += 10;
+  };
+
+  return {
+    pages, toc, newPage, ensure, draw, text, section, table,
+    get y() { return y; },
+    set y(value: number) { y = value; }
+  };
+};
+
+type Layout = ReturnType<typeof createLayout>;
+
+// --- Sections ---
+
+const roleLabel = (labels: ReportLabels, role: string): string => labels.roles[role as SignOffRole] || role;
+
+const drawSignOffs = (layout: Layout, input: StrategyReportInput, labels: ReportLabels, locale: string) => {
+  const { workflow, items } = input;
+  layout.section(labels.signoff, 0, { newPage: true });
+  layout.text(`${labels.status}: ${labels.states[workflow.state]}  ·  ${labels.approved}: ${items.filter(i => i.isApproved).length} / ${items.length}`, { size: 10, gap: 10 });
+  const rows = workflow.signOffs.map(s => [
+    roleLabel(labels, s.role), s.name, `${labels.states[s.from]} → ${labels.states[s.to]}`, new Date(s.timestamp).toLocaleString(locale), s.comment || '', ''
+  ]);
+  // Blank lines for wet signatures by roles that have not signed yet
+  (['Author', 'Reviewer', 'Approver'] as SignOffRole[]).filter(role => !workflow.signOffs.some(s => s.role === role)).forEach(role => rows.push([labels.roles[role], '', '', '', '', '']));
+  layout.table([
+    { label: labels.role, width: 60, font: 'bold' }, { label: labels.name, width: 80 }, { label: labels.action, width: 85 },
+    { label: labels.date, width: 80 }, { label: labels.comment, width: 110 }, { label: labels.signature, width: CONTENT_WIDTH - 415 }
+  ], rows, { minRowHeight: 30 });
+};
+
+const drawContext = (layout: Layout, contextText: string, labels: ReportLabels) => {
+  layout.section(labels.context, 0, { newPage: true });
+  const lines = (contextText || '').split(/\r?\n/);
+  if (!lines.some(l => l.trim())) {
+    layout.text(labels.noContext, { color: COLORS.muted });
+    return;
+  }
+  lines.forEach(raw => {
+    const line = raw.replace(/\*\*/g, '').trimEnd();
+    if (!line.trim()) {
+      layout.y += 4;
+      return;
+    }
+    const heading = line.match(/^\s*#+\s*(.*)$/);
+    const bullet = line.match(/^\s*[-*•]\s+(.*)$/);
+    if (heading) {
+      layout.ensure(30);
+      layout.y += 4;
+      layout.text(heading[1], { size: 10.5, font: 'bold', color: COLORS.ink });
+    } else if (bullet) {
+      layout.ensure(14);
+      layout.draw({ type: 'text', x: MARGIN + 4, y: layout.y + 9, text: '•', size: 9, color: COLORS.accent });
+      layout.text(bullet[1], { indent: 14, gap: 2 });
+    } else {
+      layout.text(line.trim(), { gap: 2 });
+    }
+  });
+};
+
+// Severity across, occurrence upwards, as in the study view; cells show the failure mode count
+const drawRiskMatrix = (layout: Layout, items: RCMItem[], scheme: RiskScheme, labels: ReportLabels) => {
+  const sevMax = scaleMax(scheme.severity);
+  const occMax = scaleMax(scheme.occurrence);
+  const cellSize = Math.min(34, (CONTENT_WIDTH - 60) / sevMax);
+  const gridWidth = cellSize * sevMax;
+  const gridHeight = cellSize * occMax;
+  layout.ensure(gridHeight + 90);
+  layout.text(labels.matrix, { size: 11, font: 'bold', color: COLORS.ink, gap: 2 });
+  layout.text(scheme.name, { size: 8, color: COLORS.muted, gap: 16 });
+
+  const left = MARGIN + 40 + (CONTENT_WIDTH - 40 - gridWidth) / 2;
+  const top = layout.y;
+  for (let o = occMax; o >= 1; o--) {
+    const y = top + (occMax - o) * cellSize;
+    layout.draw({ type: 'text', x: left - 10 - textWidth(String(o), 8), y: y + cellSize / 2 + 3, text: String(o), size: 8, color: COLORS.muted });
+    for (let s = 1; s <= sevMax; s++) {
+      const x = left + (s - 1) * cellSize;
+      const level = matrixLevel(s, o, scheme);
+      layout.draw({ type: 'rect', x, y, width: cellSize, height: cellSize, fill: LEVEL_COLORS[level].fill, stroke: COLORS.white, lineWidth: 1.5 });
+      const count = items.filter(i => i.severity === s && i.occurrence === o).length;
+      if (count > 0) {
+        const label = String(count);
+        const r = Math.min(cellSize / 2 - 4, 9);
+        layout.draw({ type: 'rect', x: x + cellSize / 2 - r, y: y + cellSize / 2 - r, width: 2 * r, height: 2 * r, fill: LEVEL_COLORS[level].solid });
+        layout.draw({ type: 'text', x: x + cellSize / 2 - textWidth(label, 8, 'bold') / 2, y: y + cellSize / 2 + 3, text: label, size: 8, font: 'bold', color: COLORS.white });
+      }
+    }
+  }
+  for (let s = 1; s <= sevMax; s++) {
+    const label = String(s);
+    layout.draw({ type: 'text', x: left + (s - 0.5) * cellSize - textWidth(label, 8) / 2, y: top + gridHeight + 12, text: label, size: 8, color: COLORS.muted });
+  }
+  const sevLabel = labels.severity.toUpperCase();
+  layout.draw({ type: 'text', x: left + gridWidth / 2 - textWidth(sevLabel, 7, 'bold') / 2, y: top + gridHeight + 26, text: sevLabel, size: 7, font: 'bold', color: COLORS.muted });
+  const occLabel = labels.occurrence.toUpperCase();
+  layout.draw({ type: 'text', x: left - textWidth(occLabel, 7, 'bold') / 2, y: top - 6, text: occLabel, size: 7, font: 'bold', color: COLORS.muted });
+
+  // Legend
+  let x = left;
+  (['Low', 'Medium', 'High'] as RiskLevel[]).forEach(level => {
+    layout.draw({ type: 'rect', x, y: top + gridHeight + 34, width: 8, height: 8, fill: LEVEL_COLORS[level].fill, stroke: LEVEL_COLORS[level].solid });
+    layout.draw({ type: 'text', x: x + 12, y: top + gridHeight + 41, text: labels.levels[level], size: 7.5, color: COLORS.text });
+    x += 24 + textWidth(labels.levels[level], 7.5);
+  });
+  layout.y = top + gridHeight + 62;
+};
+
+const niceStep = (max: number, ticks: number) => {
+  const raw = max / ticks;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(raw)));
+  return [1, 2, 2.5, 5, 10].map(f => f * magnitude).find(step => step >= raw) || raw;
+};
+
+const drawRpnChart = (layout: Layout, items: RCMItem[], scheme: RiskScheme, labels: ReportLabels) => {
+  const top = [...items].sort((a, b) => (b.rpn || 0) - (a.rpn || 0)).slice(0, 10);
+  if (top.length === 0) return;
+  const barHeight = 14;
+  const rowHeight = 22;
+  const labelWidth = 170;
+  const chartWidth = CONTENT_WIDTH - labelWidth - 30;
+  const step = niceStep(Math.max(...top.map(i => i.rpn || 0), 1), 5);
+  const axisMax = Math.ceil(Math.max(...top.map(i => i.rpn || 0), 1) / step) * step;
+  layout.ensure(top.length * rowHeight + 70);
+  layout.text(labels.chart, { size: 11, font: 'bold', color: COLORS.ink, gap: 8 });
+
+  const left = MARGIN + labelWidth;
+  const chartTop = layout.y;
+  const chartHeight = top.length * rowHeight;
+  for (let value = 0; value <= axisMax; value += step) {
+    const x = left + (value / axisMax) * chartWidth;
+    layout.draw({ type: 'line', x1: x, y1: chartTop, x2: x, y2: chartTop + chartHeight, color: COLORS.faint, lineWidth: 0.5, dash: value === 0 ? [] : [2, 2] });
+    const label = String(Math.round(value * 100) / 100);
+    layout.draw({ type: 'text', x: x - textWidth(label, 7) / 2, y: chartTop + chartHeight + 11, text: label, size: 7, color: COLORS.muted });
+  }
+  top.forEach((item, i) => {
+    const y = chartTop + i * rowHeight + (rowHeight - barHeight) / 2;
+    const name = fitText(`${item.component} — ${item.failureMode}`, labelWidth - 10, 7.5);
+    layout.draw({ type: 'text', x: left - 8 - textWidth(name, 7.5), y: y + barHeight / 2 + 2.5, text: name, size: 7.5, color: COLORS.text });
+    const width = Math.max(1, ((item.rpn || 0) / axisMax) * chartWidth);
+    layout.draw({ type: 'rect', x: left, y, width, height: barHeight, fill: LEVEL_COLORS[rpnLevel(item.rpn || 0, scheme)].solid });
+    layout.draw({ type: 'text', x: left + width + 4, y: y + barHeight / 2 + 3, text: String(item.rpn || 0), size: 7.5, font: 'bold', color: COLORS.ink });
+  });
+  layout.draw({ type: 'text', x: left + chartWidth / 2 - textWidth('RPN', 7, 'bold') / 2, y: chartTop + chartHeight + 24, text: 'RPN', size: 7, font: 'bold', color: COLORS.muted });
+  layout.y = chartTop + chartHeight + 40;
+};
+
+const drawItem = (layout: Layout, item: RCMItem, input: StrategyReportInput, labels: ReportLabels, locale: string) => {
+  const level = rpnLevel(item.rpn || 0, input.riskScheme);
+  const asset = resolveAssetReference(input.assetHierarchy, item.assetNodeId);
+  layout.ensure(120);
+
+  // Component bar with the RPN badge
+  const y = layout.y;
+  const badge = `RPN ${item.rpn || 0} · ${labels.levels[level]}`;
+  const badgeWidth = textWidth(badge, 7.5, 'bold') + 12;
+  layout.draw({ type: 'rect', x: MARGIN, y, width: CONTENT_WIDTH, height: 20, fill: COLORS.panel });
+  layout.draw({ type: 'text', x: MARGIN + 6, y: y + 13.5, text: fitText(`${labels.comp}: ${item.component} (${item.componentType})`, CONTENT_WIDTH - badgeWidth - 20, 9.5, 'bold'), size: 9.5, font: 'bold', color: COLORS.ink });
+  layout.draw({ type: 'rect', x: MARGIN + CONTENT_WIDTH - badgeWidth - 4, y: y + 4, width: badgeWidth, height: 12, fill: LEVEL_COLORS[level].solid });
+  layout.draw({ type: 'text', x: MARGIN + CONTENT_WIDTH - badgeWidth + 2, y: y + 12.5, text: badge, size: 7.5, font: 'bold', color: COLORS.white });
+  layout.y = y + 26;
+
+  const details: [string, string][] = [
+    [labels.failureMode, item.failureMode],
+    [labels.effect, item.failureEffect],
+    [labels.consequence, item.consequenceCategory],
+    [labels.criticality, `${labels.levels[item.criticality] || item.criticality} · RPN ${item.rpn || 0}${item.actionPriority ? ` · AP ${item.actionPriority}` : ''}${item.residual ? ` · Residual RPN ${item.residual.rpn}` : ''}`],
+    [`${labels.floc} / ${labels.tag}`, [asset.functionalLocation, asset.assetTag].filter(Boolean).join(' / ')],
+    [labels.iso, [item.equipmentClass, item.iso14224Code].filter(Boolean).join(' / ')],
+    [labels.mechanism, formatTaxonomy(FAILURE_MECHANISMS, item.failureMechanism)],
+    [labels.cause, formatTaxonomy(FAILURE_CAUSES, item.failureCause)],
+    [labels.detection, formatTaxonomy(DETECTION_METHODS, item.detectionMethod)],
+    [labels.approvedBy, item.approval ? `${item.approval.approvedBy}, ${new Date(item.approval.approvedAt).toLocaleDateString(locale)}` : '']
+  ];
+  details.filter(([, value]) => value).forEach(([label, value]) => {
+    const lines = wrapText(value, CONTENT_WIDTH - 130, 8.5);
+    layout.ensure(lines.length * 11.5 + 2);
+    layout.draw({ type: 'text', x: MARGIN + 6, y: layout.y + 8.5, text: fitText(label, 115, 7.5, 'bold'), size: 7.5, font: 'bold', color: COLORS.muted });
+    lines.forEach((line, i) => layout.draw({ type: 'text', x: MARGIN + 130, y: layout.y + 8.5 + i * 11.5, text: line, size: 8.5, color: COLORS.text }));
+    layout.y += lines.length * 11.5 + 2;
+  });
+  layout.y += 6;
+
+  layout.text(labels.strategy, { size: 8, font: 'bold', color: COLORS.accent, gap: 3 });
+  layout.table([
+    { label: labels.task, width: CONTENT_WIDTH - 220, font: 'bold' }, { label: labels.interval, width: 110 }, { label: labels.type, width: 110 }
+  ], [[item.maintenanceTask, formatInterval(item.interval, input.language), item.taskType]]);
+
+  const sheet = item.inspectionSheet;
+  if (sheet?.steps?.length) {
+    layout.ensure(50);
+    layout.text(labels.insp, { size: 8, font: 'bold', color: COLORS.accent, gap: 1 });
+    layout.text(`${labels.responsibility}: ${sheet.responsibility || '—'}  ·  ${labels.duration}: ${sheet.estimatedTime || '—'}`, { size: 7.5, color: COLORS.muted, gap: 3 });
+    layout.table([
+      { label: '#', width: 24, font: 'bold' }, { label: labels.step, width: (CONTENT_WIDTH - 24) * 0.6 }, { label: labels.criteria, width: (CONTENT_WIDTH - 24) * 0.4 }
+    ], sheet.steps.map(step => [String(step.step), step.description, step.criteria]));
+  }
+  layout.y += 8;
+};
+
+// Chapters follow the worksheet records: one per function, one section per functional failure
+const drawFunctions = (layout: Layout, input: StrategyReportInput, labels: ReportLabels, locale: string) => {
+  const items = [...input.items].sort((a, b) =>
+    compareByWorksheet(input.functions)(a, b)
+    || (a.component || '').localeCompare(b.component || '')
+    || (a.failureMode || '').localeCompare(b.failureMode || ''));
+  const ordered = [...input.functions].sort((a, b) => a.functionType.localeCompare(b.functionType));
+  const known = new Set(ordered.map(f => f.id));
+
+  ordered.forEach((fn, index) => {
+    const fnItems = items.filter(item => item.functionId === fn.id);
+    if (fnItems.length === 0) return;
+    layout.section(`${labels.func} ${index + 1}: ${fn.description}`, 0, { newPage: true });
+    fn.functionalFailures.forEach((ff, ffIndex) => {
+      const ffItems = fnItems.filter(item => item.functionalFailureId === ff.id);
+      if (ffItems.length === 0) return;
+      layout.section(`${index + 1}${String.fromCharCode(65 + (ffIndex % 26))}  ${labels.ff}: ${ff.description}`, 1);
+      ffItems.forEach(item => drawItem(layout, item, input, labels, locale));
+    });
+    // Items whose functional failure is no longer on the worksheet
+    const linked = new Set(fn.functionalFailures.map(ff => ff.id));
+    fnItems.filter(item => !linked.has(item.functionalFailureId || '')).forEach(item => drawItem(layout, item, input, labels, locale));
+  });
+
+  const unassigned = items.filter(item => !known.has(item.functionId || ''));
+  if (unassigned.length > 0) {
+    layout.section(`${labels.func}: ${labels.unassigned}`, 0, { newPage: true });
+    unassigned.forEach(item => drawItem(layout, item, input, labels, locale));
+  }
+};
+
+// --- Document ---
+
+const drawCover = (input: StrategyReportInput, labels: ReportLabels, date: string): PdfPage => {
+  const ops: PdfOp[] = [];
+  ops.push({ type: 'rect', x: 0, y: 0, width: A4.width, height: 330, fill: COLORS.ink });
+  ops.push({ type: 'rect', x: MARGIN, y: 120, width: 40, height: 4, fill: COLORS.accent });
+  ops.push({ type: 'text', x: MARGIN, y: 110, text: labels.subtitle.toUpperCase(), size: 8, font: 'bold', color: '#94a3b8' });
+  let y = 170;
+  wrapText(labels.title, CONTENT_WIDTH, 30, 'bold').forEach(line => {
+    ops.push({ type: 'text', x: MARGIN, y, text: line, size: 30, font: 'bold', color: COLORS.white });
+    y += 36;
+  });
+  wrapText(input.studyName || labels.title, CONTENT_WIDTH, 16, 'bold').slice(0, 3).forEach(line => {
+    ops.push({ type: 'text', x: MARGIN, y: y + 8, text: line, size: 16, font: 'bold', color: '#c7d2fe' });
+    y += 21;
+  });
+
+  const functions = new Set(input.items.map(i => i.functionId || i.function)).size;
+  const facts: [string, string][] = [
+    [labels.revision, String(documentRevision(input.workflow))],
+    [labels.status, labels.states[input.workflow.state]],
+    [labels.date, date],
+    [labels.riskScheme, input.riskScheme.name],
+    [labels.functions, String(functions)],
+    [labels.failureModes, String(input.items.length)],
+    [labels.approved, `${input.items.filter(i => i.isApproved).length} / ${input.items.length}`]
+  ];
+  y = 380;
+  facts.forEach(([label, value]) => {
+    ops.push({ type: 'text', x: MARGIN, y, text: label.toUpperCase(), size: 7.5, font: 'bold', color: COLORS.muted });
+    ops.push({ type: 'text', x: MARGIN + 160, y, text: fitText(value, CONTENT_WIDTH - 160, 11), size: 11, color: COLORS.ink });
+    ops.push({ type: 'line', x1: MARGIN, y1: y + 9, x2: MARGIN + CONTENT_WIDTH, y2: y + 9, color: COLORS.faint });
+    y += 28;
+  });
+  return { ops };
+};
+
+const tocPageCapacity = (first: boolean) => Math.floor((BOTTOM - TOP - (first ? 40 : 0)) / TOC_LINE);
+
+const drawToc = (entries: TocEntry[], offset: number, labels: ReportLabels): PdfPage[] => {
+  const pages: PdfPage[] = [];
+  let remaining = [...entries];
+  while (remaining.length > 0 || pages.length === 0) {
+    const first = pages.length === 0;
+    const ops: PdfOp[] = [];
+    let y = TOP;
+    if (first) {
+      ops.push({ type: 'text', x: MARGIN, y: y + 16, text: labels.contents, size: 16, font: 'bold', color: COLORS.ink });
+      ops.push({ type: 'line', x1: MARGIN, y1: y + 22, x2: MARGIN + CONTENT_WIDTH, y2: y + 22, color: COLORS.accent, lineWidth: 1.5 });
+      y += 40;
+    }
+    remaining.splice(0, tocPageCapacity(first)).forEach(entry => {
+      const indent = entry.level * 16;
+      const size = entry.level === 0 ? 10 : 9;
+      const font: PdfFont = entry.level === 0 ? 'bold' : 'regular';
+      const pageLabel = String(entry.page + offset + 1);
+      const pageWidth = textWidth(pageLabel, size, font);
+      const title = fitText(entry.title, CONTENT_WIDTH - indent - pageWidth - 30, size, font);
+      const titleEnd = MARGIN + indent + textWidth(title, size, font) + 4;
+      ops.push({ type: 'text', x: MARGIN + indent, y: y + 12, text: title, size, font, color: entry.level === 0 ? COLORS.ink : COLORS.text });
+      ops.push({ type: 'line', x1: titleEnd, y1: y + 12, x2: MARGIN + CONTENT_WIDTH - pageWidth - 4, y2: y + 12, color: COLORS.rule, lineWidth: 0.6, dash: [1, 2] });
+      ops.push({ type: 'text', x: MARGIN + CONTENT_WIDTH - pageWidth, y: y + 12, text: pageLabel, size, font, color: COLORS.ink });
+      ops.push({ type: 'link', x: MARGIN, y, width: CONTENT_WIDTH, height: TOC_LINE, page: entry.page + offset });
+      y += TOC_LINE;
+    });
+    pages.push({ ops });
+  }
+  return pages;
+};
+
+const drawRunningHeads = (page: PdfPage, index: number, total: number, input: StrategyReportInput, labels: ReportLabels, footerNote: string) => {
+  const pageLabel = `${labels.page} ${index + 1} ${labels.of} ${total}`;
+  page.ops.push(
+    { type: 'text', x: MARGIN, y: 40, text: fitText(input.studyName || labels.title, CONTENT_WIDTH * 0.6, 8, 'bold'), size: 8, font: 'bold', color: COLORS.ink },
+    { type: 'text', x: MARGIN + CONTENT_WIDTH - textWidth(labels.title, 8), y: 40, text: labels.title, size: 8, color: COLORS.muted },
+    { type: 'line', x1: MARGIN, y1: 48, x2: MARGIN + CONTENT_WIDTH, y2: 48, color: COLORS.rule },
+    { type: 'line', x1: MARGIN, y1: A4.height - 44, x2: MARGIN + CONTENT_WIDTH, y2: A4.height - 44, color: COLORS.rule },
+    { type: 'text', x: MARGIN, y: A4.height - 32, text: footerNote, size: 7.5, color: COLORS.muted },
+    { type: 'text', x: MARGIN + CONTENT_WIDTH - textWidth(pageLabel, 7.5, 'bold'), y: A4.height - 32, text: pageLabel, size: 7.5, font: 'bold', color: COLORS.ink }
+  );
+};
+
+export const buildStrategyReport = (input: StrategyReportInput): Uint8Array => {
+  const labels = REPORT_LABELS[input.language] || REPORT_LABELS['English'];
+  const locale = LOCALES[input.language] || LOCALES['English'];
+  const date = new Date().toLocaleDateString(locale);
+  const revision = `${labels.revision} ${documentRevision(input.workflow)}`;
+
+  const layout = createLayout();
+  drawSignOffs(layout, input, labels, locale);
+  drawContext(layout, input.contextText, labels);
+  layout.section(labels.riskOverview, 0, { newPage: true });
+  drawRiskMatrix(layout, input.items, input.riskScheme, labels);
+  drawRpnChart(layout, input.items, input.riskScheme, labels);
+  drawFunctions(layout, input, labels, locale);
+
+  // Content pages follow the cover and however many pages the contents need
+  const tocPages = Math.max(1, 1 + Math.ceil(Math.max(0, layout.toc.length - tocPageCapacity(true)) / tocPageCapacity(false)));
+  const offset = 1 + tocPages;
+  const pages = [drawCover(input, labels, date), ...drawToc(layout.toc, offset, labels), ...layout.pages];
+  const footerNote = `${revision} (${labels.states[input.workflow.state]})  ·  ${date}`;
+  pages.forEach((page, index) => { if (index > 0) drawRunningHeads(page, index, pages.length, input, labels, footerNote); });
+
+  const bookmarks: PdfBookmark[] = [
+    { title: labels.contents, page: 1 },
+    ...layout.toc.filter(entry => entry.level === 0).map(entry => ({ title: entry.title, page: entry.page + offset }))
+  ];
+  return buildPdf(pages, { title: `${labels.title} · ${input.studyName}`, bookmarks });
+};
@@ -0,0 +1,56 @@
+import { PFOptimizationInputs, PFOptimizationResult, MaintenanceInterval } from "../types";
+import { intervalToDays, scaleInterval } from "./intervals";
+
+// Cost-effective on-condition inspection interval (Moubray / Jardine P-F model).
+//
+// With n inspections spread over the net P-F interval (P-F minus the lead time needed to act),
+// the chance that a developing failure slips past every inspection is (1 - POD)^n.
+// Cost per unit time = inspection cost * n / netPF + (failure cost / MTBF) * (1 - POD)^n,
+// which is minimised at (1 - POD)^n = -Ci * MTBF / (netPF * Cf * ln(1 - POD)).
+
+const MAX_INSPECTIONS = 365;
+
+export const DEFAULT_PF_INPUTS = (pfInterval?: MaintenanceInterval): PFOptimizationInputs => ({
+  pfInterval: pfInterval || { value: 30, unit: 'days', basis: 'calendar' },
+  minNetPF: { value: 3, unit: 'days', basis: 'calendar' },
+  probabilityOfDetection: 0.8,
+  inspectionCost: 100,
+  failureCost: 10000,
+  mtbf: { value: 5, unit: 'years', basis: 'calendar' }
+});
+
+const costPerYear = (n: number, inputs: PFOptimizationInputs, netPFDays: number, mtbfDays: number): number => {
+  const miss = Math.pow(1 - inputs.probabilityOfDetection, n);
+  const perDay = inputs.inspectionCost * n / netPFDays + (inputs.failureCost / mtbfDays) * miss;
+  return perDay * 365.25;
+};
+
+export const netPFDays = (inputs: PFOptimizationInputs): number =>
+  Math.max(0, (intervalToDays(inputs.pfInterval) || 0) - (intervalToDays(inputs.minNetPF) || 0));
+
+export const optimizePFInterval = (inputs: PFOptimizationInputs): PFOptimizationResult | null => {
+  const pfDays = intervalToDays(inputs.pfInterval);
+  const mtbfDays = intervalToDays(inputs.mtbf);
+  const net = netPFDays(inputs);
+  const pod = inputs.probabilityOfDetection;
+  if (!pfDays || !mtbfDays || net <= 0 || !(pod > 0) || pod > 1) return null;
+
+  // Closed-form optimum, then the best whole number of inspections either side of it
+  let n = 1;
+  if (pod < 1 && inputs.failureCost > 0) {
+    const target = -inputs.inspectionCost * mtbfDays / (net * inputs.failureCost * Math.log(1 - pod));
+    const continuous = target > 0 && target < 1 ? Math.log(target) / Math.log(1 - pod) : 1;
+    const candidates = [Math.floor(continuous), Math.ceil(continuous)].map(c => Math.min(MAX_INSPECTIONS, Math.max(1, c)));
+    n = candidates.reduce((best, c) => costPerYear(c, inputs, net, mtbfDays) < costPerYear(best, inputs, net, mtbfDays) ? c : best, candidates[0]);
+  }
+
+  const interval = scaleInterval(inputs.pfInterval, (net / n) / pfDays);
+  const residualRisk = Math.pow(1 - pod, n);
+  return {
+    inspectionsInWindow: n,
+    interval,
+    residualRisk,
+    costPerYear: costPerYear(n, inputs, net, mtbfDays),
+    undetectedFailuresPerYear: residualRisk * 365.25 / mtbfDays
+  };
+};
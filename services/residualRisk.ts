@@ -0,0 +1,85 @@
+import { RCMItem, ResidualRisk, RiskScheme, TaskType } from "../types";
+import { intervalToDays } from "./intervals";
+import { clampScore, scaleMax } from "./riskScheme";
+import { AGE_REPLACEMENT_TASKS } from "./ageReplacement";
+
+// Residual (post-mitigation) risk estimated from the selected task and its interval.
+//
+// Each task type removes a share of the scale range from the scores it acts on; the share is
+// scaled by how well the interval supports the task. These are planning estimates for showing
+// the effect of the programme; teams can overwrite any residual score by hand.
+
+type TaskEffect = { severity: number; occurrence: number; detection: number };
+
+const TASK_EFFECTS: Record<TaskType, TaskEffect> = {
+  'Condition Monitoring': { severity: 0, occurrence: 0.2, detection: 0.5 },
+  'Time-Based': { severity: 0, occurrence: 0.4, detection: 0 },
+  'Replacement': { severity: 0, occurrence: 0.4, detection: 0 },
+  'Restoration': { severity: 0, occurrence: 0.3, detection: 0 },
+  'Lubrication': { severity: 0, occurrence: 0.25, detection: 0 },
+  'Servicing': { severity: 0, occurrence: 0.2, detection: 0 },
+  'Failure Finding': { severity: 0, occurrence: 0.1, detection: 0.5 },
+  'Redesign': { severity: 0.1, occurrence: 0.5, detection: 0 },
+  'Training': { severity: 0, occurrence: 0.2, detection: 0 },
+  'Procedural Change': { severity: 0, occurrence: 0.25, detection: 0 },
+  'Run-to-Failure': { severity: 0, occurrence: 0, detection: 0 }
+};
+
+// One-off actions take effect once, whatever the interval says
+const ONE_OFF_TASKS: TaskType[] = ['Redesign', 'Training', 'Procedural Change'];
+
+/** Share of the task's nominal effect that its interval delivers (0-1). */
+export const intervalEffectiveness = (item: RCMItem): number => {
+  if (item.taskType === 'Run-to-Failure') return 0;
+  if (ONE_OFF_TASKS.includes(item.taskType)) return 1;
+
+  // Age-based tasks do nothing for failures that are not age related
+  if (AGE_REPLACEMENT_TASKS.includes(item.taskType) && item.weibull && item.weibull.fit.beta <= 1) return 0;
+
+  if (item.interval.basis === 'condition-triggered') return item.taskType === 'Condition Monitoring' ? 1 : 0.5;
+
+  const days = intervalToDays(item.interval);
+  if (!days) return 0.5;
+
+  // On-condition tasks are judged against the P-F interval they must fit into
+  const pfDays = item.pfInterval ? intervalToDays(item.pfInterval) : null;
+  if (item.taskType === 'Condition Monitoring' && pfDays) {
+    return days <= pfDays / 2 ? 1 : days <= pfDays ? 0.5 : 0.1;
+  }
+
+  if (item.taskType === 'Failure Finding' && item.failureFinding?.result.exponentialDays) {
+    return days <= item.failureFinding.result.exponentialDays ? 1 : 0.5;
+  }
+
+  return days <= 31 ? 1 : days <= 183 ? 0.85 : days <= 366 ? 0.7 : 0.5;
+};
+
+export const estimateResidualRisk = (item: RCMItem, scheme: RiskScheme): ResidualRisk => {
+  const effect = TASK_EFFECTS[item.taskType] || TASK_EFFECTS['Run-to-Failure'];
+  const effectiveness = intervalEffectiveness(item);
+  const reduce = (key: keyof TaskEffect) => {
+    const scale = scheme[key];
+    const points = Math.round(effect[key] * (scaleMax(scale) - 1) * effectiveness);
+    return clampScore((item[key] || 1) - points, scale);
+  };
+  const severity = reduce('severity');
+  const occurrence = reduce('occurrence');
+  const detection = reduce('detection');
+  return { severity, occurrence, detection, rpn: severity * occurrence * detection, source: 'estimated' };
+};
+
+/**
+ * Keeps residual scores in step with the item: estimates are refreshed on every update,
+ * manual scores are kept but clamped to the scheme and never allowed above the initial scores.
+ */
+export const applyResidualRisk = (items: RCMItem[], scheme: RiskScheme): RCMItem[] =>
+  items.map(item => {
+    if (item.residual?.source !== 'manual') return { ...item, residual: estimateResidualRisk(item, scheme) };
+    const cap = (key: 'severity' | 'occurrence' | 'detection') => Math.min(clampScore(item.residual![key], scheme[key]), item[key] || 1);
+    const severity = cap('severity');
+    const occurrence = cap('occurrence');
+    const detection = cap('detection');
+    return { ...item, residual: { severity, occurrence, detection, rpn: severity * occurrence * detection, source: 'manual' } };
+  });
+
+export const residualOf = (item: RCMItem, scheme: RiskScheme): ResidualRisk => item.residual || estimateResidualRisk(item, scheme);
@@ -0,0 +1,98 @@
+import { RCMItem, RevisionReason, SavedStudy, StudyRevision } from "../types";
+import { formatInterval } from "./intervals";
+import { openThreadCount } from "./comments";
+
+// Persisted study revisions and the item-level diff used to review and restore them.
+
+export const REVISION_REASON_LABELS: Record<RevisionReason, string> = {
+  'manual-save': 'Manual save',
+  'named': 'Named revision',
+  'finished': 'Marked finished',
+  'before-ai': 'Before AI operation',
+  'before-restore': 'Before restore',
+  'before-template-update': 'Before template update'
+};
+
+export const createRevision = (study: SavedStudy, reason: RevisionReason, label: string = REVISION_REASON_LABELS[reason]): StudyRevision => ({
+  id: `rev-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`,
+  studyId: study.id,
+  timestamp: Date.now(),
+  reason,
+  label,
+  snapshot: { ...study, items: study.items.map(item => ({ ...item, isNew: false })) }
+});
+
+const join = (values: (string | number | undefined)[]) => values.filter(v => v !== undefined && v !== '').join(' · ');
+
+// Fields compared between revisions, in worksheet order; derived or transient flags are left out
+const DIFF_FIELDS: { key: string; label: string; value: (item: RCMItem) => string }[] = [
+  { key: 'component', label: 'Component', value: i => i.component },
+  { key: 'componentType', label: 'Type', value: i => i.componentType },
+  { key: 'functionType', label: 'Function Type', value: i => i.functionType },
+  { key: 'function', label: 'Function', value: i => i.function },
+  { key: 'functionalFailure', label: 'Functional Failure', value: i => i.functionalFailure },
+  { key: 'failureMode', label: 'Failure Mode', value: i => i.failureMode },
+  { key: 'failureEffect', label: 'Failure Effect', value: i => i.failureEffect },
+  { key: 'consequenceCategory', label: 'Consequence', value: i => i.consequenceCategory },
+  { key: 'iso14224', label: 'ISO 14224', value: i => join([i.equipmentClass, i.iso14224Code, i.failureMechanism, i.failureCause, i.detectionMethod]) },
+  { key: 'scores', label: 'S / O / D', value: i => `${i.severity} / ${i.occurrence} / ${i.detection}` },
+  { key: 'rpn', label: 'RPN', value: i => String(i.rpn) },
+  { key: 'criticality', label: 'Criticality', value: i => i.criticality },
+  { key: 'residual', label: 'Residual', value: i => i.residual ? `${i.residual.severity} / ${i.residual.occurrence} / ${i.residual.detection} (RPN ${i.residual.rpn}, ${i.residual.source})` : '' },
+  { key: 'maintenanceTask', label: 'Task', value: i => i.maintenanceTask },
+  { key: 'taskType', label: 'Task Type', value: i => i.taskType },
+  { key: 'interval', label: 'Interval', value: i => formatInterval(i.interval) },
+  { key: 'pfInterval', label: 'P-F Interval', value: i => i.pfInterval ? formatInterval(i.pfInterval) : '' },
+  { key: 'failureHistory', label: 'Failure History', value: i => i.failureHistory?.length ? `${i.failureHistory.length} records` : '' },
+  { key: 'inspectionSheet', label: 'Inspection Sheet', value: i => i.inspectionSheet ? JSON.stringify(i.inspectionSheet) : '' },
+  { key: 'componentIntel', label: 'Component Intel', value: i => i.componentIntel?.description || '' },
+  { key: 'isApproved', label: 'Approved', value: i => i.isApproved ? 'Yes' : 'No' },
+  { key: 'reviewComments', label: 'Comments', value: i => i.reviewComments?.length ? `${i.reviewComments.length} comments, ${openThreadCount(i)} open threads` : '' }
+];
+
+export interface FieldChange {
+  key: string;
+  label: string;
+  before: string;
+  after: string;
+}
+
+export interface StudyDiff {
+  added: RCMItem[];
+  removed: RCMItem[];
+  changed: { before: RCMItem; after: RCMItem; fields: FieldChange[] }[];
+}
+
+const fieldChanges = (before: RCMItem, after: RCMItem): FieldChange[] =>
+  DIFF_FIELDS
+    .map(f => ({ key: f.key, label: f.label, before: f.value(before) || '', after: f.value(after) || '' }))
+    .filter(change => change.before !== change.after);
+
+/** Items matched by id: what `after` adds, drops and changes relative to `before`. */
+export const diffStudyItems = (before: RCMItem[], after: RCMItem[]): StudyDiff => {
+  const beforeById = new Map(before.filter(Boolean).map(item => [item.id, item]));
+  const afterIds = new Set(after.filter(Boolean).map(item => item.id));
+  const diff: StudyDiff = { added: [], removed: before.filter(item => item && !afterIds.has(item.id)), changed: [] };
+  after.filter(Boolean).forEach(item => {
+    const previous = beforeById.get(item.id);
+    if (!previous) {
+      diff.added.push(item);
+      return;
+    }
+    const fields = fieldChanges(previous, item);
+    if (fields.length > 0) diff.changed.push({ before: previous, after: item, fields });
+  });
+  return diff;
+};
+
+export const isEmptyDiff = (diff: StudyDiff): boolean =>
+  diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0;
+
+// Skips a revision that would duplicate the latest one; context, workflow and risk scheme edits still count as a change
+export const hasChangedSince = (study: SavedStudy, latest?: StudyRevision): boolean =>
+  !latest
+  || latest.snapshot.contextText !== study.contextText
+  || latest.snapshot.isFinished !== study.isFinished
+  || JSON.stringify(latest.snapshot.workflow) !== JSON.stringify(study.workflow)
+  || JSON.stringify(latest.snapshot.riskScheme) !== JSON.stringify(study.riskScheme)
+  || !isEmptyDiff(diffStudyItems(latest.snapshot.items, study.items));
@@ -0,0 +1,180 @@
+import { RCMItem, RiskLevel, RiskScaleLevel, RiskScheme } from "../types";
+import { actionPriority, compareByActionPriority } from "./actionPriority";
+
+// Per-study risk scheme: S/O/D scales, criticality method and thresholds.
+// Every place that scores, colours or ranks risk reads from here instead of fixed numbers.
+
+const buildMatrix = (severityMax: number, occurrenceMax: number, level: (s: number, o: number) => RiskLevel): RiskLevel[][] =>
+  Array.from({ length: severityMax }, (_, s) => Array.from({ length: occurrenceMax }, (_, o) => level(s + 1, o + 1)));
+
+export const FMEA_10_SCHEME: RiskScheme = {
+  id: 'fmea-10',
+  name: 'FMECA 1-10 (RPN)',
+  method: 'rpn',
+  ranking: 'rpn',
+  severity: [
+    { score: 10, label: "Hazardous w/o Warning", description: "Safety hazard, failure occurs without warning." },
+    { score: 9, label: "Hazardous w/ Warning", description: "Safety hazard, failure occurs with warning." },
+    { score: 8, label: "Very High", description: "Major disruption, loss of primary function." },
+    { score: 7, label: "High", description: "Significant disruption, reduced performance." },
+    { score: 6, label: "Moderate", description: "Minor disruption, comfort/convenience issue." },
+    { score: 5, label: "Low", description: "Minor performance loss." },
+    { score: 4, label: "Very Low", description: "Minor defect, fit/finish." },
+    { score: 3, label: "Minor", description: "Minor annoyance, noticed by some." },
+    { score: 2, label: "Very Minor", description: "Unnoticed by most users." },
+    { score: 1, label: "None", description: "No discernible effect." }
+  ],
+  occurrence: [
+    { score: 10, label: "Very High", description: "Failure almost inevitable (> 1 in 2).", probability: 1 / 2 },
+    { score: 9, label: "Very High", description: "Repeated failures (1 in 3).", probability: 1 / 3 },
+    { score: 8, label: "High", description: "Failures often (1 in 8).", probability: 1 / 8 },
+    { score: 7, label: "High", description: "Failures moderately frequent (1 in 20).", probability: 1 / 20 },
+    { score: 6, label: "Moderate", description: "Occasional failures (1 in 80).", probability: 1 / 80 },
+    { score: 5, label: "Moderate", description: "Infrequent failures (1 in 400).", probability: 1 / 400 },
+    { score: 4, label: "Low", description: "Few failures (1 in 2,000).", probability: 1 / 2000 },
+    { score: 3, label: "Low", description: "Isolated failures (1 in 15,000).", probability: 1 / 15000 },
+    { score: 2, label: "Very Low", description: "Only isolated failures associated (1 in 150,000).", probability: 1 / 150000 },
+    { score: 1, label: "Remote", description: "Failure unlikely (< 1 in 1,500,000)." }
+  ],
+  detection: [
+    { score: 10, label: "Absolute Uncertainty", description: "Defect cannot be detected." },
+    { score: 9, label: "Very Remote", description: "Very remote chance of detection." },
+    { score: 8, label: "Remote", description: "Remote chance of detection." },
+    { score: 7, label: "Very Low", description: "Very low chance of detection." },
+    { score: 6, label: "Low", description: "Low chance of detection." },
+    { score: 5, label: "Moderate", description: "Moderate chance of detection." },
+    { score: 4, label: "Moderately High", description: "Moderately high chance of detection." },
+    { score: 3, label: "High", description: "High chance of detection." },
+    { score: 2, label: "Very High", description: "Very high chance of detection." },
+    { score: 1, label: "Almost Certain", description: "Defect will be detected." }
+  ],
+  rpnThresholds: { high: 100, medium: 40 },
+  matrix: buildMatrix(10, 10, (s, o) => s * o >= 50 ? 'High' : s * o >= 20 ? 'Medium' : 'Low')
+};
+
+export const MATRIX_5X5_SCHEME: RiskScheme = {
+  id: 'matrix-5x5',
+  name: '5×5 Consequence / Likelihood',
+  method: 'matrix',
+  ranking: 'rpn',
+  severity: [
+    { score: 5, label: "Catastrophic", description: "Fatality or major environmental release; total loss of the asset." },
+    { score: 4, label: "Major", description: "Serious injury or reportable release; extended loss of production." },
+    { score: 3, label: "Moderate", description: "Medical treatment case; production loss within a shift." },
+    { score: 2, label: "Minor", description: "First aid case; short disruption or reduced output." },
+    { score: 1, label: "Negligible", description: "No injury and no effect on production." }
+  ],
+  occurrence: [
+    { score: 5, label: "Almost Certain", description: "Expected more than once a year.", probability: 1 / 2 },
+    { score: 4, label: "Likely", description: "Expected within the next few years.", probability: 1 / 10 },
+    { score: 3, label: "Possible", description: "Could occur within the asset life.", probability: 1 / 100 },
+    { score: 2, label: "Unlikely", description: "Known in the industry, not at this site.", probability: 1 / 1000 },
+    { score: 1, label: "Rare", description: "Not expected over the asset life." }
+  ],
+  detection: [
+    { score: 5, label: "Undetectable", description: "No means of detecting the failure before it occurs." },
+    { score: 4, label: "Low", description: "Detected only by chance or infrequent manual checks." },
+    { score: 3, label: "Moderate", description: "Detected by periodic inspection or testing." },
+    { score: 2, label: "High", description: "Detected by routine condition monitoring." },
+    { score: 1, label: "Certain", description: "Continuous automated monitoring with alarm." }
+  ],
+  rpnThresholds: { high: 60, medium: 20 },
+  matrix: buildMatrix(5, 5, (s, o) => s * o >= 15 ? 'High' : s * o >= 5 ? 'Medium' : 'Low')
+};
+
+export const RISK_SCHEME_PRESETS: RiskScheme[] = [FMEA_10_SCHEME, MATRIX_5X5_SCHEME];
+
+export const DEFAULT_RISK_SCHEME = FMEA_10_SCHEME;
+
+// Studies saved before schemes existed used the 1-10 FMECA scales
+export const normalizeRiskScheme = (scheme?: RiskScheme): RiskScheme =>
+  scheme ? { ...scheme, ranking: scheme.ranking || 'rpn' } : DEFAULT_RISK_SCHEME;
+
+export const scaleMax = (scale: RiskScaleLevel[]): number => Math.max(...scale.map(l => l.score), 1);
+
+export const rpnMax = (scheme: RiskScheme): number =>
+  scaleMax(scheme.severity) * scaleMax(scheme.occurrence) * scaleMax(scheme.detection);
+
+export const clampScore = (score: number, scale: RiskScaleLevel[]): number =>
+  Math.min(scaleMax(scale), Math.max(1, Math.round(score) || 1));
+
+export const scaleLevel = (score: number, scale: RiskScaleLevel[]): RiskScaleLevel | undefined =>
+  scale.find(l => l.score === score);
+
+export const rpnLevel = (rpn: number, scheme: RiskScheme): RiskLevel =>
+  rpn >= scheme.rpnThresholds.high ? 'High' : rpn >= scheme.rpnThresholds.medium ? 'Medium' : 'Low';
+
+export const matrixLevel = (severity: number, occurrence: number, scheme: RiskScheme): RiskLevel => {
+  const row = scheme.matrix[clampScore(severity, scheme.severity) - 1];
+  return row?.[clampScore(occurrence, scheme.occurrence) - 1] || 'Low';
+};
+
+export const assessCriticality = (item: Pick<RCMItem, 'severity' | 'occurrence' | 'rpn'>, scheme: RiskScheme): RiskLevel =>
+  scheme.method === 'matrix' ? matrixLevel(item.severity || 0, item.occurrence || 0, scheme) : rpnLevel(item.rpn || 0, scheme);
+
+export const itemActionPriority = (item: Pick<RCMItem, 'severity' | 'occurrence' | 'detection'>, scheme: RiskScheme): RiskLevel =>
+  actionPriority(item.severity, item.occurrence, item.detection, scheme);
+
+export const applyRiskScheme = (items: RCMItem[], scheme: RiskScheme): RCMItem[] =>
+  items.map(item => {
+    const criticality = assessCriticality(item, scheme);
+    const ap = itemActionPriority(item, scheme);
+    return item.criticality === criticality && item.actionPriority === ap ? item : { ...item, criticality, actionPriority: ap };
+  });
+
+// Level used to colour and rank an item under the study's primary ranking
+export const rankingLevel = (item: RCMItem, scheme: RiskScheme): RiskLevel =>
+  scheme.ranking === 'ap' ? itemActionPriority(item, scheme) : assessCriticality(item, scheme);
+
+// Highest risk first under the primary ranking
+export const compareByRanking = (scheme: RiskScheme) => (a: RCMItem, b: RCMItem): number =>
+  scheme.ranking === 'ap'
+    ? compareByActionPriority({ ...a, actionPriority: itemActionPriority(a, scheme) }, { ...b, actionPriority: itemActionPriority(b, scheme) })
+    : (b.rpn || 0) - (a.rpn || 0);
+
+// Relative position on a scale, used for colouring individual scores
+export const scoreBand = (score: number, scale: RiskScaleLevel[]): RiskLevel => {
+  const max = scaleMax(scale);
+  return score >= max * 0.8 ? 'High' : score >= max * 0.5 ? 'Medium' : 'Low';
+};
+
+export const rescaleScore = (score: number, fromMax: number, toMax: number): number =>
+  fromMax <= 1 ? 1 : Math.round(1 + ((score - 1) * (toMax - 1)) / (fromMax - 1));
+
+/**
+ * Maps existing S/O/D scores onto the scales of a new scheme so a study can switch
+ * between, say, a 1-10 FMECA and a 5×5 matrix without leaving scores out of range.
+ */
+export const rescaleItems = (items: RCMItem[], from: RiskScheme, to: RiskScheme): RCMItem[] => {
+  const ranges = (['severity', 'occurrence', 'detection'] as const).map(key => ({ key, from: scaleMax(from[key]), to: scaleMax(to[key]) }));
+  if (ranges.every(r => r.from === r.to)) return items;
+  return items.map(item => {
+    const next = { ...item };
+    ranges.forEach(r => { next[r.key] = clampScore(rescaleScore(item[r.key] || 1, r.from, r.to), to[r.key]); });
+    next.rpn = next.severity * next.occurrence * next.detection;
+    if (item.residual) {
+      const residual = { ...item.residual };
+      ranges.forEach(r => { residual[r.key] = clampScore(rescaleScore(item.residual![r.key] || 1, r.from, r.to), to[r.key]); });
+      residual.rpn = residual.severity * residual.occurrence * residual.detection;
+      next.residual = residual;
+    }
+    return next;
+  });
+};
+
+const describeScale = (name: string, scale: RiskScaleLevel[]) =>
+  `${name} (1-${scaleMax(scale)}):\n${scale.map(l => `      ${l.score} = ${l.label}: ${l.description}`).join('\n')}`;
+
+// Scale definitions for generation prompts
+export const describeRiskScheme = (scheme: RiskScheme): string => {
+  const method = scheme.method === 'matrix'
+    ? 'Criticality is read from a severity × occurrence matrix.'
+    : `Criticality is set by RPN = S×O×D: High at ${scheme.rpnThresholds.high} or above, Medium at ${scheme.rpnThresholds.medium} or above, otherwise Low.`;
+  const ranking = scheme.ranking === 'ap' ? ' Items are ranked by AIAG-VDA Action Priority, which weights severity first, then occurrence, then detection.' : '';
+  return [
+    `RISK SCHEME: ${scheme.name}. ${method}${ranking}`,
+    `    ${describeScale('Severity (S)', scheme.severity)}`,
+    `    ${describeScale('Occurrence (O)', scheme.occurrence)}`,
+    `    ${describeScale('Detection (D)', scheme.detection)}`
+  ].join('\n');
+};
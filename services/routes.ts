@@ -0,0 +1,137 @@
+import { AssetNode, MaintenanceInterval, RCMItem, TaskType } from "../types";
+import { compareIntervals, formatInterval, intervalToDays, isScheduled, parseDurationHours } from "./intervals";
+import { resolveAssetReference } from "./assetHierarchy";
+import { XlsxCell, XlsxSheet, cell } from "./xlsx";
+
+// Inspection routes: recurring tasks clustered by interval, trade and physical location, so one
+// technician can walk a single ordered route instead of working through tasks item by item.
+
+export interface InspectionRoute {
+  code: string; // R-01, R-02… in route order
+  interval: MaintenanceInterval;
+  trade: string;
+  location: string; // Area, or the exact location when grouping by exact location
+  stops: RCMItem[]; // In walking order
+  hours: number; // Sum of the stops' estimated times
+  untimedStops: number; // Stops without a readable estimated time
+}
+
+export type LocationGrouping = 'area' | 'exact';
+
+// Not carried out on a recurring schedule, so never part of a route
+const ONE_OFF_TASKS: TaskType[] = ['Run-to-Failure', 'Redesign', 'Training', 'Procedural Change'];
+
+export const UNASSIGNED_TRADE = 'Unassigned';
+export const UNSPECIFIED_LOCATION = 'Unspecified location';
+
+export const isRoutable = (item: RCMItem): boolean =>
+  !ONE_OFF_TASKS.includes(item.taskType) && !!item.interval && isScheduled(item.interval);
+
+export const stopTrade = (item: RCMItem): string => item.inspectionSheet?.responsibility?.trim() || UNASSIGNED_TRADE;
+
+// Where the technician goes: the component intel location, else the asset register path
+export const stopLocation = (item: RCMItem, assetHierarchy: AssetNode[]): string =>
+  item.componentIntel?.location?.trim() || resolveAssetReference(assetHierarchy, item.assetNodeId).path || '';
+
+// "Pump house B, level 2, north wall" -> "Pump house B"
+const areaOf = (location: string): string => location.split(/\s*(?:[,;›|]|\s-\s)\s*/)[0].trim();
+
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+// Equal frequencies written in different units ("1 week", "7 days") share a route; the trigger
+// basis stays apart, and cycles have no calendar length so they group by count
+const intervalKey = (interval: MaintenanceInterval): string => {
+  const days = intervalToDays(interval);
+  return `${interval.basis}|${days === null ? `${interval.value} ${interval.unit}` : days.toFixed(3)}`;
+};
+
+const compareText = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+
+export const stopHours = (item: RCMItem): number => parseDurationHours(item.inspectionSheet?.estimatedTime);
+
+/** Clusters the routable items into routes, ordered by interval, trade and location. */
+export const buildRoutes = (items: RCMItem[], assetHierarchy: AssetNode[], grouping: LocationGrouping = 'area'): InspectionRoute[] => {
+  const groups = new Map<string, Omit<InspectionRoute, 'code' | 'hours' | 'untimedStops'>>();
+  items.filter(isRoutable).forEach(item => {
+    const trade = stopTrade(item);
+    const location = stopLocation(item, assetHierarchy);
+    const place = (grouping === 'area' ? areaOf(location) : location) || UNSPECIFIED_LOCATION;
+    const key = [intervalKey(item.interval), normalize(trade), normalize(place)].join('|');
+    const group = groups.get(key);
+    if (group) group.stops.push(item);
+    else groups.set(key, { interval: item.interval, trade, location: place, stops: [item] });
+  });
+
+  // Walking order: functional location code, then the written location, then the component
+  const stopKey = (item: RCMItem) => ({
+    floc: resolveAssetReference(assetHierarchy, item.assetNodeId).functionalLocation,
+    location: stopLocation(item, assetHierarchy)
+  });
+  const compareStops = (a: RCMItem, b: RCMItem) => {
+    const ka = stopKey(a);
+    const kb = stopKey(b);
+    return compareText(ka.floc, kb.floc) || compareText(ka.location, kb.location) || compareText(a.component || '', b.component || '');
+  };
+
+  return [...groups.values()]
+    .sort((a, b) => compareIntervals(a.interval, b.interval) || compareText(a.trade, b.trade) || compareText(a.location, b.location))
+    .map((group, index) => {
+      const stops = [...group.stops].sort(compareStops);
+      return {
+        ...group,
+        code: `R-${String(index + 1).padStart(2, '0')}`,
+        stops,
+        hours: stops.reduce((sum, item) => sum + stopHours(item), 0),
+        untimedStops: stops.filter(item => stopHours(item) === 0).length
+      };
+    });
+};
+
+export const routeTitle = (route: InspectionRoute, language: string = 'English'): string =>
+  `${route.trade} · ${route.location} · ${formatInterval(route.interval, language)}`;
+
+export const formatHours = (hours: number): string => {
+  if (hours <= 0) return '—';
+  const minutes = Math.round(hours * 60);
+  return minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)} h${minutes % 60 ? ` ${minutes % 60} min` : ''}`;
+};
+
+// --- CMMS job plans ---
+
+// Maximo-style frequency units; SAP and most other systems accept the same words on import
+const FREQUENCY_UNITS: Record<MaintenanceInterval['unit'], string> = { hours: 'HOURS', days: 'DAYS', weeks: 'WEEKS', months: 'MONTHS', years: 'YEARS', cycles: 'CYCLES' };
+
+const jobPlanNumber = (route: InspectionRoute, prefix: string) => `${prefix}-${route.code}`;
+
+const stepText = (item: RCMItem): string =>
+  (item.inspectionSheet?.steps || []).map(s => `${s.step}. ${s.description}${s.criteria ? ` [${s.criteria}]` : ''}`).join('\n');
+
+/**
+ * Job plan workbook for import into the CMMS: one header row per route on the first sheet and one
+ * job task per stop on the second, numbered 10, 20, 30… in walking order.
+ */
+export const buildJobPlanSheets = (routes: InspectionRoute[], assetHierarchy: AssetNode[], prefix: string): XlsxSheet[] => {
+  const planHeader = ['JPNUM', 'DESCRIPTION', 'CRAFT', 'LOCATION', 'FREQUENCY', 'FREQUNIT', 'METER_BASED', 'JPDURATION', 'TASK_COUNT', 'UNTIMED_TASKS'];
+  const planRows: XlsxCell[][] = routes.map(route => [
+    cell(jobPlanNumber(route, prefix)), cell(routeTitle(route)), cell(route.trade), cell(route.location),
+    cell(route.interval.value), cell(FREQUENCY_UNITS[route.interval.unit]),
+    cell(route.interval.basis === 'running hours' || route.interval.basis === 'cycles' ? 'Y' : 'N'),
+    cell(Math.round(route.hours * 100) / 100), cell(route.stops.length), cell(route.untimedStops)
+  ]);
+
+  const taskHeader = ['JPNUM', 'JPTASK', 'DESCRIPTION', 'LOCATION', 'ASSETNUM', 'COMPONENT', 'FAILURE_MODE', 'TASK_TYPE', 'TASKDURATION', 'SAFETY', 'TOOLS', 'LONG_DESCRIPTION', 'RCM_ITEM_ID'];
+  const taskRows: XlsxCell[][] = routes.flatMap(route => route.stops.map((item, index) => {
+    const { functionalLocation, assetTag } = resolveAssetReference(assetHierarchy, item.assetNodeId);
+    return [
+      cell(jobPlanNumber(route, prefix)), cell((index + 1) * 10), cell(item.maintenanceTask), cell(functionalLocation || stopLocation(item, assetHierarchy)),
+      cell(assetTag), cell(item.component), cell(item.failureMode), cell(item.taskType),
+      cell(Math.round(stopHours(item) * 100) / 100), cell(item.inspectionSheet?.safetyPrecautions || ''), cell(item.inspectionSheet?.toolsRequired || ''),
+      cell(stepText(item)), cell(item.id)
+    ];
+  }));
+
+  return [
+    { name: 'Job Plans', rows: [planHeader.map(h => cell(h, 'header')), ...planRows], freezeRows: 1, columnWidths: [16, 48, 22, 28, 10, 10, 12, 12, 10, 12] },
+    { name: 'Job Tasks', rows: [taskHeader.map(h => cell(h, 'header')), ...taskRows], freezeRows: 1, columnWidths: [16, 8, 40, 22, 14, 24, 30, 18, 12, 36, 30, 60, 28] }
+  ];
+};
@@ -0,0 +1,133 @@
+import { RCMItem, ValidationIssue, ValidationSeverity, TaskType, MaintenanceInterval } from "../types";
+import {
+  DETECTION_METHODS, EQUIPMENT_CLASSES, FAILURE_CAUSES, FAILURE_MECHANISMS, TaxonomyEntry, equipmentClassOf, isValidFailureMode
+} from "./iso14224";
+import { DECISION_QUESTIONS, evaluateDecision } from "./decisionLogic";
+import { formatInterval, isScheduled, isUnparsedInterval } from "./intervals";
+
+// Deterministic checks that run locally before (and independently of) the AI review
+
+export const RULE_IDS = {
+  rpnMismatch: 'RCM-001',
+  hiddenWithoutDetection: 'RCM-002',
+  runToFailureOnSafety: 'RCM-003',
+  unparsableInterval: 'RCM-004',
+  unknownIsoCode: 'RCM-005',
+  duplicateFailureMode: 'RCM-006',
+  taskNotPermitted: 'RCM-007',
+  unknownTaxonomyCode: 'RCM-008',
+  decisionNotRecorded: 'RCM-009'
+} as const;
+
+// Issues returned by the AI reviewer carry this rule ID
+export const AI_RULE_ID = 'AI-001';
+
+const HIDDEN_FAILURE_TASKS: TaskType[] = ['Failure Finding', 'Condition Monitoring'];
+// One-off actions have no recurring frequency, so an empty interval is acceptable
+const ONE_OFF_TASKS: TaskType[] = ['Run-to-Failure', 'Redesign', 'Training', 'Procedural Change'];
+
+const isParsableInterval = (interval: MaintenanceInterval, taskType: TaskType): boolean => {
+  if (isUnparsedInterval(interval)) return false;
+  return isScheduled(interval) || interval.basis === 'condition-triggered' || ONE_OFF_TASKS.includes(taskType);
+};
+
+// Optional taxonomy fields: blank is allowed, an unknown code is not
+const taxonomyFields: { key: 'equipmentClass' | 'failureMechanism' | 'failureCause' | 'detectionMethod'; name: string; table: TaxonomyEntry[] }[] = [
+  { key: 'equipmentClass', name: 'equipment class', table: EQUIPMENT_CLASSES },
+  { key: 'failureMechanism', name: 'failure mechanism', table: FAILURE_MECHANISMS },
+  { key: 'failureCause', name: 'failure cause', table: FAILURE_CAUSES },
+  { key: 'detectionMethod', name: 'detection method', table: DETECTION_METHODS }
+];
+
+const issue = (ruleId: string, severity: ValidationSeverity, message: string): ValidationIssue => ({ ruleId, severity, message });
+
+const duplicateKey = (item: RCMItem) =>
+  `${(item.component || '').trim().toLowerCase()}|${(item.failureMode || '').trim().toLowerCase()}`;
+
+export const validateItem = (item: RCMItem, duplicates: Set<string> = new Set()): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const category = item.consequenceCategory || '';
+
+  const expectedRpn = (item.severity || 0) * (item.occurrence || 0) * (item.detection || 0);
+  if (item.rpn !== expectedRpn) {
+    issues.push(issue(RULE_IDS.rpnMismatch, 'error', `RPN ${item.rpn} does not equal S×O×D (${expectedRpn}).`));
+  }
+
+  if (category.startsWith('Hidden') && !HIDDEN_FAILURE_TASKS.includes(item.taskType)) {
+    issues.push(issue(RULE_IDS.hiddenWithoutDetection, 'error', `Hidden failure requires a Failure Finding or condition-based task, not ${item.taskType}.`));
+  }
+
+  if (category.includes('Safety/Env') && item.taskType === 'Run-to-Failure') {
+    issues.push(issue(RULE_IDS.runToFailureOnSafety, 'error', 'Run-to-Failure is not acceptable for safety or environmental consequences.'));
+  }
+
+  if (!isParsableInterval(item.interval, item.taskType)) {
+    issues.push(issue(RULE_IDS.unparsableInterval, 'warning', `Interval "${formatInterval(item.interval)}" cannot be interpreted as a frequency.`));
+  }
+
+  const equipmentClass = equipmentClassOf(item.equipmentClass);
+  if (!isValidFailureMode(item.iso14224Code, equipmentClass?.code)) {
+    issues.push(issue(RULE_IDS.unknownIsoCode, 'error', equipmentClass
+      ? `ISO 14224 failure mode "${item.iso14224Code || ''}" is not valid for equipment class ${equipmentClass.code} (${equipmentClass.label}).`
+      : `ISO 14224 failure mode "${item.iso14224Code || ''}" is not in the allowed set.`));
+  }
+
+  const unknownCodes = taxonomyFields
+    .filter(f => item[f.key] && !f.table.some(e => e.code === item[f.key]))
+    .map(f => `${f.name} "${item[f.key]}"`);
+  if (unknownCodes.length > 0) {
+    issues.push(issue(RULE_IDS.unknownTaxonomyCode, 'warning', `Unknown ISO 14224 code: ${unknownCodes.join(', ')}.`));
+  }
+
+  if (duplicates.has(duplicateKey(item))) {
+    issues.push(issue(RULE_IDS.duplicateFailureMode, 'warning', `Failure mode "${item.failureMode}" is listed more than once for ${item.component}.`));
+  }
+
+  const decision = item.decision || evaluateDecision(item);
+  if (decision.missingAnswers.length) {
+    issues.push(issue(RULE_IDS.decisionNotRecorded, 'warning', `Decision not recorded: "${DECISION_QUESTIONS[decision.missingAnswers[0]]}" has no answer, so ${item.taskType} is not justified yet.`));
+  } else if (!decision.isTaskPermitted) {
+    issues.push(issue(RULE_IDS.taskNotPermitted, 'warning', `${item.taskType} is not an allowable task on the decision path; ${decision.recommendedTaskType} is recommended.`));
+  }
+
+  return issues;
+};
+
+const findDuplicates = (items: RCMItem[]): Set<string> => {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  items.forEach(item => {
+    const key = duplicateKey(item);
+    if (seen.has(key)) duplicates.add(key);
+    seen.add(key);
+  });
+  return duplicates;
+};
+
+export const runRuleValidation = (items: RCMItem[]): { id: string; issues: ValidationIssue[] }[] => {
+  const valid = items.filter(Boolean);
+  const duplicates = findDuplicates(valid);
+  return valid.map(item => ({ id: item.id, issues: validateItem(item, duplicates) }));
+};
+
+// Rule issues are recomputed on every change to the table; AI review issues stay until the next review
+export const applyRuleValidation = (items: RCMItem[]): RCMItem[] => {
+  const ruleIssues = new Map(runRuleValidation(items).map(r => [r.id, r.issues]));
+  return items.map(item => item ? {
+    ...item,
+    validationIssues: [...(ruleIssues.get(item.id) || []), ...(item.validationIssues || []).filter(i => i.ruleId === AI_RULE_ID)]
+  } : item);
+};
+
+export const aiIssue = (message: string): ValidationIssue => issue(AI_RULE_ID, 'warning', message);
+
+// Studies saved before rule IDs existed stored bare strings from the AI reviewer
+export const normalizeValidationIssues = (items: RCMItem[]): RCMItem[] =>
+  items.map(item => item && item.validationIssues
+    ? { ...item, validationIssues: (item.validationIssues as (ValidationIssue | string)[]).map(i => typeof i === 'string' ? aiIssue(i) : i) }
+    : item);
+
+const SEVERITY_RANK: Record<ValidationSeverity, number> = { error: 0, warning: 1, info: 2 };
+
+export const worstSeverity = (issues: ValidationIssue[]): ValidationSeverity | null =>
+  issues.length === 0 ? null : [...issues].sort((a, b) => SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity])[0].severity;
@@ -0,0 +1,72 @@
+import { SavedStudy, SearchIndexEntry } from "../types";
+
+// Workspace-wide search over saved studies. Entries are built here and stored by services/db.ts,
+// which looks candidates up through a multi-entry token index and filters them with matchEntry.
+
+export type SearchField = 'component' | 'failureMode' | 'maintenanceTask' | 'isoCodes' | 'contextText';
+
+export const SEARCH_FIELD_LABELS: Record<SearchField, string> = {
+  component: 'Component',
+  failureMode: 'Failure Mode',
+  maintenanceTask: 'Task',
+  isoCodes: 'ISO Code',
+  contextText: 'Context'
+};
+
+const SEARCH_FIELDS = Object.keys(SEARCH_FIELD_LABELS) as SearchField[];
+
+export interface SearchHit {
+  entry: SearchIndexEntry;
+  fields: SearchField[];
+}
+
+// Dots are kept inside tokens so mechanism and cause codes such as "1.1" stay whole
+export const tokenize = (text: string): string[] =>
+  Array.from(new Set(
+    (text || '').toLowerCase().split(/[^\p{L}\p{N}.]+/u).map(t => t.replace(/^\.+|\.+$/g, '')).filter(Boolean)
+  ));
+
+const entryTokens = (entry: Omit<SearchIndexEntry, 'tokens'>): string[] =>
+  tokenize(SEARCH_FIELDS.map(field => entry[field]).join(' '));
+
+export const buildSearchEntries = (study: SavedStudy): SearchIndexEntry[] => {
+  const base = { studyId: study.id, studyName: study.name, studyTimestamp: study.timestamp };
+  const items = study.items.filter(Boolean).map(item => ({
+    ...base,
+    id: `${study.id}::${item.id}`,
+    itemId: item.id,
+    component: item.component || '',
+    failureMode: item.failureMode || '',
+    maintenanceTask: item.maintenanceTask || '',
+    isoCodes: [item.equipmentClass, item.iso14224Code, item.failureMechanism, item.failureCause, item.detectionMethod].filter(Boolean).join(' '),
+    contextText: ''
+  }));
+  const context = study.contextText?.trim()
+    ? [{ ...base, id: `${study.id}::context`, component: '', failureMode: '', maintenanceTask: '', isoCodes: '', contextText: study.contextText }]
+    : [];
+  return [...items, ...context].map(entry => ({ ...entry, tokens: entryTokens(entry) }));
+};
+
+/** Every query token must prefix a token of the entry; reports which fields matched. */
+export const matchEntry = (entry: SearchIndexEntry, queryTokens: string[]): SearchHit | null => {
+  if (!queryTokens.every(q => entry.tokens.some(t => t.startsWith(q)))) return null;
+  const fields = SEARCH_FIELDS.filter(field => {
+    const tokens = tokenize(entry[field]);
+    return queryTokens.some(q => tokens.some(t => t.startsWith(q)));
+  });
+  return { entry, fields };
+};
+
+// Token used for the index lookup; the longest is usually the most selective
+export const lookupToken = (queryTokens: string[]): string | undefined =>
+  [...queryTokens].sort((a, b) => b.length - a.length)[0];
+
+/** Short excerpt of the context around the first matching word. */
+export const contextSnippet = (text: string, queryTokens: string[], radius: number = 80): string => {
+  const lower = text.toLowerCase();
+  const positions = queryTokens.map(q => lower.indexOf(q)).filter(p => p >= 0);
+  const at = positions.length > 0 ? Math.min(...positions) : 0;
+  const start = Math.max(0, at - radius);
+  const end = Math.min(text.length, at + radius);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).replace(/\s+/g, ' ').trim()}${end < text.length ? '…' : ''}`;
+};
@@ -0,0 +1,178 @@
+import { RCMItem, SavedStudy, TemplateLink, TemplateSnapshot } from "../types";
+import { DEFAULT_WORKFLOW } from "./workflow";
+import { FieldChange, StudyDiff, diffStudyItems, isEmptyDiff } from "./revisions";
+
+// Generic analyses for fleets of near-identical assets. Instances keep the template state they were
+// last synced with (the baseline), which gives both their local deviations and what a newer template changes.
+
+// Per-site data that never comes from, or goes back to, the template
+const INSTANCE_KEYS: (keyof RCMItem)[] = [
+  'isNew', 'isMiraGenerated', 'isApproved', 'approval', 'reopenLog', 'reviewComments', 'validationIssues',
+  'failureHistory', 'weibull', 'ageReplacement', 'assetNodeId', 'functionId', 'functionalFailureId'
+];
+
+// Deviations an instance records against its template
+const DEVIATION_FIELDS = ['scores', 'interval', 'pfInterval'];
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const templateItem = (item: RCMItem): RCMItem => {
+  const copy = { ...item };
+  INSTANCE_KEYS.forEach(key => { delete copy[key]; });
+  return copy;
+};
+
+const syncedKeys = (...items: RCMItem[]): (keyof RCMItem)[] =>
+  Array.from(new Set(items.flatMap(item => Object.keys(item) as (keyof RCMItem)[])))
+    .filter(key => key !== 'id' && !INSTANCE_KEYS.includes(key));
+
+const isUnchanged = (local: RCMItem, base: RCMItem) => syncedKeys(local, base).every(key => same(local[key], base[key]));
+
+export const snapshotTemplate = (template: SavedStudy): TemplateSnapshot => ({
+  timestamp: Date.now(),
+  contextText: template.contextText,
+  items: template.items.filter(Boolean).map(templateItem)
+});
+
+export const instantiateTemplate = (template: SavedStudy, name: string): SavedStudy => {
+  const baseline = snapshotTemplate(template);
+  return {
+    ...template,
+    id: `study-${Date.now()}`,
+    name,
+    timestamp: Date.now(),
+    items: baseline.items.map(item => ({ ...item })),
+    isFinished: false,
+    isGeneric: false,
+    workflow: DEFAULT_WORKFLOW,
+    template: { templateId: template.id, templateName: template.name, baseline, syncLog: [] }
+  };
+};
+
+export interface TemplateDeviations {
+  contextChanged: boolean;
+  changed: { item: RCMItem; fields: FieldChange[] }[];
+  added: RCMItem[];
+  removed: RCMItem[];
+}
+
+/** Where an instance differs from its template in operating context, scores and intervals. */
+export const instanceDeviations = (instance: SavedStudy): TemplateDeviations | null => {
+  if (!instance.template) return null;
+  const { baseline } = instance.template;
+  const diff = diffStudyItems(baseline.items, instance.items);
+  return {
+    contextChanged: instance.contextText !== baseline.contextText,
+    changed: diff.changed
+      .map(({ after, fields }) => ({ item: after, fields: fields.filter(f => DEVIATION_FIELDS.includes(f.key)) }))
+      .filter(change => change.fields.length > 0),
+    added: diff.added,
+    removed: diff.removed
+  };
+};
+
+export const deviationCount = (deviations: TemplateDeviations): number =>
+  (deviations.contextChanged ? 1 : 0) + deviations.changed.length + deviations.added.length + deviations.removed.length;
+
+/** What the proposed template state changes relative to the instance's baseline. */
+export const proposedChanges = (link: TemplateLink): { diff: StudyDiff; contextChanged: boolean } | null =>
+  link.proposal
+    ? { diff: diffStudyItems(link.baseline.items, link.proposal.items), contextChanged: link.proposal.contextText !== link.baseline.contextText }
+    : null;
+
+export const describeChanges = (diff: StudyDiff, contextChanged: boolean): string =>
+  [
+    contextChanged ? 'context updated' : '',
+    diff.changed.length ? `${diff.changed.length} changed` : '',
+    diff.added.length ? `${diff.added.length} added` : '',
+    diff.removed.length ? `${diff.removed.length} removed` : ''
+  ].filter(Boolean).join(', ') || 'no changes';
+
+/** Puts the template's current state up for review on an instance; null when there is nothing new. */
+export const proposeTemplateUpdate = (instance: SavedStudy, template: SavedStudy): SavedStudy | null => {
+  if (!instance.template || instance.template.templateId !== template.id) return null;
+  const proposal = snapshotTemplate(template);
+  const { baseline } = instance.template;
+  if (proposal.contextText === baseline.contextText && isEmptyDiff(diffStudyItems(baseline.items, proposal.items))) return null;
+  return { ...instance, template: { ...instance.template, templateName: template.name, proposal } };
+};
+
+const copyField = <K extends keyof RCMItem>(target: RCMItem, source: RCMItem, key: K) => {
+  target[key] = source[key];
+};
+
+// Three-way merge of one item: template changes apply to fields the instance has not changed itself
+const mergeItem = (local: RCMItem, base: RCMItem, next: RCMItem): RCMItem => {
+  const merged: RCMItem = { ...local };
+  syncedKeys(base, next).forEach(key => {
+    if (same(base[key], next[key]) || !same(local[key], base[key])) return;
+    copyField(merged, next, key);
+  });
+  // Renamed records are linked again by text when the study is next loaded
+  if (merged.function !== local.function) {
+    merged.functionId = undefined;
+    merged.functionalFailureId = undefined;
+  }
+  if (merged.functionalFailure !== local.functionalFailure) merged.functionalFailureId = undefined;
+  if (merged.component !== local.component) merged.assetNodeId = undefined;
+  return merged;
+};
+
+/**
+ * Applies the pending proposal. Local deviations are kept, approved items are left untouched,
+ * and template removals only drop items the instance has not changed.
+ */
+export const acceptProposal = (instance: SavedStudy): SavedStudy => {
+  const link = instance.template;
+  if (!link?.proposal) return instance;
+  const { baseline, proposal } = link;
+  const baseById = new Map(baseline.items.map(item => [item.id, item]));
+  const nextById = new Map(proposal.items.map(item => [item.id, item]));
+  const localIds = new Set(instance.items.map(item => item.id));
+  let skipped = 0;
+
+  const items = instance.items.flatMap(local => {
+    const base = baseById.get(local.id);
+    const next = nextById.get(local.id);
+    if (!base) return [local];
+    if (!next) return !local.isApproved && isUnchanged(local, base) ? [] : [local];
+    if (same(templateItem(base), templateItem(next))) return [local];
+    if (local.isApproved) {
+      skipped++;
+      return [local];
+    }
+    return [mergeItem(local, base, next)];
+  });
+  // Items the template added; ones this instance deleted locally stay deleted
+  const added = proposal.items.filter(item => !localIds.has(item.id) && !baseById.has(item.id)).map(item => ({ ...item, isNew: true }));
+
+  const changes = proposedChanges(link)!;
+  const summary = describeChanges(changes.diff, changes.contextChanged) + (skipped ? `; ${skipped} approved items kept` : '');
+  return {
+    ...instance,
+    items: [...items, ...added],
+    contextText: instance.contextText === baseline.contextText ? proposal.contextText : instance.contextText,
+    template: {
+      ...link,
+      baseline: proposal,
+      proposal: undefined,
+      syncLog: [...link.syncLog, { timestamp: Date.now(), decision: 'accepted', summary }]
+    }
+  };
+};
+
+/** Declines the proposal; its changes then show up as deliberate deviations of this instance. */
+export const rejectProposal = (instance: SavedStudy): SavedStudy => {
+  const link = instance.template;
+  if (!link?.proposal) return instance;
+  const changes = proposedChanges(link)!;
+  return {
+    ...instance,
+    template: {
+      ...link,
+      baseline: link.proposal,
+      proposal: undefined,
+      syncLog: [...link.syncLog, { timestamp: Date.now(), decision: 'rejected', summary: describeChanges(changes.diff, changes.contextChanged) }]
+    }
+  };
+};
@@ -0,0 +1,170 @@
+import { FailureRecord, WeibullFit, WeibullMethod, WeibullLifeUnit, RiskScaleLevel } from "../types";
+import { DEFAULT_RISK_SCHEME } from "./riskScheme";
+
+// Two-parameter Weibull fitting for failure history, with right-censored (suspended) units.
+
+export interface LifeData {
+  times: number[];
+  censored: boolean[];
+  unit: WeibullLifeUnit;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Converts failure history into life times. Operating hours are used when every record has
+ * them; otherwise the calendar gap between consecutive records (in days) is used, which
+ * needs at least one earlier record to measure from.
+ */
+export const toLifeData = (records: FailureRecord[]): LifeData => {
+  const valid = records.filter(r => r && (r.date || r.operatingHours));
+  if (valid.length > 0 && valid.every(r => (r.operatingHours || 0) > 0)) {
+    return { times: valid.map(r => r.operatingHours!), censored: valid.map(r => r.censored), unit: 'hours' };
+  }
+
+  const dated = valid.filter(r => r.date && !isNaN(Date.parse(r.date))).sort((a, b) => Date.parse(a.date) - Date.parse(b.date));
+  const times: number[] = [];
+  const censored: boolean[] = [];
+  for (let i = 1; i < dated.length; i++) {
+    const gap = (Date.parse(dated[i].date) - Date.parse(dated[i - 1].date)) / DAY_MS;
+    if (gap > 0) {
+      times.push(gap);
+      censored.push(dated[i].censored);
+    }
+  }
+  return { times, censored, unit: 'days' };
+};
+
+// --- Median-rank regression ---
+
+export interface ProbabilityPoint {
+  time: number;
+  medianRank: number;
+}
+
+/**
+ * Median ranks for the failures using Johnson's adjusted ranks (for suspensions)
+ * and Bernard's approximation.
+ */
+export const medianRanks = (data: LifeData): ProbabilityPoint[] => {
+  const order = data.times.map((t, i) => ({ t, c: data.censored[i] })).sort((a, b) => a.t - b.t);
+  const n = order.length;
+  const points: ProbabilityPoint[] = [];
+  let previousRank = 0;
+  order.forEach((unit, index) => {
+    if (unit.c) return;
+    const reverseRank = n - index;
+    const rank = previousRank + (n + 1 - previousRank) / (1 + reverseRank);
+    previousRank = rank;
+    points.push({ time: unit.t, medianRank: (rank - 0.3) / (n + 0.4) });
+  });
+  return points;
+};
+
+const linearize = (p: ProbabilityPoint) => ({ x: Math.log(p.time), y: Math.log(-Math.log(1 - p.medianRank)) });
+
+// Rank regression on X: ln t = y / beta + ln eta
+export const fitRankRegression = (data: LifeData): WeibullFit | null => {
+  const points = medianRanks(data).map(linearize);
+  if (points.length < 2) return null;
+  const n = points.length;
+  const meanX = points.reduce((s, p) => s + p.x, 0) / n;
+  const meanY = points.reduce((s, p) => s + p.y, 0) / n;
+  const sxy = points.reduce((s, p) => s + (p.x - meanX) * (p.y - meanY), 0);
+  const syy = points.reduce((s, p) => s + (p.y - meanY) ** 2, 0);
+  const sxx = points.reduce((s, p) => s + (p.x - meanX) ** 2, 0);
+  if (syy === 0 || sxy <= 0) return null;
+
+  const slope = sxy / syy;
+  const intercept = meanX - slope * meanY;
+  return {
+    method: 'rank-regression',
+    beta: 1 / slope,
+    eta: Math.exp(intercept),
+    rSquared: sxx === 0 ? 1 : (sxy * sxy) / (sxx * syy),
+    failures: n,
+    suspensions: data.times.length - n
+  };
+};
+
+// --- Maximum likelihood ---
+
+const mleShapeEquation = (beta: number, data: LifeData): number => {
+  let sumTb = 0;
+  let sumTbLn = 0;
+  let sumLnFailures = 0;
+  let failures = 0;
+  data.times.forEach((t, i) => {
+    const tb = Math.pow(t, beta);
+    sumTb += tb;
+    sumTbLn += tb * Math.log(t);
+    if (!data.censored[i]) {
+      sumLnFailures += Math.log(t);
+      failures++;
+    }
+  });
+  return sumTbLn / sumTb - 1 / beta - sumLnFailures / failures;
+};
+
+export const fitMLE = (data: LifeData): WeibullFit | null => {
+  const failures = data.censored.filter(c => !c).length;
+  if (failures < 2 || data.times.some(t => !(t > 0))) return null;
+
+  // The shape equation is monotonic in beta, so bisection is robust
+  let low = 0.01;
+  let high = 50;
+  if (mleShapeEquation(low, data) > 0 || mleShapeEquation(high, data) < 0) return null;
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    if (mleShapeEquation(mid, data) > 0) high = mid;
+    else low = mid;
+  }
+  const beta = (low + high) / 2;
+  const eta = Math.pow(data.times.reduce((s, t) => s + Math.pow(t, beta), 0) / failures, 1 / beta);
+
+  const logLikelihood = data.times.reduce((s, t, i) => {
+    const z = Math.pow(t / eta, beta);
+    return s - z + (data.censored[i] ? 0 : Math.log(beta / eta) + (beta - 1) * Math.log(t / eta));
+  }, 0);
+
+  return { method: 'mle', beta, eta, logLikelihood, failures, suspensions: data.times.length - failures };
+};
+
+export const fitWeibull = (data: LifeData, method: WeibullMethod): WeibullFit | null =>
+  method === 'mle' ? fitMLE(data) : fitRankRegression(data);
+
+// --- Model use ---
+
+export const weibullUnreliability = (t: number, fit: Pick<WeibullFit, 'beta' | 'eta'>): number =>
+  1 - Math.exp(-Math.pow(t / fit.eta, fit.beta));
+
+// Life by which the given fraction of the population has failed (B10 for 0.1)
+export const bLife = (fraction: number, fit: Pick<WeibullFit, 'beta' | 'eta'>): number =>
+  fit.eta * Math.pow(-Math.log(1 - fraction), 1 / fit.beta);
+
+// Gamma function (Lanczos approximation), used for the Weibull mean life
+export const gamma = (z: number): number => {
+  if (z < 0.5) return Math.PI / (Math.sin(Math.PI * z) * gamma(1 - z));
+  const g = 7;
+  const c = [0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313, -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7];
+  const x0 = z - 1;
+  let x = c[0];
+  for (let i = 1; i < g + 2; i++) x += c[i] / (x0 + i);
+  const t = x0 + g + 0.5;
+  return Math.sqrt(2 * Math.PI) * Math.pow(t, x0 + 0.5) * Math.exp(-t) * x;
+};
+
+export const weibullMean = (fit: Pick<WeibullFit, 'beta' | 'eta'>): number => fit.eta * gamma(1 + 1 / fit.beta);
+
+// Occurrence from the study's occurrence scale ("1 in N" per unit over the reference period)
+export const occurrenceFromProbability = (probability: number, scale: RiskScaleLevel[] = DEFAULT_RISK_SCHEME.occurrence): number => {
+  const bands = scale.filter(l => l.probability !== undefined).sort((a, b) => b.probability! - a.probability!);
+  return bands.find(band => probability >= band.probability!)?.score || Math.min(...scale.map(l => l.score));
+};
+
+/**
+ * Proposed occurrence score: probability of failure within one reference period
+ * (one year of operation, expressed in the life unit of the data).
+ */
+export const proposeOccurrence = (fit: Pick<WeibullFit, 'beta' | 'eta'>, periodLength: number, scale?: RiskScaleLevel[]): number =>
+  occurrenceFromProbability(weibullUnreliability(periodLength, fit), scale);
@@ -0,0 +1,106 @@
+import { RCMItem, SignOff, StudyWorkflow, WorkflowState } from "../types";
+
+// Study review workflow (Draft → In Review → Approved → Issued) with named sign-offs,
+// and per-item approval that locks an item until it is reopened with a reason.
+
+export const WORKFLOW_STATES: { id: WorkflowState; label: string }[] = [
+  { id: 'draft', label: 'Draft' },
+  { id: 'in-review', label: 'In Review' },
+  { id: 'approved', label: 'Approved' },
+  { id: 'issued', label: 'Issued' }
+];
+
+export interface WorkflowTransition {
+  from: WorkflowState;
+  to: WorkflowState;
+  action: string;
+  role: string;
+  requiresComment: boolean;
+}
+
+export const WORKFLOW_TRANSITIONS: WorkflowTransition[] = [
+  { from: 'draft', to: 'in-review', action: 'Submit for Review', role: 'Author', requiresComment: false },
+  { from: 'in-review', to: 'draft', action: 'Return to Draft', role: 'Reviewer', requiresComment: true },
+  { from: 'in-review', to: 'approved', action: 'Approve Study', role: 'Approver', requiresComment: false },
+  { from: 'approved', to: 'issued', action: 'Issue Study', role: 'Issuer', requiresComment: false },
+  { from: 'approved', to: 'draft', action: 'Reopen', role: 'Approver', requiresComment: true },
+  { from: 'issued', to: 'draft', action: 'Reopen', role: 'Approver', requiresComment: true }
+];
+
+export const DEFAULT_WORKFLOW: StudyWorkflow = { state: 'draft', signOffs: [] };
+
+export const normalizeWorkflow = (workflow?: StudyWorkflow): StudyWorkflow => workflow || DEFAULT_WORKFLOW;
+
+export const workflowStateLabel = (state: WorkflowState): string =>
+  WORKFLOW_STATES.find(s => s.id === state)?.label || state;
+
+export const availableTransitions = (state: WorkflowState): WorkflowTransition[] =>
+  WORKFLOW_TRANSITIONS.filter(t => t.from === state);
+
+/** Revision number of the study document: one per issue, with the next number while a revision is in preparation. */
+export const documentRevision = (workflow: StudyWorkflow): number => {
+  const issues = workflow.signOffs.filter(s => s.to === 'issued').length;
+  return workflow.state === 'issued' ? issues : issues + 1;
+};
+
+/** Reason a transition cannot be taken yet, or null when it can. */
+export const transitionBlocker = (transition: WorkflowTransition, items: RCMItem[]): string | null => {
+  if (transition.to === 'approved') {
+    const open = items.filter(item => !item.isApproved).length;
+    if (open > 0) return `${open} failure modes are not approved yet.`;
+  }
+  return null;
+};
+
+export const applyTransition = (workflow: StudyWorkflow, transition: WorkflowTransition, name: string, comment?: string): StudyWorkflow => {
+  const signOff: SignOff = {
+    id: `signoff-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`,
+    name: name.trim(),
+    role: transition.role,
+    from: transition.from,
+    to: transition.to,
+    timestamp: Date.now(),
+    comment: comment?.trim() || undefined
+  };
+  return { state: transition.to, signOffs: [...workflow.signOffs, signOff] };
+};
+
+export const approveItem = (item: RCMItem, name: string): RCMItem => ({
+  ...item,
+  isApproved: true,
+  approval: { approvedBy: name.trim(), approvedAt: Date.now() }
+});
+
+export const reopenItem = (item: RCMItem, name: string, reason: string): RCMItem => ({
+  ...item,
+  isApproved: false,
+  approval: undefined,
+  reopenLog: [...(item.reopenLog || []), { reopenedBy: name.trim(), reopenedAt: Date.now(), reason: reason.trim() }]
+});
+
+/**
+ * Guards approved items against edits from any source (table, modals, copilot, bulk AI runs).
+ * Locked items keep their previous content apart from review notes and validation results;
+ * they can only be unlocked through reopenItem, and are put back if something removes them.
+ */
+export const enforceApprovalLocks = (previous: RCMItem[], next: RCMItem[]): RCMItem[] => {
+  const before = new Map(previous.filter(Boolean).map(item => [item.id, item]));
+  const nextIds = new Set(next.filter(Boolean).map(item => item.id));
+  const guarded = next.map(item => {
+    const locked = item && before.get(item.id);
+    if (!locked?.isApproved) return item;
+    const reopened = !item.isApproved && (item.reopenLog?.length || 0) > (locked.reopenLog?.length || 0);
+    if (reopened) return item;
+    return { ...locked, reviewComments: item.reviewComments, validationIssues: item.validationIssues };
+  });
+  return [...guarded, ...previous.filter(item => item?.isApproved && !nextIds.has(item.id))];
+};
+
+// Name used on sign-offs, remembered on this device
+const REVIEWER_KEY = 'rcm_reviewer_name';
+
+export const getReviewerName = (): string => localStorage.getItem(REVIEWER_KEY) || '';
+
+export const saveReviewerName = (name: string) => {
+  localStorage.setItem(REVIEWER_KEY, name.trim());
+};
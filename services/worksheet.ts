@@ -0,0 +1,118 @@
+import { FunctionalFailureRecord, RCMItem, StudyFunction } from "../types";
+
+// FMEA worksheet structure: functions -> functional failures -> failure modes (items).
+// Items carry the ids of their function and functional failure; the text fields on the item
+// mirror the records so prompts and reports that read them keep working.
+
+const normalize = (text: string) => (text || '').trim().replace(/\s+/g, ' ').toLowerCase();
+
+const newId = (prefix: string) => `${prefix}-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`;
+
+const groupBy = <T>(list: T[], key: (entry: T) => string | undefined): Map<string, T[]> => {
+  const groups = new Map<string, T[]>();
+  list.forEach(entry => {
+    const k = key(entry);
+    if (k) groups.set(k, [...(groups.get(k) || []), entry]);
+  });
+  return groups;
+};
+
+// When every item on a record carries the same new text, the record takes it and keeps its id
+const consensusText = (texts: string[], current: string, taken: string[]): string | null => {
+  const distinct = new Set(texts.map(normalize));
+  if (distinct.size !== 1) return null;
+  const [text] = [...distinct];
+  if (text === normalize(current) || taken.some(t => normalize(t) === text)) return null;
+  return texts[0].trim();
+};
+
+/**
+ * Links every item to function and functional failure records. Text edits shared by all items
+ * of a record rename it in place; an item whose text no longer matches moves to the record
+ * with that text, created if needed. Records that no item refers to are dropped.
+ */
+export const linkWorksheet = (items: RCMItem[], functions: StudyFunction[]): { items: RCMItem[]; functions: StudyFunction[] } => {
+  const records: StudyFunction[] = functions.map(f => ({ ...f, functionalFailures: f.functionalFailures.map(ff => ({ ...ff })) }));
+
+  groupBy(items, i => i.functionId).forEach((group, id) => {
+    const fn = records.find(f => f.id === id);
+    if (!fn) return;
+    const renamed = consensusText(group.map(i => i.function), fn.description, records.filter(f => f !== fn).map(f => f.description));
+    if (renamed) fn.description = renamed;
+    const types = new Set(group.map(i => i.functionType));
+    if (types.size === 1) fn.functionType = group[0].functionType;
+
+    groupBy(group, i => i.functionalFailureId).forEach((failures, failureId) => {
+      const ff = fn.functionalFailures.find(f => f.id === failureId);
+      if (!ff) return;
+      const renamedFailure = consensusText(failures.map(i => i.functionalFailure), ff.description, fn.functionalFailures.filter(f => f !== ff).map(f => f.description));
+      if (renamedFailure) ff.description = renamedFailure;
+    });
+  });
+
+  const linked = items.map(item => {
+    let fn = records.find(f => f.id === item.functionId && normalize(f.description) === normalize(item.function))
+      || records.find(f => normalize(f.description) === normalize(item.function));
+    if (!fn) {
+      fn = { id: newId('fn'), functionType: item.functionType || 'Primary', description: (item.function || '').trim(), functionalFailures: [] };
+      records.push(fn);
+    }
+
+    let ff: FunctionalFailureRecord | undefined = fn.functionalFailures.find(f => f.id === item.functionalFailureId && normalize(f.description) === normalize(item.functionalFailure))
+      || fn.functionalFailures.find(f => normalize(f.description) === normalize(item.functionalFailure));
+    if (!ff) {
+      ff = { id: newId('ff'), description: (item.functionalFailure || '').trim() };
+      fn.functionalFailures.push(ff);
+    }
+
+    const unchanged = item.functionId === fn.id && item.functionalFailureId === ff.id && item.function === fn.description
+      && item.functionType === fn.functionType && item.functionalFailure === ff.description;
+    return unchanged ? item : {
+      ...item,
+      functionId: fn.id,
+      function: fn.description,
+      functionType: fn.functionType,
+      functionalFailureId: ff.id,
+      functionalFailure: ff.description
+    };
+  });
+
+  const usedFailures = new Set(linked.map(i => i.functionalFailureId));
+  const kept = records
+    .filter(f => linked.some(i => i.functionId === f.id))
+    .map(f => ({ ...f, functionalFailures: f.functionalFailures.filter(ff => usedFailures.has(ff.id)) }));
+
+  return { items: linked, functions: kept };
+};
+
+/**
+ * Applies an edited item to the worksheet: changes to the function or functional failure text of a
+ * record carry over to every item linked to the same record.
+ */
+export const propagateWorksheetEdit = (items: RCMItem[], original: RCMItem, edited: RCMItem): RCMItem[] => {
+  const functionChanged = !!edited.functionId && edited.functionId === original.functionId
+    && (edited.function !== original.function || edited.functionType !== original.functionType);
+  const failureChanged = !!edited.functionalFailureId && edited.functionalFailureId === original.functionalFailureId
+    && edited.functionalFailure !== original.functionalFailure;
+  return items.map(item => {
+    if (item.id === edited.id) return edited;
+    let next = item;
+    if (functionChanged && item.functionId === edited.functionId) next = { ...next, function: edited.function, functionType: edited.functionType };
+    if (failureChanged && item.functionalFailureId === edited.functionalFailureId) next = { ...next, functionalFailure: edited.functionalFailure };
+    return next;
+  });
+};
+
+/**
+ * Worksheet order for tables and exports: primary functions first, then functions and their
+ * failures in the order they were recorded.
+ */
+export const compareByWorksheet = (functions: StudyFunction[]) => {
+  const functionIndex = new Map(functions.map((f, index) => [f.id, index]));
+  const failureIndex = new Map(functions.flatMap(f => f.functionalFailures.map((ff, index) => [ff.id, index] as [string, number])));
+  const position = (map: Map<string, number>, id?: string) => map.get(id || '') ?? Number.MAX_SAFE_INTEGER;
+  return (a: RCMItem, b: RCMItem): number =>
+    (a.functionType || '').localeCompare(b.functionType || '')
+    || position(functionIndex, a.functionId) - position(functionIndex, b.functionId)
+    || position(failureIndex, a.functionalFailureId) - position(failureIndex, b.functionalFailureId);
+};
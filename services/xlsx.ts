@@ -0,0 +1,199 @@
+import { RiskLevel } from "../types";
+import { createZip, readZip } from "./zip";
+
+// Client-side SpreadsheetML (.xlsx) support. The writer uses inline strings, a fixed style table,
+// merged ranges, frozen panes and column widths; the reader returns cell text per sheet.
+
+export type XlsxStyle = 'default' | 'header' | 'title' | 'label' | RiskLevel;
+
+// Index in cellXfs of styles.xml below
+const STYLE_INDEX: Record<XlsxStyle, number> = { default: 1, header: 2, title: 3, label: 4, High: 5, Medium: 6, Low: 7 };
+
+export interface XlsxCell {
+  value: string | number | null | undefined;
+  style?: XlsxStyle;
+}
+
+export interface XlsxMerge {
+  row: number; // Zero-based
+  col: number;
+  rowSpan: number;
+  colSpan: number;
+}
+
+export interface XlsxSheet {
+  name: string;
+  rows: XlsxCell[][];
+  merges?: XlsxMerge[];
+  columnWidths?: number[];
+  freezeRows?: number;
+  freezeCols?: number;
+}
+
+export const cell = (value: XlsxCell['value'], style?: XlsxStyle): XlsxCell => ({ value, style });
+
+export const columnName = (index: number): string => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  return name;
+};
+
+const cellRef = (row: number, col: number) => `${columnName(col)}${row + 1}`;
+
+// Control characters are not allowed in XML 1.0
+const escapeXml = (text: string) => text
+  .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, '')
+  .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Excel limits sheet names to 31 characters without []:*?/\
+const sheetName = (name: string) => name.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31) || 'Sheet';
+
+const cellXml = (c: XlsxCell, row: number, col: number): string => {
+  const style = STYLE_INDEX[c.style || 'default'];
+  const ref = cellRef(row, col);
+  if (c.value === null || c.value === undefined || c.value === '') return `<c r="${ref}" s="${style}"/>`;
+  if (typeof c.value === 'number' && Number.isFinite(c.value)) return `<c r="${ref}" s="${style}"><v>${c.value}</v></c>`;
+  return `<c r="${ref}" s="${style}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(c.value))}</t></is></c>`;
+};
+
+const sheetXml = (sheet: XlsxSheet): string => {
+  const freezeRows = sheet.freezeRows || 0;
+  const freezeCols = sheet.freezeCols || 0;
+  const pane = freezeRows || freezeCols
+    ? `<pane${freezeCols ? ` xSplit="${freezeCols}"` : ''}${freezeRows ? ` ySplit="${freezeRows}"` : ''} topLeftCell="${cellRef(freezeRows, freezeCols)}" activePane="${freezeRows && freezeCols ? 'bottomRight' : freezeRows ? 'bottomLeft' : 'topRight'}" state="frozen"/>`
+    : '';
+  const cols = sheet.columnWidths?.length
+    ? `<cols>${sheet.columnWidths.map((width, i) => `<col min="${i + 1}" max="${i + 1}" width="${width}" customWidth="1"/>`).join('')}</cols>`
+    : '';
+  const rows = sheet.rows.map((cells, r) => `<row r="${r + 1}">${cells.map((c, col) => cellXml(c, r, col)).join('')}</row>`).join('');
+  const merges = sheet.merges?.filter(m => m.rowSpan > 1 || m.colSpan > 1) || [];
+  const mergeXml = merges.length
+    ? `<mergeCells count="${merges.length}">${merges.map(m => `<mergeCell ref="${cellRef(m.row, m.col)}:${cellRef(m.row + m.rowSpan - 1, m.col + m.colSpan - 1)}"/>`).join('')}</mergeCells>`
+    : '';
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetViews><sheetView workbookViewId="0">${pane}</sheetView></sheetViews>${cols}<sheetData>${rows}</sheetData>${mergeXml}</worksheet>`;
+};
+
+const border = '<border><left style="thin"><color rgb="FFCBD5E1"/></left><right style="thin"><color rgb="FFCBD5E1"/></right><top style="thin"><color rgb="FFCBD5E1"/></top><bottom style="thin"><color rgb="FFCBD5E1"/></bottom><diagonal/></border>';
+const fill = (rgb: string) => `<fill><patternFill patternType="solid"><fgColor rgb="${rgb}"/><bgColor indexed="64"/></patternFill></fill>`;
+const xf = (fontId: number, fillId: number, borderId: number) =>
+  `<xf numFmtId="0" fontId="${fontId}" fillId="${fillId}" borderId="${borderId}" xfId="0" applyFont="1" applyFill="1" applyBorder="1" applyAlignment="1"><alignment vertical="top" wrapText="1"/></xf>`;
+
+// Fonts: 0 regular, 1 bold white, 2 bold large, 3 bold. Fills 0-1 are reserved by Excel.
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<fonts count="4"><font><sz val="10"/><name val="Calibri"/></font><font><b/><sz val="10"/><color rgb="FFFFFFFF"/><name val="Calibri"/></font><font><b/><sz val="14"/><name val="Calibri"/></font><font><b/><sz val="10"/><name val="Calibri"/></font></fonts>
+<fills count="7"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill>${fill('FF0F172A')}${fill('FFFEE2E2')}${fill('FFFEF3C7')}${fill('FFD1FAE5')}${fill('FFF1F5F9')}</fills>
+<borders count="2"><border><left/><right/><top/><bottom/><diagonal/></border>${border}</borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="8"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>${xf(0, 0, 1)}${xf(1, 2, 1)}<xf numFmtId="0" fontId="2" fillId="0" borderId="0" xfId="0" applyFont="1"/>${xf(3, 6, 1)}${xf(0, 3, 1)}${xf(0, 4, 1)}${xf(0, 5, 1)}</cellXfs>
+<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>
+</styleSheet>`;
+
+export const buildXlsx = (sheets: XlsxSheet[]): Uint8Array => {
+  const names = sheets.map(s => sheetName(s.name));
+  return createZip([
+    {
+      name: '[Content_Types].xml',
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>${sheets.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('')}</Types>`
+    },
+    {
+      name: '_rels/.rels',
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`
+    },
+    {
+      name: 'xl/workbook.xml',
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>${names.map((name, i) => `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('')}</sheets></workbook>`
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${sheets.map((_, i) => `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('')}<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>`
+    },
+    { name: 'xl/styles.xml', data: STYLES_XML },
+    ...sheets.map((sheet, i) => ({ name: `xl/worksheets/sheet${i + 1}.xml`, data: sheetXml(sheet) }))
+  ]);
+};
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// --- Reading ---
+
+export interface XlsxTable {
+  name: string;
+  rows: string[][];
+}
+
+const parseXml = (data: Uint8Array | undefined): Document | null =>
+  data ? new DOMParser().parseFromString(new TextDecoder().decode(data), 'application/xml') : null;
+
+// Elements by local name, so documents with or without a namespace prefix both work
+const elements = (parent: Document | Element, name: string): Element[] =>
+  Array.from(parent.getElementsByTagNameNS('*', name));
+
+const columnIndex = (ref: string): number => {
+  const letters = ref.replace(/[^A-Z]/gi, '').toUpperCase();
+  return letters.split('').reduce((n, ch) => n * 26 + ch.charCodeAt(0) - 64, 0) - 1;
+};
+
+const rowIndex = (ref: string): number => parseInt(ref.replace(/[^0-9]/g, ''), 10) - 1;
+
+const resolvePart = (target: string) => target.startsWith('/') ? target.slice(1) : `xl/${target.replace(/^\.\//, '')}`;
+
+/**
+ * Reads the cell text of every sheet. Values are taken as displayed in shared or inline strings,
+ * numbers are kept as written, and merged ranges repeat their top-left value in every cell.
+ */
+export const readXlsx = async (data: Uint8Array): Promise<XlsxTable[]> => {
+  const files = await readZip(data);
+  const workbook = parseXml(files.get('xl/workbook.xml'));
+  if (!workbook) throw new Error('The file is not an Excel workbook.');
+  const rels = parseXml(files.get('xl/_rels/workbook.xml.rels'));
+  const targets = new Map(rels ? elements(rels, 'Relationship').map(r => [r.getAttribute('Id') || '', r.getAttribute('Target') || '']) : []);
+  const shared = parseXml(files.get('xl/sharedStrings.xml'));
+  const sharedStrings = shared ? elements(shared, 'si').map(si => elements(si, 't').map(t => t.textContent || '').join('')) : [];
+
+  return elements(workbook, 'sheet').map((sheet, index) => {
+    const relId = sheet.getAttribute('r:id') || sheet.getAttributeNS('http://schemas.openxmlformats.org/officeDocument/2006/relationships', 'id') || '';
+    const target = targets.get(relId);
+    const doc = parseXml(files.get(target ? resolvePart(target) : `xl/worksheets/sheet${index + 1}.xml`));
+    const rows: string[][] = [];
+    if (doc) {
+      // The r attributes are optional: a row or cell without one follows the previous position
+      let r = -1;
+      elements(doc, 'row').forEach(row => {
+        const rowRef = row.getAttribute('r');
+        r = rowRef ? parseInt(rowRef, 10) - 1 : r + 1;
+        let col = -1;
+        elements(row, 'c').forEach(c => {
+          const ref = c.getAttribute('r');
+          const type = c.getAttribute('t');
+          const v = elements(c, 'v')[0]?.textContent || '';
+          const text = type === 's' ? sharedStrings[parseInt(v, 10)] || ''
+            : type === 'inlineStr' ? elements(c, 't').map(t => t.textContent || '').join('')
+            : type === 'b' ? (v === '1' ? 'TRUE' : 'FALSE')
+            : v;
+          col = ref ? columnIndex(ref) : col + 1;
+          if (r < 0 || col < 0 || Number.isNaN(r)) return;
+          (rows[r] = rows[r] || [])[col] = text;
+        });
+      });
+      elements(doc, 'mergeCell').forEach(m => {
+        const [from, to] = (m.getAttribute('ref') || '').split(':');
+        if (!from || !to) return;
+        const value = rows[rowIndex(from)]?.[columnIndex(from)] || '';
+        for (let r = rowIndex(from); r <= rowIndex(to); r++) {
+          for (let col = columnIndex(from); col <= columnIndex(to); col++) (rows[r] = rows[r] || [])[col] = value;
+        }
+      });
+    }
+    const width = Math.max(0, ...rows.map(row => row?.length || 0));
+    return {
+      name: sheet.getAttribute('name') || `Sheet${index + 1}`,
+      rows: Array.from({ length: rows.length }, (_, r) => Array.from({ length: width }, (_, col) => rows[r]?.[col] ?? ''))
+    };
+  });
+};
@@ -32,35 +32,304 @@ export type ConsequenceCategory =
   | 'Evident - Operational'
   | 'Evident - Non-Operational';
 
+export type RiskLevel = 'High' | 'Medium' | 'Low';
+
+export interface RiskScaleLevel {
+  score: number;
+  label: string;
+  description: string;
+  probability?: number; // Occurrence only: lowest yearly failure probability per unit for this score
+}
+
+export type CriticalityMethod = 'rpn' | 'matrix';
+
+// Primary ranking for tables, charts and exports: RPN or AIAG-VDA Action Priority
+export type RankingMethod = 'rpn' | 'ap';
+
+export interface RiskScheme {
+  id: string;
+  name: string;
+  method: CriticalityMethod;
+  ranking: RankingMethod;
+  // Levels are listed from the highest score down, as in the reference tables
+  severity: RiskScaleLevel[];
+  occurrence: RiskScaleLevel[];
+  detection: RiskScaleLevel[];
+  rpnThresholds: { high: number; medium: number };
+  matrix: RiskLevel[][]; // [severity - 1][occurrence - 1]
+}
+
+export type TaskType =
+  | 'Condition Monitoring'
+  | 'Time-Based'
+  | 'Run-to-Failure'
+  | 'Redesign'
+  | 'Failure Finding'
+  | 'Lubrication'
+  | 'Servicing'
+  | 'Restoration'
+  | 'Replacement'
+  | 'Training'
+  | 'Procedural Change';
+
+export type DecisionNodeId =
+  | 'evident'
+  | 'safety'
+  | 'operational'
+  | 'pfFeasible'
+  | 'ageRelated'
+  | 'conditionTask'
+  | 'scheduledTask'
+  | 'failureFinding'
+  | 'redesign'
+  | 'runToFailure';
+
+export interface DecisionAnswers {
+  evident: boolean;
+  safetyEnvironmental: boolean;
+  operational: boolean;
+  pfFeasible?: boolean; // A detectable potential failure exists with a usable P-F interval; unset until answered
+  ageRelated?: boolean; // Conditional probability of failure rises with age; unset until answered
+}
+
+export interface DecisionRecord {
+  answers: DecisionAnswers;
+  path: DecisionNodeId[];
+  allowedTaskTypes: TaskType[];
+  recommendedTaskType: TaskType;
+  isTaskPermitted: boolean;
+  missingAnswers: DecisionNodeId[]; // Unanswered questions the chosen task depends on
+}
+
+export type IntervalUnit = 'hours' | 'days' | 'weeks' | 'months' | 'years' | 'cycles';
+
+export type IntervalBasis = 'calendar' | 'running hours' | 'cycles' | 'condition-triggered';
+
+export interface MaintenanceInterval {
+  value: number; // 0 when no recurring interval applies
+  unit: IntervalUnit;
+  basis: IntervalBasis;
+  note?: string; // Original free text kept when a legacy interval could not be parsed
+}
+
+export interface PFOptimizationInputs {
+  pfInterval: MaintenanceInterval;
+  minNetPF: MaintenanceInterval; // Lead time needed to plan and act once a potential failure is found
+  probabilityOfDetection: number; // 0-1, per inspection
+  inspectionCost: number;
+  failureCost: number;
+  mtbf: MaintenanceInterval;
+}
+
+export interface PFOptimizationResult {
+  inspectionsInWindow: number;
+  interval: MaintenanceInterval;
+  residualRisk: number; // Probability a developing failure is missed by every inspection
+  costPerYear: number;
+  undetectedFailuresPerYear: number;
+}
+
+// Saved with the item so the chosen interval can be audited later
+export interface PFOptimizationRecord {
+  inputs: PFOptimizationInputs;
+  result: PFOptimizationResult;
+  calculatedAt: number;
+}
+
+export interface FailureRecord {
+  id: string;
+  date: string; // ISO date of the failure or removal
+  operatingHours?: number; // Running hours since the previous renewal
+  censored: boolean; // Removed or still running without failing (suspension)
+  note?: string;
+}
+
+export type WeibullMethod = 'rank-regression' | 'mle';
+
+export type WeibullLifeUnit = 'hours' | 'days';
+
+export interface WeibullFit {
+  method: WeibullMethod;
+  beta: number; // Shape
+  eta: number; // Scale (characteristic life)
+  rSquared?: number;
+  logLikelihood?: number;
+  failures: number;
+  suspensions: number;
+}
+
+export interface WeibullAnalysis {
+  fit: WeibullFit;
+  lifeUnit: WeibullLifeUnit;
+  fittedAt: number;
+}
+
+export interface AgeReplacementInputs {
+  source: 'weibull' | 'mtbf';
+  beta: number;
+  eta: number;
+  mtbf?: number; // Used with a shape guess when no Weibull fit exists
+  unit: Exclude<IntervalUnit, 'cycles'>;
+  basis: 'calendar' | 'running hours';
+  preventiveCost: number;
+  failureCost: number;
+}
+
+export interface AgeReplacementResult {
+  optimumAge: number | null; // null when no finite optimum exists (beta <= 1 or cost ratio too low)
+  costRateAtOptimum: number;
+  runToFailureCostRate: number;
+  savingsFraction: number;
+  worthwhile: boolean;
+}
+
+export interface AgeReplacementRecord {
+  inputs: AgeReplacementInputs;
+  result: AgeReplacementResult;
+  calculatedAt: number;
+}
+
+export type FFIFormula = 'simplified' | 'exponential';
+
+export interface FailureFindingInputs {
+  deviceMtbf: MaintenanceInterval; // Mean time between failures of the protective device
+  demandRate: number; // Demands on the protective device per year
+  tolerableProbability: number; // Tolerable probability of the multiple failure per year
+  testDurationHours: number; // Time the device is out of service during each test
+  formula: FFIFormula;
+}
+
+export interface FailureFindingResult {
+  requiredAvailability: number;
+  minimumUnavailability: number; // Best achievable, limited by test downtime
+  achievable: boolean;
+  simplifiedDays: number | null; // FFI = 2 * U * MTBF
+  exponentialDays: number | null; // Solved from U = 1 - (MTBF / FFI)(1 - e^(-FFI / MTBF))
+  interval: MaintenanceInterval | null;
+}
+
+export interface FailureFindingRecord {
+  inputs: FailureFindingInputs;
+  result: FailureFindingResult;
+  calculatedAt: number;
+}
+
+// Post-mitigation scores once the selected task is in place; the item's own S/O/D are the initial scores
+export interface ResidualRisk {
+  severity: number;
+  occurrence: number;
+  detection: number;
+  rpn: number;
+  source: 'manual' | 'estimated';
+}
+
+// ISO 14224 equipment hierarchy, taxonomy levels 3 (installation) to 8 (maintainable item)
+export type AssetLevel = 'installation' | 'plant' | 'system' | 'equipment' | 'subunit' | 'maintainable-item';
+
+export interface AssetNode {
+  id: string;
+  parentId?: string; // Undefined for top-level nodes
+  level: AssetLevel;
+  name: string;
+  functionalLocation?: string; // Functional location code in the CMMS, e.g. 10-P-101-01
+  assetTag?: string; // Equipment / asset number of the physical unit
+  equipmentClass?: string; // ISO 14224 equipment class, set on equipment units
+}
+
+export type FunctionType = 'Primary' | 'Secondary';
+
+export interface FunctionalFailureRecord {
+  id: string;
+  description: string;
+}
+
+// FMEA worksheet records: a function owns its functional failures, failure modes (items) point at both
+export interface StudyFunction {
+  id: string;
+  functionType: FunctionType;
+  description: string;
+  functionalFailures: FunctionalFailureRecord[];
+}
+
+export type ValidationSeverity = 'error' | 'warning' | 'info';
+
+export interface ValidationIssue {
+  ruleId: string;
+  severity: ValidationSeverity;
+  message: string;
+}
+
+export interface ItemApproval {
+  approvedBy: string;
+  approvedAt: number;
+}
+
+// Why and by whom an approved item was unlocked again
+export interface ReopenRecord {
+  reopenedBy: string;
+  reopenedAt: number;
+  reason: string;
+}
+
+// A comment without parentId opens a thread; replies point at the thread's first comment
+export interface ReviewComment {
+  id: string;
+  author: string;
+  timestamp: number;
+  text: string;
+  parentId?: string;
+  resolved?: boolean; // Thread state, kept on the opening comment
+  resolvedBy?: string;
+  resolvedAt?: number;
+}
+
 export interface RCMItem {
   id: string;
-  component: string;
+  component: string; // Name of the linked asset node
+  assetNodeId?: string;
   componentType: 'Electrical' | 'Mechanical';
-  functionType: 'Primary' | 'Secondary';
-  function: string;
-  functionalFailure: string;
+  functionType: FunctionType;
+  function: string; // Text of the linked function record
+  functionId?: string;
+  functionalFailure: string; // Text of the linked functional failure record
+  functionalFailureId?: string;
   failureMode: string;
   failureEffect: string;
-  criticality: 'High' | 'Medium' | 'Low';
+  criticality: RiskLevel;
   
   consequenceCategory: ConsequenceCategory;
-  iso14224Code: string;
+  iso14224Code: string; // ISO 14224 failure mode code, valid for the equipment class
+  equipmentClass?: string; // Mirrors the class of the item's equipment unit; unplaced items carry their own
+  failureMechanism?: string;
+  failureCause?: string;
+  detectionMethod?: string;
 
   severity: number;
   occurrence: number;
   detection: number;
   rpn: number;
+  actionPriority?: RiskLevel; // AIAG-VDA AP, derived from S/O/D on every update
+  residual?: ResidualRisk;
 
   maintenanceTask: string;
-  interval: string;
-  pfInterval?: string; // New field for reliability optimization
-  taskType: 'Condition Monitoring' | 'Time-Based' | 'Run-to-Failure' | 'Redesign' | 'Failure Finding' | 'Lubrication' | 'Servicing' | 'Restoration' | 'Replacement' | 'Training' | 'Procedural Change';
+  interval: MaintenanceInterval;
+  pfInterval?: MaintenanceInterval; // New field for reliability optimization
+  pfOptimization?: PFOptimizationRecord;
+  failureHistory?: FailureRecord[];
+  weibull?: WeibullAnalysis;
+  ageReplacement?: AgeReplacementRecord;
+  failureFinding?: FailureFindingRecord;
+  taskType: TaskType;
+  decision?: DecisionRecord;
   inspectionSheet?: InspectionSheet;
   componentIntel?: ComponentIntel;
   isNew?: boolean;
   isMiraGenerated?: boolean;
-  isApproved?: boolean;
-  validationIssues?: string[];
+  isApproved?: boolean; // Locked for editing while set; mirrors approval
+  approval?: ItemApproval;
+  reopenLog?: ReopenRecord[];
+  reviewComments?: ReviewComment[];
+  validationIssues?: ValidationIssue[];
 }
 
 export interface AnalysisStats {
@@ -84,6 +353,23 @@ export interface Folder {
   timestamp: number;
 }
 
+export type WorkflowState = 'draft' | 'in-review' | 'approved' | 'issued';
+
+export interface SignOff {
+  id: string;
+  name: string;
+  role: string;
+  from: WorkflowState;
+  to: WorkflowState;
+  timestamp: number;
+  comment?: string;
+}
+
+export interface StudyWorkflow {
+  state: WorkflowState;
+  signOffs: SignOff[];
+}
+
 export interface SavedStudy {
   id: string;
   name: string;
@@ -94,6 +380,87 @@ export interface SavedStudy {
   fileName?: string;
   folderId?: string;
   isFinished?: boolean;
+  riskScheme?: RiskScheme;
+  assetHierarchy?: AssetNode[];
+  functions?: StudyFunction[];
+  workflow?: StudyWorkflow;
+  isGeneric?: boolean; // Generic analysis that site-specific studies are instantiated from
+  template?: TemplateLink; // Set on studies instantiated from a generic analysis
+}
+
+// Template content an instance is compared and synced against
+export interface TemplateSnapshot {
+  timestamp: number;
+  contextText: string;
+  items: RCMItem[];
+}
+
+export interface TemplateSyncRecord {
+  timestamp: number;
+  decision: 'accepted' | 'rejected';
+  summary: string;
+}
+
+export interface TemplateLink {
+  templateId: string;
+  templateName: string;
+  baseline: TemplateSnapshot; // Template state at instantiation or at the last reviewed proposal
+  proposal?: TemplateSnapshot; // Newer template state awaiting accept/reject on this instance
+  syncLog: TemplateSyncRecord[];
+}
+
+export type RevisionReason = 'manual-save' | 'named' | 'finished' | 'before-ai' | 'before-restore' | 'before-template-update';
+
+// Named, persisted copy of a study taken at a meaningful point in its life
+export interface StudyRevision {
+  id: string;
+  studyId: string;
+  timestamp: number;
+  reason: RevisionReason;
+  label: string;
+  snapshot: SavedStudy;
+}
+
+// Curated failure mode template, harvested from an item of a finished study
+export interface LibraryEntry {
+  id: string;
+  key: string; // componentType|equipmentClass, the lookup key of the library
+  componentType: RCMItem['componentType'];
+  equipmentClass?: string;
+  component: string;
+  function: string;
+  functionalFailure: string;
+  failureMode: string;
+  failureEffect: string;
+  consequenceCategory: ConsequenceCategory;
+  iso14224Code: string;
+  failureMechanism?: string;
+  failureCause?: string;
+  detectionMethod?: string;
+  severity: number;
+  occurrence: number;
+  detection: number;
+  scoreMax: { severity: number; occurrence: number; detection: number }; // Scales of the source study
+  maintenanceTask: string;
+  taskType: TaskType;
+  interval: MaintenanceInterval;
+  source: { studyId: string; studyName: string; itemId: string };
+  harvestedAt: number;
+}
+
+// One searchable record per failure mode plus one for the study context, kept in IndexedDB
+export interface SearchIndexEntry {
+  id: string;
+  studyId: string;
+  studyName: string;
+  studyTimestamp: number;
+  itemId?: string; // Unset on the study context entry
+  component: string;
+  failureMode: string;
+  maintenanceTask: string;
+  isoCodes: string;
+  contextText: string;
+  tokens: string[];
 }
 
 declare global {